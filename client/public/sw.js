@@ -0,0 +1,102 @@
+// Giftly service worker - caches the app shell for offline use, shows Web Push messages
+// and opens the page they point at. API responses aren't cached here: the app keeps its
+// own IndexedDB snapshots (src/lib/offlineStore.ts).
+
+// Bump to drop every cached file from older deployments
+const SHELL_CACHE = 'giftly-shell-v1';
+const SHELL_FILES = ['/', '/manifest.json', '/vite.svg'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.addAll(SHELL_FILES);
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => name !== SHELL_CACHE).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// Pages: network first so deploys show up, falling back to the cached shell (the router
+// takes it from there). Built assets are content-hashed, so a cached copy is always right.
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith((async () => {
+            try {
+                const response = await fetch(request);
+                if (response.ok) {
+                    const cache = await caches.open(SHELL_CACHE);
+                    await cache.put('/', response.clone());
+                }
+                return response;
+            } catch {
+                return (await caches.match('/')) || Response.error();
+            }
+        })());
+        return;
+    }
+
+    // Only the production build's /assets; dev-server modules must never be served stale
+    if (url.pathname.startsWith('/assets/') || SHELL_FILES.includes(url.pathname)) {
+        event.respondWith((async () => {
+            const cached = await caches.match(request);
+            if (cached) return cached;
+            const response = await fetch(request);
+            if (response.ok) {
+                const cache = await caches.open(SHELL_CACHE);
+                await cache.put(request, response.clone());
+            }
+            return response;
+        })());
+    }
+});
+
+// Payload: { title, body, url, tag } (see server/src/lib/webPush.ts)
+self.addEventListener('push', (event) => {
+    let message = {};
+    try {
+        message = event.data ? event.data.json() : {};
+    } catch {
+        message = { body: event.data ? event.data.text() : '' };
+    }
+
+    event.waitUntil(self.registration.showNotification(message.title || 'Giftly', {
+        body: message.body || '',
+        icon: '/vite.svg',
+        badge: '/vite.svg',
+        tag: message.tag,
+        data: { url: message.url || '/' },
+    }));
+});
+
+// Focus an open Giftly tab on the target page, or open a new one
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        const existing = windows.find(client => new URL(client.url).origin === self.location.origin);
+        if (existing) {
+            await existing.focus();
+            return existing.navigate(url);
+        }
+        return self.clients.openWindow(url);
+    })());
+});
+
+// The browser rotated the subscription; resubscribe now and the app re-registers it with
+// the server on its next load (API calls need the page's CSRF token)
+self.addEventListener('pushsubscriptionchange', (event) => {
+    if (event.newSubscription || !event.oldSubscription) return;
+    event.waitUntil(self.registration.pushManager.subscribe(event.oldSubscription.options));
+});
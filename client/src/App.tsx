@@ -4,25 +4,37 @@ import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'r
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { Toaster } from '@/components/ui/sonner';
 import { AnimatePresence, motion } from 'framer-motion';
-import axios from 'axios';
+import { configureHttpClient } from '@/lib/http';
 import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
 import DashboardPage from './pages/DashboardPage';
 import WishlistPage from './pages/WishlistPage';
 import ProfilePage from './pages/ProfilePage';
+import ExchangesPage from './pages/ExchangesPage';
+import ExchangePage from './pages/ExchangePage';
+import AddItemPage from './pages/AddItemPage';
+import WrappedPage from './pages/WrappedPage';
+import UserProfilePage from './pages/UserProfilePage';
+import InvitePage from './pages/InvitePage';
 import NotFoundPage from './pages/NotFoundPage';
 import Navbar from './components/features/Navbar';
+import OfflineSync from './components/features/OfflineSync';
 
 
-// Configure axios base URL globally
+// Configure axios base URL, cookie credentials and CSRF/refresh handling globally
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
-axios.defaults.baseURL = API_URL;
+configureHttpClient(API_URL);
 
 /**
- * ProtectedRoute — Redirects to /login if user is not authenticated.
+ * ProtectedRoute — Redirects to /login if user is not authenticated,
+ * remembering where they were headed (e.g. a shared /add?url=... link).
  */
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, isLoading } = useAuth();
+  const location = useLocation();
 
   // Show nothing while checking auth state
   if (isLoading) return (
@@ -31,7 +43,7 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     </div>
   );
 
-  if (!user) return <Navigate to="/login" />;
+  if (!user) return <Navigate to="/login" state={{ from: `${location.pathname}${location.search}` }} />;
   return <>{children}</>;
 }
 
@@ -44,13 +56,16 @@ function AppRoutes() {
   const location = useLocation();
 
   // Auth pages don't get the navbar
-  const isAuthPage = ['/login', '/register'].includes(location.pathname);
+  const isAuthPage = ['/login', '/register', '/forgot-password', '/reset-password'].includes(location.pathname);
 
   return (
     <div className="min-h-screen flex flex-col bg-background text-foreground">
       {/* Navbar on non-auth pages */}
       {!isAuthPage && <Navbar />}
 
+      {/* Offline banner and replay of actions queued while offline */}
+      <OfflineSync />
+
       {/* Page content with route transition */}
       <main className="flex-1">
         <AnimatePresence mode="wait">
@@ -65,20 +80,52 @@ function AppRoutes() {
               {/* Auth pages — full-screen, no navbar */}
               <Route path="/login" element={<LoginPage />} />
               <Route path="/register" element={<RegisterPage />} />
+              <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+              <Route path="/reset-password" element={<ResetPasswordPage />} />
+
+              {/* Public - email verification link target (works signed in or out) */}
+              <Route path="/verify-email" element={<VerifyEmailPage />} />
 
               {/* Protected — dashboard */}
               <Route path="/" element={
                 <ProtectedRoute><DashboardPage /></ProtectedRoute>
               } />
 
+              {/* Protected - quick add from the bookmarklet or share sheet */}
+              <Route path="/add" element={
+                <ProtectedRoute><AddItemPage /></ProtectedRoute>
+              } />
+
               {/* Public - wishlist view (accessible by anyone) */}
               <Route path="/wishlist/:id" element={<WishlistPage />} />
 
+              {/* Public - Gift Wrapped report (where shared Wrapped links land) */}
+              <Route path="/wrapped/:userId" element={<WrappedPage />} />
+
+              {/* Public - profile by vanity username */}
+              <Route path="/u/:username" element={<UserProfilePage />} />
+
               {/* Protected - profile page */}
               <Route path="/profile" element={
                 <ProtectedRoute><ProfilePage /></ProtectedRoute>
               } />
 
+              {/* Protected - gift exchanges (Secret Santa) */}
+              <Route path="/exchanges" element={
+                <ProtectedRoute><ExchangesPage /></ProtectedRoute>
+              } />
+              <Route path="/exchanges/join/:code" element={
+                <ProtectedRoute><ExchangesPage /></ProtectedRoute>
+              } />
+              <Route path="/exchange/:id" element={
+                <ProtectedRoute><ExchangePage /></ProtectedRoute>
+              } />
+
+              {/* Protected - accept a wishlist collaborator invite */}
+              <Route path="/invites/:code" element={
+                <ProtectedRoute><InvitePage /></ProtectedRoute>
+              } />
+
               {/* 404 fallback */}
               <Route path="*" element={<NotFoundPage />} />
             </Routes>
@@ -0,0 +1,521 @@
+// AccountSettings - Profile, notifications, privacy, email, password, devices and account deletion for the signed-in user
+// Rendered as the Settings tab of the profile page
+
+import { useCallback, useEffect, useState } from 'react';
+import type { FormEvent, ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { UserRound, Mail, KeyRound, Wallet, MonitorSmartphone, Trash2, Loader2, LogOut, BellRing, EyeOff } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DEFAULT_CURRENCY, fetchRateTable } from '@/lib/currency';
+import { dashboardSnapshotKey, deleteSnapshot } from '@/lib/offlineStore';
+import {
+    PUSH_EVENT_LABELS,
+    disablePush,
+    enablePush,
+    getPushSubscription,
+    isPushSupported,
+    type PushEvent,
+    type PushPreferences,
+} from '@/lib/push';
+import ImageUploadButton from '@/components/features/ImageUploadButton';
+
+type ProfileSection = 'wrapped' | 'shrine' | 'hauls' | 'badges';
+type Visibility = 'public' | 'friends' | 'private';
+type PrivacySettings = Record<ProfileSection, Visibility>;
+
+const PROFILE_SECTION_LABELS: Record<ProfileSection, string> = {
+    wrapped: 'Gift Wrapped',
+    shrine: 'Holy Grail shrine',
+    hauls: 'Haul Log',
+    badges: 'Level, streak and badges',
+};
+
+const VISIBILITY_LABELS: Record<Visibility, string> = {
+    public: 'Everyone',
+    friends: 'Friends',
+    private: 'Only me',
+};
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+function SettingsSection({ icon: Icon, title, children }: { icon: typeof UserRound; title: string; children: ReactNode }) {
+    return (
+        <section className="bg-card rounded-xl border border-border shadow-sm p-5">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground mb-4">
+                <Icon className="h-4 w-4 text-muted-foreground" /> {title}
+            </h3>
+            {children}
+        </section>
+    );
+}
+
+/**
+ * AccountSettings - Each section saves on its own. Email changes only take
+ * effect once the link sent to the new address is followed; password changes
+ * sign out other devices; deleting the account requires the password.
+ */
+export default function AccountSettings() {
+    const { user, updateUser, logout, logoutAllDevices } = useAuth();
+    const navigate = useNavigate();
+
+    // Profile
+    const [name, setName] = useState(user?.name || '');
+    const [username, setUsername] = useState(user?.username || '');
+    const [avatarUrl, setAvatarUrl] = useState(user?.avatarUrl || '');
+    const [savingProfile, setSavingProfile] = useState(false);
+
+    // Display currency (options come from the server's rate table)
+    const [currencyOptions, setCurrencyOptions] = useState<string[]>([]);
+    const [savingCurrency, setSavingCurrency] = useState(false);
+
+    // Push notifications: this browser's subscription plus the account-wide switches
+    const [pushEnabled, setPushEnabled] = useState(false);
+    const [pushPreferences, setPushPreferences] = useState<PushPreferences | null>(null);
+    const [pushDeviceCount, setPushDeviceCount] = useState(0);
+    const [updatingPush, setUpdatingPush] = useState(false);
+
+    // Who can see each profile section
+    const [privacy, setPrivacy] = useState<PrivacySettings | null>(null);
+
+    // Email change
+    const [newEmail, setNewEmail] = useState('');
+    const [emailPassword, setEmailPassword] = useState('');
+    const [changingEmail, setChangingEmail] = useState(false);
+
+    // Password change
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [changingPassword, setChangingPassword] = useState(false);
+
+    // Signed-in devices (one per refresh-token session)
+    const [sessionCount, setSessionCount] = useState<number | null>(null);
+    const [signingOutEverywhere, setSigningOutEverywhere] = useState(false);
+
+    // Account deletion
+    const [deletePassword, setDeletePassword] = useState('');
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+    const [deleting, setDeleting] = useState(false);
+
+    const loadPushPreferences = useCallback(() => {
+        axios.get('/api/push/preferences')
+            .then(res => {
+                setPushPreferences(res.data.preferences);
+                setPushDeviceCount(res.data.deviceCount);
+            })
+            .catch(() => {
+                // Switches just stay hidden
+            });
+    }, []);
+
+    useEffect(() => {
+        fetchRateTable()
+            .then(table => setCurrencyOptions(Object.keys(table.rates).sort()))
+            .catch(() => {
+                // Picker just shows the current currency
+            });
+        axios.get('/api/auth/sessions')
+            .then(res => setSessionCount(res.data.length))
+            .catch(() => {
+                // Count just stays hidden
+            });
+        getPushSubscription()
+            .then(subscription => setPushEnabled(Boolean(subscription)))
+            .catch(() => {
+                // Shown as off; turning it on re-checks
+            });
+        axios.get('/api/privacy')
+            .then(res => setPrivacy(res.data.settings))
+            .catch(() => {
+                // Pickers just stay hidden
+            });
+        loadPushPreferences();
+    }, [loadPushPreferences]);
+
+    const saveProfile = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || !username.trim() || savingProfile) return;
+        setSavingProfile(true);
+        try {
+            const res = await axios.patch('/api/auth/me', {
+                name: name.trim(),
+                username: username.trim(),
+                avatarUrl: avatarUrl.trim() || null,
+            });
+            updateUser({ name: res.data.name, username: res.data.username, avatarUrl: res.data.avatarUrl });
+            setUsername(res.data.username);
+            toast.success('Profile updated');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to update profile'));
+        } finally {
+            setSavingProfile(false);
+        }
+    };
+
+    // Change the currency totals and Wrapped stats are shown in (optimistic)
+    const updateDisplayCurrency = async (displayCurrency: string) => {
+        if (!user || savingCurrency) return;
+        const previous = user.displayCurrency;
+        updateUser({ displayCurrency });
+        setSavingCurrency(true);
+        try {
+            await axios.patch('/api/auth/me', { displayCurrency });
+            // The saved dashboard has totals in the old currency
+            deleteSnapshot(dashboardSnapshotKey(user.id));
+            toast.success(`Totals will be shown in ${displayCurrency}`);
+        } catch (error) {
+            updateUser({ displayCurrency: previous });
+            toast.error(getApiErrorMessage(error, 'Failed to update currency'));
+        } finally {
+            setSavingCurrency(false);
+        }
+    };
+
+    // Subscribe or unsubscribe this browser; the per-event switches are shared by all devices
+    const togglePush = async () => {
+        if (updatingPush) return;
+        setUpdatingPush(true);
+        try {
+            if (pushEnabled) {
+                await disablePush();
+                setPushEnabled(false);
+                toast.success('Push notifications are off on this device');
+            } else {
+                await enablePush();
+                setPushEnabled(true);
+                toast.success('Push notifications are on for this device');
+            }
+            loadPushPreferences();
+        } catch (error) {
+            toast.error(axios.isAxiosError(error) || !(error instanceof Error)
+                ? getApiErrorMessage(error, 'Failed to update push notifications')
+                : error.message);
+        } finally {
+            setUpdatingPush(false);
+        }
+    };
+
+    // Flip one event's switch (optimistic)
+    const updatePushPreference = async (event: PushEvent, enabled: boolean) => {
+        if (!pushPreferences) return;
+        const previous = pushPreferences;
+        setPushPreferences({ ...previous, [event]: enabled });
+        try {
+            const res = await axios.patch('/api/push/preferences', { [event]: enabled });
+            setPushPreferences(res.data.preferences);
+        } catch (error) {
+            setPushPreferences(previous);
+            toast.error(getApiErrorMessage(error, 'Failed to save notification settings'));
+        }
+    };
+
+    // Change who can see one section (optimistic)
+    const updatePrivacy = async (section: ProfileSection, visibility: Visibility) => {
+        if (!privacy) return;
+        const previous = privacy;
+        setPrivacy({ ...previous, [section]: visibility });
+        try {
+            const res = await axios.patch('/api/privacy', { [section]: visibility });
+            setPrivacy(res.data.settings);
+        } catch (error) {
+            setPrivacy(previous);
+            toast.error(getApiErrorMessage(error, 'Failed to save privacy settings'));
+        }
+    };
+
+    const requestEmailChange = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!newEmail.trim() || !emailPassword || changingEmail) return;
+        setChangingEmail(true);
+        try {
+            const res = await axios.post('/api/auth/email', { email: newEmail.trim(), password: emailPassword });
+            updateUser({ pendingEmail: res.data.pendingEmail });
+            setNewEmail('');
+            setEmailPassword('');
+            toast.success(`Confirmation link sent to ${res.data.pendingEmail}`);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to change email'));
+        } finally {
+            setChangingEmail(false);
+        }
+    };
+
+    const changePassword = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!currentPassword || !newPassword || changingPassword) return;
+        setChangingPassword(true);
+        try {
+            await axios.post('/api/auth/password', { currentPassword, newPassword });
+            setCurrentPassword('');
+            setNewPassword('');
+            setSessionCount(count => (count === null ? count : 1));
+            toast.success('Password updated. Other devices have been signed out.');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to change password'));
+        } finally {
+            setChangingPassword(false);
+        }
+    };
+
+    // Revoke every session, this one included, then send the user to sign in
+    const signOutEverywhere = async () => {
+        if (signingOutEverywhere) return;
+        if (!confirm('Log out of Giftly on every device, including this one?')) return;
+        setSigningOutEverywhere(true);
+        try {
+            await logoutAllDevices();
+            navigate('/login');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to log out other devices'));
+            setSigningOutEverywhere(false);
+        }
+    };
+
+    const deleteAccount = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!deletePassword || deleting) return;
+        setDeleting(true);
+        try {
+            await axios.delete('/api/auth/me', { data: { password: deletePassword } });
+            sessionStorage.clear();
+            await logout();
+            toast.success('Your account has been deleted');
+            navigate('/login');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to delete account'));
+            setDeleting(false);
+        }
+    };
+
+    if (!user) return null;
+
+    return (
+        <div className="space-y-4">
+            <SettingsSection icon={UserRound} title="Profile">
+                <form onSubmit={saveProfile} className="space-y-3">
+                    <div className="space-y-1.5">
+                        <Label htmlFor="settings-name" className="text-xs text-muted-foreground">Name</Label>
+                        <Input id="settings-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={60} />
+                    </div>
+                    <div className="space-y-1.5">
+                        <Label htmlFor="settings-username" className="text-xs text-muted-foreground">Username</Label>
+                        <div className="flex items-center gap-2">
+                            <span className="text-sm text-muted-foreground">@</span>
+                            <Input
+                                id="settings-username"
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value.toLowerCase())}
+                                maxLength={30}
+                                pattern="[a-z0-9_]{3,30}"
+                                title="3-30 letters, numbers or underscores"
+                                autoCapitalize="none"
+                                spellCheck={false}
+                            />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Your public profile lives at {window.location.origin}/u/{username || 'username'}
+                        </p>
+                    </div>
+                    <div className="space-y-1.5">
+                        <Label htmlFor="settings-avatar" className="text-xs text-muted-foreground">Avatar</Label>
+                        <div className="flex gap-2">
+                            <Input
+                                id="settings-avatar"
+                                type="url"
+                                value={avatarUrl}
+                                onChange={(e) => setAvatarUrl(e.target.value)}
+                                placeholder="https://..."
+                            />
+                            <ImageUploadButton kind="avatar" onUploaded={(image) => setAvatarUrl(image.url)} className="h-10 shrink-0" />
+                        </div>
+                    </div>
+                    <Button type="submit" size="sm" disabled={!name.trim() || !username.trim() || savingProfile}>
+                        {savingProfile ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save profile'}
+                    </Button>
+                </form>
+            </SettingsSection>
+
+            <SettingsSection icon={Wallet} title="Display currency">
+                <select
+                    value={user.displayCurrency || DEFAULT_CURRENCY}
+                    onChange={(e) => updateDisplayCurrency(e.target.value)}
+                    disabled={savingCurrency}
+                    className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground"
+                >
+                    {Array.from(new Set([user.displayCurrency || DEFAULT_CURRENCY, ...currencyOptions])).map(code => (
+                        <option key={code} value={code}>{code}</option>
+                    ))}
+                </select>
+                <p className="text-xs text-muted-foreground mt-2">Wishlist totals and Gift Wrapped stats are converted into this currency.</p>
+            </SettingsSection>
+
+            <SettingsSection icon={BellRing} title="Push notifications">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <p className="text-sm text-muted-foreground">
+                        {!isPushSupported()
+                            ? "This browser can't receive push notifications."
+                            : pushEnabled ? 'On for this device' : 'Off for this device'}
+                        {pushDeviceCount > 0 && ` · ${pushDeviceCount} ${pushDeviceCount === 1 ? 'device' : 'devices'} in total`}
+                    </p>
+                    {isPushSupported() && (
+                        <Button type="button" size="sm" variant="outline" onClick={togglePush} disabled={updatingPush}>
+                            {updatingPush
+                                ? <Loader2 className="h-4 w-4 animate-spin" />
+                                : pushEnabled ? 'Turn off here' : 'Turn on here'}
+                        </Button>
+                    )}
+                </div>
+                {pushPreferences && (
+                    <div className="space-y-2 mt-4">
+                        {(Object.keys(PUSH_EVENT_LABELS) as PushEvent[]).map(event => (
+                            <label key={event} className="flex items-start gap-2 text-sm text-foreground cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={pushPreferences[event]}
+                                    onChange={(e) => updatePushPreference(event, e.target.checked)}
+                                    className="accent-primary mt-1"
+                                />
+                                <span>{PUSH_EVENT_LABELS[event]}</span>
+                            </label>
+                        ))}
+                    </div>
+                )}
+                <p className="text-xs text-muted-foreground mt-3">These choices apply to every device with push turned on. The bell menu always shows everything.</p>
+            </SettingsSection>
+
+            <SettingsSection icon={EyeOff} title="Privacy">
+                {privacy ? (
+                    <div className="space-y-3">
+                        {(Object.keys(PROFILE_SECTION_LABELS) as ProfileSection[]).map(section => (
+                            <div key={section} className="flex items-center justify-between gap-3">
+                                <Label htmlFor={`privacy-${section}`} className="text-sm text-foreground font-normal">
+                                    {PROFILE_SECTION_LABELS[section]}
+                                </Label>
+                                <select
+                                    id={`privacy-${section}`}
+                                    value={privacy[section]}
+                                    onChange={(e) => updatePrivacy(section, e.target.value as Visibility)}
+                                    className="rounded-md border border-input bg-background px-2 py-1.5 text-sm text-foreground"
+                                >
+                                    {(Object.keys(VISIBILITY_LABELS) as Visibility[]).map(visibility => (
+                                        <option key={visibility} value={visibility}>{VISIBILITY_LABELS[visibility]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                )}
+                <p className="text-xs text-muted-foreground mt-3">
+                    Friends are people you follow who follow you back. Items on private wishlists never show up for anyone else, whatever you pick here.
+                </p>
+            </SettingsSection>
+
+            <SettingsSection icon={Mail} title="Email">
+                <p className="text-sm text-foreground">{user.email}</p>
+                {user.pendingEmail && (
+                    <p className="text-xs text-amber-600 mt-1">
+                        Waiting for {user.pendingEmail} to be confirmed. Check that inbox for the link.
+                    </p>
+                )}
+                <form onSubmit={requestEmailChange} className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+                    <Input
+                        type="email"
+                        value={newEmail}
+                        onChange={(e) => setNewEmail(e.target.value)}
+                        placeholder="New email"
+                        autoComplete="email"
+                    />
+                    <Input
+                        type="password"
+                        value={emailPassword}
+                        onChange={(e) => setEmailPassword(e.target.value)}
+                        placeholder="Current password"
+                        autoComplete="current-password"
+                    />
+                    <Button type="submit" size="sm" variant="outline" disabled={!newEmail.trim() || !emailPassword || changingEmail} className="sm:col-span-2 justify-self-start">
+                        {changingEmail ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Change email'}
+                    </Button>
+                </form>
+            </SettingsSection>
+
+            <SettingsSection icon={KeyRound} title="Password">
+                <form onSubmit={changePassword} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <Input
+                        type="password"
+                        value={currentPassword}
+                        onChange={(e) => setCurrentPassword(e.target.value)}
+                        placeholder="Current password"
+                        autoComplete="current-password"
+                    />
+                    <Input
+                        type="password"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
+                        placeholder="New password (6+ characters)"
+                        minLength={6}
+                        autoComplete="new-password"
+                    />
+                    <Button type="submit" size="sm" variant="outline" disabled={!currentPassword || newPassword.length < 6 || changingPassword} className="sm:col-span-2 justify-self-start">
+                        {changingPassword ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Change password'}
+                    </Button>
+                </form>
+            </SettingsSection>
+
+            <SettingsSection icon={MonitorSmartphone} title="Devices">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <p className="text-sm text-muted-foreground">
+                        {sessionCount === null
+                            ? 'Signed-in devices'
+                            : `Signed in on ${sessionCount} ${sessionCount === 1 ? 'device' : 'devices'}`}
+                    </p>
+                    <Button type="button" size="sm" variant="outline" onClick={signOutEverywhere} disabled={signingOutEverywhere}>
+                        <LogOut className="h-3.5 w-3.5 mr-1.5" />
+                        {signingOutEverywhere ? 'Logging out...' : 'Log out all devices'}
+                    </Button>
+                </div>
+            </SettingsSection>
+
+            <SettingsSection icon={Trash2} title="Delete account">
+                <p className="text-xs text-muted-foreground">
+                    Deletes your wishlists, items, notes and haul log for good. Gifts you reserved or chipped in
+                    for on other people&apos;s wishlists stay, credited to &ldquo;Former member&rdquo;.
+                </p>
+                {confirmingDelete ? (
+                    <form onSubmit={deleteAccount} className="flex flex-col sm:flex-row gap-3 mt-4">
+                        <Input
+                            type="password"
+                            value={deletePassword}
+                            onChange={(e) => setDeletePassword(e.target.value)}
+                            placeholder="Confirm with your password"
+                            autoComplete="current-password"
+                            autoFocus
+                        />
+                        <div className="flex gap-2">
+                            <Button type="submit" size="sm" variant="destructive" disabled={!deletePassword || deleting}>
+                                {deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Delete forever'}
+                            </Button>
+                            <Button type="button" size="sm" variant="ghost" onClick={() => { setConfirmingDelete(false); setDeletePassword(''); }}>
+                                Cancel
+                            </Button>
+                        </div>
+                    </form>
+                ) : (
+                    <Button type="button" size="sm" variant="outline" onClick={() => setConfirmingDelete(true)} className="mt-4 text-destructive hover:text-destructive">
+                        Delete my account
+                    </Button>
+                )}
+            </SettingsSection>
+        </div>
+    );
+}
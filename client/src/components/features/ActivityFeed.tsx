@@ -0,0 +1,154 @@
+// ActivityFeed - Social feed of new items, hauls and shrine changes from followed users
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { Crown, Gift, Star, Users, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+/** Shape of a single feed entry from the API */
+interface FeedEntry {
+    id: string;
+    type: 'ITEM_ADDED' | 'HAUL_LOGGED' | 'SHRINE_UPDATED';
+    createdAt: string;
+    user: { id: string; name: string; username: string; avatarUrl?: string | null };
+    wishlist: { id: string; title: string } | null;
+    payload: {
+        title?: string;
+        imageUrl?: string | null;
+        rating?: number;
+        items?: { id: string; title: string; imageUrl?: string | null }[];
+    };
+}
+
+// Matches the server's feed page size; a full page means there may be more
+const FEED_PAGE_SIZE = 30;
+
+// Format relative time from an ISO date
+const timeAgo = (dateStr: string) => {
+    const diff = Date.now() - new Date(dateStr).getTime();
+    const minutes = Math.floor(diff / 60000);
+    if (minutes < 60) return `${Math.max(minutes, 1)}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h`;
+    return `${Math.floor(hours / 24)}d`;
+};
+
+/**
+ * ActivityFeed - Renders what the people you follow have been up to.
+ * Paginates with a "Load more" button keyed off the oldest entry.
+ */
+export default function ActivityFeed() {
+    const [entries, setEntries] = useState<FeedEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [hasMore, setHasMore] = useState(false);
+
+    const fetchFeed = async (before?: string) => {
+        const res = await axios.get('/api/social/feed', {
+            params: before ? { before } : {},
+        });
+        return res.data as FeedEntry[];
+    };
+
+    // Fetch the first page on mount
+    useEffect(() => {
+        axios.get('/api/social/feed')
+            .then(res => {
+                setEntries(res.data);
+                setHasMore(res.data.length >= FEED_PAGE_SIZE);
+            })
+            .catch(() => {
+                // Silently fail - feed just stays empty
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const loadMore = async () => {
+        if (loadingMore || entries.length === 0) return;
+        setLoadingMore(true);
+        try {
+            const next = await fetchFeed(entries[entries.length - 1].createdAt);
+            setEntries(prev => [...prev, ...next]);
+            setHasMore(next.length >= FEED_PAGE_SIZE);
+        } catch {
+            setHasMore(false);
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    // Describe a feed entry in one line
+    const describe = (entry: FeedEntry) => {
+        if (entry.type === 'ITEM_ADDED') {
+            return <>added <span className="text-foreground font-medium">{entry.payload.title}</span>{entry.wishlist && <> to <Link to={`/wishlist/${entry.wishlist.id}`} className="text-primary hover:underline">{entry.wishlist.title}</Link></>}</>;
+        }
+        if (entry.type === 'HAUL_LOGGED') {
+            return <>unboxed <span className="text-foreground font-medium">{entry.payload.title}</span> and rated it {entry.payload.rating}/5</>;
+        }
+        return <>updated their Holy Grail{entry.payload.items?.length ? <>: <span className="text-foreground font-medium">{entry.payload.items.map(i => i.title).join(', ')}</span></> : null}</>;
+    };
+
+    const iconFor = (type: FeedEntry['type']) => {
+        if (type === 'ITEM_ADDED') return <Gift className="h-3.5 w-3.5 text-pink-400" />;
+        if (type === 'HAUL_LOGGED') return <Star className="h-3.5 w-3.5 text-amber-400" />;
+        return <Crown className="h-3.5 w-3.5 text-amber-400" />;
+    };
+
+    if (loading) {
+        return (
+            <div className="bg-card border border-border rounded-xl p-6 flex items-center justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-card border border-border shadow-sm rounded-xl overflow-hidden">
+            <div className="px-4 py-3 border-b border-border flex items-center gap-2">
+                <Users className="h-4 w-4 text-violet-400" />
+                <h2 className="text-sm font-semibold text-foreground">Friends&apos; Activity</h2>
+            </div>
+
+            {entries.length === 0 ? (
+                <div className="px-4 py-8 text-center">
+                    <p className="text-sm text-muted-foreground">Nothing here yet</p>
+                    <p className="text-xs text-muted-foreground/70 mt-1">Follow friends from their wishlists to see their updates</p>
+                </div>
+            ) : (
+                <ul className="divide-y divide-border">
+                    {entries.map(entry => {
+                        const imageUrl = entry.payload.imageUrl || entry.payload.items?.[0]?.imageUrl;
+                        return (
+                            <li key={entry.id} className="px-4 py-3 flex items-center gap-3">
+                                <div className="h-8 w-8 rounded-lg bg-secondary flex items-center justify-center text-xs font-semibold text-secondary-foreground shrink-0">
+                                    {entry.user.name?.charAt(0)?.toUpperCase() || '?'}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-muted-foreground line-clamp-2">
+                                        <Link to={`/u/${entry.user.username}`} className="text-foreground font-semibold hover:underline">{entry.user.name}</Link> {describe(entry)}
+                                    </p>
+                                    <div className="flex items-center gap-1.5 mt-0.5 text-[11px] text-muted-foreground/70">
+                                        {iconFor(entry.type)}
+                                        {timeAgo(entry.createdAt)}
+                                    </div>
+                                </div>
+                                {imageUrl && (
+                                    <img src={imageUrl} alt="" className="h-10 w-10 rounded-md object-cover border border-border shrink-0" />
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {hasMore && (
+                <div className="px-4 py-2 border-t border-border">
+                    <Button variant="ghost" size="sm" onClick={loadMore} disabled={loadingMore} className="w-full text-xs text-muted-foreground">
+                        {loadingMore ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Load more'}
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,149 @@
+// BadgeShelf - Level, karma progress, daily streak and earned/locked achievement badges
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { motion } from 'framer-motion';
+import {
+    Award, BookOpen, CalendarCheck, Coins, Crown, Flame,
+    Gift, HandHeart, Loader2, Lock, PackageOpen, ShieldCheck, Star, Zap
+} from 'lucide-react';
+
+interface Badge {
+    id: string;
+    name: string;
+    description: string;
+    earnedAt: string | null;
+    progress: { current: number; target: number };
+}
+
+/** Shape of GET /api/gamification/:userId */
+interface GamificationProfile {
+    karma: number;
+    level: number;
+    levelKarma: number;
+    // Null at the top level
+    nextLevelKarma: number | null;
+    streakDays: number;
+    badges: Badge[];
+}
+
+interface BadgeShelfProps {
+    userId: string;
+}
+
+const BADGE_ICONS: Record<string, typeof Award> = {
+    FIRST_RESERVATION: ShieldCheck,
+    GIFT_GIVER: Gift,
+    FIRST_CHIP_IN: Coins,
+    PATRON: HandHeart,
+    FIRST_HAUL: PackageOpen,
+    HAUL_HOARDER: BookOpen,
+    HYPE_MAGNET: Zap,
+    ON_A_ROLL: CalendarCheck,
+    DEVOTED: Crown,
+    RISING_STAR: Star,
+};
+
+/**
+ * BadgeShelf - Fetches the user's gamification profile and renders their
+ * level with progress to the next one, the current streak, and every badge:
+ * earned ones in colour with the date, locked ones greyed with progress.
+ */
+export default function BadgeShelf({ userId }: BadgeShelfProps) {
+    const [data, setData] = useState<GamificationProfile | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        axios.get(`/api/gamification/${userId}`)
+            .then(res => setData(res.data))
+            .catch(() => {
+                // Shelf just doesn't render
+            })
+            .finally(() => setLoading(false));
+    }, [userId]);
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    if (!data) return null;
+
+    const levelSpan = data.nextLevelKarma === null ? 0 : data.nextLevelKarma - data.levelKarma;
+    const levelPercent = levelSpan > 0 ? Math.min(100, ((data.karma - data.levelKarma) / levelSpan) * 100) : 100;
+    const earnedCount = data.badges.filter(badge => badge.earnedAt).length;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8 rounded-xl border border-border bg-card p-5 shadow-sm"
+        >
+            {/* Level, karma and streak */}
+            <div className="flex items-center gap-4">
+                <div className="h-12 w-12 shrink-0 rounded-xl bg-primary/10 flex flex-col items-center justify-center">
+                    <span className="text-[9px] uppercase tracking-wider text-muted-foreground leading-none">Lvl</span>
+                    <span className="text-lg font-bold text-primary leading-tight">{data.level}</span>
+                </div>
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between text-xs text-muted-foreground mb-1.5">
+                        <span><span className="font-semibold text-foreground">{data.karma}</span> karma</span>
+                        <span>
+                            {data.nextLevelKarma === null
+                                ? 'Max level'
+                                : `${data.nextLevelKarma - data.karma} to level ${data.level + 1}`}
+                        </span>
+                    </div>
+                    <div className="h-2 rounded-full bg-muted overflow-hidden">
+                        <div className="h-full rounded-full bg-primary transition-all" style={{ width: `${levelPercent}%` }} />
+                    </div>
+                </div>
+                <div
+                    className={`shrink-0 flex items-center gap-1 rounded-lg px-2.5 py-1.5 text-sm font-semibold ${data.streakDays > 0 ? 'bg-orange-500/10 text-orange-500' : 'bg-muted text-muted-foreground'}`}
+                    title={data.streakDays > 0 ? `${data.streakDays}-day streak` : 'Visit tomorrow to start a streak'}
+                >
+                    <Flame className="h-4 w-4" />
+                    {data.streakDays}
+                </div>
+            </div>
+
+            {/* Badges */}
+            <div className="mt-5 flex items-center justify-between mb-3">
+                <h3 className="text-sm font-medium text-foreground flex items-center gap-1.5">
+                    <Award className="h-4 w-4 text-amber-400" /> Badges
+                </h3>
+                <span className="text-xs text-muted-foreground">{earnedCount}/{data.badges.length}</span>
+            </div>
+            <div className="grid grid-cols-5 gap-2">
+                {data.badges.map(badge => {
+                    const Icon = BADGE_ICONS[badge.id] || Award;
+                    const earned = Boolean(badge.earnedAt);
+                    return (
+                        <div
+                            key={badge.id}
+                            title={badge.earnedAt
+                                ? `${badge.name} — ${badge.description} (earned ${new Date(badge.earnedAt).toLocaleDateString()})`
+                                : `${badge.name} — ${badge.description} (${Math.min(badge.progress.current, badge.progress.target)}/${badge.progress.target})`}
+                            className="flex flex-col items-center gap-1 text-center"
+                        >
+                            <div className={`relative h-11 w-11 rounded-full flex items-center justify-center border ${earned
+                                ? 'bg-amber-400/15 border-amber-400/40 text-amber-500'
+                                : 'bg-muted/40 border-border text-muted-foreground/40'
+                                }`}
+                            >
+                                <Icon className="h-5 w-5" />
+                                {!earned && <Lock className="absolute -bottom-0.5 -right-0.5 h-3.5 w-3.5 rounded-full bg-card p-0.5 text-muted-foreground" />}
+                            </div>
+                            <span className={`text-[10px] leading-tight ${earned ? 'text-foreground' : 'text-muted-foreground'}`}>
+                                {badge.name}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+        </motion.div>
+    );
+}
@@ -0,0 +1,36 @@
+// BookmarkletLink - Draggable "Add to Giftly" bookmarklet for the browser's bookmarks bar
+
+import { useEffect, useRef } from 'react';
+import { BookmarkPlus } from 'lucide-react';
+
+/**
+ * Opens /add on this Giftly instance with the current page's URL and title.
+ * Kept tiny and dependency-free: it runs on the store's page, not ours.
+ */
+const buildBookmarklet = (origin: string) => `javascript:(()=>{window.open(${JSON.stringify(`${origin}/add?url=`)}+encodeURIComponent(location.href)+'&title='+encodeURIComponent(document.title),'_blank','noopener')})()`;
+
+/**
+ * BookmarkletLink - Rendered on the /add page. Clicking it here does
+ * nothing; the user drags it to their bookmarks bar and clicks it on a
+ * product page.
+ */
+export default function BookmarkletLink() {
+    const linkRef = useRef<HTMLAnchorElement>(null);
+
+    // React blocks javascript: URLs in href props, so set it on the element directly
+    useEffect(() => {
+        linkRef.current?.setAttribute('href', buildBookmarklet(window.location.origin));
+    }, []);
+
+    return (
+        <a
+            ref={linkRef}
+            onClick={(e) => e.preventDefault()}
+            draggable
+            className="inline-flex items-center gap-2 rounded-full border border-dashed border-primary/60 bg-primary/10 px-4 py-2 text-sm font-medium text-primary cursor-grab active:cursor-grabbing"
+            title="Drag me to your bookmarks bar"
+        >
+            <BookmarkPlus className="h-4 w-4" /> Add to Giftly
+        </a>
+    );
+}
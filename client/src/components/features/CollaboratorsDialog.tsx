@@ -0,0 +1,316 @@
+// CollaboratorsDialog - Who shares a wishlist, plus invites and role changes for its owners
+
+import { useState, type FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { Copy, Link2, Loader2, LogOut, Mail, Trash2, UserPlus, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useAuth } from '@/context/AuthContext';
+import { COLLABORATOR_ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, type CollaboratorRole, type WishlistRole } from '@/lib/collaborators';
+
+interface Member {
+    id: string;
+    name: string;
+    username: string;
+    avatarUrl?: string | null;
+}
+
+interface Collaborator {
+    role: CollaboratorRole;
+    createdAt: string;
+    user: Member;
+}
+
+interface PendingInvite {
+    id: string;
+    role: CollaboratorRole;
+    email: string | null;
+    // Shareable links only; email invites live in the invitee's inbox
+    url: string | null;
+    expiresAt: string;
+}
+
+interface CollaboratorList {
+    role: WishlistRole;
+    owner: Member | null;
+    collaborators: Collaborator[];
+    invites: PendingInvite[];
+}
+
+interface CollaboratorsDialogProps {
+    wishlistId: string;
+    wishlistTitle: string;
+    canManage: boolean;
+}
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+const selectClassName = 'rounded-md border border-input bg-background px-2 py-1 text-xs text-foreground';
+
+/**
+ * CollaboratorsDialog - Lists the owner and collaborators of a wishlist.
+ * Owners and co-owners can invite by email or link, change roles and remove people;
+ * everyone else can leave. Only the owner hands out or takes away co-ownership.
+ */
+export default function CollaboratorsDialog({ wishlistId, wishlistTitle, canManage }: CollaboratorsDialogProps) {
+    const { user } = useAuth();
+    const navigate = useNavigate();
+    const [open, setOpen] = useState(false);
+    const [data, setData] = useState<CollaboratorList | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [email, setEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<CollaboratorRole>('editor');
+    const [inviting, setInviting] = useState(false);
+    const [pendingIds, setPendingIds] = useState<string[]>([]);
+
+    const isOwner = data?.role === 'owner';
+    // Co-ownership is the owner's to give, so co-owners don't get it as an option
+    const assignableRoles = COLLABORATOR_ROLES.filter(role => isOwner || role !== 'co_owner');
+    const canChange = (collaborator: Collaborator) => canManage && (isOwner || collaborator.role !== 'co_owner');
+
+    const fetchCollaborators = async () => {
+        setLoading(true);
+        try {
+            const res = await axios.get(`/api/collaborators/wishlists/${wishlistId}`);
+            setData(res.data);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to load collaborators'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleOpenChange = (next: boolean) => {
+        if (next) fetchCollaborators();
+        setOpen(next);
+    };
+
+    const withPending = async (id: string, action: () => Promise<void>) => {
+        if (pendingIds.includes(id)) return;
+        setPendingIds(prev => [...prev, id]);
+        try {
+            await action();
+        } finally {
+            setPendingIds(prev => prev.filter(pendingId => pendingId !== id));
+        }
+    };
+
+    const copyLink = (url: string) => {
+        navigator.clipboard.writeText(url);
+        toast.success('Invite link copied!');
+    };
+
+    const createInvite = async (withEmail: boolean) => {
+        if (inviting || (withEmail && !email.trim())) return;
+        setInviting(true);
+        try {
+            const res = await axios.post(`/api/collaborators/wishlists/${wishlistId}/invites`, {
+                role: inviteRole,
+                ...(withEmail ? { email: email.trim() } : {}),
+            });
+            const invite: PendingInvite = res.data;
+            setData(prev => prev && { ...prev, invites: [invite, ...prev.invites.filter(i => !withEmail || i.email !== invite.email)] });
+            if (invite.url) {
+                copyLink(invite.url);
+            } else {
+                toast.success(`Invite sent to ${invite.email}`);
+                setEmail('');
+            }
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to create invite'));
+        } finally {
+            setInviting(false);
+        }
+    };
+
+    const submitEmailInvite = (e: FormEvent) => {
+        e.preventDefault();
+        createInvite(true);
+    };
+
+    const revokeInvite = (inviteId: string) => withPending(inviteId, async () => {
+        try {
+            await axios.delete(`/api/collaborators/invites/${inviteId}`);
+            setData(prev => prev && { ...prev, invites: prev.invites.filter(invite => invite.id !== inviteId) });
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to revoke invite'));
+        }
+    });
+
+    const changeRole = (userId: string, role: CollaboratorRole) => withPending(userId, async () => {
+        try {
+            const res = await axios.patch(`/api/collaborators/wishlists/${wishlistId}/members/${userId}`, { role });
+            setData(prev => prev && {
+                ...prev,
+                collaborators: prev.collaborators.map(c => c.user.id === userId ? res.data : c),
+            });
+            toast.success('Role updated');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to update role'));
+        }
+    });
+
+    const removeCollaborator = (userId: string) => withPending(userId, async () => {
+        const leaving = userId === user?.id;
+        if (!confirm(leaving ? `Leave "${wishlistTitle}"?` : 'Remove this collaborator?')) return;
+        try {
+            await axios.delete(`/api/collaborators/wishlists/${wishlistId}/members/${userId}`);
+            if (leaving) {
+                toast.success(`You left "${wishlistTitle}"`);
+                navigate('/');
+                return;
+            }
+            setData(prev => prev && { ...prev, collaborators: prev.collaborators.filter(c => c.user.id !== userId) });
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, leaving ? 'Failed to leave wishlist' : 'Failed to remove collaborator'));
+        }
+    });
+
+    const renderMember = (member: Member, role: WishlistRole) => (
+        <div className="min-w-0 flex-1">
+            <p className="text-sm text-foreground truncate">
+                {member.name}
+                {member.id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+            </p>
+            <p className="text-xs text-muted-foreground truncate">@{member.username} · {ROLE_LABELS[role]}</p>
+        </div>
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="bg-background/80 backdrop-blur-sm border-border h-9 text-muted-foreground hover:text-foreground active:scale-95 transition-all shadow-sm">
+                    <Users className="h-3.5 w-3.5 mr-1.5" /> Collaborators
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-popover border-border">
+                <DialogHeader>
+                    <DialogTitle className="text-foreground">Collaborators</DialogTitle>
+                </DialogHeader>
+                {loading && !data ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : data && (
+                    <div className="space-y-5 pt-2">
+                        <div className="space-y-2">
+                            {data.owner && (
+                                <div className="flex items-center gap-3">{renderMember(data.owner, 'owner')}</div>
+                            )}
+                            {data.collaborators.map(collaborator => (
+                                <div key={collaborator.user.id} className="flex items-center gap-2">
+                                    {renderMember(collaborator.user, collaborator.role)}
+                                    {canChange(collaborator) && collaborator.user.id !== user?.id && (
+                                        <select
+                                            value={collaborator.role}
+                                            onChange={(e) => changeRole(collaborator.user.id, e.target.value as CollaboratorRole)}
+                                            disabled={pendingIds.includes(collaborator.user.id)}
+                                            className={selectClassName}
+                                            aria-label={`Role for ${collaborator.user.name}`}
+                                        >
+                                            {assignableRoles.map(role => (
+                                                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                    {(collaborator.user.id === user?.id || canChange(collaborator)) && (
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            disabled={pendingIds.includes(collaborator.user.id)}
+                                            onClick={() => removeCollaborator(collaborator.user.id)}
+                                            className="text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                                            title={collaborator.user.id === user?.id ? 'Leave wishlist' : 'Remove collaborator'}
+                                        >
+                                            {collaborator.user.id === user?.id ? <LogOut className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                            {data.collaborators.length === 0 && (
+                                <p className="text-xs text-muted-foreground">Nobody else shares this list yet.</p>
+                            )}
+                        </div>
+
+                        {canManage && (
+                            <div className="space-y-3 border-t border-border pt-4">
+                                <Label className="text-muted-foreground flex items-center gap-1.5">
+                                    <UserPlus className="h-3.5 w-3.5" /> Invite
+                                </Label>
+                                <div className="flex items-center gap-2">
+                                    <select
+                                        value={inviteRole}
+                                        onChange={(e) => setInviteRole(e.target.value as CollaboratorRole)}
+                                        className={selectClassName}
+                                        aria-label="Role for the invite"
+                                    >
+                                        {assignableRoles.map(role => (
+                                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                                        ))}
+                                    </select>
+                                    <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+                                </div>
+                                <form onSubmit={submitEmailInvite} className="flex gap-2">
+                                    <Input
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        placeholder="friend@example.com"
+                                        className="bg-background border-input text-foreground"
+                                    />
+                                    <Button type="submit" size="sm" disabled={!email.trim() || inviting} className="h-9">
+                                        <Mail className="h-3.5 w-3.5 mr-1.5" /> Send
+                                    </Button>
+                                </form>
+                                <Button variant="outline" size="sm" onClick={() => createInvite(false)} disabled={inviting} className="w-full">
+                                    {inviting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <><Link2 className="h-3.5 w-3.5 mr-1.5" /> Create invite link</>}
+                                </Button>
+                                <p className="text-[11px] text-muted-foreground">Invites expire after 7 days. Anyone signed in with a link can join, so share it with care.</p>
+
+                                {data.invites.length > 0 && (
+                                    <div className="space-y-1.5">
+                                        <p className="text-xs font-medium text-muted-foreground">Pending invites</p>
+                                        {data.invites.map(invite => (
+                                            <div key={invite.id} className="flex items-center gap-2 text-xs">
+                                                <span className="flex-1 min-w-0 truncate text-foreground">
+                                                    {invite.email || 'Invite link'}
+                                                    <span className="text-muted-foreground"> · {ROLE_LABELS[invite.role]} · expires {new Date(invite.expiresAt).toLocaleDateString()}</span>
+                                                </span>
+                                                {invite.url && (
+                                                    <button
+                                                        onClick={() => invite.url && copyLink(invite.url)}
+                                                        className="p-1 rounded text-muted-foreground hover:text-primary cursor-pointer"
+                                                        title="Copy link"
+                                                    >
+                                                        <Copy className="h-3.5 w-3.5" />
+                                                    </button>
+                                                )}
+                                                <button
+                                                    onClick={() => revokeInvite(invite.id)}
+                                                    disabled={pendingIds.includes(invite.id)}
+                                                    className="p-1 rounded text-muted-foreground hover:text-destructive cursor-pointer disabled:opacity-60"
+                                                    title="Revoke invite"
+                                                >
+                                                    <Trash2 className="h-3.5 w-3.5" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -2,6 +2,7 @@
 // Inspired by Letterboxd's film diary aesthetic
 
 import { Star, Camera } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
 
 /** Shape of a single haul entry from the API */
 interface HaulEntry {
@@ -14,6 +15,7 @@ interface HaulEntry {
         title: string;
         imageUrl?: string | null;
         price?: number | null;
+        currency?: string;
         hypeCount: number;
     };
 }
@@ -70,7 +72,7 @@ export default function HaulCard({ haul }: HaulCardProps) {
                         ))}
                         {haul.item.price && (
                             <span className="text-[10px] text-muted-foreground ml-2">
-                                ${Number(haul.item.price).toFixed(0)}
+                                {formatMoney(Math.round(Number(haul.item.price)), haul.item.currency)}
                             </span>
                         )}
                     </div>
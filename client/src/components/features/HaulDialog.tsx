@@ -0,0 +1,126 @@
+// HaulDialog - Owner marks an item as received and logs it to the Haul Log with a rating, review and photo
+
+import { useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { PackageCheck, Loader2, Star, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import ImageUploadButton from '@/components/features/ImageUploadButton';
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+interface HaulDialogProps {
+    itemId: string;
+    itemTitle: string;
+    disabled?: boolean;
+    onLogged: () => void;
+}
+
+/**
+ * HaulDialog - Creating the haul also marks the item as fulfilled on the server.
+ * The photo is optional and can be uploaded straight from the device.
+ */
+export default function HaulDialog({ itemId, itemTitle, disabled, onLogged }: HaulDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [rating, setRating] = useState(5);
+    const [review, setReview] = useState('');
+    const [photoUrl, setPhotoUrl] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const save = async () => {
+        if (saving) return;
+        setSaving(true);
+        try {
+            await axios.post('/api/hauls', {
+                itemId,
+                rating,
+                review: review.trim() || undefined,
+                photoUrl: photoUrl || undefined,
+            });
+            toast.success('Added to your Haul Log 🎉');
+            setOpen(false);
+            onLogged();
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to log haul'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={disabled}
+                    className="text-gray-500 hover:text-emerald-500 hover:bg-emerald-500/10 transition-all"
+                >
+                    <PackageCheck className="h-3 w-3 mr-1" /> Got it
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-popover border-border">
+                <DialogHeader>
+                    <DialogTitle className="text-foreground">Log “{itemTitle}”</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 pt-2">
+                    <div className="space-y-2">
+                        <Label className="text-muted-foreground">Rating</Label>
+                        <div className="flex gap-1">
+                            {[1, 2, 3, 4, 5].map(value => (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    onClick={() => setRating(value)}
+                                    aria-label={`${value} star${value === 1 ? '' : 's'}`}
+                                    className="cursor-pointer"
+                                >
+                                    <Star className={`h-6 w-6 ${value <= rating ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40'}`} />
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <Label className="text-muted-foreground">Review (optional)</Label>
+                        <Input
+                            value={review}
+                            onChange={(e) => setReview(e.target.value)}
+                            maxLength={500}
+                            placeholder="Exactly what I hoped for..."
+                            className="bg-background border-input text-foreground placeholder:text-muted-foreground"
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label className="text-muted-foreground">Unboxing photo (optional)</Label>
+                        {photoUrl ? (
+                            <div className="relative rounded-lg overflow-hidden border border-border">
+                                <img src={photoUrl} alt="Haul" className="w-full h-40 object-cover" />
+                                <button
+                                    type="button"
+                                    onClick={() => setPhotoUrl('')}
+                                    aria-label="Remove photo"
+                                    className="absolute top-2 right-2 rounded-full bg-black/60 p-1 text-white cursor-pointer"
+                                >
+                                    <X className="h-3.5 w-3.5" />
+                                </button>
+                            </div>
+                        ) : (
+                            <ImageUploadButton kind="haul" label="Add photo" onUploaded={(image) => setPhotoUrl(image.url)} />
+                        )}
+                    </div>
+                    <Button onClick={save} disabled={saving} className="w-full">
+                        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add to Haul Log'}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,71 @@
+// ImageUploadButton - Picks a local image, uploads it and hands back the stored URL
+
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { ImageUp, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ACCEPTED_IMAGE_TYPES, MAX_UPLOAD_BYTES, uploadImage } from '@/lib/uploads';
+import type { UploadedImage, UploadKind } from '@/lib/uploads';
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+interface ImageUploadButtonProps {
+    kind: UploadKind;
+    onUploaded: (image: UploadedImage) => void;
+    label?: string;
+    className?: string;
+}
+
+/**
+ * ImageUploadButton - Used next to the URL fields of item, cover, avatar
+ * and haul forms. The server re-encodes the file and strips its metadata.
+ */
+export default function ImageUploadButton({ kind, onUploaded, label = 'Upload', className }: ImageUploadButtonProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [uploading, setUploading] = useState(false);
+
+    const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Reset so picking the same file again still fires onChange
+        e.target.value = '';
+        if (!file) return;
+
+        if (file.size > MAX_UPLOAD_BYTES) {
+            toast.error(`Images must be ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB or smaller`);
+            return;
+        }
+
+        setUploading(true);
+        try {
+            onUploaded(await uploadImage(file, kind));
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to upload image'));
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    return (
+        <>
+            <input ref={inputRef} type="file" accept={ACCEPTED_IMAGE_TYPES} onChange={handleFile} className="hidden" />
+            <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={uploading}
+                onClick={() => inputRef.current?.click()}
+                className={className}
+            >
+                {uploading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ImageUp className="h-3.5 w-3.5" />}
+                {uploading ? 'Uploading...' : label}
+            </Button>
+        </>
+    );
+}
@@ -11,7 +11,8 @@ import {
     DropdownMenuSeparator,
     DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Gift, LogOut, User, LayoutDashboard, Menu, X } from 'lucide-react';
+import { Gift, LogOut, User, LayoutDashboard, Menu, X, Shuffle } from 'lucide-react';
+import NotificationBell from './NotificationBell';
 
 /**
  * Navbar — Renders a sticky glassmorphic navigation bar.
@@ -24,8 +25,8 @@ export default function Navbar() {
     const [mobileOpen, setMobileOpen] = useState(false);
 
     // Handle logout and redirect to login page
-    const handleLogout = () => {
-        logout();
+    const handleLogout = async () => {
+        await logout();
         navigate('/login');
     };
 
@@ -45,62 +46,71 @@ export default function Navbar() {
                     <span className="text-lg font-semibold tracking-tight text-foreground hidden sm:block">Giftly</span>
                 </Link>
 
-                {/* Desktop: user dropdown or sign-in */}
-                <div className="hidden sm:flex items-center gap-3">
-                    {user ? (
-                        <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                                <Button variant="ghost" className="flex items-center gap-2 px-2 hover:bg-muted/50 transition-colors cursor-pointer rounded-lg h-auto py-1.5 ring-offset-background outline-none focus-visible:ring-2 focus-visible:ring-ring">
-                                    {/* Avatar circle with initials */}
-                                    <div className="h-8 w-8 rounded-lg bg-secondary flex items-center justify-center text-xs font-semibold text-secondary-foreground border border-border">
-                                        {initials}
+                <div className="flex items-center gap-1 sm:gap-3">
+                    {/* Notifications — on both desktop and mobile; remounts per account */}
+                    {user && <NotificationBell key={user.id} />}
+
+                    {/* Desktop: user dropdown or sign-in */}
+                    <div className="hidden sm:flex items-center gap-3">
+                        {user ? (
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <Button variant="ghost" className="flex items-center gap-2 px-2 hover:bg-muted/50 transition-colors cursor-pointer rounded-lg h-auto py-1.5 ring-offset-background outline-none focus-visible:ring-2 focus-visible:ring-ring">
+                                        {/* Avatar circle with initials */}
+                                        <div className="h-8 w-8 rounded-lg bg-secondary flex items-center justify-center text-xs font-semibold text-secondary-foreground border border-border">
+                                            {initials}
+                                        </div>
+                                        <span className="text-sm text-foreground font-medium hidden md:inline-block max-w-[120px] truncate">{user.name || user.email}</span>
+                                    </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end" className="w-56 bg-popover text-popover-foreground border-border shadow-md rounded-lg p-1">
+                                    {/* User info header */}
+                                    <div className="px-3 py-2 border-b border-border mb-1">
+                                        <p className="text-sm font-medium text-foreground truncate">{user.name}</p>
+                                        <p className="text-xs text-muted-foreground truncate">{user.email}</p>
                                     </div>
-                                    <span className="text-sm text-foreground font-medium hidden md:inline-block max-w-[120px] truncate">{user.name || user.email}</span>
-                                </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end" className="w-56 bg-popover text-popover-foreground border-border shadow-md rounded-lg p-1">
-                                {/* User info header */}
-                                <div className="px-3 py-2 border-b border-border mb-1">
-                                    <p className="text-sm font-medium text-foreground truncate">{user.name}</p>
-                                    <p className="text-xs text-muted-foreground truncate">{user.email}</p>
-                                </div>
-                                <DropdownMenuItem onClick={() => navigate('/')} className="cursor-pointer rounded-md focus:bg-accent focus:text-accent-foreground">
-                                    <LayoutDashboard className="mr-2 h-4 w-4" />
-                                    Dashboard
-                                </DropdownMenuItem>
-                                <DropdownMenuItem onClick={() => navigate('/profile')} className="cursor-pointer rounded-md focus:bg-accent focus:text-accent-foreground">
-                                    <User className="mr-2 h-4 w-4" />
-                                    Profile
-                                </DropdownMenuItem>
-                                <DropdownMenuSeparator className="bg-border my-1" />
-                                <DropdownMenuItem onClick={handleLogout} className="text-destructive focus:bg-destructive/10 focus:text-destructive cursor-pointer rounded-md">
-                                    <LogOut className="mr-2 h-4 w-4" />
-                                    Log out
-                                </DropdownMenuItem>
-                            </DropdownMenuContent>
-                        </DropdownMenu>
-                    ) : (
-                        <Button
-                            variant="default"
-                            size="sm"
-                            onClick={() => navigate('/login')}
-                            className="font-medium px-6"
-                        >
-                            Sign In
-                        </Button>
-                    )}
-                </div>
+                                    <DropdownMenuItem onClick={() => navigate('/')} className="cursor-pointer rounded-md focus:bg-accent focus:text-accent-foreground">
+                                        <LayoutDashboard className="mr-2 h-4 w-4" />
+                                        Dashboard
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => navigate('/profile')} className="cursor-pointer rounded-md focus:bg-accent focus:text-accent-foreground">
+                                        <User className="mr-2 h-4 w-4" />
+                                        Profile
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => navigate('/exchanges')} className="cursor-pointer rounded-md focus:bg-accent focus:text-accent-foreground">
+                                        <Shuffle className="mr-2 h-4 w-4" />
+                                        Gift Exchanges
+                                    </DropdownMenuItem>
+                                    <DropdownMenuSeparator className="bg-border my-1" />
+                                    <DropdownMenuItem onClick={handleLogout} className="text-destructive focus:bg-destructive/10 focus:text-destructive cursor-pointer rounded-md">
+                                        <LogOut className="mr-2 h-4 w-4" />
+                                        Log out
+                                    </DropdownMenuItem>
+                                </DropdownMenuContent>
+                            </DropdownMenu>
+                        ) : (
+                            <Button
+                                variant="default"
+                                size="sm"
+                                onClick={() => navigate('/login')}
+                                className="font-medium px-6"
+                            >
+                                Sign In
+                            </Button>
+                        )}
+                    </div>
 
-                {/* Mobile: hamburger toggle */}
-                <Button
-                    variant="ghost"
-                    size="icon"
-                    className="sm:hidden text-muted-foreground hover:text-foreground hover:bg-muted/50"
-                    onClick={() => setMobileOpen(!mobileOpen)}
-                    aria-label="Toggle menu"
-                >
-                    {mobileOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
-                </Button>
+                    {/* Mobile: hamburger toggle */}
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="sm:hidden text-muted-foreground hover:text-foreground hover:bg-muted/50"
+                        onClick={() => setMobileOpen(!mobileOpen)}
+                        aria-label="Toggle menu"
+                    >
+                        {mobileOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+                    </Button>
+                </div>
             </div>
 
             {/* Mobile slide-down menu */}
@@ -132,6 +142,13 @@ export default function Navbar() {
                             >
                                 <User className="h-4 w-4" /> Profile
                             </Button>
+                            <Button
+                                variant="ghost"
+                                onClick={() => { navigate('/exchanges'); setMobileOpen(false); }}
+                                className="w-full justify-start gap-3 h-10 px-3"
+                            >
+                                <Shuffle className="h-4 w-4" /> Gift Exchanges
+                            </Button>
                             <Button
                                 variant="ghost"
                                 onClick={() => { handleLogout(); setMobileOpen(false); }}
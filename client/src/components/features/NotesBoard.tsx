@@ -0,0 +1,365 @@
+// NotesBoard - Sticky-note guestbook on a wishlist: live board, owner arranging and moderation
+
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import type { Socket } from 'socket.io-client';
+import { Ban, Check, EyeOff, Eye, Loader2, StickyNote, Trash2, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+
+type NoteColor = 'yellow' | 'pink' | 'blue' | 'green';
+type NoteStatus = 'published' | 'pending' | 'hidden';
+
+interface Note {
+    id: string;
+    author: string;
+    content: string;
+    color: NoteColor;
+    // Top-left corner, as percentages of the board
+    posX: number;
+    posY: number;
+    rotation: number;
+    status: NoteStatus;
+    createdAt: string;
+}
+
+interface BlockedAuthor {
+    id: string;
+    author: string;
+    kind: 'account' | 'guest';
+}
+
+interface NotesBoardProps {
+    wishlistId: string;
+    wishlistTitle: string;
+    isOwner: boolean;
+    socket: Socket | null;
+    // Name to sign new notes with (the account name or the guest nickname)
+    authorName: string;
+    requireApproval: boolean;
+    onRequireApprovalChange: (value: boolean) => void;
+}
+
+const NOTE_COLORS: Record<NoteColor, string> = {
+    yellow: 'bg-amber-100 text-amber-950 dark:bg-amber-200',
+    pink: 'bg-pink-100 text-pink-950 dark:bg-pink-200',
+    blue: 'bg-sky-100 text-sky-950 dark:bg-sky-200',
+    green: 'bg-emerald-100 text-emerald-950 dark:bg-emerald-200',
+};
+
+const clamp = (value: number, max: number) => Math.round(Math.min(Math.max(value, 0), max) * 10) / 10;
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+/**
+ * NotesBoard - Everyone can leave a note; the owner drags notes around,
+ * approves held notes, hides notes and blocks authors. Moves and
+ * moderation are broadcast to everyone watching the wishlist.
+ */
+export default function NotesBoard({
+    wishlistId, wishlistTitle, isOwner, socket, authorName, requireApproval, onRequireApprovalChange,
+}: NotesBoardProps) {
+    const [notes, setNotes] = useState<Note[]>([]);
+    const [content, setContent] = useState('');
+    const [author, setAuthor] = useState(authorName);
+    const [color, setColor] = useState<NoteColor>('yellow');
+    const [posting, setPosting] = useState(false);
+    const [blocks, setBlocks] = useState<BlockedAuthor[]>([]);
+    const [dragging, setDragging] = useState<{ id: string; offsetX: number; offsetY: number; from: Pick<Note, 'posX' | 'posY'> } | null>(null);
+    const boardRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setAuthor(prev => prev || authorName);
+    }, [authorName]);
+
+    useEffect(() => {
+        axios.get<Note[]>(`/api/notes/${wishlistId}`)
+            .then(res => setNotes(res.data))
+            .catch(() => {
+                // The guestbook is optional; the wishlist still works without it
+            });
+    }, [wishlistId]);
+
+    // Live updates: new and re-published notes, moves, moderation and deletes
+    useEffect(() => {
+        if (!socket) return;
+
+        const upsert = (note: Note) => setNotes(prev => (
+            prev.some(n => n.id === note.id)
+                ? prev.map(n => n.id === note.id ? { ...n, ...note } : n)
+                : [note, ...prev]
+        ));
+        const move = (data: Pick<Note, 'id' | 'posX' | 'posY' | 'rotation'>) => setNotes(prev => prev.map(n => n.id === data.id ? { ...n, ...data } : n));
+        const remove = (data: { id: string }) => setNotes(prev => prev.filter(n => n.id !== data.id));
+
+        socket.on('new_note', upsert);
+        socket.on('note_updated', upsert);
+        socket.on('note_moved', move);
+        socket.on('note_removed', remove);
+        return () => {
+            socket.off('new_note', upsert);
+            socket.off('note_updated', upsert);
+            socket.off('note_moved', move);
+            socket.off('note_removed', remove);
+        };
+    }, [socket]);
+
+    const patchNote = (id: string, patch: Partial<Note>) => setNotes(prev => prev.map(n => n.id === id ? { ...n, ...patch } : n));
+
+    const postNote = async () => {
+        if (posting || !content.trim() || !author.trim()) return;
+        setPosting(true);
+        try {
+            const res = await axios.post<Note>(`/api/notes/${wishlistId}`, { content: content.trim(), author: author.trim(), color });
+            setNotes(prev => prev.some(n => n.id === res.data.id) ? prev : [res.data, ...prev]);
+            setContent('');
+            toast.success(res.data.status === 'pending' ? "Sent! It'll appear once the owner approves it" : 'Note posted');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to post note'));
+        } finally {
+            setPosting(false);
+        }
+    };
+
+    // --- Owner: drag to arrange -------------------------------------------------
+
+    const startDrag = (e: PointerEvent<HTMLDivElement>, note: Note) => {
+        if (!isOwner || (e.target as HTMLElement).closest('button')) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragging({ id: note.id, offsetX: e.clientX - rect.left, offsetY: e.clientY - rect.top, from: { posX: note.posX, posY: note.posY } });
+    };
+
+    const drag = (e: PointerEvent<HTMLDivElement>) => {
+        const board = boardRef.current?.getBoundingClientRect();
+        if (!dragging || !board) return;
+        const note = e.currentTarget.getBoundingClientRect();
+        // Keep the whole note on the board
+        patchNote(dragging.id, {
+            posX: clamp(((e.clientX - dragging.offsetX - board.left) / board.width) * 100, 100 - (note.width / board.width) * 100),
+            posY: clamp(((e.clientY - dragging.offsetY - board.top) / board.height) * 100, 100 - (note.height / board.height) * 100),
+        });
+    };
+
+    const endDrag = async () => {
+        if (!dragging) return;
+        const { id, from } = dragging;
+        setDragging(null);
+        const note = notes.find(n => n.id === id);
+        if (!note || (note.posX === from.posX && note.posY === from.posY)) return;
+
+        try {
+            await axios.patch(`/api/notes/${id}/position`, { posX: note.posX, posY: note.posY });
+        } catch (error) {
+            patchNote(id, from);
+            toast.error(getApiErrorMessage(error, 'Failed to move note'));
+        }
+    };
+
+    // --- Owner: moderation ------------------------------------------------------
+
+    const setStatus = async (note: Note, status: 'published' | 'hidden') => {
+        patchNote(note.id, { status });
+        try {
+            await axios.patch(`/api/notes/${note.id}/status`, { status });
+        } catch (error) {
+            patchNote(note.id, { status: note.status });
+            toast.error(getApiErrorMessage(error, 'Failed to update note'));
+        }
+    };
+
+    const deleteNote = async (note: Note) => {
+        setNotes(prev => prev.filter(n => n.id !== note.id));
+        try {
+            await axios.delete(`/api/notes/${note.id}`);
+        } catch (error) {
+            setNotes(prev => [note, ...prev]);
+            toast.error(getApiErrorMessage(error, 'Failed to delete note'));
+        }
+    };
+
+    const blockAuthor = async (note: Note) => {
+        if (!window.confirm(`Block ${note.author}? Their notes will be hidden and they won't be able to post here again.`)) return;
+        try {
+            const res = await axios.post<{ block: BlockedAuthor; hiddenNoteIds: string[] }>(`/api/notes/${note.id}/block`);
+            const hidden = new Set(res.data.hiddenNoteIds);
+            setNotes(prev => prev.map(n => hidden.has(n.id) ? { ...n, status: 'hidden' } : n));
+            setBlocks(prev => [res.data.block, ...prev]);
+            toast.success(`${note.author} is blocked`);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to block author'));
+        }
+    };
+
+    const loadBlocks = async (open: boolean) => {
+        if (!open) return;
+        try {
+            const res = await axios.get<BlockedAuthor[]>(`/api/notes/${wishlistId}/blocks`);
+            setBlocks(res.data);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to load blocked authors'));
+        }
+    };
+
+    const unblock = async (block: BlockedAuthor) => {
+        try {
+            await axios.delete(`/api/notes/blocks/${block.id}`);
+            setBlocks(prev => prev.filter(b => b.id !== block.id));
+            toast.success(`${block.author} can post notes again`);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to unblock'));
+        }
+    };
+
+    const toggleApproval = async (value: boolean) => {
+        onRequireApprovalChange(value);
+        try {
+            await axios.put(`/api/wishlists/${wishlistId}`, { title: wishlistTitle, notesRequireApproval: value });
+        } catch (error) {
+            onRequireApprovalChange(!value);
+            toast.error(getApiErrorMessage(error, 'Failed to save setting'));
+        }
+    };
+
+    const pendingCount = notes.filter(n => n.status === 'pending').length;
+
+    return (
+        <section className="mt-12 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-foreground">
+                    <StickyNote className="h-5 w-5 text-amber-500" /> Guestbook
+                    {isOwner && pendingCount > 0 && (
+                        <span className="rounded-full bg-amber-500/15 px-2 py-0.5 text-xs font-medium text-amber-600">{pendingCount} waiting</span>
+                    )}
+                </h2>
+                {isOwner && (
+                    <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={requireApproval}
+                                onChange={(e) => toggleApproval(e.target.checked)}
+                                className="accent-primary"
+                            />
+                            Approve notes before they appear
+                        </label>
+                        <Dialog onOpenChange={loadBlocks}>
+                            <DialogTrigger asChild>
+                                <Button variant="ghost" size="sm" className="h-8 text-muted-foreground">
+                                    <Ban className="h-3.5 w-3.5 mr-1" /> Blocked
+                                </Button>
+                            </DialogTrigger>
+                            <DialogContent className="bg-popover border-border">
+                                <DialogHeader>
+                                    <DialogTitle className="text-foreground">Blocked authors</DialogTitle>
+                                </DialogHeader>
+                                {blocks.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">Nobody is blocked.</p>
+                                ) : (
+                                    <ul className="divide-y divide-border">
+                                        {blocks.map(block => (
+                                            <li key={block.id} className="flex items-center justify-between py-2 text-sm">
+                                                <span className="text-foreground">
+                                                    {block.author}
+                                                    <span className="ml-2 text-xs text-muted-foreground">{block.kind === 'guest' ? 'guest name' : 'account'}</span>
+                                                </span>
+                                                <Button variant="outline" size="sm" onClick={() => unblock(block)}>Unblock</Button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </DialogContent>
+                        </Dialog>
+                    </div>
+                )}
+            </div>
+
+            <div
+                ref={boardRef}
+                className="relative h-[420px] rounded-2xl border border-border bg-muted/20 overflow-hidden"
+            >
+                {notes.length === 0 && (
+                    <p className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+                        No notes yet — be the first to leave one!
+                    </p>
+                )}
+                {notes.map(note => (
+                    <div
+                        key={note.id}
+                        onPointerDown={(e) => startDrag(e, note)}
+                        onPointerMove={dragging?.id === note.id ? drag : undefined}
+                        onPointerUp={endDrag}
+                        className={`group absolute w-36 sm:w-40 p-3 rounded-sm shadow-md text-sm select-none ${NOTE_COLORS[note.color] || NOTE_COLORS.yellow} ${isOwner ? 'cursor-grab active:cursor-grabbing touch-none' : ''} ${note.status !== 'published' ? 'opacity-60 outline-2 outline-dashed outline-amber-500' : ''} ${dragging?.id === note.id ? 'z-10 shadow-xl' : ''}`}
+                        style={{ left: `${note.posX}%`, top: `${note.posY}%`, transform: `rotate(${note.rotation}deg)` }}
+                    >
+                        <p className="whitespace-pre-wrap break-words leading-snug">{note.content}</p>
+                        <p className="mt-2 text-xs font-medium opacity-70">— {note.author}</p>
+                        {note.status !== 'published' && (
+                            <p className="mt-1 text-[10px] font-semibold uppercase tracking-wider opacity-70">
+                                {note.status === 'pending' ? 'Awaiting approval' : 'Hidden'}
+                            </p>
+                        )}
+                        {isOwner && (
+                            <div className="absolute -top-3 right-1 hidden group-hover:flex items-center gap-0.5 rounded-full bg-background border border-border px-1 py-0.5 shadow-sm text-muted-foreground">
+                                {note.status === 'published' ? (
+                                    <button type="button" title="Hide" onClick={() => setStatus(note, 'hidden')} className="p-1 hover:text-foreground">
+                                        <EyeOff className="h-3 w-3" />
+                                    </button>
+                                ) : (
+                                    <button type="button" title={note.status === 'pending' ? 'Approve' : 'Show again'} onClick={() => setStatus(note, 'published')} className="p-1 hover:text-emerald-600">
+                                        {note.status === 'pending' ? <Check className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                                    </button>
+                                )}
+                                <button type="button" title="Block author" onClick={() => blockAuthor(note)} className="p-1 hover:text-red-500">
+                                    <UserX className="h-3 w-3" />
+                                </button>
+                                <button type="button" title="Delete" onClick={() => deleteNote(note)} className="p-1 hover:text-red-500">
+                                    <Trash2 className="h-3 w-3" />
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                    placeholder="Leave a note..."
+                    value={content}
+                    maxLength={200}
+                    onChange={(e) => setContent(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && postNote()}
+                    className="bg-background border-input text-foreground placeholder:text-muted-foreground"
+                />
+                <Input
+                    placeholder="Your name"
+                    value={author}
+                    maxLength={50}
+                    onChange={(e) => setAuthor(e.target.value)}
+                    className="sm:w-40 bg-background border-input text-foreground placeholder:text-muted-foreground"
+                />
+                <div className="flex items-center gap-1">
+                    {(Object.keys(NOTE_COLORS) as NoteColor[]).map(option => (
+                        <button
+                            key={option}
+                            type="button"
+                            title={option}
+                            onClick={() => setColor(option)}
+                            className={`h-7 w-7 rounded-full border-2 cursor-pointer ${NOTE_COLORS[option]} ${color === option ? 'border-primary' : 'border-transparent'}`}
+                        />
+                    ))}
+                </div>
+                <Button onClick={postNote} disabled={posting || !content.trim() || !author.trim()}>
+                    {posting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Post'}
+                </Button>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,233 @@
+// NotificationBell - Navbar bell with unread badge and the latest in-app notifications
+
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import io from 'socket.io-client';
+import { Bell, CalendarClock, CheckCheck, Coins, Flame, Loader2, ShieldCheck, StickyNote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { formatMoney } from '@/lib/currency';
+
+type NotificationType = 'ITEM_RESERVED' | 'CONTRIBUTION_ADDED' | 'NOTE_ADDED' | 'ITEM_HYPED' | 'OCCASION_REMINDER';
+
+interface AppNotification {
+    id: string;
+    type: NotificationType;
+    wishlistId?: string | null;
+    itemId?: string | null;
+    payload: {
+        wishlistTitle?: string;
+        itemTitle?: string;
+        actorName?: string;
+        quantity?: number;
+        amount?: number;
+        currency?: string;
+        isFullyFunded?: boolean;
+        excerpt?: string;
+        pending?: boolean;
+        count?: number;
+        ownerName?: string;
+        occasion?: string | null;
+        daysLeft?: number;
+    };
+    readAt?: string | null;
+    createdAt: string;
+}
+
+// Matches the server's page size; a full page means there may be more
+const PAGE_SIZE = 30;
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+    ITEM_RESERVED: ShieldCheck,
+    CONTRIBUTION_ADDED: Coins,
+    NOTE_ADDED: StickyNote,
+    ITEM_HYPED: Flame,
+    OCCASION_REMINDER: CalendarClock,
+};
+
+// Format relative time from an ISO date
+const timeAgo = (dateStr: string) => {
+    const diff = Date.now() - new Date(dateStr).getTime();
+    const minutes = Math.floor(diff / 60000);
+    if (minutes < 60) return `${Math.max(minutes, 1)}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h`;
+    return `${Math.floor(hours / 24)}d`;
+};
+
+const daysLeftText = (days = 0) => (days <= 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`);
+
+const describe = ({ type, payload }: AppNotification) => {
+    const who = payload.actorName || 'Someone';
+    const item = payload.itemTitle || 'an item';
+    switch (type) {
+        case 'ITEM_RESERVED':
+            return `${who} reserved ${payload.quantity && payload.quantity > 1 ? `${payload.quantity} × ` : ''}${item}`;
+        case 'CONTRIBUTION_ADDED':
+            return `${who} chipped in ${formatMoney(Number(payload.amount || 0), payload.currency)} on ${item}${payload.isFullyFunded ? ' — fully funded!' : ''}`;
+        case 'NOTE_ADDED':
+            return payload.pending
+                ? `${who} left a note waiting for your approval`
+                : `${who} left a note: “${payload.excerpt}”`;
+        case 'ITEM_HYPED':
+            return payload.count && payload.count > 1 ? `${item} got ${payload.count} new hypes` : `Someone hyped ${item}`;
+        case 'OCCASION_REMINDER':
+            return `${payload.ownerName || 'Their'}'s ${payload.occasion || 'big day'} is ${daysLeftText(payload.daysLeft)} — don't forget your gift`;
+    }
+};
+
+/**
+ * NotificationBell - Loads the newest notifications, then keeps the list
+ * and the unread badge live over the user's own socket room (which also
+ * syncs read state between tabs). Opening an entry marks it read.
+ */
+export default function NotificationBell() {
+    const navigate = useNavigate();
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
+    const [loadingMore, setLoadingMore] = useState(false);
+
+    const loadPage = useCallback(async (before?: string) => {
+        const res = await axios.get<{ notifications: AppNotification[]; unreadCount: number }>('/api/notifications', {
+            params: before ? { before } : undefined,
+        });
+        setNotifications(prev => before ? [...prev, ...res.data.notifications] : res.data.notifications);
+        setUnreadCount(res.data.unreadCount);
+        setHasMore(res.data.notifications.length === PAGE_SIZE);
+    }, []);
+
+    useEffect(() => {
+        loadPage().catch(() => {
+            // The bell stays empty; nothing else depends on it
+        });
+
+        const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
+        const socket = io(API_URL, { withCredentials: true });
+
+        socket.on('notification', (notification: AppNotification) => {
+            let alreadyUnread = false;
+            setNotifications(prev => {
+                alreadyUnread = prev.some(n => n.id === notification.id && !n.readAt);
+                // Bumped hype notifications move back to the top
+                return [notification, ...prev.filter(n => n.id !== notification.id)];
+            });
+            setUnreadCount(count => alreadyUnread ? count : count + 1);
+        });
+
+        socket.on('notifications_read', (data: { ids: string[] | 'all'; unreadCount: number }) => {
+            const readAt = new Date().toISOString();
+            setNotifications(prev => prev.map(n => (
+                !n.readAt && (data.ids === 'all' || data.ids.includes(n.id)) ? { ...n, readAt } : n
+            )));
+            setUnreadCount(data.unreadCount);
+        });
+
+        return () => {
+            socket.disconnect();
+        };
+    }, [loadPage]);
+
+    const open = async (notification: AppNotification) => {
+        if (!notification.readAt) {
+            setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n));
+            setUnreadCount(count => Math.max(count - 1, 0));
+            axios.post(`/api/notifications/${notification.id}/read`)
+                .then(res => setUnreadCount(res.data.unreadCount))
+                .catch(() => {
+                    // Stays read locally; the next load shows the server's view
+                });
+        }
+        if (notification.wishlistId) navigate(`/wishlist/${notification.wishlistId}`);
+    };
+
+    const markAllRead = async () => {
+        const readAt = new Date().toISOString();
+        setNotifications(prev => prev.map(n => n.readAt ? n : { ...n, readAt }));
+        setUnreadCount(0);
+        try {
+            await axios.post('/api/notifications/read-all');
+        } catch {
+            loadPage().catch(() => {
+                // Leave the optimistic state; it will correct on the next load
+            });
+        }
+    };
+
+    const loadMore = async () => {
+        const last = notifications[notifications.length - 1];
+        if (!last || loadingMore) return;
+        setLoadingMore(true);
+        try {
+            await loadPage(last.createdAt);
+        } catch {
+            setHasMore(false);
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="relative text-muted-foreground hover:text-foreground hover:bg-muted/50" aria-label={`Notifications${unreadCount ? ` (${unreadCount} unread)` : ''}`}>
+                    <Bell className="h-5 w-5" />
+                    {unreadCount > 0 && (
+                        <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-primary text-[10px] font-bold leading-4 text-primary-foreground text-center">
+                            {unreadCount > 99 ? '99+' : unreadCount}
+                        </span>
+                    )}
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-80 bg-popover text-popover-foreground border-border shadow-md rounded-lg p-1">
+                <div className="flex items-center justify-between px-3 py-2 border-b border-border mb-1">
+                    <p className="text-sm font-medium text-foreground">Notifications</p>
+                    {unreadCount > 0 && (
+                        <button onClick={markAllRead} className="inline-flex items-center gap-1 text-xs text-primary hover:underline cursor-pointer">
+                            <CheckCheck className="h-3.5 w-3.5" /> Mark all read
+                        </button>
+                    )}
+                </div>
+                <div className="max-h-96 overflow-y-auto">
+                    {notifications.length === 0 ? (
+                        <p className="px-3 py-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+                    ) : notifications.map(notification => {
+                        const Icon = TYPE_ICONS[notification.type] || Bell;
+                        return (
+                            <DropdownMenuItem
+                                key={notification.id}
+                                onClick={() => open(notification)}
+                                className="cursor-pointer rounded-md items-start gap-3 py-2 focus:bg-accent focus:text-accent-foreground"
+                            >
+                                <Icon className={`mt-0.5 h-4 w-4 shrink-0 ${notification.readAt ? 'text-muted-foreground' : 'text-primary'}`} />
+                                <div className="min-w-0 flex-1">
+                                    <p className={`text-sm leading-snug ${notification.readAt ? 'text-muted-foreground' : 'text-foreground font-medium'}`}>
+                                        {describe(notification)}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground truncate">
+                                        {notification.payload.wishlistTitle} · {timeAgo(notification.createdAt)}
+                                    </p>
+                                </div>
+                                {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                            </DropdownMenuItem>
+                        );
+                    })}
+                    {hasMore && (
+                        <button
+                            onClick={(e) => { e.preventDefault(); loadMore(); }}
+                            className="w-full py-2 text-xs text-muted-foreground hover:text-foreground cursor-pointer"
+                        >
+                            {loadingMore ? <Loader2 className="mx-auto h-3.5 w-3.5 animate-spin" /> : 'Load older'}
+                        </button>
+                    )}
+                </div>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -0,0 +1,136 @@
+// OccasionDialog - Owner controls for a wishlist's occasion, event date and reveal opt-out
+
+import { useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { CalendarDays, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { OCCASION_PRESETS, toDateInputValue, todayInputValue, type Occasion } from '@/lib/occasions';
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+/** Occasion fields of a wishlist as returned by the API */
+export interface OccasionSettings {
+    occasion?: Occasion | null;
+    eventDate?: string | null;
+    revealAfterEvent?: boolean;
+}
+
+interface OccasionDialogProps {
+    wishlistId: string;
+    title: string;
+    settings: OccasionSettings;
+    onSaved: (settings: OccasionSettings) => void;
+}
+
+/**
+ * OccasionDialog - Lets the owner attach a date to the wishlist.
+ * After the date passes, reservations are revealed unless the owner opts out.
+ */
+export default function OccasionDialog({ wishlistId, title, settings, onSaved }: OccasionDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [occasion, setOccasion] = useState<Occasion | null>(settings.occasion ?? null);
+    const [eventDate, setEventDate] = useState(toDateInputValue(settings.eventDate));
+    const [revealAfterEvent, setRevealAfterEvent] = useState(settings.revealAfterEvent ?? true);
+    const [saving, setSaving] = useState(false);
+
+    // Re-sync the form with the latest settings whenever the dialog opens
+    const handleOpenChange = (next: boolean) => {
+        if (next) {
+            setOccasion(settings.occasion ?? null);
+            setEventDate(toDateInputValue(settings.eventDate));
+            setRevealAfterEvent(settings.revealAfterEvent ?? true);
+        }
+        setOpen(next);
+    };
+
+    const save = async () => {
+        if (saving) return;
+        setSaving(true);
+        try {
+            const res = await axios.put(`/api/wishlists/${wishlistId}`, {
+                title,
+                occasion,
+                eventDate: eventDate || null,
+                revealAfterEvent,
+            });
+            onSaved({
+                occasion: res.data.occasion,
+                eventDate: res.data.eventDate,
+                revealAfterEvent: res.data.revealAfterEvent,
+            });
+            toast.success('Occasion saved');
+            setOpen(false);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to save occasion'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="bg-background/80 backdrop-blur-sm border-border h-9 text-muted-foreground hover:text-foreground active:scale-95 transition-all shadow-sm">
+                    <CalendarDays className="h-3.5 w-3.5 mr-1.5" /> {settings.eventDate ? 'Occasion' : 'Set date'}
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-popover border-border">
+                <DialogHeader>
+                    <DialogTitle className="text-foreground">Occasion</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 pt-2">
+                    <div className="grid grid-cols-4 gap-2">
+                        {(Object.entries(OCCASION_PRESETS) as [Occasion, { label: string; emoji: string }][]).map(([key, preset]) => (
+                            <button
+                                key={key}
+                                type="button"
+                                onClick={() => setOccasion(occasion === key ? null : key)}
+                                className={`rounded-lg border px-2 py-2 text-xs transition-all cursor-pointer ${occasion === key
+                                    ? 'border-primary bg-primary/10 text-primary'
+                                    : 'border-border text-muted-foreground hover:text-foreground'
+                                    }`}
+                            >
+                                <span className="block text-base">{preset.emoji}</span>
+                                {preset.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="space-y-2">
+                        <Label className="text-muted-foreground">Event date</Label>
+                        <Input
+                            type="date"
+                            value={eventDate}
+                            min={todayInputValue()}
+                            onChange={(e) => setEventDate(e.target.value)}
+                            className="bg-background border-input text-foreground"
+                        />
+                    </div>
+                    <label className="flex items-start gap-2 text-xs text-muted-foreground cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={revealAfterEvent}
+                            onChange={(e) => setRevealAfterEvent(e.target.checked)}
+                            className="accent-primary mt-0.5"
+                        />
+                        <span>
+                            Reveal who reserved and chipped in once the event is over.
+                            Untick to keep it a surprise forever.
+                        </span>
+                    </label>
+                    <Button onClick={save} disabled={saving} className="w-full">
+                        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,94 @@
+// OfflineSync - Offline banner and background replay of the outbox once the connection is back
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { listOutbox, replayOutbox, subscribeToOutbox, type OutboxEntry } from '@/lib/outbox';
+
+// The browser can think it's online while the API is unreachable, so pending entries are retried on a timer too
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+const VERBS: Record<OutboxEntry['action']['kind'], string> = {
+    ADD_ITEM: 'add',
+    RESERVE: 'reserve',
+    HYPE: 'hype',
+};
+
+/**
+ * OfflineSync - Mounted once for the whole app. Replays the signed-in
+ * user's (or guest's) queued actions after auth has loaded, whenever the
+ * browser comes back online and periodically while any are pending, and
+ * reports each outcome, including conflicts like "already reserved".
+ */
+export default function OfflineSync() {
+    const { user, isLoading } = useAuth();
+    const userId = user?.id ?? null;
+    const [online, setOnline] = useState(() => navigator.onLine);
+    const [pendingCount, setPendingCount] = useState(0);
+
+    const refreshCount = useCallback(() => {
+        listOutbox(userId)
+            .then(entries => setPendingCount(entries.length))
+            .catch(() => setPendingCount(0));
+    }, [userId]);
+
+    const sync = useCallback(async () => {
+        if (!navigator.onLine) return;
+        try {
+            const results = await replayOutbox(userId);
+            results.forEach(({ entry, ok, message }) => {
+                const verb = VERBS[entry.action.kind];
+                if (ok) toast.success(`Synced: ${verb} “${entry.label}”`);
+                else toast.error(`Couldn't ${verb} “${entry.label}”: ${message}`, { duration: 10000 });
+            });
+        } catch {
+            // Storage unavailable; nothing was queued either
+        }
+    }, [userId]);
+
+    useEffect(() => {
+        const goOnline = () => {
+            setOnline(true);
+            sync();
+        };
+        const goOffline = () => setOnline(false);
+        window.addEventListener('online', goOnline);
+        window.addEventListener('offline', goOffline);
+        return () => {
+            window.removeEventListener('online', goOnline);
+            window.removeEventListener('offline', goOffline);
+        };
+    }, [sync]);
+
+    // Replaying needs the session (and its CSRF token) restored first
+    useEffect(() => {
+        if (isLoading) return;
+        refreshCount();
+        sync();
+        return subscribeToOutbox(refreshCount);
+    }, [isLoading, refreshCount, sync]);
+
+    useEffect(() => {
+        if (isLoading || pendingCount === 0) return;
+        const interval = setInterval(sync, RETRY_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [isLoading, pendingCount, sync]);
+
+    if (online && pendingCount === 0) return null;
+
+    return (
+        <div className="sticky top-16 z-40 bg-amber-50 border-b border-amber-200 text-amber-900 text-sm">
+            <div className="max-w-6xl mx-auto px-4 py-2 flex items-center gap-2">
+                {online ? <RefreshCw className="h-4 w-4 animate-spin" /> : <CloudOff className="h-4 w-4" />}
+                <span>
+                    {online
+                        ? `Syncing ${pendingCount} offline ${pendingCount === 1 ? 'change' : 'changes'}...`
+                        : pendingCount > 0
+                            ? `You're offline. ${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} will sync when you reconnect.`
+                            : "You're offline. Showing the last saved copy; adding, reserving and hyping will sync later."}
+                </span>
+            </div>
+        </div>
+    );
+}
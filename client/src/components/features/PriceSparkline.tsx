@@ -0,0 +1,62 @@
+// PriceSparkline - Tiny inline chart of an item's tracked price history
+
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+
+export interface PricePoint {
+    // Decimals arrive from the API as strings
+    price: number | string;
+    currency: string;
+    recordedAt: string;
+}
+
+interface PriceSparklineProps {
+    points: PricePoint[];
+    currency: string;
+    className?: string;
+}
+
+const WIDTH = 96;
+const HEIGHT = 24;
+
+/**
+ * PriceSparkline - Shown on item cards once the price has moved at least
+ * once. Green when the latest price is below the first one recorded.
+ */
+export default function PriceSparkline({ points, currency, className = '' }: PriceSparklineProps) {
+    // Points in another currency predate a currency switch and aren't comparable
+    const series = points.filter(point => point.currency === currency).map(point => Number(point.price));
+    if (series.length < 2) return null;
+
+    const min = Math.min(...series);
+    const max = Math.max(...series);
+    const range = max - min || 1;
+    const coordinates = series.map((price, index) => {
+        const x = (index / (series.length - 1)) * WIDTH;
+        const y = HEIGHT - 2 - ((price - min) / range) * (HEIGHT - 4);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+
+    const first = series[0];
+    const last = series[series.length - 1];
+    const dropped = last < first;
+    const change = Math.round(((last - first) / first) * 100);
+    const tone = dropped ? 'text-emerald-500' : last > first ? 'text-rose-500' : 'text-muted-foreground';
+    const Trend = dropped ? TrendingDown : TrendingUp;
+
+    return (
+        <div
+            className={`flex items-center gap-2 text-xs ${tone} ${className}`}
+            title={`Lowest ${formatMoney(min, currency)} · highest ${formatMoney(max, currency)}`}
+        >
+            <svg width={WIDTH} height={HEIGHT} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="overflow-visible" aria-hidden="true">
+                <polyline points={coordinates.join(' ')} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+            </svg>
+            {change !== 0 && (
+                <span className="inline-flex items-center gap-0.5 font-medium">
+                    <Trend className="h-3 w-3" /> {change > 0 ? '+' : ''}{change}%
+                </span>
+            )}
+        </div>
+    );
+}
@@ -3,6 +3,7 @@
 
 import { motion } from 'framer-motion';
 import { Crown, ImageOff } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
 
 /** Shape of a single shrine item from the API */
 interface ShrineItem {
@@ -10,6 +11,7 @@ interface ShrineItem {
     title: string;
     imageUrl?: string | null;
     price?: number | null;
+    currency?: string;
     hypeCount: number;
 }
 
@@ -66,7 +68,7 @@ export default function ShrineGrid({ items, userName }: ShrineGridProps) {
                             </p>
                             {item.price && (
                                 <p className="text-[10px] text-amber-300/80 font-medium">
-                                    ${Number(item.price).toFixed(0)}
+                                    {formatMoney(Math.round(Number(item.price)), item.currency)}
                                 </p>
                             )}
                         </div>
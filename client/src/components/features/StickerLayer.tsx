@@ -0,0 +1,97 @@
+// StickerLayer - Emoji stickers positioned over the wishlist hero banner, draggable while decorating
+
+import { useRef, useState, type PointerEvent } from 'react';
+import { Minus, Plus, X } from 'lucide-react';
+import type { Sticker } from '@/lib/decor';
+
+interface StickerLayerProps {
+    stickers: Sticker[];
+    editing?: boolean;
+    onChange?: (stickers: Sticker[]) => void;
+}
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, Math.round(value * 10) / 10));
+
+/**
+ * StickerLayer - Fills its (relative) parent. Viewers just see the stickers;
+ * while the owner is decorating, stickers can be dragged, resized and removed.
+ * The layer itself never takes clicks, so the banner's buttons keep working.
+ */
+export default function StickerLayer({ stickers, editing = false, onChange }: StickerLayerProps) {
+    const layerRef = useRef<HTMLDivElement>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+
+    const update = (id: string, patch: Partial<Sticker>) => {
+        onChange?.(stickers.map(sticker => sticker.id === id ? { ...sticker, ...patch } : sticker));
+    };
+
+    const moveTo = (id: string, e: PointerEvent) => {
+        const bounds = layerRef.current?.getBoundingClientRect();
+        if (!bounds) return;
+        update(id, {
+            x: clampPercent(((e.clientX - bounds.left) / bounds.width) * 100),
+            y: clampPercent(((e.clientY - bounds.top) / bounds.height) * 100),
+        });
+    };
+
+    return (
+        <div ref={layerRef} className="absolute inset-0 pointer-events-none z-[5]" aria-hidden={!editing}>
+            {stickers.map(sticker => {
+                const selected = editing && selectedId === sticker.id;
+                return (
+                    <div
+                        key={sticker.id}
+                        className={`absolute -translate-x-1/2 -translate-y-1/2 select-none ${editing ? 'pointer-events-auto cursor-grab active:cursor-grabbing touch-none' : ''}`}
+                        style={{ left: `${sticker.x}%`, top: `${sticker.y}%` }}
+                        onPointerDown={editing ? (e) => {
+                            e.currentTarget.setPointerCapture(e.pointerId);
+                            setSelectedId(sticker.id);
+                            setDraggingId(sticker.id);
+                        } : undefined}
+                        onPointerMove={editing ? (e) => draggingId === sticker.id && moveTo(sticker.id, e) : undefined}
+                        onPointerUp={editing ? () => setDraggingId(null) : undefined}
+                    >
+                        <span
+                            className={`block text-4xl drop-shadow-md transition-transform ${selected ? 'ring-2 ring-primary/60 rounded-lg' : ''}`}
+                            style={{ transform: `rotate(${sticker.rotation}deg) scale(${sticker.scale})` }}
+                        >
+                            {sticker.emoji}
+                        </span>
+                        {selected && (
+                            <div
+                                className="absolute left-1/2 -translate-x-1/2 top-full mt-2 flex items-center gap-1 bg-background/90 backdrop-blur-sm border border-border rounded-full px-1.5 py-1 shadow-sm"
+                                onPointerDown={(e) => e.stopPropagation()}
+                            >
+                                <button
+                                    type="button"
+                                    onClick={() => update(sticker.id, { scale: Math.max(0.5, sticker.scale - 0.25) })}
+                                    className="p-0.5 text-muted-foreground hover:text-foreground"
+                                    aria-label="Smaller"
+                                >
+                                    <Minus className="h-3 w-3" />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => update(sticker.id, { scale: Math.min(3, sticker.scale + 0.25) })}
+                                    className="p-0.5 text-muted-foreground hover:text-foreground"
+                                    aria-label="Bigger"
+                                >
+                                    <Plus className="h-3 w-3" />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => onChange?.(stickers.filter(other => other.id !== sticker.id))}
+                                    className="p-0.5 text-muted-foreground hover:text-red-500"
+                                    aria-label="Remove sticker"
+                                >
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -1,58 +1,157 @@
 // WrappedCard - "Gift Wrapped" shareable stats card (Spotify Wrapped-inspired)
-// Generates a visually rich card with user's wishlist analytics
+// Generates a visually rich card with user's wishlist analytics for a chosen period
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
 import axios from 'axios';
 import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { formatMoney } from '@/lib/currency';
 import {
-    TrendingUp, Flame, DollarSign, Target,
-    Users, BarChart3, Sparkles, Loader2
+    TrendingUp, Flame, DollarSign, Target, Users, BarChart3, Sparkles, Loader2,
+    CalendarDays, Gift, Star, Play, Share2, Lock
 } from 'lucide-react';
+import WrappedStory from '@/components/features/WrappedStory';
 
 /** Shape of the wrapped stats from the API */
-interface WrappedStats {
+export interface WrappedStats {
     userName: string;
     karma: number;
     level: number;
+    period: { key: string; label: string };
     stats: {
+        currency: string;
         totalItems: number;
         totalWishlists: number;
         totalValue: number;
         fulfilledCount: number;
         fulfillmentRate: number;
-        mostExpensive: { title: string; price: number } | null;
+        mostExpensive: { title: string; price: number; originalPrice: number; originalCurrency: string } | null;
         mostHyped: { title: string; hypeCount: number } | null;
         topContributor: { name: string; total: number } | null;
+        topGifter: { name: string; giftCount: number; total: number } | null;
+        busiestMonth: { month: string; label: string; itemCount: number } | null;
+        haulCount: number;
+        haulAverageRating: number | null;
+        avgDaysToFulfil: number | null;
     };
     imageUrls: string[];
+    // Stable links: the unfurling share page, the card images and the in-app page
+    share: { share: string; png: string; svg: string; app: string };
 }
 
 interface WrappedCardProps {
     userId: string;
+    // Currency to convert money stats into; defaults to the user's display currency
+    currency?: string;
+    // "all", a year ("2026") or a range ("2026-01-01..2026-06-30")
+    initialPeriod?: string;
+    onPeriodChange?: (period: string) => void;
 }
 
+const RANGE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/;
+
+const thisYear = new Date().getFullYear();
+const PRESETS = [
+    { key: 'all', label: 'All time' },
+    { key: String(thisYear), label: String(thisYear) },
+    { key: String(thisYear - 1), label: String(thisYear - 1) },
+];
+
+// Stat row component for reuse
+const StatRow = ({ icon: Icon, label, value, accent = 'text-violet-400' }: {
+    icon: React.ElementType;
+    label: string;
+    value: string;
+    accent?: string;
+}) => (
+    <div className="flex items-center gap-3 py-2">
+        <div className={`h-8 w-8 rounded-lg bg-white/5 flex items-center justify-center ${accent}`}>
+            <Icon className="h-4 w-4" />
+        </div>
+        <div className="flex-1 min-w-0">
+            <p className="text-[11px] text-gray-500 uppercase tracking-wider">{label}</p>
+            <p className="text-sm font-semibold text-white truncate">{value}</p>
+        </div>
+    </div>
+);
+
 /**
- * WrappedCard - Fetches and renders Spotify-Wrapped-style analytics.
- * Shows most expensive item, most hyped, top contributor, and fulfillment rate.
+ * WrappedCard - Fetches and renders Spotify-Wrapped-style analytics for
+ * all time, a year or a custom date range. Shows most expensive item, most
+ * hyped, busiest month, top gifter and contributor, fulfillment and haul
+ * stats, and can play them as a story or share a link that unfurls as a card.
  */
-export default function WrappedCard({ userId }: WrappedCardProps) {
+export default function WrappedCard({ userId, currency, initialPeriod = 'all', onPeriodChange }: WrappedCardProps) {
     const [data, setData] = useState<WrappedStats | null>(null);
     const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    const [period, setPeriod] = useState(initialPeriod);
+    const [customRange, setCustomRange] = useState(() => {
+        const match = RANGE_PATTERN.exec(initialPeriod);
+        return { from: match?.[1] ?? '', to: match?.[2] ?? '' };
+    });
+    const [showCustom, setShowCustom] = useState(() => RANGE_PATTERN.test(initialPeriod));
+    const [storyOpen, setStoryOpen] = useState(false);
+    // Set when the owner has hidden their Wrapped from this viewer
+    const [privateMessage, setPrivateMessage] = useState<string | null>(null);
 
-    // Fetch wrapped stats on mount
+    // Fetch wrapped stats whenever the period changes
     useEffect(() => {
         const fetchWrapped = async () => {
             try {
-                const res = await axios.get(`/api/wrapped/${userId}`);
+                const res = await axios.get(`/api/wrapped/${userId}`, {
+                    params: { period, ...(currency ? { currency } : {}) },
+                });
                 setData(res.data);
-            } catch {
-                // Silently fail - card just won't render
+                setPrivateMessage(null);
+            } catch (error) {
+                if (axios.isAxiosError(error) && error.response?.data?.error?.code === 'PROFILE_SECTION_PRIVATE') {
+                    setPrivateMessage(error.response.data.error.message);
+                }
+                // Otherwise silently fail - card keeps the last period it showed (or doesn't render)
             } finally {
                 setLoading(false);
+                setRefreshing(false);
             }
         };
         fetchWrapped();
-    }, [userId]);
+    }, [userId, currency, period]);
+
+    const choosePeriod = (next: string) => {
+        if (next === period) return;
+        setRefreshing(true);
+        setPeriod(next);
+        onPeriodChange?.(next);
+    };
+
+    const applyCustomRange = () => {
+        if (!customRange.from || !customRange.to) return;
+        if (customRange.to < customRange.from) {
+            toast.error('The range ends before it starts');
+            return;
+        }
+        choosePeriod(`${customRange.from}..${customRange.to}`);
+    };
+
+    const share = useCallback(async () => {
+        if (!data) return;
+        const title = `${data.userName}'s Gift Wrapped · ${data.period.label}`;
+        try {
+            if (navigator.share) {
+                await navigator.share({ title, url: data.share.share });
+            } else {
+                await navigator.clipboard.writeText(data.share.share);
+                toast.success('Share link copied');
+            }
+        } catch (error) {
+            // Closing the share sheet is not an error
+            if (error instanceof DOMException && error.name === 'AbortError') return;
+            toast.error('Could not share the link');
+        }
+    }, [data]);
+
+    const closeStory = useCallback(() => setStoryOpen(false), []);
 
     if (loading) {
         return (
@@ -62,25 +161,18 @@ export default function WrappedCard({ userId }: WrappedCardProps) {
         );
     }
 
-    if (!data || data.stats.totalItems === 0) return null;
-
-    // Stat row component for reuse
-    const StatRow = ({ icon: Icon, label, value, accent = 'text-violet-400' }: {
-        icon: React.ElementType;
-        label: string;
-        value: string;
-        accent?: string;
-    }) => (
-        <div className="flex items-center gap-3 py-2">
-            <div className={`h-8 w-8 rounded-lg bg-white/5 flex items-center justify-center ${accent}`}>
-                <Icon className="h-4 w-4" />
-            </div>
-            <div className="flex-1 min-w-0">
-                <p className="text-[11px] text-gray-500 uppercase tracking-wider">{label}</p>
-                <p className="text-sm font-semibold text-white truncate">{value}</p>
+    if (privateMessage) {
+        return (
+            <div className="glass rounded-2xl p-8 flex flex-col items-center gap-2 text-center">
+                <Lock className="h-6 w-6 text-violet-400" />
+                <p className="text-sm text-muted-foreground">{privateMessage}</p>
             </div>
-        </div>
-    );
+        );
+    }
+
+    if (!data) return null;
+
+    const isEmpty = data.stats.totalItems === 0 && data.stats.haulCount === 0;
 
     return (
         <motion.div
@@ -95,71 +187,182 @@ export default function WrappedCard({ userId }: WrappedCardProps) {
                     <h2 className="text-base font-bold text-white font-coquette italic">
                         {data.userName}'s Gift Wrapped
                     </h2>
+                    {refreshing && <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-400" />}
                 </div>
-                <p className="text-[11px] text-gray-400 mt-1">Your wishlist personality, decoded.</p>
-            </div>
+                <p className="text-[11px] text-gray-400 mt-1">Your wishlist personality, decoded · {data.period.label}</p>
 
-            {/* Stats grid */}
-            <div className="px-5 py-3 space-y-0.5">
-                {/* Overview */}
-                <StatRow
-                    icon={BarChart3}
-                    label="Total Wishlist Value"
-                    value={`$${data.stats.totalValue.toLocaleString()}`}
-                    accent="text-emerald-400"
-                />
-
-                <StatRow
-                    icon={Target}
-                    label="Fulfillment Rate"
-                    value={`${data.stats.fulfillmentRate}% (${data.stats.fulfilledCount}/${data.stats.totalItems})`}
-                    accent="text-amber-400"
-                />
-
-                {/* Most Delusional Wish */}
-                {data.stats.mostExpensive && (
-                    <StatRow
-                        icon={DollarSign}
-                        label="Most Delusional Wish"
-                        value={`${data.stats.mostExpensive.title} ($${data.stats.mostExpensive.price})`}
-                        accent="text-rose-400"
-                    />
+                {/* Period picker */}
+                <div className="mt-3 flex flex-wrap gap-1.5">
+                    {PRESETS.map(preset => (
+                        <button
+                            key={preset.key}
+                            onClick={() => { setShowCustom(false); choosePeriod(preset.key); }}
+                            className={`rounded-full px-3 py-1 text-[11px] font-medium transition-colors cursor-pointer ${period === preset.key && !showCustom
+                                ? 'bg-white/20 text-white'
+                                : 'bg-white/5 text-gray-400 hover:text-white'
+                                }`}
+                        >
+                            {preset.label}
+                        </button>
+                    ))}
+                    <button
+                        onClick={() => setShowCustom(true)}
+                        className={`rounded-full px-3 py-1 text-[11px] font-medium transition-colors cursor-pointer ${showCustom
+                            ? 'bg-white/20 text-white'
+                            : 'bg-white/5 text-gray-400 hover:text-white'
+                            }`}
+                    >
+                        Custom
+                    </button>
+                </div>
+                {showCustom && (
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px] text-gray-400">
+                        <input
+                            type="date"
+                            value={customRange.from}
+                            onChange={e => setCustomRange(range => ({ ...range, from: e.target.value }))}
+                            className="rounded-md bg-white/5 border border-white/10 px-2 py-1 text-white"
+                            aria-label="From"
+                        />
+                        to
+                        <input
+                            type="date"
+                            value={customRange.to}
+                            onChange={e => setCustomRange(range => ({ ...range, to: e.target.value }))}
+                            className="rounded-md bg-white/5 border border-white/10 px-2 py-1 text-white"
+                            aria-label="To"
+                        />
+                        <button
+                            onClick={applyCustomRange}
+                            disabled={!customRange.from || !customRange.to}
+                            className="rounded-full bg-violet-600 px-3 py-1 font-medium text-white hover:bg-violet-500 disabled:opacity-50 cursor-pointer"
+                        >
+                            Apply
+                        </button>
+                    </div>
                 )}
+            </div>
 
-                {/* Most Hyped */}
-                {data.stats.mostHyped && data.stats.mostHyped.hypeCount > 0 && (
-                    <StatRow
-                        icon={Flame}
-                        label="Most Hyped"
-                        value={`${data.stats.mostHyped.title} (${data.stats.mostHyped.hypeCount} hypes)`}
-                        accent="text-orange-400"
-                    />
-                )}
+            {isEmpty ? (
+                <p className="px-5 py-8 text-center text-sm text-gray-500">Nothing was wished for in this period.</p>
+            ) : (
+                <>
+                    {/* Stats grid */}
+                    <div className="px-5 py-3 space-y-0.5">
+                        {/* Overview */}
+                        <StatRow
+                            icon={BarChart3}
+                            label="Total Wishlist Value"
+                            value={formatMoney(data.stats.totalValue, data.stats.currency)}
+                            accent="text-emerald-400"
+                        />
 
-                {/* Top Contributor */}
-                {data.stats.topContributor && (
-                    <StatRow
-                        icon={Users}
-                        label="Top Contributor"
-                        value={`${data.stats.topContributor.name} ($${data.stats.topContributor.total})`}
-                        accent="text-cyan-400"
-                    />
-                )}
+                        <StatRow
+                            icon={Target}
+                            label="Fulfillment Rate"
+                            value={`${data.stats.fulfillmentRate}% (${data.stats.fulfilledCount}/${data.stats.totalItems})`}
+                            accent="text-amber-400"
+                        />
 
-                {/* Level & Karma */}
-                <StatRow
-                    icon={TrendingUp}
-                    label="Level & Karma"
-                    value={`Level ${data.level} / ${data.karma} karma`}
-                    accent="text-violet-400"
-                />
-            </div>
+                        {/* Most Delusional Wish */}
+                        {data.stats.mostExpensive && (
+                            <StatRow
+                                icon={DollarSign}
+                                label="Most Delusional Wish"
+                                value={`${data.stats.mostExpensive.title} (${formatMoney(data.stats.mostExpensive.originalPrice, data.stats.mostExpensive.originalCurrency)})`}
+                                accent="text-rose-400"
+                            />
+                        )}
+
+                        {/* Most Hyped */}
+                        {data.stats.mostHyped && data.stats.mostHyped.hypeCount > 0 && (
+                            <StatRow
+                                icon={Flame}
+                                label="Most Hyped"
+                                value={`${data.stats.mostHyped.title} (${data.stats.mostHyped.hypeCount} hypes)`}
+                                accent="text-orange-400"
+                            />
+                        )}
+
+                        {/* Busiest Month */}
+                        {data.stats.busiestMonth && (
+                            <StatRow
+                                icon={CalendarDays}
+                                label="Busiest Month"
+                                value={`${data.stats.busiestMonth.label} (${data.stats.busiestMonth.itemCount} added)`}
+                                accent="text-sky-400"
+                            />
+                        )}
+
+                        {/* Top Gifter */}
+                        {data.stats.topGifter && (
+                            <StatRow
+                                icon={Gift}
+                                label="Top Gifter"
+                                value={`${data.stats.topGifter.name} (${data.stats.topGifter.giftCount} ${data.stats.topGifter.giftCount === 1 ? 'gift' : 'gifts'})`}
+                                accent="text-pink-400"
+                            />
+                        )}
+
+                        {/* Top Contributor */}
+                        {data.stats.topContributor && (
+                            <StatRow
+                                icon={Users}
+                                label="Top Contributor"
+                                value={`${data.stats.topContributor.name} (${formatMoney(data.stats.topContributor.total, data.stats.currency)})`}
+                                accent="text-cyan-400"
+                            />
+                        )}
+
+                        {/* Hauls */}
+                        {data.stats.haulCount > 0 && (
+                            <StatRow
+                                icon={Star}
+                                label="Hauls"
+                                value={[
+                                    `${data.stats.haulCount} logged`,
+                                    data.stats.haulAverageRating !== null && `avg ${data.stats.haulAverageRating}/5`,
+                                    data.stats.avgDaysToFulfil !== null && `${data.stats.avgDaysToFulfil} days to fulfil`,
+                                ].filter(Boolean).join(' · ')}
+                                accent="text-yellow-400"
+                            />
+                        )}
+
+                        {/* Level & Karma */}
+                        <StatRow
+                            icon={TrendingUp}
+                            label="Level & Karma"
+                            value={`Level ${data.level} / ${data.karma} karma`}
+                            accent="text-violet-400"
+                        />
+                    </div>
+
+                    {/* Story and share */}
+                    <div className="px-5 pb-4 flex gap-2">
+                        <button
+                            onClick={() => setStoryOpen(true)}
+                            className="flex-1 inline-flex items-center justify-center gap-1.5 rounded-lg bg-violet-600 py-2 text-xs font-medium text-white hover:bg-violet-500 cursor-pointer"
+                        >
+                            <Play className="h-3.5 w-3.5" /> Play story
+                        </button>
+                        <button
+                            onClick={share}
+                            className="flex-1 inline-flex items-center justify-center gap-1.5 rounded-lg bg-white/5 py-2 text-xs font-medium text-white hover:bg-white/10 cursor-pointer"
+                        >
+                            <Share2 className="h-3.5 w-3.5" /> Share card
+                        </button>
+                    </div>
+                </>
+            )}
 
             {/* Footer watermark */}
             <div className="px-5 py-2 border-t border-white/5 flex items-center justify-between">
                 <span className="text-[10px] text-gray-600 font-coquette italic">giftly wrapped</span>
                 <span className="text-[10px] text-gray-600">{data.stats.totalWishlists} wishlists / {data.stats.totalItems} items</span>
             </div>
+
+            {/* Portalled so the page's transformed containers can't trap the fixed overlay */}
+            {storyOpen && createPortal(<WrappedStory data={data} onShare={share} onClose={closeStory} />, document.body)}
         </motion.div>
     );
 }
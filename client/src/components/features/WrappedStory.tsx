@@ -0,0 +1,219 @@
+// WrappedStory - Full-screen, auto-advancing slide show of a Gift Wrapped report
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import {
+    BookOpen, CalendarDays, DollarSign, Flame, Gift, Share2, Sparkles, Users, X
+} from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import type { WrappedStats } from '@/components/features/WrappedCard';
+
+interface WrappedStoryProps {
+    data: WrappedStats;
+    onShare: () => void;
+    onClose: () => void;
+}
+
+interface Slide {
+    key: string;
+    icon: typeof Gift;
+    eyebrow: string;
+    headline: string;
+    detail?: string;
+    gradient: string;
+}
+
+const SLIDE_MS = 5000;
+
+const days = (value: number) => `${value} ${value === 1 ? 'day' : 'days'}`;
+
+// Only slides with something to say are shown
+const buildSlides = ({ userName, period, stats }: WrappedStats): Slide[] => {
+    const slides: Slide[] = [
+        {
+            key: 'intro',
+            icon: Sparkles,
+            eyebrow: period.label,
+            headline: `${userName}'s Gift Wrapped`,
+            detail: 'Your wishes, unwrapped.',
+            gradient: 'from-violet-700 to-fuchsia-600',
+        },
+        {
+            key: 'wishes',
+            icon: Gift,
+            eyebrow: 'You wished for',
+            headline: `${stats.totalItems} ${stats.totalItems === 1 ? 'thing' : 'things'}`,
+            detail: `Worth ${formatMoney(stats.totalValue, stats.currency)} across ${stats.totalWishlists} ${stats.totalWishlists === 1 ? 'wishlist' : 'wishlists'}`,
+            gradient: 'from-fuchsia-700 to-pink-600',
+        },
+    ];
+
+    const { mostHyped, mostExpensive, busiestMonth, topGifter } = stats;
+    if (mostHyped && mostHyped.hypeCount > 0) {
+        slides.push({
+            key: 'hyped',
+            icon: Flame,
+            eyebrow: 'Your most hyped wish',
+            headline: mostHyped.title,
+            detail: `${mostHyped.hypeCount} hypes and counting`,
+            gradient: 'from-orange-600 to-rose-600',
+        });
+    }
+    if (mostExpensive) {
+        slides.push({
+            key: 'delusional',
+            icon: DollarSign,
+            eyebrow: 'Most delusional wish',
+            headline: mostExpensive.title,
+            detail: formatMoney(mostExpensive.originalPrice, mostExpensive.originalCurrency),
+            gradient: 'from-rose-700 to-red-600',
+        });
+    }
+    if (busiestMonth) {
+        slides.push({
+            key: 'busiest',
+            icon: CalendarDays,
+            eyebrow: 'Your busiest month',
+            headline: busiestMonth.label,
+            detail: `${busiestMonth.itemCount} ${busiestMonth.itemCount === 1 ? 'wish' : 'wishes'} added`,
+            gradient: 'from-sky-700 to-indigo-600',
+        });
+    }
+    if (topGifter) {
+        slides.push({
+            key: 'gifter',
+            icon: Users,
+            eyebrow: 'Your top gifter',
+            headline: topGifter.name,
+            detail: `${topGifter.giftCount} ${topGifter.giftCount === 1 ? 'gift' : 'gifts'}${topGifter.total > 0 ? ` · ${formatMoney(topGifter.total, stats.currency)} chipped in` : ''}`,
+            gradient: 'from-cyan-700 to-teal-600',
+        });
+    }
+    if (stats.fulfilledCount > 0) {
+        slides.push({
+            key: 'hauls',
+            icon: BookOpen,
+            eyebrow: 'Wishes come true',
+            headline: `${stats.fulfillmentRate}% fulfilled`,
+            detail: [
+                `${stats.fulfilledCount} unwrapped`,
+                stats.haulAverageRating !== null && `rated ${stats.haulAverageRating} / 5`,
+                stats.avgDaysToFulfil !== null && `${days(stats.avgDaysToFulfil)} from wish to haul`,
+            ].filter(Boolean).join(' · '),
+            gradient: 'from-emerald-700 to-teal-600',
+        });
+    }
+    return slides;
+};
+
+/**
+ * WrappedStory - Instagram-style story of the report: slides advance on a
+ * timer or with a tap (left third goes back), arrow keys and Escape work,
+ * and the last slide shows the share card with a share button.
+ */
+export default function WrappedStory({ data, onShare, onClose }: WrappedStoryProps) {
+    const slides = useMemo(() => buildSlides(data), [data]);
+    // The share card is the extra, final slide
+    const total = slides.length + 1;
+    const [index, setIndex] = useState(0);
+    const isOutro = index === slides.length;
+
+    const next = useCallback(() => setIndex(i => Math.min(i + 1, total - 1)), [total]);
+    const previous = useCallback(() => setIndex(i => Math.max(i - 1, 0)), []);
+
+    useEffect(() => {
+        if (isOutro) return;
+        const timer = setTimeout(next, SLIDE_MS);
+        return () => clearTimeout(timer);
+    }, [index, isOutro, next]);
+
+    useEffect(() => {
+        const onKey = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+            if (event.key === 'ArrowRight') next();
+            if (event.key === 'ArrowLeft') previous();
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    }, [next, previous, onClose]);
+
+    const onTap = (event: React.MouseEvent<HTMLDivElement>) => {
+        const { left, width } = event.currentTarget.getBoundingClientRect();
+        if (event.clientX - left < width / 3) previous();
+        else next();
+    };
+
+    const slide = slides[index];
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center" role="dialog" aria-modal="true" aria-label={`${data.userName}'s Gift Wrapped`}>
+            <div className="relative w-full max-w-sm h-[min(100dvh,44rem)] sm:rounded-2xl overflow-hidden">
+                {/* Progress bars */}
+                <div className="absolute top-3 inset-x-3 z-10 flex gap-1">
+                    {Array.from({ length: total }, (_, i) => (
+                        <div key={i} className="h-1 flex-1 rounded-full bg-white/25 overflow-hidden">
+                            {i < index && <div className="h-full w-full bg-white" />}
+                            {i === index && (
+                                <motion.div
+                                    key={index}
+                                    className="h-full bg-white"
+                                    initial={{ width: isOutro ? '100%' : '0%' }}
+                                    animate={{ width: '100%' }}
+                                    transition={{ duration: isOutro ? 0 : SLIDE_MS / 1000, ease: 'linear' }}
+                                />
+                            )}
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={onClose}
+                    className="absolute top-6 right-3 z-10 p-1 text-white/80 hover:text-white cursor-pointer"
+                    aria-label="Close story"
+                >
+                    <X className="h-5 w-5" />
+                </button>
+
+                <AnimatePresence mode="wait">
+                    {slide ? (
+                        <motion.div
+                            key={slide.key}
+                            initial={{ opacity: 0, scale: 0.97 }}
+                            animate={{ opacity: 1, scale: 1 }}
+                            exit={{ opacity: 0 }}
+                            transition={{ duration: 0.25 }}
+                            onClick={onTap}
+                            className={`absolute inset-0 bg-gradient-to-br ${slide.gradient} flex flex-col items-center justify-center text-center px-8 cursor-pointer select-none`}
+                        >
+                            <slide.icon className="h-10 w-10 text-white/80 mb-6" />
+                            <p className="text-xs uppercase tracking-[0.2em] text-white/70 mb-3">{slide.eyebrow}</p>
+                            <h2 className="text-3xl font-bold text-white font-coquette italic break-words max-w-full">{slide.headline}</h2>
+                            {slide.detail && <p className="mt-4 text-sm text-white/80">{slide.detail}</p>}
+                        </motion.div>
+                    ) : (
+                        <motion.div
+                            key="outro"
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            exit={{ opacity: 0 }}
+                            onClick={onTap}
+                            className="absolute inset-0 bg-gradient-to-br from-violet-900 to-pink-800 flex flex-col items-center justify-center px-6 gap-6"
+                        >
+                            <p className="text-xs uppercase tracking-[0.2em] text-white/70">That&apos;s a wrap</p>
+                            <img
+                                src={data.share.png}
+                                alt={`${data.userName}'s Gift Wrapped card`}
+                                className="w-full rounded-xl shadow-2xl border border-white/10"
+                            />
+                            <button
+                                onClick={(event) => { event.stopPropagation(); onShare(); }}
+                                className="inline-flex items-center gap-2 rounded-full bg-white px-5 py-2.5 text-sm font-semibold text-violet-900 hover:bg-white/90 cursor-pointer"
+                            >
+                                <Share2 className="h-4 w-4" /> Share
+                            </button>
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+        </div>
+    );
+}
@@ -1,78 +1,139 @@
-// AuthContext — Global auth state with login, logout, and token persistence
+// AuthContext — Global auth state backed by HttpOnly cookie sessions
 
-import { createContext, useContext, useState, useEffect } from 'react';
+import { createContext, useCallback, useContext, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import axios from 'axios';
+import { onSessionExpired, refreshSession, setCsrfToken } from '@/lib/http';
+import { disablePush, syncPushSubscription } from '@/lib/push';
+import { clearSnapshots } from '@/lib/offlineStore';
 
 // User shape returned by API
 interface User {
     id: string;
     email: string;
     name: string;
+    // Handle for the public profile at /u/:username
+    username: string;
+    avatarUrl?: string | null;
+    displayCurrency?: string;
+    emailVerifiedAt?: string | null;
+    // New address awaiting confirmation from its inbox
+    pendingEmail?: string | null;
 }
 
 // Context value shape
 interface AuthContextType {
     user: User | null;
-    token: string | null;
     isLoading: boolean;
-    login: (token: string, user: User) => void;
-    logout: () => void;
+    login: (user: User, csrfToken: string) => void;
+    logout: () => Promise<void>;
+    logoutAllDevices: () => Promise<void>;
+    updateUser: (changes: Partial<User>) => void;
 }
 
 const AuthContext = createContext<AuthContextType>({
     user: null,
-    token: null,
     isLoading: true,
     login: () => { },
-    logout: () => { },
+    logout: async () => { },
+    logoutAllDevices: async () => { },
+    updateUser: () => { },
 });
 
+// Refresh a little before the 15-minute access token runs out
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
 // Custom hook for consuming auth context
 export const useAuth = () => useContext(AuthContext);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
     const [user, setUser] = useState<User | null>(null);
-    const [token, setToken] = useState<string | null>(localStorage.getItem('token'));
     const [isLoading, setIsLoading] = useState(true);
 
-    // On mount, verify the stored token with the backend
+    // On mount, ask the backend who the session cookie belongs to
     useEffect(() => {
-        if (token) {
-            axios.get('/api/auth/me', {
-                headers: { Authorization: `Bearer ${token}` }
+        onSessionExpired(() => {
+            setCsrfToken(null);
+            setUser(null);
+        });
+
+        axios.get('/api/auth/me')
+            .then(res => {
+                const { csrfToken, ...profile } = res.data;
+                if (csrfToken) setCsrfToken(csrfToken);
+                setUser(profile);
             })
-                .then(res => {
-                    setUser(res.data);
-                })
-                .catch(() => {
-                    // Token is invalid or expired, clean up
-                    localStorage.removeItem('token');
-                    setToken(null);
-                    setUser(null);
-                })
-                .finally(() => setIsLoading(false));
-        } else {
-            setIsLoading(false);
-        }
-    }, [token]);
+            .catch(() => {
+                // No session (or it expired and couldn't be refreshed)
+                setUser(null);
+            })
+            .finally(() => setIsLoading(false));
+
+        return () => onSessionExpired(null);
+    }, []);
+
+    // Keep the access cookie fresh so optional-auth pages still see us as signed in
+    const userId = user?.id;
+    useEffect(() => {
+        if (!userId) return;
+        const interval = setInterval(() => {
+            refreshSession().then(ok => {
+                if (!ok) setUser(null);
+            });
+        }, REFRESH_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [userId]);
+
+    // Keep the server's copy of this browser's push endpoint current
+    useEffect(() => {
+        if (!userId) return;
+        syncPushSubscription().catch(() => {
+            // Push just stays as it was; settings can re-enable it
+        });
+    }, [userId]);
 
-    // Login — store token and user in state + localStorage
-    const login = (newToken: string, userData: User) => {
-        localStorage.setItem('token', newToken);
-        setToken(newToken);
+    // Login — the server already set the session cookies
+    const login = (userData: User, csrfToken: string) => {
+        setCsrfToken(csrfToken);
         setUser(userData);
     };
 
-    // Logout — clear everything and redirect
-    const logout = () => {
-        localStorage.removeItem('token');
-        setToken(null);
+    // Saved pages outlive the session, so they go with it on this device
+    const clearSession = () => {
+        setCsrfToken(null);
         setUser(null);
+        clearSnapshots();
+    };
+
+    // Logout — revoke this device's session on the server, then clear local state
+    const logout = async () => {
+        try {
+            // Whoever signs in next on this device shouldn't get our pushes
+            await disablePush();
+        } catch {
+            // Best effort; the endpoint is dropped once the push service reports it gone
+        }
+        try {
+            await axios.post('/api/auth/logout');
+        } catch {
+            // Cookies may already be gone; still sign out locally
+        }
+        clearSession();
+    };
+
+    // Revoke every session for this account, including this one
+    const logoutAllDevices = async () => {
+        await axios.post('/api/auth/logout-all');
+        clearSession();
     };
 
+    // Merge profile changes (e.g. preferences) into the current user
+    const updateUser = useCallback((changes: Partial<User>) => {
+        setUser(prev => (prev ? { ...prev, ...changes } : prev));
+    }, []);
+
     return (
-        <AuthContext.Provider value={{ user, token, isLoading, login, logout }}>
+        <AuthContext.Provider value={{ user, isLoading, login, logout, logoutAllDevices, updateUser }}>
             {children}
         </AuthContext.Provider>
     );
@@ -0,0 +1,22 @@
+// Wishlist collaborator roles shared by the Wishlist, Dashboard and Invite pages
+
+export type CollaboratorRole = 'co_owner' | 'editor' | 'viewer';
+export type WishlistRole = 'owner' | CollaboratorRole;
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['co_owner', 'editor', 'viewer'];
+
+export const ROLE_LABELS: Record<WishlistRole, string> = {
+    owner: 'Owner',
+    co_owner: 'Co-owner',
+    editor: 'Editor',
+    viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<CollaboratorRole, string> = {
+    co_owner: 'Shares the list: edits everything, gets spoiler protection',
+    editor: 'Adds, edits and reorders items',
+    viewer: 'Can see the list, even when it is private',
+};
+
+/** Owners and co-owners are who the list is for */
+export const isRecipientRole = (role?: WishlistRole | null) => role === 'owner' || role === 'co_owner';
@@ -0,0 +1,53 @@
+// Currency formatting and conversion using the server's offline rate table
+
+import axios from 'axios';
+
+/** Rate table from GET /api/currency/rates (units per 1 `base`) */
+export interface RateTable {
+    base: string;
+    updatedAt: string | null;
+    rates: Record<string, number>;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+let rateTablePromise: Promise<RateTable> | null = null;
+
+/** Fetch the rate table once per session; later calls share the same request */
+export const fetchRateTable = () => {
+    if (!rateTablePromise) {
+        rateTablePromise = axios.get<RateTable>('/api/currency/rates')
+            .then(res => res.data)
+            .catch(error => {
+                rateTablePromise = null;
+                throw error;
+            });
+    }
+    return rateTablePromise;
+};
+
+/**
+ * Convert between currencies via the table's base.
+ * Returns null when the table isn't loaded or a currency is unknown.
+ */
+export const convertAmount = (amount: number, from: string, to: string, table: RateTable | null) => {
+    if (from === to) return amount;
+    const fromRate = table?.rates[from];
+    const toRate = table?.rates[to];
+    if (!fromRate || !toRate) return null;
+    return (amount / fromRate) * toRate;
+};
+
+/** Format an amount in its currency, e.g. "$199", "€49.99", "¥12,000" */
+export const formatMoney = (amount: number, currency = DEFAULT_CURRENCY) => {
+    try {
+        return new Intl.NumberFormat(undefined, {
+            style: 'currency',
+            currency,
+            maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+        }).format(amount);
+    } catch {
+        // Unknown ISO code — fall back to a plain "12.50 XYZ"
+        return `${amount.toFixed(2)} ${currency}`;
+    }
+};
@@ -0,0 +1,41 @@
+// Wishlist layouts and hero-banner stickers shared by the Wishlist page and its decoration controls
+
+export type WishlistLayout = 'grid' | 'list' | 'masonry' | 'board';
+
+export const LAYOUT_LABELS: Record<WishlistLayout, string> = {
+    grid: 'Grid',
+    list: 'List',
+    masonry: 'Masonry',
+    board: 'Board',
+};
+
+export const isWishlistLayout = (value: unknown): value is WishlistLayout =>
+    typeof value === 'string' && value in LAYOUT_LABELS;
+
+/** One decoration; x/y are percentages of the banner so it stays put on any screen */
+export interface Sticker {
+    id: string;
+    emoji: string;
+    x: number;
+    y: number;
+    rotation: number;
+    scale: number;
+}
+
+// Matches the server's limit
+export const MAX_STICKERS = 30;
+
+export const STICKER_EMOJIS = ['🎁', '🎉', '🎈', '✨', '⭐', '❤️', '🌸', '🍰', '🎂', '🎄', '❄️', '🦄', '🌈', '🔥', '💎', '🧸'];
+
+/** The stored value is free-form JSON; anything that isn't a sticker list renders as none */
+export const parseStickers = (value: unknown): Sticker[] => (Array.isArray(value) ? value as Sticker[] : []);
+
+/** A new sticker near the middle of the banner, slightly tilted so a pile looks hand-placed */
+export const createSticker = (emoji: string): Sticker => ({
+    id: Math.random().toString(36).slice(2, 10),
+    emoji,
+    x: 35 + Math.random() * 30,
+    y: 30 + Math.random() * 40,
+    rotation: Math.round(Math.random() * 40 - 20),
+    scale: 1,
+});
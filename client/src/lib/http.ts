@@ -0,0 +1,79 @@
+// HTTP client setup — cookie credentials, CSRF header and transparent access-token refresh
+
+import axios, { type AxiosError, type InternalAxiosRequestConfig } from 'axios';
+
+const UNSAFE_METHODS = new Set(['post', 'put', 'patch', 'delete']);
+
+// Requests that must never trigger a refresh-and-retry
+const NO_RETRY_PATHS = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh', '/api/auth/logout'];
+
+// The CSRF cookie is HttpOnly, so the token is kept in memory from API responses
+let csrfToken: string | null = null;
+let refreshInFlight: Promise<boolean> | null = null;
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setCsrfToken = (token: string | null) => {
+    csrfToken = token;
+};
+
+/** Called when a refresh fails, i.e. the session is gone (revoked or expired) */
+export const onSessionExpired = (handler: (() => void) | null) => {
+    sessionExpiredHandler = handler;
+};
+
+/**
+ * Rotate the refresh token and get a fresh access cookie.
+ * Concurrent callers share one request so the token is only rotated once.
+ */
+export const refreshSession = () => {
+    if (!refreshInFlight) {
+        refreshInFlight = axios.post('/api/auth/refresh')
+            .then(res => {
+                setCsrfToken(res.data.csrfToken);
+                return true;
+            })
+            .catch(() => {
+                setCsrfToken(null);
+                return false;
+            })
+            .finally(() => {
+                refreshInFlight = null;
+            });
+    }
+    return refreshInFlight;
+};
+
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+/**
+ * Configure the shared axios instance once at startup.
+ */
+export const configureHttpClient = (baseURL: string) => {
+    axios.defaults.baseURL = baseURL;
+    axios.defaults.withCredentials = true;
+
+    axios.interceptors.request.use(config => {
+        if (csrfToken && UNSAFE_METHODS.has((config.method || 'get').toLowerCase())) {
+            config.headers.set('X-CSRF-Token', csrfToken);
+        }
+        return config;
+    });
+
+    // On 401, refresh once and replay the original request
+    axios.interceptors.response.use(undefined, async (error: AxiosError) => {
+        const config = error.config as RetriableConfig | undefined;
+        const path = config?.url || '';
+
+        if (error.response?.status !== 401 || !config || config._retried || NO_RETRY_PATHS.some(p => path.startsWith(p))) {
+            throw error;
+        }
+
+        config._retried = true;
+        const refreshed = await refreshSession();
+        if (!refreshed) {
+            sessionExpiredHandler?.();
+            throw error;
+        }
+        return axios(config);
+    });
+};
@@ -0,0 +1,42 @@
+// Occasion presets and countdown formatting shared by Dashboard and Wishlist pages
+
+export type Occasion = 'birthday' | 'wedding' | 'holiday' | 'other';
+
+export const OCCASION_PRESETS: Record<Occasion, { label: string; emoji: string }> = {
+    birthday: { label: 'Birthday', emoji: '🎂' },
+    wedding: { label: 'Wedding', emoji: '💍' },
+    holiday: { label: 'Holiday', emoji: '🎄' },
+    other: { label: 'Other', emoji: '🎉' },
+};
+
+const DAY_MS = 86400000;
+
+/**
+ * Days until an event date (0 = today, negative = passed).
+ * Compares calendar days so "tomorrow" is always 1 regardless of the hour.
+ */
+export const daysUntil = (dateStr: string) => {
+    const event = new Date(dateStr);
+    const today = new Date();
+    const eventDay = Date.UTC(event.getUTCFullYear(), event.getUTCMonth(), event.getUTCDate());
+    const todayDay = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+    return Math.round((eventDay - todayDay) / DAY_MS);
+};
+
+/** Human-readable countdown label, e.g. "12 days to go", "Tomorrow!", "Today!" */
+export const formatCountdown = (dateStr: string) => {
+    const days = daysUntil(dateStr);
+    if (days > 1) return `${days} days to go`;
+    if (days === 1) return 'Tomorrow!';
+    if (days === 0) return 'Today!';
+    return days === -1 ? 'Yesterday' : `${-days} days ago`;
+};
+
+/** Convert an ISO date from the API to the value of an <input type="date"> */
+export const toDateInputValue = (dateStr?: string | null) => (dateStr ? dateStr.slice(0, 10) : '');
+
+/** Today as an <input type="date"> value, the earliest event date the API accepts */
+export const todayInputValue = () => {
+    const today = new Date();
+    return new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())).toISOString().slice(0, 10);
+};
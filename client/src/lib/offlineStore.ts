@@ -0,0 +1,96 @@
+// Offline storage - IndexedDB page snapshots and the outbox of queued mutations
+
+const DB_NAME = 'giftly-offline';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const OUTBOX = 'outbox';
+
+// Snapshot keys are per person: they outlive the session, unlike the sessionStorage cache they replace
+export const dashboardSnapshotKey = (userId: string) => `giftly:dashboard:wishlists:${userId}`;
+export const wishlistSnapshotKey = (wishlistId: string, userId?: string | null) => `giftly:wishlist:${wishlistId}:${userId || 'guest'}`;
+
+export interface Snapshot<T> {
+    data: T;
+    savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS);
+                if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again (e.g. after private-mode storage was blocked)
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const run = async <T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Snapshots are a cache: every helper swallows storage errors (quota,
+ * private browsing) and behaves as if nothing was stored.
+ */
+export const saveSnapshot = async <T>(key: string, data: T) => {
+    try {
+        await run(SNAPSHOTS, 'readwrite', store => store.put({ data, savedAt: Date.now() }, key));
+    } catch {
+        // Next load just fetches
+    }
+};
+
+export const loadSnapshot = async <T>(key: string): Promise<Snapshot<T> | null> => {
+    try {
+        return (await run<Snapshot<T> | undefined>(SNAPSHOTS, 'readonly', store => store.get(key))) ?? null;
+    } catch {
+        return null;
+    }
+};
+
+export const deleteSnapshot = async (key: string) => {
+    try {
+        await run(SNAPSHOTS, 'readwrite', store => store.delete(key));
+    } catch {
+        // Nothing stored to remove
+    }
+};
+
+/** Forget every cached page, e.g. on logout so the next person on this device can't read them */
+export const clearSnapshots = async () => {
+    try {
+        await run(SNAPSHOTS, 'readwrite', store => store.clear());
+    } catch {
+        // Nothing stored to remove
+    }
+};
+
+// The outbox must not silently drop mutations, so its helpers let errors through
+
+export const putOutboxEntry = <T>(entry: T) => run(OUTBOX, 'readwrite', store => store.put(entry));
+
+export const getOutboxEntries = <T>() => run<T[]>(OUTBOX, 'readonly', store => store.getAll());
+
+export const deleteOutboxEntry = (id: string) => run(OUTBOX, 'readwrite', store => store.delete(id));
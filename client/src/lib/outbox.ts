@@ -0,0 +1,114 @@
+// Outbox - add-item, reserve and hype actions taken offline, replayed in order once back online
+
+import axios from 'axios';
+import { deleteOutboxEntry, getOutboxEntries, putOutboxEntry } from '@/lib/offlineStore';
+
+export type OutboxAction =
+    | { kind: 'ADD_ITEM'; body: Record<string, unknown> }
+    | { kind: 'RESERVE'; itemId: string; body: { nickname?: string; quantity: number } }
+    | { kind: 'HYPE'; itemId: string; body: { nickname?: string } };
+
+export interface OutboxEntry {
+    // Doubles as the Idempotency-Key, so a replay that lands twice is applied once
+    id: string;
+    action: OutboxAction;
+    wishlistId: string;
+    // Who queued it (null for guests); entries only replay for the same person
+    userId: string | null;
+    // Shown in sync messages, e.g. the item title
+    label: string;
+    createdAt: number;
+}
+
+export interface ReplayResult {
+    entry: OutboxEntry;
+    ok: boolean;
+    // The server's reason when it refused, e.g. "Item is already reserved"
+    message?: string;
+}
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let replaying: Promise<ReplayResult[]> | null = null;
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Called whenever entries are queued or leave the outbox */
+export const subscribeToOutbox = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/** True when a request never reached the server (offline, DNS, dropped connection) */
+export const isOfflineError = (error: unknown) => !navigator.onLine || (axios.isAxiosError(error) && !error.response);
+
+export const queueAction = async (action: OutboxAction, details: Pick<OutboxEntry, 'wishlistId' | 'userId' | 'label'>) => {
+    const entry: OutboxEntry = { id: crypto.randomUUID(), action, ...details, createdAt: Date.now() };
+    await putOutboxEntry(entry);
+    notify();
+    return entry;
+};
+
+export const listOutbox = async (userId: string | null) => {
+    const entries = await getOutboxEntries<OutboxEntry>();
+    return entries.filter(entry => entry.userId === userId).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+const send = ({ id, action }: OutboxEntry) => {
+    const config = { headers: { 'Idempotency-Key': id } };
+    switch (action.kind) {
+        case 'ADD_ITEM':
+            return axios.post('/api/items', action.body, config);
+        case 'RESERVE':
+            return axios.post(`/api/items/${action.itemId}/reserve`, action.body, config);
+        case 'HYPE':
+            return axios.post(`/api/items/${action.itemId}/hype`, action.body, config);
+    }
+};
+
+const errorMessage = (error: unknown) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || 'The server refused it';
+    }
+    return 'The server refused it';
+};
+
+// Worth trying again later rather than reporting as a conflict
+const isRetryable = (error: unknown) => {
+    if (isOfflineError(error) || !axios.isAxiosError(error)) return true;
+    const status = error.response?.status ?? 0;
+    return status === 401 || status === 408 || status === 429 || status >= 500
+        || error.response?.data?.error?.code === 'IDEMPOTENCY_KEY_IN_USE';
+};
+
+/**
+ * Send the user's queued actions oldest first. Each one either goes through
+ * or is refused (a conflict, reported with the server's reason) and leaves
+ * the outbox; a network or server failure stops the run and keeps the rest
+ * for next time. Concurrent calls share one run.
+ */
+export const replayOutbox = (userId: string | null) => {
+    if (!replaying) {
+        replaying = (async () => {
+            const results: ReplayResult[] = [];
+            for (const entry of await listOutbox(userId)) {
+                try {
+                    await send(entry);
+                    results.push({ entry, ok: true });
+                } catch (error) {
+                    if (isRetryable(error)) break;
+                    results.push({ entry, ok: false, message: errorMessage(error) });
+                }
+                await deleteOutboxEntry(entry.id);
+                notify();
+            }
+            return results;
+        })().finally(() => {
+            replaying = null;
+        });
+    }
+    return replaying;
+};
@@ -0,0 +1,82 @@
+// Web Push - service worker registration and this browser's push subscription
+
+import axios from 'axios';
+
+export type PushEvent = 'ITEM_RESERVED' | 'CONTRIBUTION_ADDED' | 'NOTE_ADDED' | 'ITEM_HYPED' | 'OCCASION_REMINDER';
+export type PushPreferences = Record<PushEvent, boolean>;
+
+export const PUSH_EVENT_LABELS: Record<PushEvent, string> = {
+    ITEM_RESERVED: 'Someone reserves a gift on my wishlist (after the reveal)',
+    CONTRIBUTION_ADDED: 'Someone chips in on a gift I or my friends are funding',
+    NOTE_ADDED: 'A new guestbook note',
+    ITEM_HYPED: 'My items get hyped',
+    OCCASION_REMINDER: "A friend's occasion I'm giving a gift for is coming up",
+};
+
+export const isPushSupported = () => 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+/** Register /sw.js once at startup (no-op where service workers aren't available) */
+export const registerServiceWorker = () => {
+    if (!('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+        console.error('Service worker registration failed:', error);
+    });
+};
+
+// VAPID keys come base64url-encoded; PushManager wants the raw bytes
+const decodeBase64Url = (value: string) => {
+    const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    const raw = atob(base64);
+    const bytes = new Uint8Array(raw.length);
+    for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+    return bytes;
+};
+
+// getRegistration rather than `ready`, which never settles if registration failed
+export const getPushSubscription = async () => {
+    if (!isPushSupported()) return null;
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * Ask for permission, subscribe this browser with the server's VAPID key and
+ * register the endpoint. Throws with a readable message when the browser or
+ * server can't do push, or the user blocks notifications.
+ */
+export const enablePush = async () => {
+    if (!isPushSupported()) throw new Error('This browser does not support push notifications');
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') throw new Error('Notifications are blocked for this site in your browser settings');
+
+    const { data } = await axios.get<{ publicKey: string | null }>('/api/push/config');
+    if (!data.publicKey) throw new Error('Push notifications are not enabled on this server');
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+        || await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: decodeBase64Url(data.publicKey) });
+    await axios.post('/api/push/subscriptions', subscription.toJSON());
+};
+
+/**
+ * Stop pushing to this browser. The browser always unsubscribes; if the
+ * server couldn't be told, it drops the endpoint once the push service
+ * reports it gone.
+ */
+export const disablePush = async () => {
+    const subscription = await getPushSubscription();
+    if (!subscription) return;
+    try {
+        await axios.delete('/api/push/subscriptions', { data: { endpoint: subscription.endpoint } });
+    } finally {
+        await subscription.unsubscribe();
+    }
+};
+
+/** Re-register this browser's subscription, which may have rotated while the app was closed */
+export const syncPushSubscription = async () => {
+    if (!isPushSupported() || Notification.permission !== 'granted') return;
+    const subscription = await getPushSubscription();
+    if (subscription) await axios.post('/api/push/subscriptions', subscription.toJSON());
+};
@@ -0,0 +1,86 @@
+// Item quantity, priority and partial-reservation helpers shared by the Wishlist and Exchange pages
+
+export type ItemPriority = 'must_have' | 'nice_to_have';
+
+export const PRIORITY_LABELS: Record<ItemPriority, string> = {
+    must_have: 'Must have',
+    nice_to_have: 'Nice to have',
+};
+
+/** One person's claim on some units of an item */
+export interface Reservation {
+    id: string;
+    reservedBy: string;
+    quantity: number;
+    reservedViaExchangeId?: string | null;
+    isSecretSanta?: boolean;
+}
+
+export interface ReservableItem {
+    quantity: number;
+    reservedQuantity: number;
+    isReserved: boolean;
+    reservations?: Reservation[];
+}
+
+/** Units nobody has claimed yet */
+export const unitsLeft = (item: ReservableItem) => Math.max((item.quantity || 1) - (item.reservedQuantity || 0), 0);
+
+export const findMyReservation = (item: ReservableItem, identifier?: string | null) =>
+    (identifier ? item.reservations?.find(reservation => reservation.reservedBy === identifier) : undefined);
+
+/** "2 of 4 reserved", or null for single-unit items */
+export const describeReserved = (item: ReservableItem) =>
+    ((item.quantity || 1) > 1 ? `${item.reservedQuantity || 0} of ${item.quantity} reserved` : null);
+
+/** Optimistically add `quantity` units to the identifier's reservation */
+export const withReservation = <T extends ReservableItem>(item: T, identifier: string, quantity: number): T => {
+    const reservedQuantity = (item.reservedQuantity || 0) + quantity;
+    const reservations = item.reservations ?? [];
+    const mine = reservations.find(reservation => reservation.reservedBy === identifier);
+    return {
+        ...item,
+        reservedQuantity,
+        isReserved: reservedQuantity >= (item.quantity || 1),
+        reservations: mine
+            ? reservations.map(reservation => reservation === mine ? { ...mine, quantity: mine.quantity + quantity } : reservation)
+            : [...reservations, { id: `temp-${identifier}`, reservedBy: identifier, quantity }],
+    };
+};
+
+/** Optimistically drop the identifier's reservation */
+export const withoutReservation = <T extends ReservableItem>(item: T, identifier: string): T => {
+    const mine = findMyReservation(item, identifier);
+    if (!mine) return item;
+    const reservedQuantity = Math.max((item.reservedQuantity || 0) - mine.quantity, 0);
+    return {
+        ...item,
+        reservedQuantity,
+        isReserved: reservedQuantity >= (item.quantity || 1),
+        reservations: (item.reservations ?? []).filter(reservation => reservation !== mine),
+    };
+};
+
+/**
+ * Apply a reservation broadcast. Secret Santa reservations arrive masked,
+ * so keep our own name on the reservation we already know is ours.
+ */
+export const withReservationUpdate = <T extends ReservableItem>(
+    item: T,
+    update: Pick<ReservableItem, 'isReserved' | 'reservedQuantity' | 'reservations'>,
+    identifier?: string | null
+): T => {
+    const mine = findMyReservation(item, identifier);
+    return {
+        ...item,
+        isReserved: update.isReserved,
+        reservedQuantity: update.reservedQuantity,
+        reservations: (update.reservations ?? []).map(reservation =>
+            mine && reservation.id === mine.id ? { ...reservation, reservedBy: mine.reservedBy } : reservation
+        ),
+    };
+};
+
+/** Group gifts fund every unit the owner asked for */
+export const fundingGoal = (item: { price: number | string | null; quantity?: number }) =>
+    Number(item.price) * (item.quantity || 1);
@@ -0,0 +1,27 @@
+// Image uploads — sends a file to POST /api/uploads and returns the stored URLs
+
+import axios from 'axios';
+
+export type UploadKind = 'item' | 'cover' | 'avatar' | 'haul';
+
+/** Response from POST /api/uploads (always re-encoded as WebP) */
+export interface UploadedImage {
+    url: string;
+    thumbnailUrl: string;
+    width: number;
+    height: number;
+}
+
+// Mirrors the server's default UPLOAD_MAX_BYTES so oversized files fail fast
+export const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
+
+export const ACCEPTED_IMAGE_TYPES = 'image/jpeg,image/png,image/webp,image/gif';
+
+export const uploadImage = async (file: File, kind: UploadKind) => {
+    const form = new FormData();
+    // Fields before the file so the server sees `kind` when the file arrives
+    form.append('kind', kind);
+    form.append('file', file);
+    const res = await axios.post<UploadedImage>('/api/uploads', form);
+    return res.data;
+};
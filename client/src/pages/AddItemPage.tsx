@@ -0,0 +1,264 @@
+// AddItemPage — Quick-add target for the bookmarklet and the PWA share sheet
+// Features: URL pre-fill via the preview endpoint, photo picker, wishlist chooser
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { Gift, Loader2, Plus } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import BookmarkletLink from '@/components/features/BookmarkletLink';
+import { DEFAULT_CURRENCY, fetchRateTable } from '@/lib/currency';
+
+interface WishlistOption {
+    id: string;
+    title: string;
+}
+
+// Remembers the list the user last added to, so repeat shares are one tap
+const LAST_WISHLIST_KEY = 'giftly:lastAddWishlist';
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+/**
+ * Share sheets differ: some send `url`, others put the link inside `text`
+ * (often after the product name), so take the first http(s) URL we can find.
+ */
+const findSharedUrl = (params: URLSearchParams) => {
+    for (const value of [params.get('url'), params.get('text'), params.get('title')]) {
+        const match = value?.match(/https?:\/\/\S+/);
+        if (match) return match[0];
+    }
+    return '';
+};
+
+/**
+ * AddItemPage — Opened as /add?url=...&title=... by the bookmarklet, or by
+ * the OS share sheet via the manifest's share_target. Without a URL it
+ * offers a paste box and the bookmarklet itself.
+ */
+export default function AddItemPage() {
+    const { user } = useAuth();
+    const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
+    const sharedUrl = findSharedUrl(searchParams);
+
+    const [wishlists, setWishlists] = useState<WishlistOption[] | null>(null);
+    const [wishlistId, setWishlistId] = useState('');
+    const [currencies, setCurrencies] = useState<string[]>([]);
+
+    const [url, setUrl] = useState(sharedUrl);
+    const [title, setTitle] = useState(searchParams.get('title') || '');
+    const [price, setPrice] = useState('');
+    const [currency, setCurrency] = useState(user?.displayCurrency || DEFAULT_CURRENCY);
+    const [image, setImage] = useState('');
+    const [imageOptions, setImageOptions] = useState<string[]>([]);
+    const [story, setStory] = useState('');
+    const [scraping, setScraping] = useState(false);
+    const [submitting, setSubmitting] = useState(false);
+    const previewRequestCounter = useRef(0);
+
+    useEffect(() => {
+        document.title = 'Add item | Giftly';
+
+        axios.get<WishlistOption[]>('/api/wishlists')
+            .then(res => {
+                setWishlists(res.data);
+                const remembered = localStorage.getItem(LAST_WISHLIST_KEY);
+                const initial = res.data.find(wishlist => wishlist.id === remembered) ?? res.data[0];
+                if (initial) setWishlistId(initial.id);
+            })
+            .catch(() => {
+                setWishlists([]);
+                toast.error('Failed to load your wishlists');
+            });
+
+        fetchRateTable()
+            .then(table => setCurrencies(Object.keys(table.rates)))
+            .catch(() => {
+                // The current currency stays selectable on its own
+            });
+    }, []);
+
+    // Fill in whatever the store's page tells us; shared titles are kept if the page has none
+    const loadPreview = useCallback(async (value: string) => {
+        if (!/^https?:\/\//i.test(value)) return;
+        const requestId = ++previewRequestCounter.current;
+        setScraping(true);
+        try {
+            const res = await axios.post('/api/items/preview', { url: value });
+            if (requestId !== previewRequestCounter.current) return;
+            if (res.data.title) setTitle(res.data.title);
+            if (res.data.price) setPrice(String(res.data.price));
+            if (res.data.currency) setCurrency(res.data.currency);
+            if (res.data.image) setImage(res.data.image);
+            setImageOptions(Array.isArray(res.data.images) ? res.data.images : []);
+        } catch {
+            // Scraping failed — user fills manually
+        } finally {
+            if (requestId === previewRequestCounter.current) setScraping(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (sharedUrl) void loadPreview(sharedUrl);
+    }, [sharedUrl, loadPreview]);
+
+    const addItem = async () => {
+        if (submitting || !wishlistId || !title.trim()) return;
+        setSubmitting(true);
+        try {
+            await axios.post('/api/items', {
+                wishlistId,
+                title: title.trim(),
+                price: price ? Number(price) : undefined,
+                currency,
+                url: url || undefined,
+                imageUrl: image || undefined,
+                story: story || undefined,
+            });
+            localStorage.setItem(LAST_WISHLIST_KEY, wishlistId);
+            toast.success('Item added!');
+            navigate(`/wishlist/${wishlistId}`);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to add item'));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="max-w-xl mx-auto p-4 md:p-8 space-y-6">
+            <Card className="border-border shadow-sm">
+                <CardHeader>
+                    <CardTitle className="text-foreground flex items-center gap-2">
+                        <Gift className="h-5 w-5 text-primary" /> Add to a wishlist
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {wishlists && wishlists.length === 0 ? (
+                        <div className="text-sm text-muted-foreground space-y-3">
+                            <p>You don't have a wishlist yet.</p>
+                            <Button asChild size="sm">
+                                <Link to="/"><Plus className="mr-2 h-4 w-4" /> Create one on your dashboard</Link>
+                            </Button>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="space-y-2">
+                                <Label className="text-muted-foreground">Wishlist</Label>
+                                <select
+                                    value={wishlistId}
+                                    onChange={(e) => setWishlistId(e.target.value)}
+                                    disabled={!wishlists}
+                                    className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm text-foreground"
+                                    aria-label="Wishlist"
+                                >
+                                    {(wishlists ?? []).map(wishlist => (
+                                        <option key={wishlist.id} value={wishlist.id}>{wishlist.title}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-muted-foreground">Product link</Label>
+                                <div className="relative">
+                                    <Input
+                                        placeholder="Paste a link from any store"
+                                        value={url}
+                                        onChange={(e) => {
+                                            setUrl(e.target.value);
+                                            void loadPreview(e.target.value);
+                                        }}
+                                        className="bg-background border-input text-foreground placeholder:text-muted-foreground pr-10"
+                                    />
+                                    {scraping && <Loader2 className="absolute right-3 top-3 h-4 w-4 animate-spin text-muted-foreground" />}
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-muted-foreground">Name</Label>
+                                <Input
+                                    value={title}
+                                    onChange={(e) => setTitle(e.target.value)}
+                                    className="bg-background border-input text-foreground"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-muted-foreground">Price</Label>
+                                <div className="flex gap-2">
+                                    <Input
+                                        type="number"
+                                        placeholder="199"
+                                        value={price}
+                                        onChange={(e) => setPrice(e.target.value)}
+                                        className="bg-background border-input text-foreground placeholder:text-muted-foreground"
+                                    />
+                                    <select
+                                        value={currency}
+                                        onChange={(e) => setCurrency(e.target.value)}
+                                        className="rounded-md border border-input bg-background px-2 text-sm text-foreground"
+                                        aria-label="Currency"
+                                    >
+                                        {Array.from(new Set([currency, ...currencies])).map(code => (
+                                            <option key={code} value={code}>{code}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+                            {imageOptions.length > 1 && (
+                                <div className="flex gap-2 overflow-x-auto pb-1">
+                                    {imageOptions.map(option => (
+                                        <button
+                                            key={option}
+                                            type="button"
+                                            onClick={() => setImage(option)}
+                                            className={`h-14 w-14 shrink-0 rounded-md overflow-hidden border-2 cursor-pointer transition-all ${image === option ? 'border-primary' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                                        >
+                                            <img src={option} alt="" className="h-full w-full object-cover" />
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            {image && (
+                                <div className="rounded-lg overflow-hidden border border-border">
+                                    <img src={image} alt="Preview" className="w-full h-40 object-cover" />
+                                </div>
+                            )}
+                            <div className="space-y-2">
+                                <Label className="text-muted-foreground">✨ Why I want it</Label>
+                                <Input
+                                    placeholder="Imagine owning this..."
+                                    value={story}
+                                    onChange={(e) => setStory(e.target.value)}
+                                    className="bg-background border-input text-foreground placeholder:text-muted-foreground italic"
+                                />
+                            </div>
+                            <Button onClick={addItem} disabled={!wishlistId || !title.trim() || submitting} className="w-full">
+                                {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add to wishlist'}
+                            </Button>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+
+            {!sharedUrl && (
+                <div className="rounded-xl border border-border bg-muted/30 p-5 space-y-3 text-sm">
+                    <p className="font-medium text-foreground">Add from any store</p>
+                    <p className="text-muted-foreground">
+                        Drag this button to your bookmarks bar, then click it on any product page.
+                        On your phone, install Giftly to your home screen and use the Share menu instead.
+                    </p>
+                    <BookmarkletLink />
+                </div>
+            )}
+        </div>
+    );
+}
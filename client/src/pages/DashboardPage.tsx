@@ -8,9 +8,15 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Plus, Gift, Trash2, Copy, ExternalLink, Sparkles, Package, BarChart3, Loader2 } from 'lucide-react';
+import { Plus, Gift, Trash2, Copy, ExternalLink, Sparkles, Package, BarChart3, Loader2, CalendarDays, Wallet, BookmarkPlus, Users } from 'lucide-react';
 import { toast } from 'sonner';
 import { motion } from 'framer-motion';
+import ActivityFeed from '@/components/features/ActivityFeed';
+import ImageUploadButton from '@/components/features/ImageUploadButton';
+import { OCCASION_PRESETS, daysUntil, formatCountdown, todayInputValue, type Occasion } from '@/lib/occasions';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+import { dashboardSnapshotKey, loadSnapshot, saveSnapshot } from '@/lib/offlineStore';
+import { ROLE_LABELS, type WishlistRole } from '@/lib/collaborators';
 
 // --- Gradient theme presets for wishlist covers ---
 const THEME_PRESETS: Record<string, { from: string; to: string; label: string }> = {
@@ -30,24 +36,34 @@ const getGradientStyle = (theme: string) => {
     return { background: `linear-gradient(135deg, ${preset.from}, ${preset.to})` };
 };
 
-const DASHBOARD_CACHE_KEY = 'giftly:dashboard:wishlists';
-
 // Wishlist shape from API
 interface Wishlist {
     id: string;
     title: string;
     theme?: string;
+    coverImageUrl?: string | null;
+    occasion?: Occasion | null;
+    eventDate?: string | null;
     _count: { items: number };
+    // Sum of item prices, converted server-side into the user's display currency
+    totalValue?: number;
+    displayCurrency?: string;
+    // Lists shared with the user carry their collaborator role; missing means their own
+    role?: WishlistRole;
     createdAt: string;
     localKey?: string;
 }
 
 export default function DashboardPage() {
-    const { user, token } = useAuth();
+    const { user } = useAuth();
     const [wishlists, setWishlists] = useState<Wishlist[]>([]);
     const [loading, setLoading] = useState(true);
     const [newTitle, setNewTitle] = useState('');
     const [selectedTheme, setSelectedTheme] = useState('violet-pink');
+    const [newOccasion, setNewOccasion] = useState<Occasion | null>(null);
+    const [newEventDate, setNewEventDate] = useState('');
+    const [newCoverImageUrl, setNewCoverImageUrl] = useState('');
+    const [newRevealAfterEvent, setNewRevealAfterEvent] = useState(true);
     const [open, setOpen] = useState(false);
     const [creatingWishlist, setCreatingWishlist] = useState(false);
     const [pendingDeleteIds, setPendingDeleteIds] = useState<string[]>([]);
@@ -55,23 +71,26 @@ export default function DashboardPage() {
     const isFetchingRef = useRef(false);
     const lastPayloadSignatureRef = useRef('');
 
+    // Show the last saved copy (also what's shown offline) until the fetch lands
+    const userId = user?.id;
+    useEffect(() => {
+        if (!userId) return;
+        loadSnapshot<Wishlist[]>(dashboardSnapshotKey(userId)).then(snapshot => {
+            if (!snapshot || !Array.isArray(snapshot.data) || lastPayloadSignatureRef.current) return;
+            setWishlists(snapshot.data);
+            setLoading(false);
+        });
+    }, [userId]);
+
+    // Keep the saved copy in step with the list once it has been fetched
+    useEffect(() => {
+        if (userId && lastPayloadSignatureRef.current) saveSnapshot(dashboardSnapshotKey(userId), wishlists);
+    }, [userId, wishlists]);
+
     // Fetch user's wishlists on mount
     useEffect(() => {
         document.title = 'Dashboard | Giftly';
 
-        const cached = sessionStorage.getItem(DASHBOARD_CACHE_KEY);
-        if (cached) {
-            try {
-                const parsed = JSON.parse(cached) as Wishlist[];
-                if (Array.isArray(parsed) && parsed.length >= 0) {
-                    setWishlists(parsed);
-                    setLoading(false);
-                }
-            } catch {
-                sessionStorage.removeItem(DASHBOARD_CACHE_KEY);
-            }
-        }
-
         if (hasFetchedOnceRef.current) return;
         hasFetchedOnceRef.current = true;
         fetchWishlists();
@@ -81,9 +100,7 @@ export default function DashboardPage() {
         if (isFetchingRef.current) return;
         isFetchingRef.current = true;
         try {
-            const res = await axios.get('/api/wishlists', {
-                headers: { Authorization: `Bearer ${token}` }
-            });
+            const res = await axios.get('/api/wishlists');
             const mappedWishlists = res.data.map((wishlist: Wishlist) => ({
                 ...wishlist,
                 localKey: wishlist.localKey || wishlist.id,
@@ -94,7 +111,12 @@ export default function DashboardPage() {
                     id: wishlist.id,
                     title: wishlist.title,
                     theme: wishlist.theme,
+                    coverImageUrl: wishlist.coverImageUrl,
+                    occasion: wishlist.occasion,
+                    eventDate: wishlist.eventDate,
                     items: wishlist._count?.items || 0,
+                    totalValue: wishlist.totalValue,
+                    role: wishlist.role,
                     createdAt: wishlist.createdAt,
                 }))
             );
@@ -102,7 +124,6 @@ export default function DashboardPage() {
             if (signature !== lastPayloadSignatureRef.current) {
                 lastPayloadSignatureRef.current = signature;
                 setWishlists(mappedWishlists);
-                sessionStorage.setItem(DASHBOARD_CACHE_KEY, JSON.stringify(mappedWishlists));
             }
         } catch (error) {
             console.error(error);
@@ -125,10 +146,17 @@ export default function DashboardPage() {
         const tempId = `temp-${Date.now()}`;
         const title = newTitle.trim();
         const theme = selectedTheme;
+        const coverImageUrl = newCoverImageUrl || undefined;
+        const occasion = newOccasion;
+        const eventDate = newEventDate || null;
+        const revealAfterEvent = newRevealAfterEvent;
         const optimisticWishlist: Wishlist = {
             id: tempId,
             title,
             theme,
+            coverImageUrl,
+            occasion,
+            eventDate,
             _count: { items: 0 },
             createdAt: new Date().toISOString(),
             localKey: tempId,
@@ -139,11 +167,13 @@ export default function DashboardPage() {
         setOpen(false);
         setNewTitle('');
         setSelectedTheme('violet-pink');
+        setNewCoverImageUrl('');
+        setNewOccasion(null);
+        setNewEventDate('');
+        setNewRevealAfterEvent(true);
 
         try {
-            const res = await axios.post('/api/wishlists', { title, theme }, {
-                headers: { Authorization: `Bearer ${token}` }
-            });
+            const res = await axios.post('/api/wishlists', { title, theme, coverImageUrl, occasion, eventDate, revealAfterEvent });
 
             setWishlists(prev => {
                 const createdWishlist: Wishlist = {
@@ -184,9 +214,7 @@ export default function DashboardPage() {
         setWishlists(prev => prev.filter(wishlist => wishlist.id !== id));
 
         try {
-            await axios.delete(`/api/wishlists/${id}`, {
-                headers: { Authorization: `Bearer ${token}` }
-            });
+            await axios.delete(`/api/wishlists/${id}`);
             toast.success('Wishlist deleted');
         } catch (error: any) {
             setWishlists(previousWishlists);
@@ -207,6 +235,8 @@ export default function DashboardPage() {
 
     // Calculate stats from wishlists
     const totalItems = wishlists.reduce((sum, wl) => sum + (wl._count?.items || 0), 0);
+    const totalValue = wishlists.reduce((sum, wl) => sum + (wl.totalValue || 0), 0);
+    const displayCurrency = wishlists.find(wl => wl.displayCurrency)?.displayCurrency || user?.displayCurrency || DEFAULT_CURRENCY;
 
     // Format relative time from createdAt
     const timeAgo = (dateStr: string) => {
@@ -245,81 +275,143 @@ export default function DashboardPage() {
                         </p>
                     </motion.div>
 
-                    {/* Create Wishlist Dialog */}
-                    <Dialog open={open} onOpenChange={setOpen}>
-                        <DialogTrigger asChild>
-                            <Button size="lg" className="shadow-lg shadow-primary/20 active:scale-95 transition-all">
-                                <Plus className="mr-2 h-4 w-4" /> New Wishlist
-                            </Button>
-                        </DialogTrigger>
-                        <DialogContent className="bg-popover border-border">
-                            <DialogHeader>
-                                <DialogTitle className="text-foreground flex items-center gap-2">
-                                    <Sparkles className="h-5 w-5 text-primary" /> Create New Wishlist
-                                </DialogTitle>
-                            </DialogHeader>
-                            <div className="space-y-5 pt-2">
-                                {/* Title input */}
-                                <div className="space-y-2">
-                                    <Label className="text-muted-foreground">Title</Label>
-                                    <Input
-                                        value={newTitle}
-                                        onChange={(e) => setNewTitle(e.target.value)}
-                                        placeholder="Birthday Wishlist 2026"
-                                        onKeyDown={(e) => e.key === 'Enter' && createWishlist()}
-                                        className="bg-background border-input text-foreground placeholder:text-muted-foreground focus:ring-ring"
-                                        autoFocus
-                                    />
-                                </div>
+                    <div className="flex items-center gap-2">
+                        {/* Quick add from any store (bookmarklet / share sheet landing page) */}
+                        <Button asChild size="lg" variant="outline">
+                            <Link to="/add"><BookmarkPlus className="mr-2 h-4 w-4" /> Add from a store</Link>
+                        </Button>
+
+                        {/* Create Wishlist Dialog */}
+                        <Dialog open={open} onOpenChange={setOpen}>
+                            <DialogTrigger asChild>
+                                <Button size="lg" className="shadow-lg shadow-primary/20 active:scale-95 transition-all">
+                                    <Plus className="mr-2 h-4 w-4" /> New Wishlist
+                                </Button>
+                            </DialogTrigger>
+                            <DialogContent className="bg-popover border-border">
+                                <DialogHeader>
+                                    <DialogTitle className="text-foreground flex items-center gap-2">
+                                        <Sparkles className="h-5 w-5 text-primary" /> Create New Wishlist
+                                    </DialogTitle>
+                                </DialogHeader>
+                                <div className="space-y-5 pt-2">
+                                    {/* Title input */}
+                                    <div className="space-y-2">
+                                        <Label className="text-muted-foreground">Title</Label>
+                                        <Input
+                                            value={newTitle}
+                                            onChange={(e) => setNewTitle(e.target.value)}
+                                            placeholder="Birthday Wishlist 2026"
+                                            onKeyDown={(e) => e.key === 'Enter' && createWishlist()}
+                                            className="bg-background border-input text-foreground placeholder:text-muted-foreground focus:ring-ring"
+                                            autoFocus
+                                        />
+                                    </div>
 
-                                {/* Gradient theme picker */}
-                                <div className="space-y-2">
-                                    <Label className="text-muted-foreground">Choose a vibe</Label>
-                                    <div className="grid grid-cols-3 gap-2">
-                                        {Object.entries(THEME_PRESETS).map(([key, preset]) => (
-                                            <button
-                                                key={key}
-                                                onClick={() => setSelectedTheme(key)}
-                                                className={`relative h-16 rounded-xl transition-all cursor-pointer ${selectedTheme === key
-                                                    ? 'ring-2 ring-primary ring-offset-2 ring-offset-background scale-105'
-                                                    : 'hover:scale-105 opacity-70 hover:opacity-100'
-                                                    }`}
-                                                style={getGradientStyle(key)}
-                                                title={preset.label}
-                                            >
-                                                {/* Label overlay */}
-                                                <span className="absolute bottom-1 left-0 right-0 text-center text-[10px] font-medium text-white/80">
+                                    {/* Gradient theme picker */}
+                                    <div className="space-y-2">
+                                        <Label className="text-muted-foreground">Choose a vibe</Label>
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {Object.entries(THEME_PRESETS).map(([key, preset]) => (
+                                                <button
+                                                    key={key}
+                                                    onClick={() => setSelectedTheme(key)}
+                                                    className={`relative h-16 rounded-xl transition-all cursor-pointer ${selectedTheme === key
+                                                        ? 'ring-2 ring-primary ring-offset-2 ring-offset-background scale-105'
+                                                        : 'hover:scale-105 opacity-70 hover:opacity-100'
+                                                        }`}
+                                                    style={getGradientStyle(key)}
+                                                    title={preset.label}
+                                                >
+                                                    {/* Label overlay */}
+                                                    <span className="absolute bottom-1 left-0 right-0 text-center text-[10px] font-medium text-white/80">
+                                                        {preset.label}
+                                                    </span>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    {/* Occasion + event date (drives countdown and the spoiler reveal) */}
+                                    <div className="space-y-2">
+                                        <Label className="text-muted-foreground">Occasion <span className="text-muted-foreground/50">(optional)</span></Label>
+                                        <div className="grid grid-cols-4 gap-2">
+                                            {(Object.entries(OCCASION_PRESETS) as [Occasion, { label: string; emoji: string }][]).map(([key, preset]) => (
+                                                <button
+                                                    key={key}
+                                                    type="button"
+                                                    onClick={() => setNewOccasion(newOccasion === key ? null : key)}
+                                                    className={`rounded-lg border px-2 py-2 text-xs transition-all cursor-pointer ${newOccasion === key
+                                                        ? 'border-primary bg-primary/10 text-primary'
+                                                        : 'border-border text-muted-foreground hover:text-foreground'
+                                                        }`}
+                                                >
+                                                    <span className="block text-base">{preset.emoji}</span>
                                                     {preset.label}
-                                                </span>
-                                            </button>
-                                        ))}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <Input
+                                            type="date"
+                                            value={newEventDate}
+                                            min={todayInputValue()}
+                                            onChange={(e) => setNewEventDate(e.target.value)}
+                                            className="bg-background border-input text-foreground"
+                                        />
+                                        {newEventDate && (
+                                            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={newRevealAfterEvent}
+                                                    onChange={(e) => setNewRevealAfterEvent(e.target.checked)}
+                                                    className="accent-primary"
+                                                />
+                                                Reveal who got me what after the event
+                                            </label>
+                                        )}
                                     </div>
-                                </div>
 
-                                {/* Preview */}
-                                <div className="rounded-xl overflow-hidden h-24 relative" style={getGradientStyle(selectedTheme)}>
-                                    <div className="absolute inset-0 bg-black/20 flex items-end p-3">
-                                        <span className="text-white font-bold text-lg drop-shadow-lg">
-                                            {newTitle || 'Your Wishlist'}
-                                        </span>
+                                    {/* Optional cover photo, shown over the theme gradient */}
+                                    <div className="flex items-center justify-between gap-2">
+                                        <Label className="text-muted-foreground">Cover photo <span className="text-muted-foreground/50">(optional)</span></Label>
+                                        {newCoverImageUrl ? (
+                                            <Button type="button" variant="ghost" size="sm" onClick={() => setNewCoverImageUrl('')} className="text-xs text-muted-foreground">
+                                                Remove
+                                            </Button>
+                                        ) : (
+                                            <ImageUploadButton kind="cover" onUploaded={(image) => setNewCoverImageUrl(image.url)} />
+                                        )}
                                     </div>
-                                </div>
 
-                                <Button onClick={createWishlist} disabled={!newTitle.trim() || creatingWishlist} className="w-full active:scale-95 transition-transform">
-                                    {creatingWishlist ? <span className="inline-flex items-center gap-2"><span className="h-3 w-3 border-2 border-current border-t-transparent rounded-full animate-spin" /> Creating...</span> : 'Create Wishlist'}
-                                </Button>
-                            </div>
-                        </DialogContent>
-                    </Dialog>
+                                    {/* Preview */}
+                                    <div className="rounded-xl overflow-hidden h-24 relative" style={getGradientStyle(selectedTheme)}>
+                                        {newCoverImageUrl && (
+                                            <img src={newCoverImageUrl} alt="" className="absolute inset-0 h-full w-full object-cover" />
+                                        )}
+                                        <div className="absolute inset-0 bg-black/20 flex items-end p-3">
+                                            <span className="text-white font-bold text-lg drop-shadow-lg">
+                                                {newTitle || 'Your Wishlist'}
+                                            </span>
+                                        </div>
+                                    </div>
+
+                                    <Button onClick={createWishlist} disabled={!newTitle.trim() || creatingWishlist} className="w-full active:scale-95 transition-transform">
+                                        {creatingWishlist ? <span className="inline-flex items-center gap-2"><span className="h-3 w-3 border-2 border-current border-t-transparent rounded-full animate-spin" /> Creating...</span> : 'Create Wishlist'}
+                                    </Button>
+                                </div>
+                            </DialogContent>
+                        </Dialog>
+                    </div>
                 </div>
 
                 {/* Stats strip — only show when there are wishlists */}
                 {wishlists.length > 0 && (
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-8">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-8">
                         {[
                             { icon: Gift, label: 'Wishlists', value: wishlists.length, color: 'text-violet-400' },
                             { icon: Package, label: 'Total Items', value: totalItems, color: 'text-pink-400' },
                             { icon: BarChart3, label: 'Avg per List', value: wishlists.length > 0 ? Math.round(totalItems / wishlists.length) : 0, color: 'text-cyan-400' },
+                            { icon: Wallet, label: 'Total Value', value: formatMoney(Math.round(totalValue), displayCurrency), color: 'text-emerald-400' },
                         ].map((stat) => (
                             <div key={stat.label} className="bg-card border border-border shadow-sm rounded-xl p-4 flex items-center gap-3">
                                 <div className={`h-10 w-10 rounded-lg bg-muted flex items-center justify-center ${stat.color}`}>
@@ -351,6 +443,13 @@ export default function DashboardPage() {
                                             className="h-40 relative overflow-hidden"
                                             style={getGradientStyle(wishlist.theme || 'violet-pink')}
                                         >
+                                            {wishlist.coverImageUrl && (
+                                                <img
+                                                    src={wishlist.coverImageUrl}
+                                                    alt=""
+                                                    className="absolute inset-0 h-full w-full object-cover group-hover:scale-105 transition-transform duration-500"
+                                                />
+                                            )}
                                             {/* Decorative pattern overlay */}
                                             <div className="absolute inset-0 opacity-20"
                                                 style={{
@@ -358,13 +457,24 @@ export default function DashboardPage() {
                                                 }}
                                             />
                                             {/* Centered gift icon */}
-                                            <div className="absolute inset-0 flex items-center justify-center">
-                                                <Gift className="h-16 w-16 text-white/20 group-hover:scale-110 transition-transform duration-500" />
-                                            </div>
+                                            {!wishlist.coverImageUrl && (
+                                                <div className="absolute inset-0 flex items-center justify-center">
+                                                    <Gift className="h-16 w-16 text-white/20 group-hover:scale-110 transition-transform duration-500" />
+                                                </div>
+                                            )}
                                             {/* Bottom blur overlay with title */}
                                             <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-4 pt-12">
                                                 <h3 className="text-white font-bold text-lg drop-shadow-lg line-clamp-1">{wishlist.title}</h3>
                                             </div>
+                                            {/* Occasion countdown badge (upcoming events only) */}
+                                            {wishlist.eventDate && daysUntil(wishlist.eventDate) >= 0 && (
+                                                <div className="absolute top-3 left-3 px-2.5 py-1 rounded-lg bg-black/30 backdrop-blur-sm text-xs font-medium text-white inline-flex items-center gap-1">
+                                                    {wishlist.occasion
+                                                        ? <span>{OCCASION_PRESETS[wishlist.occasion].emoji}</span>
+                                                        : <CalendarDays className="h-3 w-3" />}
+                                                    {formatCountdown(wishlist.eventDate)}
+                                                </div>
+                                            )}
                                             {/* Item count badge */}
                                             <div className="absolute top-3 right-3 px-2.5 py-1 rounded-lg bg-black/30 backdrop-blur-sm text-xs font-medium text-white">
                                                 {wishlist._count?.items || 0} items
@@ -373,7 +483,14 @@ export default function DashboardPage() {
 
                                         {/* Card footer with actions */}
                                         <div className="px-4 py-3 flex items-center justify-between">
-                                            <span className="text-xs text-muted-foreground">{timeAgo(wishlist.createdAt)}</span>
+                                            <span className="text-xs text-muted-foreground inline-flex items-center gap-1.5">
+                                                {wishlist.role && wishlist.role !== 'owner' && (
+                                                    <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-primary/10 text-primary font-medium">
+                                                        <Users className="h-3 w-3" /> Shared · {ROLE_LABELS[wishlist.role]}
+                                                    </span>
+                                                )}
+                                                {timeAgo(wishlist.createdAt)}
+                                            </span>
                                             <div className="flex gap-1">
                                                 {/* Copy share link */}
                                                 <button
@@ -391,15 +508,17 @@ export default function DashboardPage() {
                                                 >
                                                     <ExternalLink className="h-3.5 w-3.5" />
                                                 </button>
-                                                {/* Delete */}
-                                                <button
-                                                    onClick={(e) => deleteWishlist(wishlist.id, e)}
-                                                    disabled={pendingDeleteIds.includes(wishlist.id)}
-                                                    className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
-                                                    title="Delete wishlist"
-                                                >
-                                                    <Trash2 className="h-3.5 w-3.5" />
-                                                </button>
+                                                {/* Delete (only the owner can) */}
+                                                {(!wishlist.role || wishlist.role === 'owner') && (
+                                                    <button
+                                                        onClick={(e) => deleteWishlist(wishlist.id, e)}
+                                                        disabled={pendingDeleteIds.includes(wishlist.id)}
+                                                        className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                                                        title="Delete wishlist"
+                                                    >
+                                                        <Trash2 className="h-3.5 w-3.5" />
+                                                    </button>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
@@ -429,6 +548,13 @@ export default function DashboardPage() {
                         </Button>
                     </div>
                 )}
+
+                {/* Social feed from followed users */}
+                {!loading && (
+                    <div className="mt-12 max-w-2xl">
+                        <ActivityFeed />
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,398 @@
+// ExchangePage — One gift exchange: members, invite link, exclusions, the draw and your assignee's wishlist
+
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { Copy, Crown, Gift, Link2, Loader2, Shuffle, Trash2, UserMinus, Ban, ExternalLink, Check } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { Button } from '@/components/ui/button';
+import BackButton from '@/components/ui/BackButton';
+import { describeReserved, findMyReservation, type ReservableItem } from '@/lib/reservations';
+
+interface Member {
+    id: string;
+    name: string;
+    avatarUrl?: string | null;
+    hasWishlist: boolean;
+}
+
+interface Exclusion {
+    id: string;
+    userAId: string;
+    userBId: string;
+}
+
+interface AssigneeItem extends ReservableItem {
+    id: string;
+    title: string;
+    url?: string | null;
+    price?: string | number | null;
+    imageUrl?: string | null;
+}
+
+/** Exchange details as seen by the current member */
+interface ExchangeDetail {
+    id: string;
+    name: string;
+    description?: string | null;
+    budget?: string | null;
+    currency: string;
+    exchangeDate?: string | null;
+    status: 'open' | 'drawn';
+    organizerId: string;
+    inviteCode?: string;
+    isOrganizer: boolean;
+    myWishlistId: string | null;
+    members: Member[];
+    exclusions: Exclusion[];
+    assignee: {
+        user: { id: string; name: string };
+        wishlist: { id: string; title: string; items: AssigneeItem[] } | null;
+    } | null;
+}
+
+interface OwnWishlist {
+    id: string;
+    title: string;
+}
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+/**
+ * ExchangePage — Organizers manage members and exclusions, then draw names once.
+ * After the draw every member sees only their own assignee and can reserve
+ * from that person's linked wishlist without revealing who they are.
+ */
+export default function ExchangePage() {
+    const { id } = useParams();
+    const { user } = useAuth();
+    const navigate = useNavigate();
+    const [exchange, setExchange] = useState<ExchangeDetail | null>(null);
+    const [ownWishlists, setOwnWishlists] = useState<OwnWishlist[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [drawing, setDrawing] = useState(false);
+    const [reservingId, setReservingId] = useState<string | null>(null);
+    const [exclusionA, setExclusionA] = useState('');
+    const [exclusionB, setExclusionB] = useState('');
+
+    const fetchExchange = useCallback(async () => {
+        try {
+            const res = await axios.get(`/api/exchanges/${id}`);
+            setExchange(res.data);
+            document.title = `${res.data.name} | Giftly`;
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to load gift exchange'));
+        } finally {
+            setLoading(false);
+        }
+    }, [id]);
+
+    useEffect(() => {
+        if (!user) return;
+        fetchExchange();
+        axios.get('/api/wishlists')
+            .then(res => setOwnWishlists(res.data))
+            .catch(() => {
+                // Linking just stays unavailable
+            });
+    }, [user, fetchExchange]);
+
+    const memberName = (userId: string) => exchange?.members.find(m => m.id === userId)?.name || 'Someone';
+
+    const copyInviteLink = () => {
+        if (!exchange?.inviteCode) return;
+        navigator.clipboard.writeText(`${window.location.origin}/exchanges/join/${exchange.inviteCode}`);
+        toast.success('Invite link copied!');
+    };
+
+    const linkWishlist = async (wishlistId: string | null) => {
+        if (!exchange) return;
+        const previous = exchange.myWishlistId;
+        setExchange({ ...exchange, myWishlistId: wishlistId });
+        try {
+            await axios.put(`/api/exchanges/${exchange.id}/wishlist`, { wishlistId });
+            toast.success(wishlistId ? 'Wishlist linked' : 'Wishlist unlinked');
+            fetchExchange();
+        } catch (error) {
+            setExchange(prev => prev && { ...prev, myWishlistId: previous });
+            toast.error(getApiErrorMessage(error, 'Failed to link wishlist'));
+        }
+    };
+
+    const addExclusion = async () => {
+        if (!exchange || !exclusionA || !exclusionB) return;
+        try {
+            await axios.post(`/api/exchanges/${exchange.id}/exclusions`, {
+                userAId: exclusionA,
+                userBId: exclusionB,
+            });
+            setExclusionA('');
+            setExclusionB('');
+            fetchExchange();
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to add exclusion'));
+        }
+    };
+
+    const removeExclusion = async (exclusionId: string) => {
+        if (!exchange) return;
+        const previous = exchange.exclusions;
+        setExchange({ ...exchange, exclusions: previous.filter(e => e.id !== exclusionId) });
+        try {
+            await axios.delete(`/api/exchanges/${exchange.id}/exclusions/${exclusionId}`);
+        } catch (error) {
+            setExchange(prev => prev && { ...prev, exclusions: previous });
+            toast.error(getApiErrorMessage(error, 'Failed to remove exclusion'));
+        }
+    };
+
+    const removeMember = async (memberId: string) => {
+        if (!exchange) return;
+        const leaving = memberId === user?.id;
+        if (!confirm(leaving ? 'Leave this gift exchange?' : `Remove ${memberName(memberId)} from the exchange?`)) return;
+        try {
+            await axios.delete(`/api/exchanges/${exchange.id}/members/${memberId}`);
+            if (leaving) {
+                navigate('/exchanges');
+                return;
+            }
+            fetchExchange();
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to remove member'));
+        }
+    };
+
+    const drawNames = async () => {
+        if (!exchange || drawing) return;
+        if (!confirm('Draw names now? Nobody can join or leave afterwards.')) return;
+        setDrawing(true);
+        try {
+            const res = await axios.post(`/api/exchanges/${exchange.id}/draw`, {});
+            setExchange(res.data);
+            toast.success('Names drawn! 🎁');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to draw names'));
+        } finally {
+            setDrawing(false);
+        }
+    };
+
+    const reserveItem = async (itemId: string) => {
+        if (!exchange?.assignee?.wishlist || reservingId) return;
+        setReservingId(itemId);
+        try {
+            const res = await axios.post(`/api/exchanges/${exchange.id}/items/${itemId}/reserve`, {});
+            setExchange(prev => prev?.assignee?.wishlist ? {
+                ...prev,
+                assignee: {
+                    ...prev.assignee,
+                    wishlist: {
+                        ...prev.assignee.wishlist,
+                        items: prev.assignee.wishlist.items.map(item => item.id === itemId
+                            ? {
+                                ...item,
+                                isReserved: res.data.isReserved,
+                                reservedQuantity: res.data.reservedQuantity,
+                                reservations: res.data.reservations,
+                            }
+                            : item),
+                    },
+                },
+            } : prev);
+            toast.success('Reserved — your secret is safe 🤫');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to reserve item'));
+        } finally {
+            setReservingId(null);
+        }
+    };
+
+    if (loading) return (
+        <div className="min-h-[calc(100vh-3.5rem)] flex items-center justify-center">
+            <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading exchange...
+            </div>
+        </div>
+    );
+
+    if (!exchange) return (
+        <div className="min-h-[calc(100vh-3.5rem)] flex flex-col items-center justify-center gap-4">
+            <p className="text-muted-foreground text-sm">This gift exchange doesn&apos;t exist or you&apos;re not a member.</p>
+            <Button variant="outline" onClick={() => navigate('/exchanges')}>Back to exchanges</Button>
+        </div>
+    );
+
+    const isOpen = exchange.status === 'open';
+
+    return (
+        <div className="min-h-[calc(100vh-3.5rem)] p-4 md:p-8 max-w-4xl mx-auto space-y-6">
+            <BackButton to="/exchanges" label="Exchanges" />
+
+            {/* Header */}
+            <div>
+                <h1 className="text-4xl font-serif text-foreground tracking-tighter italic">{exchange.name}</h1>
+                <div className="flex flex-wrap items-center gap-3 mt-2 text-sm text-muted-foreground">
+                    {exchange.budget && <span>Budget {exchange.currency} {Number(exchange.budget).toFixed(0)}</span>}
+                    {exchange.exchangeDate && <span>Exchange on {new Date(exchange.exchangeDate).toLocaleDateString()}</span>}
+                    <span>{isOpen ? 'Waiting for the draw' : 'Names drawn'}</span>
+                </div>
+                {exchange.description && <p className="text-sm text-muted-foreground mt-3">{exchange.description}</p>}
+            </div>
+
+            {/* Assignee reveal (after the draw) */}
+            {exchange.assignee && (
+                <div className="bg-card border border-primary/30 shadow-sm rounded-xl p-5 space-y-4">
+                    <div className="flex items-center gap-2">
+                        <Gift className="h-5 w-5 text-primary" />
+                        <h2 className="font-semibold text-foreground">You&apos;re Secret Santa for {exchange.assignee.user.name}</h2>
+                    </div>
+                    {!exchange.assignee.wishlist ? (
+                        <p className="text-sm text-muted-foreground">They haven&apos;t linked a wishlist yet — check back later.</p>
+                    ) : exchange.assignee.wishlist.items.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Their wishlist is empty so far.</p>
+                    ) : (
+                        <ul className="divide-y divide-border">
+                            {exchange.assignee.wishlist.items.map(item => {
+                                const mine = findMyReservation(item, user?.email);
+                                return (
+                                    <li key={item.id} className="py-3 flex items-center gap-3">
+                                        {item.imageUrl
+                                            ? <img src={item.imageUrl} alt="" className="h-12 w-12 rounded-md object-cover border border-border shrink-0" />
+                                            : <div className="h-12 w-12 rounded-md bg-muted flex items-center justify-center shrink-0"><Gift className="h-5 w-5 text-muted-foreground" /></div>}
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-medium text-foreground truncate">{item.title}</p>
+                                            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                                {item.price != null && <span>${Number(item.price).toFixed(2)}</span>}
+                                                {describeReserved(item) && <span>{describeReserved(item)}</span>}
+                                                {item.url && (
+                                                    <a href={item.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 hover:text-foreground">
+                                                        <ExternalLink className="h-3 w-3" /> View
+                                                    </a>
+                                                )}
+                                            </div>
+                                        </div>
+                                        {mine || item.isReserved ? (
+                                            <span className={`text-xs inline-flex items-center gap-1 ${mine ? 'text-emerald-500' : 'text-muted-foreground'}`}>
+                                                {mine ? <><Check className="h-3.5 w-3.5" /> Reserved by you</> : 'Already taken'}
+                                            </span>
+                                        ) : (
+                                            <Button size="sm" onClick={() => reserveItem(item.id)} disabled={reservingId !== null}>
+                                                {reservingId === item.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Reserve as Secret Santa'}
+                                            </Button>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                    {exchange.assignee.wishlist && (
+                        <Link to={`/wishlist/${exchange.assignee.wishlist.id}`} className="text-xs text-primary hover:underline">
+                            Open {exchange.assignee.wishlist.title}
+                        </Link>
+                    )}
+                </div>
+            )}
+
+            {/* Your linked wishlist */}
+            <div className="bg-card border border-border shadow-sm rounded-xl p-5 space-y-3">
+                <div className="flex items-center gap-2">
+                    <Link2 className="h-4 w-4 text-violet-400" />
+                    <h2 className="text-sm font-semibold text-foreground">Your wishlist for this exchange</h2>
+                </div>
+                <select
+                    value={exchange.myWishlistId || ''}
+                    onChange={(e) => linkWishlist(e.target.value || null)}
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground"
+                >
+                    <option value="">No wishlist linked</option>
+                    {ownWishlists.map(w => <option key={w.id} value={w.id}>{w.title}</option>)}
+                </select>
+                <p className="text-xs text-muted-foreground">Your Secret Santa will shop from this list, even if it&apos;s private.</p>
+            </div>
+
+            {/* Members */}
+            <div className="bg-card border border-border shadow-sm rounded-xl overflow-hidden">
+                <div className="px-5 py-3 border-b border-border flex items-center justify-between">
+                    <h2 className="text-sm font-semibold text-foreground">Members ({exchange.members.length})</h2>
+                    {exchange.inviteCode && (
+                        <Button variant="outline" size="sm" onClick={copyInviteLink}>
+                            <Copy className="h-3.5 w-3.5 mr-1.5" /> Copy invite link
+                        </Button>
+                    )}
+                </div>
+                <ul className="divide-y divide-border">
+                    {exchange.members.map(member => (
+                        <li key={member.id} className="px-5 py-3 flex items-center gap-3">
+                            <div className="h-8 w-8 rounded-lg bg-secondary flex items-center justify-center text-xs font-semibold text-secondary-foreground shrink-0">
+                                {member.name?.charAt(0)?.toUpperCase() || '?'}
+                            </div>
+                            <span className="flex-1 text-sm text-foreground truncate">
+                                {member.name}
+                                {member.id === exchange.organizerId && <Crown className="inline h-3.5 w-3.5 ml-1.5 text-amber-500" />}
+                            </span>
+                            <span className="text-xs text-muted-foreground">{member.hasWishlist ? 'Wishlist linked' : 'No wishlist yet'}</span>
+                            {isOpen && member.id !== exchange.organizerId && (exchange.isOrganizer || member.id === user?.id) && (
+                                <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => removeMember(member.id)} aria-label={member.id === user?.id ? 'Leave exchange' : 'Remove member'}>
+                                    <UserMinus className="h-4 w-4" />
+                                </Button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            {/* Organizer controls: exclusions and the draw */}
+            {exchange.isOrganizer && isOpen && (
+                <div className="bg-card border border-border shadow-sm rounded-xl p-5 space-y-4">
+                    <div className="flex items-center gap-2">
+                        <Ban className="h-4 w-4 text-pink-400" />
+                        <h2 className="text-sm font-semibold text-foreground">Exclusions</h2>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Couples or housemates who shouldn&apos;t draw each other.</p>
+                    {exchange.exclusions.length > 0 && (
+                        <ul className="space-y-2">
+                            {exchange.exclusions.map(exclusion => (
+                                <li key={exclusion.id} className="flex items-center justify-between text-sm text-foreground bg-muted/50 rounded-md px-3 py-2">
+                                    <span>{memberName(exclusion.userAId)} ↔ {memberName(exclusion.userBId)}</span>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={() => removeExclusion(exclusion.id)} aria-label="Remove exclusion">
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        {[{ value: exclusionA, set: setExclusionA }, { value: exclusionB, set: setExclusionB }].map((picker, index) => (
+                            <select
+                                key={index}
+                                value={picker.value}
+                                onChange={(e) => picker.set(e.target.value)}
+                                className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground"
+                            >
+                                <option value="">Pick a member</option>
+                                {exchange.members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                            </select>
+                        ))}
+                        <Button variant="outline" onClick={addExclusion} disabled={!exclusionA || !exclusionB || exclusionA === exclusionB}>
+                            Add
+                        </Button>
+                    </div>
+
+                    <Button onClick={drawNames} disabled={drawing || exchange.members.length < 3} className="w-full">
+                        {drawing ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Shuffle className="h-4 w-4 mr-2" /> Draw names</>}
+                    </Button>
+                    {exchange.members.length < 3 && (
+                        <p className="text-xs text-muted-foreground text-center">Invite at least 3 people to draw names.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
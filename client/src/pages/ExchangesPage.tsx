@@ -0,0 +1,212 @@
+// ExchangesPage — Gift exchange groups the user organizes or belongs to, plus invite-link joining
+
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { motion } from 'framer-motion';
+import { Plus, Shuffle, Users, CalendarDays, Loader2, Crown } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+
+/** Exchange summary as returned by GET /api/exchanges */
+interface ExchangeSummary {
+    id: string;
+    name: string;
+    description?: string | null;
+    budget?: string | null;
+    currency: string;
+    exchangeDate?: string | null;
+    status: 'open' | 'drawn';
+    memberCount: number;
+    isOrganizer: boolean;
+}
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+/**
+ * ExchangesPage — Lists the user's Secret Santa groups and creates new ones.
+ * When opened from an invite link (/exchanges/join/:code) it joins first,
+ * then redirects to the exchange.
+ */
+export default function ExchangesPage() {
+    const { user } = useAuth();
+    const { code } = useParams();
+    const navigate = useNavigate();
+    const [exchanges, setExchanges] = useState<ExchangeSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [open, setOpen] = useState(false);
+    const [creating, setCreating] = useState(false);
+    const [name, setName] = useState('');
+    const [budget, setBudget] = useState('');
+    const [exchangeDate, setExchangeDate] = useState('');
+    const joinAttemptedRef = useRef(false);
+
+    useEffect(() => {
+        document.title = 'Gift Exchanges | Giftly';
+    }, []);
+
+    // Join via invite link, then jump straight into the exchange
+    useEffect(() => {
+        if (!code || !user || joinAttemptedRef.current) return;
+        joinAttemptedRef.current = true;
+
+        axios.post(`/api/exchanges/join/${code}`, {})
+            .then(res => {
+                toast.success(`Joined ${res.data.name}!`);
+                navigate(`/exchange/${res.data.id}`, { replace: true });
+            })
+            .catch(error => {
+                toast.error(getApiErrorMessage(error, 'Failed to join exchange'));
+                navigate('/exchanges', { replace: true });
+            });
+    }, [code, user, navigate]);
+
+    useEffect(() => {
+        if (!user || code) return;
+        axios.get('/api/exchanges')
+            .then(res => setExchanges(res.data))
+            .catch(() => toast.error('Failed to load gift exchanges'))
+            .finally(() => setLoading(false));
+    }, [user, code]);
+
+    const createExchange = async () => {
+        if (!name.trim() || creating) return;
+        setCreating(true);
+        try {
+            const res = await axios.post('/api/exchanges', {
+                name: name.trim(),
+                budget: budget ? Number(budget) : undefined,
+                exchangeDate: exchangeDate || null,
+            });
+            toast.success('Gift exchange created!');
+            navigate(`/exchange/${res.data.id}`);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to create gift exchange'));
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    if (loading || code) return (
+        <div className="min-h-[calc(100vh-3.5rem)] flex items-center justify-center">
+            <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {code ? 'Joining exchange...' : 'Loading exchanges...'}
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="min-h-[calc(100vh-3.5rem)] p-4 md:p-8 max-w-4xl mx-auto">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-10">
+                <div>
+                    <h1 className="text-4xl md:text-5xl font-serif text-foreground tracking-tighter italic">Gift Exchanges</h1>
+                    <p className="text-muted-foreground mt-2 text-sm">Draw names, shop from each other&apos;s wishlists, keep it secret.</p>
+                </div>
+
+                <Dialog open={open} onOpenChange={setOpen}>
+                    <DialogTrigger asChild>
+                        <Button size="lg" className="shadow-lg shadow-primary/20 active:scale-95 transition-all">
+                            <Plus className="mr-2 h-4 w-4" /> New Exchange
+                        </Button>
+                    </DialogTrigger>
+                    <DialogContent className="bg-popover border-border">
+                        <DialogHeader>
+                            <DialogTitle className="text-foreground flex items-center gap-2">
+                                <Shuffle className="h-5 w-5 text-primary" /> Start a Secret Santa
+                            </DialogTitle>
+                        </DialogHeader>
+                        <div className="space-y-4 pt-2">
+                            <div className="space-y-2">
+                                <Label className="text-muted-foreground">Name</Label>
+                                <Input
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    placeholder="Office Secret Santa 2026"
+                                    onKeyDown={(e) => e.key === 'Enter' && createExchange()}
+                                    className="bg-background border-input text-foreground"
+                                    autoFocus
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                    <Label className="text-muted-foreground">Budget <span className="text-muted-foreground/50">(optional)</span></Label>
+                                    <Input
+                                        type="number"
+                                        min="0"
+                                        value={budget}
+                                        onChange={(e) => setBudget(e.target.value)}
+                                        placeholder="25"
+                                        className="bg-background border-input text-foreground"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-muted-foreground">Exchange date</Label>
+                                    <Input
+                                        type="date"
+                                        value={exchangeDate}
+                                        onChange={(e) => setExchangeDate(e.target.value)}
+                                        className="bg-background border-input text-foreground"
+                                    />
+                                </div>
+                            </div>
+                            <Button onClick={createExchange} disabled={!name.trim() || creating} className="w-full">
+                                {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create Exchange'}
+                            </Button>
+                        </div>
+                    </DialogContent>
+                </Dialog>
+            </div>
+
+            {exchanges.length === 0 ? (
+                <div className="bg-card border border-border rounded-xl px-4 py-12 text-center">
+                    <Users className="h-8 w-8 text-muted-foreground/50 mx-auto mb-3" />
+                    <p className="text-sm text-muted-foreground">No gift exchanges yet</p>
+                    <p className="text-xs text-muted-foreground/70 mt-1">Create one and share the invite link with your group</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {exchanges.map(exchange => (
+                        <motion.div key={exchange.id} whileHover={{ y: -3 }} transition={{ duration: 0.16 }}>
+                            <Link
+                                to={`/exchange/${exchange.id}`}
+                                className="block bg-card border border-border shadow-sm hover:shadow-md rounded-xl p-5 transition-shadow"
+                            >
+                                <div className="flex items-start justify-between gap-2">
+                                    <h2 className="font-semibold text-foreground truncate">{exchange.name}</h2>
+                                    <span className={`shrink-0 text-[10px] uppercase tracking-wide font-semibold px-2 py-0.5 rounded-full ${exchange.status === 'drawn'
+                                        ? 'bg-emerald-500/10 text-emerald-500'
+                                        : 'bg-amber-500/10 text-amber-500'
+                                        }`}>
+                                        {exchange.status === 'drawn' ? 'Names drawn' : 'Open'}
+                                    </span>
+                                </div>
+                                <div className="flex flex-wrap items-center gap-3 mt-3 text-xs text-muted-foreground">
+                                    <span className="inline-flex items-center gap-1"><Users className="h-3.5 w-3.5" /> {exchange.memberCount}</span>
+                                    {exchange.budget && <span>{exchange.currency} {Number(exchange.budget).toFixed(0)} budget</span>}
+                                    {exchange.exchangeDate && (
+                                        <span className="inline-flex items-center gap-1">
+                                            <CalendarDays className="h-3.5 w-3.5" /> {new Date(exchange.exchangeDate).toLocaleDateString()}
+                                        </span>
+                                    )}
+                                    {exchange.isOrganizer && (
+                                        <span className="inline-flex items-center gap-1 text-amber-500"><Crown className="h-3.5 w-3.5" /> Organizer</span>
+                                    )}
+                                </div>
+                            </Link>
+                        </motion.div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,84 @@
+// ForgotPasswordPage — Request a password reset link by email
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { KeyRound, Loader2, MailCheck } from 'lucide-react';
+import { toast } from 'sonner';
+
+/**
+ * ForgotPasswordPage — Sends a reset link. The API answers the same way
+ * whether or not the account exists, so the page always shows "check your inbox".
+ */
+export default function ForgotPasswordPage() {
+    const [email, setEmail] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [sent, setSent] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        try {
+            await axios.post('/api/auth/forgot-password', { email });
+            setSent(true);
+        } catch {
+            toast.error('Could not send reset link. Try again in a moment.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+            <div className="absolute inset-0 bg-muted/20 pointer-events-none" />
+
+            <Card className="w-full max-w-md relative border-border shadow-lg">
+                <CardHeader className="text-center pb-2">
+                    <div className="flex justify-center mb-4">
+                        <div className="h-14 w-14 rounded-2xl bg-primary flex items-center justify-center shadow-lg shadow-primary/20">
+                            {sent ? <MailCheck className="h-7 w-7 text-primary-foreground" /> : <KeyRound className="h-7 w-7 text-primary-foreground" />}
+                        </div>
+                    </div>
+                    <CardTitle className="text-2xl font-bold text-foreground">{sent ? 'Check your inbox' : 'Forgot password?'}</CardTitle>
+                    <p className="text-muted-foreground text-sm mt-1">
+                        {sent
+                            ? `If an account exists for ${email}, we've sent a link to reset your password.`
+                            : "Enter your email and we'll send you a reset link"}
+                    </p>
+                </CardHeader>
+                <CardContent>
+                    {!sent && (
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="space-y-2">
+                                <Label className="text-foreground">Email</Label>
+                                <Input
+                                    type="email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    placeholder="you@example.com"
+                                    required
+                                    className="bg-background border-input text-foreground placeholder:text-muted-foreground focus:ring-ring"
+                                    autoFocus
+                                />
+                            </div>
+                            <Button type="submit" disabled={loading} className="w-full">
+                                {loading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Sending...</> : 'Send reset link'}
+                            </Button>
+                        </form>
+                    )}
+
+                    <p className="text-center text-sm text-gray-500 mt-6">
+                        Remembered it?{' '}
+                        <Link to="/login" className="text-primary hover:text-primary/80 font-medium transition-colors">
+                            Back to sign in
+                        </Link>
+                    </p>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,94 @@
+// InvitePage — Preview and accept an invitation to collaborate on a wishlist
+
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { Loader2, Users, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, type CollaboratorRole } from '@/lib/collaborators';
+
+interface InvitePreview {
+    role: CollaboratorRole;
+    forEmail: boolean;
+    expiresAt: string;
+    wishlist: { id: string; title: string; owner: { name: string; username: string } };
+    invitedBy: { name: string };
+}
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+/**
+ * InvitePage — Shows which wishlist an invite is for and the role it grants.
+ * Accepting adds the user as a collaborator and opens the wishlist.
+ */
+export default function InvitePage() {
+    const { code } = useParams<{ code: string }>();
+    const navigate = useNavigate();
+    const [invite, setInvite] = useState<InvitePreview | null>(null);
+    const [status, setStatus] = useState<'loading' | 'ready' | 'failed'>('loading');
+    const [accepting, setAccepting] = useState(false);
+
+    useEffect(() => {
+        document.title = 'Wishlist invite | Giftly';
+        if (!code) return;
+        axios.get(`/api/collaborators/invites/${encodeURIComponent(code)}`)
+            .then(res => {
+                setInvite(res.data);
+                setStatus('ready');
+            })
+            .catch(() => setStatus('failed'));
+    }, [code]);
+
+    const accept = async () => {
+        if (!code || accepting) return;
+        setAccepting(true);
+        try {
+            const res = await axios.post(`/api/collaborators/invites/${encodeURIComponent(code)}/accept`);
+            toast.success(`You joined "${invite?.wishlist.title}"`);
+            navigate(`/wishlist/${res.data.wishlistId}`);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to accept invite'));
+            setAccepting(false);
+        }
+    };
+
+    return (
+        <div className="min-h-[calc(100vh-3.5rem)] flex flex-col items-center justify-center gap-4 p-4 text-center">
+            {status === 'loading' && (
+                <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
+            )}
+            {status === 'ready' && invite && (
+                <>
+                    <Users className="h-12 w-12 text-primary" />
+                    <h1 className="text-2xl font-semibold text-foreground">
+                        {invite.invitedBy.name} invited you to “{invite.wishlist.title}”
+                    </h1>
+                    <p className="text-sm text-muted-foreground max-w-sm">
+                        Join as <span className="text-foreground font-medium">{ROLE_LABELS[invite.role].toLowerCase()}</span>: {ROLE_DESCRIPTIONS[invite.role].toLowerCase()}.
+                        {' '}The list belongs to <Link to={`/u/${invite.wishlist.owner.username}`} className="text-primary hover:underline">{invite.wishlist.owner.name}</Link>.
+                    </p>
+                    {invite.forEmail && (
+                        <p className="text-xs text-muted-foreground">This invite only works for the email address it was sent to.</p>
+                    )}
+                    <Button onClick={accept} disabled={accepting}>
+                        {accepting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Accept invite'}
+                    </Button>
+                </>
+            )}
+            {status === 'failed' && (
+                <>
+                    <XCircle className="h-12 w-12 text-destructive" />
+                    <h1 className="text-2xl font-semibold text-foreground">This invite is invalid or has expired</h1>
+                    <p className="text-sm text-muted-foreground">Ask the owner of the wishlist for a new one.</p>
+                    <Link to="/" className="text-primary hover:underline text-sm">Go to your dashboard</Link>
+                </>
+            )}
+        </div>
+    );
+}
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, Link, useLocation } from 'react-router-dom';
 import axios from 'axios';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,6 +18,9 @@ import { toast } from 'sonner';
 export default function LoginPage() {
     const { login } = useAuth();
     const navigate = useNavigate();
+    const location = useLocation();
+    // Set by ProtectedRoute so e.g. a shared link survives signing in
+    const from = (location.state as { from?: string } | null)?.from;
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [loading, setLoading] = useState(false);
@@ -28,9 +31,9 @@ export default function LoginPage() {
         setLoading(true);
         try {
             const res = await axios.post('/api/auth/login', { email, password });
-            login(res.data.token, res.data.user);
+            login(res.data.user, res.data.csrfToken);
             toast.success('Welcome back!');
-            navigate('/');
+            navigate(from?.startsWith('/') ? from : '/', { replace: true });
         } catch (error: any) {
             toast.error(error.response?.data?.error || 'Login failed');
         } finally {
@@ -70,7 +73,12 @@ export default function LoginPage() {
                             />
                         </div>
                         <div className="space-y-2">
-                            <Label className="text-foreground">Password</Label>
+                            <div className="flex items-center justify-between">
+                                <Label className="text-foreground">Password</Label>
+                                <Link to="/forgot-password" className="text-xs text-primary hover:text-primary/80 transition-colors">
+                                    Forgot password?
+                                </Link>
+                            </div>
                             <Input
                                 type="password"
                                 value={password}
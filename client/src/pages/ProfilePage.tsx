@@ -1,20 +1,24 @@
-// ProfilePage - User's personal hub with Shrine (Top 4), Haul Log, and Gift Wrapped stats
+// ProfilePage - User's personal hub with badges, Shrine (Top 4), Haul Log, and Gift Wrapped stats
 // Premium Coquette aesthetic with glassmorphic cards and Lucide icons throughout
 
 import { useEffect, useState, useMemo } from 'react';
 import axios from 'axios';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import { toast } from 'sonner';
 import { motion } from 'framer-motion';
 import {
     Crown, BookOpen, Sparkles, Loader2,
-    Plus, X, Check
+    Plus, X, Check, Settings
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import ShrineGrid from '@/components/features/ShrineGrid';
 import HaulCard from '@/components/features/HaulCard';
 import WrappedCard from '@/components/features/WrappedCard';
+import BadgeShelf from '@/components/features/BadgeShelf';
+import AccountSettings from '@/components/features/AccountSettings';
 import BackButton from '@/components/ui/BackButton';
+import { isRecipientRole, type WishlistRole } from '@/lib/collaborators';
 
 const getProfileCacheKey = (userId?: string) => `giftly:profile:${userId || 'guest'}`;
 
@@ -44,13 +48,15 @@ interface HaulEntry {
 }
 
 /**
- * ProfilePage - Renders the authenticated user's profile with:
+ * ProfilePage - Renders the authenticated user's profile with a badge shelf
+ * (level, karma, streak, achievements) above the tabs:
  * 1. Shrine (Top 4 pinned items) - editable
  * 2. Gift Wrapped (analytics card)
  * 3. Haul Log (diary of fulfilled items)
+ * 4. Settings (profile, email, password, devices, account deletion)
  */
 export default function ProfilePage() {
-    const { user, token } = useAuth();
+    const { user } = useAuth();
     const [shrineItems, setShrineItems] = useState<WishlistItem[]>([]);
     const [hauls, setHauls] = useState<HaulEntry[]>([]);
     const [loading, setLoading] = useState(true);
@@ -63,6 +69,8 @@ export default function ProfilePage() {
     const [loadingShrineItems, setLoadingShrineItems] = useState(false);
     const profileCacheKey = getProfileCacheKey(user?.id);
 
+    const [resendingVerification, setResendingVerification] = useState(false);
+
     // Fetch shrine + hauls on mount
     useEffect(() => {
         if (!user) return;
@@ -106,6 +114,19 @@ export default function ProfilePage() {
             || fallback;
     };
 
+    const resendVerification = async () => {
+        if (resendingVerification) return;
+        setResendingVerification(true);
+        try {
+            await axios.post('/api/auth/verify-email/resend', {});
+            toast.success(`Verification link sent to ${user?.email}`);
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to send verification email'));
+        } finally {
+            setResendingVerification(false);
+        }
+    };
+
     /**
      * Fetch all owned items for shrine editing (from all wishlists).
      * Called when entering edit mode.
@@ -114,13 +135,11 @@ export default function ProfilePage() {
         if (loadingShrineItems) return;
         setLoadingShrineItems(true);
         try {
-            const res = await axios.get('/api/wishlists', {
-                headers: { Authorization: `Bearer ${token}` },
-            });
-            // Flatten all items from all wishlists
-            const items: WishlistItem[] = res.data.flatMap(
-                (wl: { items: WishlistItem[] }) => wl.items
-            );
+            const res = await axios.get('/api/wishlists');
+            // Flatten the items of every list the user owns or co-owns (shared lists they only edit or view don't count)
+            const items: WishlistItem[] = res.data
+                .filter((wl: { role: WishlistRole }) => isRecipientRole(wl.role))
+                .flatMap((wl: { items: WishlistItem[] }) => wl.items);
             setAllItems(items);
             setSelectedIds(shrineItems.map(i => i.id));
             setEditingShrine(true);
@@ -158,9 +177,7 @@ export default function ProfilePage() {
         setSavingShrine(true);
         setShrineItems(optimisticShrine);
         try {
-            await axios.put('/api/shrine', { itemIds: selectedIds }, {
-                headers: { Authorization: `Bearer ${token}` },
-            });
+            await axios.put('/api/shrine', { itemIds: selectedIds });
             setEditingShrine(false);
             toast.success('Shrine updated');
         } catch (error: any) {
@@ -172,13 +189,14 @@ export default function ProfilePage() {
     };
 
     // Active section tab
-    const [activeTab, setActiveTab] = useState<'shrine' | 'wrapped' | 'hauls'>('shrine');
+    const [activeTab, setActiveTab] = useState<'shrine' | 'wrapped' | 'hauls' | 'settings'>('shrine');
 
     // Available tabs for navigation
     const tabs = useMemo(() => [
         { key: 'shrine' as const, label: 'Holy Grail', icon: Crown },
         { key: 'wrapped' as const, label: 'Gift Wrapped', icon: Sparkles },
         { key: 'hauls' as const, label: 'Haul Log', icon: BookOpen },
+        { key: 'settings' as const, label: 'Settings', icon: Settings },
     ], []);
 
     // Loading state
@@ -206,19 +224,43 @@ export default function ProfilePage() {
                 {/* Profile Header Block */}
                 <div className="pt-6">
                     <div className="h-24 w-24 mx-auto rounded-2xl bg-secondary flex items-center justify-center mb-6 shadow-xl border border-border/50">
-                        <span className="text-3xl font-serif font-bold text-foreground">
-                            {user?.name?.charAt(0)?.toUpperCase() || '?'}
-                        </span>
+                        {user?.avatarUrl ? (
+                            <img src={user.avatarUrl} alt={user.name} className="h-full w-full rounded-2xl object-cover" />
+                        ) : (
+                            <span className="text-3xl font-serif font-bold text-foreground">
+                                {user?.name?.charAt(0)?.toUpperCase() || '?'}
+                            </span>
+                        )}
                     </div>
                     <h1 className="text-4xl md:text-5xl font-serif italic text-foreground tracking-tight">
                         {user?.name || 'Your Profile'}
                     </h1>
+                    {user && (
+                        <Link to={`/u/${user.username}`} className="inline-block text-muted-foreground mt-2 text-sm hover:text-foreground hover:underline underline-offset-4">
+                            @{user.username} · View public profile
+                        </Link>
+                    )}
                     <p className="text-muted-foreground mt-3 text-sm flex items-center justify-center gap-2">
                         <Sparkles className="h-3.5 w-3.5" /> Curator of Fine Things
                     </p>
+                    {user && !user.emailVerifiedAt && (
+                        <p className="mt-3 text-xs text-amber-600 flex items-center justify-center gap-2">
+                            Your email isn&apos;t verified yet.
+                            <button
+                                type="button"
+                                onClick={resendVerification}
+                                disabled={resendingVerification}
+                                className="underline hover:text-amber-700 cursor-pointer disabled:opacity-50"
+                            >
+                                {resendingVerification ? 'Sending...' : 'Resend link'}
+                            </button>
+                        </p>
+                    )}
                 </div>
             </motion.div>
 
+            {user && <BadgeShelf userId={user.id} />}
+
             {/* Tab navigation */}
             <div className="flex gap-1 p-1 rounded-xl bg-muted/30 border border-border mb-6">
                 {tabs.map(tab => (
@@ -358,7 +400,7 @@ export default function ProfilePage() {
 
                 {/* WRAPPED TAB */}
                 {activeTab === 'wrapped' && user && (
-                    <WrappedCard userId={user.id} />
+                    <WrappedCard userId={user.id} currency={user.displayCurrency} />
                 )}
 
                 {/* HAUL LOG TAB */}
@@ -387,6 +429,9 @@ export default function ProfilePage() {
                         )}
                     </div>
                 )}
+
+                {/* SETTINGS TAB */}
+                {activeTab === 'settings' && <AccountSettings />}
             </motion.div>
         </div>
     );
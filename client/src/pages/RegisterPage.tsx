@@ -56,7 +56,7 @@ export default function RegisterPage() {
         setLoading(true);
         try {
             const res = await axios.post('/api/auth/register', { name, email, password });
-            login(res.data.token, res.data.user);
+            login(res.data.user, res.data.csrfToken);
             toast.success('Account created! Welcome to Giftly');
             navigate('/');
         } catch (error: any) {
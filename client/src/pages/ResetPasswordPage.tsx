@@ -0,0 +1,105 @@
+// ResetPasswordPage — Choose a new password from an emailed reset link
+
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+/**
+ * ResetPasswordPage — Reads the single-use token from ?token= and
+ * sends it with the new password. Expired or reused links show the API error.
+ */
+export default function ResetPasswordPage() {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const token = searchParams.get('token') || '';
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (password !== confirmPassword) {
+            toast.error("Passwords don't match");
+            return;
+        }
+        setLoading(true);
+        try {
+            await axios.post('/api/auth/reset-password', { token, password });
+            toast.success('Password updated — sign in with your new password');
+            navigate('/login');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to reset password'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+            <div className="absolute inset-0 bg-muted/20 pointer-events-none" />
+
+            <Card className="w-full max-w-md relative border-border shadow-lg">
+                <CardHeader className="text-center pb-2">
+                    <div className="flex justify-center mb-4">
+                        <div className="h-14 w-14 rounded-2xl bg-primary flex items-center justify-center shadow-lg shadow-primary/20">
+                            <KeyRound className="h-7 w-7 text-primary-foreground" />
+                        </div>
+                    </div>
+                    <CardTitle className="text-2xl font-bold text-foreground">Choose a new password</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {!token ? (
+                        <p className="text-center text-sm text-muted-foreground">
+                            This reset link is incomplete.{' '}
+                            <Link to="/forgot-password" className="text-primary hover:text-primary/80 font-medium">Request a new one</Link>
+                        </p>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="space-y-2">
+                                <Label className="text-foreground">New password</Label>
+                                <Input
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder="••••••••"
+                                    minLength={6}
+                                    required
+                                    className="bg-background border-input text-foreground placeholder:text-muted-foreground focus:ring-ring"
+                                    autoFocus
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-foreground">Confirm password</Label>
+                                <Input
+                                    type="password"
+                                    value={confirmPassword}
+                                    onChange={(e) => setConfirmPassword(e.target.value)}
+                                    placeholder="••••••••"
+                                    minLength={6}
+                                    required
+                                    className="bg-background border-input text-foreground placeholder:text-muted-foreground focus:ring-ring"
+                                />
+                            </div>
+                            <Button type="submit" disabled={loading} className="w-full">
+                                {loading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</> : 'Update password'}
+                            </Button>
+                        </form>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
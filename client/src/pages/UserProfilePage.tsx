@@ -0,0 +1,354 @@
+// UserProfilePage - Public profile at /u/:username with someone's wishlists, shrine, haul diary and Wrapped
+
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { motion } from 'framer-motion';
+import {
+    Crown, BookOpen, Sparkles, Loader2, Gift, Lock, CalendarDays, UserPlus, UserCheck, Settings
+} from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { Button } from '@/components/ui/button';
+import ShrineGrid from '@/components/features/ShrineGrid';
+import HaulCard from '@/components/features/HaulCard';
+import WrappedCard from '@/components/features/WrappedCard';
+import BadgeShelf from '@/components/features/BadgeShelf';
+import BackButton from '@/components/ui/BackButton';
+import NotFoundPage from '@/pages/NotFoundPage';
+import { OCCASION_PRESETS, daysUntil, formatCountdown, type Occasion } from '@/lib/occasions';
+
+/** Shape of GET /api/users/:username */
+interface PublicProfile {
+    id: string;
+    username: string;
+    name: string;
+    avatarUrl?: string | null;
+    createdAt: string;
+    followerCount: number;
+    followingCount: number;
+    wishlists: {
+        id: string;
+        title: string;
+        description?: string | null;
+        coverImageUrl?: string | null;
+        occasion?: Occasion | null;
+        eventDate?: string | null;
+        _count: { items: number };
+    }[];
+}
+
+interface ShrineItem {
+    id: string;
+    title: string;
+    imageUrl?: string | null;
+    price?: number | null;
+    currency?: string;
+    hypeCount: number;
+}
+
+interface HaulEntry {
+    id: string;
+    rating: number;
+    review?: string | null;
+    photoUrl?: string | null;
+    createdAt: string;
+    item: {
+        title: string;
+        imageUrl?: string | null;
+        price?: number | null;
+        currency?: string;
+        hypeCount: number;
+    };
+}
+
+// A section either loaded or was hidden by its owner's privacy settings
+type Section<T> = { items: T[] } | { privateMessage: string };
+
+const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.error?.message || error.response?.data?.error || fallback;
+    }
+    return fallback;
+};
+
+const toSection = async <T,>(request: Promise<T[]>): Promise<Section<T>> => {
+    try {
+        return { items: await request };
+    } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.data?.error?.code === 'PROFILE_SECTION_PRIVATE') {
+            return { privateMessage: error.response.data.error.message };
+        }
+        // Any other failure just leaves the section empty
+        return { items: [] };
+    }
+};
+
+/** Lock notice shown in place of a section the owner keeps to themselves or friends */
+function PrivateSection({ message }: { message: string }) {
+    return (
+        <div className="text-center py-12 bg-card rounded-xl border border-border shadow-sm">
+            <Lock className="h-8 w-8 text-muted-foreground/30 mx-auto mb-3" />
+            <p className="text-sm text-muted-foreground">{message}</p>
+        </div>
+    );
+}
+
+/**
+ * UserProfilePage - Anyone's public profile, found by vanity username:
+ * header with follow button and counts, badge shelf, then tabs for public
+ * wishlists, the Holy Grail shrine, the Haul Log and Gift Wrapped. Each
+ * section respects the owner's privacy settings.
+ */
+export default function UserProfilePage() {
+    const { username } = useParams<{ username: string }>();
+    const { user } = useAuth();
+    const [profile, setProfile] = useState<PublicProfile | null>(null);
+    const [notFound, setNotFound] = useState(false);
+    const [shrine, setShrine] = useState<Section<ShrineItem>>({ items: [] });
+    const [hauls, setHauls] = useState<Section<HaulEntry>>({ items: [] });
+    const [isFollowing, setIsFollowing] = useState(false);
+    const [followPending, setFollowPending] = useState(false);
+    const [activeTab, setActiveTab] = useState<'wishlists' | 'shrine' | 'hauls' | 'wrapped'>('wishlists');
+
+    const profileId = profile?.id;
+    const isSelf = Boolean(user && profileId === user.id);
+
+    // Fetch the profile, then the sections keyed by the user's id
+    useEffect(() => {
+        if (!username) return;
+        setProfile(null);
+        setNotFound(false);
+
+        const fetchProfile = async () => {
+            try {
+                const res = await axios.get<PublicProfile>(`/api/users/${encodeURIComponent(username)}`);
+                const [shrineSection, haulSection] = await Promise.all([
+                    toSection(axios.get(`/api/shrine/${res.data.id}`).then(shrineRes => shrineRes.data.shrine as ShrineItem[])),
+                    toSection(axios.get(`/api/hauls/${res.data.id}`).then(haulsRes => haulsRes.data as HaulEntry[])),
+                ]);
+                setShrine(shrineSection);
+                setHauls(haulSection);
+                setProfile(res.data);
+                document.title = `${res.data.name} (@${res.data.username}) | Giftly`;
+            } catch {
+                setNotFound(true);
+            }
+        };
+        fetchProfile();
+    }, [username]);
+
+    // Load whether the viewer already follows them
+    useEffect(() => {
+        if (!user || !profileId || isSelf) return;
+        axios.get(`/api/social/follow/${profileId}`)
+            .then(res => setIsFollowing(res.data.isFollowing))
+            .catch(() => {
+                // Follow button just defaults to "Follow"
+            });
+    }, [user, profileId, isSelf]);
+
+    // Follow / unfollow (Optimistic UI, follower count included)
+    const toggleFollow = async () => {
+        if (!profile || followPending) return;
+        const next = !isFollowing;
+        setFollowPending(true);
+        setIsFollowing(next);
+        setProfile({ ...profile, followerCount: profile.followerCount + (next ? 1 : -1) });
+        try {
+            if (next) {
+                await axios.post(`/api/social/follow/${profile.id}`, {});
+                toast.success(`Following ${profile.name}`);
+            } else {
+                await axios.delete(`/api/social/follow/${profile.id}`);
+            }
+        } catch (error) {
+            setIsFollowing(!next);
+            setProfile(profile);
+            toast.error(getApiErrorMessage(error, 'Failed to update follow'));
+        } finally {
+            setFollowPending(false);
+        }
+    };
+
+    const tabs = useMemo(() => [
+        { key: 'wishlists' as const, label: 'Wishlists', icon: Gift },
+        { key: 'shrine' as const, label: 'Holy Grail', icon: Crown },
+        { key: 'hauls' as const, label: 'Haul Log', icon: BookOpen },
+        { key: 'wrapped' as const, label: 'Gift Wrapped', icon: Sparkles },
+    ], []);
+
+    if (notFound) return <NotFoundPage />;
+
+    if (!profile) return (
+        <div className="min-h-[calc(100vh-3.5rem)] flex items-center justify-center">
+            <div className="flex items-center gap-2 text-muted-foreground text-sm">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading profile...
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="max-w-2xl mx-auto px-4 py-8">
+            {/* Profile header */}
+            <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="relative mb-12 text-center"
+            >
+                <div className="absolute top-0 left-0">
+                    <BackButton />
+                </div>
+
+                <div className="pt-6">
+                    <div className="h-24 w-24 mx-auto rounded-2xl bg-secondary flex items-center justify-center mb-6 shadow-xl border border-border/50">
+                        {profile.avatarUrl ? (
+                            <img src={profile.avatarUrl} alt={profile.name} className="h-full w-full rounded-2xl object-cover" />
+                        ) : (
+                            <span className="text-3xl font-serif font-bold text-foreground">
+                                {profile.name.charAt(0).toUpperCase() || '?'}
+                            </span>
+                        )}
+                    </div>
+                    <h1 className="text-4xl md:text-5xl font-serif italic text-foreground tracking-tight">
+                        {profile.name}
+                    </h1>
+                    <p className="text-muted-foreground mt-2 text-sm">@{profile.username}</p>
+                    <p className="text-muted-foreground mt-3 text-xs flex items-center justify-center gap-3">
+                        <span><span className="text-foreground font-semibold">{profile.followerCount}</span> followers</span>
+                        <span><span className="text-foreground font-semibold">{profile.followingCount}</span> following</span>
+                        <span>Joined {new Date(profile.createdAt).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}</span>
+                    </p>
+                    <div className="mt-4">
+                        {isSelf ? (
+                            <Button asChild variant="outline" size="sm">
+                                <Link to="/profile"><Settings className="h-3.5 w-3.5 mr-1.5" /> Edit profile</Link>
+                            </Button>
+                        ) : user && (
+                            <Button
+                                variant={isFollowing ? 'outline' : 'default'}
+                                size="sm"
+                                onClick={toggleFollow}
+                                disabled={followPending}
+                            >
+                                {isFollowing
+                                    ? <><UserCheck className="h-3.5 w-3.5 mr-1.5" /> Following</>
+                                    : <><UserPlus className="h-3.5 w-3.5 mr-1.5" /> Follow</>}
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            </motion.div>
+
+            <BadgeShelf userId={profile.id} />
+
+            {/* Tab navigation */}
+            <div className="flex gap-1 p-1 rounded-xl bg-muted/30 border border-border mb-6">
+                {tabs.map(tab => (
+                    <button
+                        key={tab.key}
+                        onClick={() => setActiveTab(tab.key)}
+                        className={`flex-1 flex items-center justify-center gap-1.5 py-2 px-3 rounded-lg text-xs font-medium transition-all ${activeTab === tab.key
+                            ? 'bg-primary/10 text-primary border border-primary/10'
+                            : 'text-muted-foreground hover:text-foreground'
+                            }`}
+                    >
+                        <tab.icon className="h-3.5 w-3.5" />
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+
+            {/* Tab content */}
+            <motion.div
+                key={activeTab}
+                initial={{ opacity: 0, x: 10 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ duration: 0.15 }}
+            >
+                {/* WISHLISTS TAB */}
+                {activeTab === 'wishlists' && (
+                    profile.wishlists.length > 0 ? (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            {profile.wishlists.map(wishlist => (
+                                <Link
+                                    key={wishlist.id}
+                                    to={`/wishlist/${wishlist.id}`}
+                                    className="group block bg-card rounded-xl border border-border shadow-sm hover:shadow-md transition-all overflow-hidden"
+                                >
+                                    <div className="h-28 relative bg-gradient-to-br from-violet-500/20 to-pink-500/20">
+                                        {wishlist.coverImageUrl ? (
+                                            <img src={wishlist.coverImageUrl} alt="" className="absolute inset-0 h-full w-full object-cover" />
+                                        ) : (
+                                            <div className="absolute inset-0 flex items-center justify-center">
+                                                <Gift className="h-10 w-10 text-violet-400/40 group-hover:scale-110 transition-transform duration-500" />
+                                            </div>
+                                        )}
+                                        {wishlist.eventDate && daysUntil(wishlist.eventDate) >= 0 && (
+                                            <div className="absolute top-2 left-2 px-2 py-0.5 rounded-lg bg-black/30 backdrop-blur-sm text-xs font-medium text-white inline-flex items-center gap-1">
+                                                {wishlist.occasion
+                                                    ? <span>{OCCASION_PRESETS[wishlist.occasion].emoji}</span>
+                                                    : <CalendarDays className="h-3 w-3" />}
+                                                {formatCountdown(wishlist.eventDate)}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div className="px-4 py-3">
+                                        <h3 className="font-semibold text-foreground line-clamp-1">{wishlist.title}</h3>
+                                        {wishlist.description && (
+                                            <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{wishlist.description}</p>
+                                        )}
+                                        <p className="text-xs text-muted-foreground mt-1">{wishlist._count.items} items</p>
+                                    </div>
+                                </Link>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="text-center py-12 bg-card rounded-xl border border-border shadow-sm">
+                            <Gift className="h-8 w-8 text-muted-foreground/30 mx-auto mb-3" />
+                            <p className="text-sm text-muted-foreground">No public wishlists yet</p>
+                        </div>
+                    )
+                )}
+
+                {/* SHRINE TAB */}
+                {activeTab === 'shrine' && (
+                    'privateMessage' in shrine ? (
+                        <PrivateSection message={shrine.privateMessage} />
+                    ) : shrine.items.length > 0 ? (
+                        <ShrineGrid items={shrine.items} userName={profile.name} />
+                    ) : (
+                        <div className="text-center py-12 bg-card rounded-xl border border-border shadow-sm">
+                            <Crown className="h-8 w-8 text-muted-foreground/30 mx-auto mb-3" />
+                            <p className="text-sm text-muted-foreground">Nothing pinned yet</p>
+                        </div>
+                    )
+                )}
+
+                {/* HAUL LOG TAB */}
+                {activeTab === 'hauls' && (
+                    'privateMessage' in hauls ? (
+                        <PrivateSection message={hauls.privateMessage} />
+                    ) : hauls.items.length > 0 ? (
+                        <div className="space-y-3">
+                            {hauls.items.map(haul => (
+                                <HaulCard key={haul.id} haul={haul} />
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="text-center py-12 bg-card rounded-xl border border-border shadow-sm">
+                            <BookOpen className="h-8 w-8 text-muted-foreground/30 mx-auto mb-3" />
+                            <p className="text-sm text-muted-foreground">No hauls yet</p>
+                        </div>
+                    )
+                )}
+
+                {/* WRAPPED TAB */}
+                {activeTab === 'wrapped' && (
+                    <WrappedCard userId={profile.id} currency={user?.displayCurrency} />
+                )}
+            </motion.div>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+// VerifyEmailPage — Confirms an email address from the link in the verification email
+
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+
+/**
+ * VerifyEmailPage — Redeems ?token= once on mount. Works signed in or out;
+ * when signed in, the session's user is marked verified straight away.
+ * Links for an email change carry &change=1 and switch the address instead.
+ */
+export default function VerifyEmailPage() {
+    const [searchParams] = useSearchParams();
+    const { updateUser } = useAuth();
+    const token = searchParams.get('token');
+    const isEmailChange = searchParams.get('change') === '1';
+    const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+    const attemptedRef = useRef(false);
+
+    useEffect(() => {
+        document.title = 'Verify email | Giftly';
+        // Tokens are single-use, so guard against StrictMode's double effect
+        if (!token || attemptedRef.current) return;
+        attemptedRef.current = true;
+
+        axios.post(isEmailChange ? '/api/auth/email/confirm' : '/api/auth/verify-email', { token })
+            .then(res => {
+                updateUser(isEmailChange
+                    ? { email: res.data.email, emailVerifiedAt: res.data.emailVerifiedAt, pendingEmail: null }
+                    : { emailVerifiedAt: res.data.emailVerifiedAt });
+                setStatus('verified');
+            })
+            .catch(() => setStatus('failed'));
+    }, [token, isEmailChange, updateUser]);
+
+    return (
+        <div className="min-h-[calc(100vh-3.5rem)] flex flex-col items-center justify-center gap-4 p-4 text-center">
+            {status === 'verifying' && (
+                <>
+                    <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
+                    <p className="text-muted-foreground">Confirming your email...</p>
+                </>
+            )}
+            {status === 'verified' && (
+                <>
+                    <CheckCircle2 className="h-12 w-12 text-emerald-500" />
+                    <h1 className="text-2xl font-semibold text-foreground">{isEmailChange ? 'Email address updated' : 'Email confirmed'}</h1>
+                    <Link to="/" className="text-primary hover:underline text-sm">Go to your dashboard</Link>
+                </>
+            )}
+            {status === 'failed' && (
+                <>
+                    <XCircle className="h-12 w-12 text-destructive" />
+                    <h1 className="text-2xl font-semibold text-foreground">This link is invalid or has expired</h1>
+                    <p className="text-sm text-muted-foreground">You can request a new one from your profile.</p>
+                    <Link to="/profile" className="text-primary hover:underline text-sm">Go to profile</Link>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,8 +1,8 @@
 // WishlistPage — Premium wishlist view with Owner/Friend modes
 // Features: hero gradient banner, glassmorphic cards, live presence, activity feed, hype, story
 
-import { useEffect, useState, useRef, useCallback } from 'react';
-import { useParams } from 'react-router-dom';
+import { useEffect, useState, useRef, useCallback, type DragEvent } from 'react';
+import { Link, useParams } from 'react-router-dom';
 import axios from 'axios';
 import { useAuth } from '../context/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -14,12 +14,31 @@ import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import {
     Loader2, Plus, Gift, Link as LinkIcon, Copy, Trash2, ShieldCheck,
-    DollarSign, Users, Eye, MessageCircle, Activity, Lock, Coins, Flame
+    DollarSign, Users, Eye, MessageCircle, Activity, Lock, Coins, Flame, Pencil, UserPlus, UserCheck, PackageCheck,
+    GripVertical, Star, LayoutGrid, List, LayoutDashboard, Columns2, Sticker as StickerIcon, CloudOff
 } from 'lucide-react';
 import io, { Socket } from 'socket.io-client';
 import confetti from 'canvas-confetti';
 import { motion, AnimatePresence } from 'framer-motion';
 import BackButton from '@/components/ui/BackButton';
+import OccasionDialog, { type OccasionSettings } from '@/components/features/OccasionDialog';
+import HaulDialog from '@/components/features/HaulDialog';
+import ImageUploadButton from '@/components/features/ImageUploadButton';
+import PriceSparkline, { type PricePoint } from '@/components/features/PriceSparkline';
+import StickerLayer from '@/components/features/StickerLayer';
+import NotesBoard from '@/components/features/NotesBoard';
+import CollaboratorsDialog from '@/components/features/CollaboratorsDialog';
+import type { WishlistRole } from '@/lib/collaborators';
+import { OCCASION_PRESETS, daysUntil, formatCountdown } from '@/lib/occasions';
+import { DEFAULT_CURRENCY, convertAmount, fetchRateTable, formatMoney, type RateTable } from '@/lib/currency';
+import { LAYOUT_LABELS, createSticker, isWishlistLayout, MAX_STICKERS, parseStickers, STICKER_EMOJIS, type Sticker, type WishlistLayout } from '@/lib/decor';
+import { loadSnapshot, saveSnapshot, wishlistSnapshotKey } from '@/lib/offlineStore';
+import { isOfflineError, listOutbox, queueAction, subscribeToOutbox, type OutboxAction } from '@/lib/outbox';
+import {
+    PRIORITY_LABELS, describeReserved, findMyReservation, fundingGoal, unitsLeft,
+    withReservation, withReservationUpdate, withoutReservation,
+    type ItemPriority, type Reservation,
+} from '@/lib/reservations';
 
 // --- Gradient theme presets (matching Dashboard) ---
 const THEME_PRESETS: Record<string, { from: string; to: string }> = {
@@ -37,14 +56,24 @@ interface Item {
     localKey?: string;
     title: string;
     price: number | null;
+    currency: string;
     imageUrl?: string;
     url?: string;
     story?: string;
     collectedAmount: number;
+    priority: ItemPriority;
+    quantity: number;
+    reservedQuantity: number;
+    // True once every unit is reserved
     isReserved: boolean;
-    reservedBy?: string;
+    reservations?: Reservation[];
     hypeCount: number;
+    // Steal provenance: the original owner's profile, or a plain name for older steals
+    stolenFromUser?: { username: string; name: string } | null;
     stolenFrom?: string | null;
+    isFulfilled?: boolean;
+    priceAlertBelow?: number | string | null;
+    priceHistory?: PricePoint[];
     contributions: any[];
 }
 
@@ -54,14 +83,39 @@ interface CreateIntent {
     price?: number | null;
 }
 
+// How each layout arranges the cards and shapes the card itself
+const LAYOUT_STYLES: Record<WishlistLayout, { container: string; cell: string; card: string; media: string }> = {
+    grid: { container: 'grid grid-cols-1 md:grid-cols-2 gap-6', cell: 'h-full', card: 'h-full', media: 'aspect-video' },
+    list: { container: 'flex flex-col gap-4', cell: '', card: 'flex flex-row', media: 'w-32 sm:w-48 shrink-0' },
+    // Images keep their natural height so the columns interlock
+    masonry: { container: 'columns-1 sm:columns-2 lg:columns-3 gap-6', cell: 'mb-6 break-inside-avoid', card: '', media: '' },
+    board: { container: '', cell: '', card: '', media: 'aspect-[2/1]' },
+};
+
+const LAYOUT_ICONS: Record<WishlistLayout, typeof LayoutGrid> = {
+    grid: LayoutGrid,
+    list: List,
+    masonry: LayoutDashboard,
+    board: Columns2,
+};
+
 // Wishlist shape from API
-interface Wishlist {
+interface Wishlist extends OccasionSettings {
     id: string;
     title: string;
     theme?: string;
+    layout?: string;
+    // Free-form JSON from the API; read it through parseStickers
+    stickers?: unknown;
+    notesRequireApproval?: boolean;
     ownerId: string;
+    // Owners and co-owners; they get the spoiler-protected owner view
     isOwner: boolean;
-    owner: { id: string; name: string };
+    role: WishlistRole | null;
+    canEditItems: boolean;
+    canManage: boolean;
+    isRevealed?: boolean;
+    owner: { id: string; name: string; username: string };
     items: Item[];
 }
 
@@ -73,23 +127,30 @@ interface ActivityEvent {
     time: Date;
 }
 
-const getWishlistCacheKey = (wishlistId?: string, userKey?: string) => `giftly:wishlist:${wishlistId || 'unknown'}:${userKey || 'guest'}`;
-
 export default function WishlistPage() {
     const { id } = useParams<{ id: string }>();
-    const { user, token } = useAuth();
+    const { user } = useAuth();
     const [wishlist, setWishlist] = useState<Wishlist | null>(null);
     const [loading, setLoading] = useState(true);
 
-    // Add Item State (owner only)
+    // Add Item State (owners and editors)
     const [addItemOpen, setAddItemOpen] = useState(false);
     const [itemTitle, setItemTitle] = useState('');
     const [itemPrice, setItemPrice] = useState('');
+    const [itemCurrency, setItemCurrency] = useState(user?.displayCurrency || DEFAULT_CURRENCY);
     const [itemUrl, setItemUrl] = useState('');
     const [itemImage, setItemImage] = useState('');
+    // Alternative product photos found by the URL preview
+    const [itemImageOptions, setItemImageOptions] = useState<string[]>([]);
     const [itemStory, setItemStory] = useState('');
+    // Price-drop alert target for tracked (linked) items
+    const [itemPriceAlert, setItemPriceAlert] = useState('');
+    const [itemPriority, setItemPriority] = useState<ItemPriority>('nice_to_have');
+    const [itemQuantity, setItemQuantity] = useState('1');
     const [scraping, setScraping] = useState(false);
     const [submittingItem, setSubmittingItem] = useState(false);
+    // When set, the add-item dialog edits this item instead of creating one
+    const [editingItemId, setEditingItemId] = useState<string | null>(null);
 
     // Guest nickname state
     const [guestNickname, setGuestNickname] = useState('');
@@ -105,6 +166,22 @@ export default function WishlistPage() {
     const [pendingDeleteIds, setPendingDeleteIds] = useState<string[]>([]);
     const [pendingReserveIds, setPendingReserveIds] = useState<string[]>([]);
     const [pendingHypeIds, setPendingHypeIds] = useState<string[]>([]);
+    // How many units a viewer wants to reserve, per multi-quantity item
+    const [reserveQuantities, setReserveQuantities] = useState<Record<string, number>>({});
+    // Owner drag-and-drop ordering
+    const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
+    const orderBeforeDragRef = useRef<Item[] | null>(null);
+    // Owner decoration mode: stickers are edited as a draft and saved together
+    const [decorating, setDecorating] = useState(false);
+    const [draftStickers, setDraftStickers] = useState<Sticker[]>([]);
+    const [savingDecor, setSavingDecor] = useState(false);
+
+    // Follow state for the wishlist owner (logged-in viewers only)
+    const [isFollowingOwner, setIsFollowingOwner] = useState(false);
+    const [followPending, setFollowPending] = useState(false);
+
+    // Exchange rates for converting totals into the viewer's display currency
+    const [rateTable, setRateTable] = useState<RateTable | null>(null);
 
     // Live presence: viewer count
     const [viewerCount, setViewerCount] = useState(1);
@@ -114,18 +191,31 @@ export default function WishlistPage() {
     const [showActivity, setShowActivity] = useState(false);
 
     const socketRef = useRef<Socket | null>(null);
+    // Same connection, as state, for child components that subscribe to their own events
+    const [socket, setSocket] = useState<Socket | null>(null);
     const isFetching = useRef(false);
     const previewRequestCounter = useRef(0);
     const isOwnerRef = useRef(false);
     const createIntentsRef = useRef<Map<string, CreateIntent>>(new Map());
     const hadCachedWishlistRef = useRef(false);
+    const hasFetchedRef = useRef(false);
+    // Items with actions waiting in the offline outbox (queued adds use their temp id)
+    const [queuedItemIds, setQueuedItemIds] = useState<Set<string>>(new Set());
 
-    const wishlistCacheKey = getWishlistCacheKey(id, user?.id || undefined);
+    const wishlistCacheKey = wishlistSnapshotKey(id || 'unknown', user?.id);
 
     useEffect(() => {
         isOwnerRef.current = Boolean(wishlist?.isOwner);
     }, [wishlist?.isOwner]);
 
+    useEffect(() => {
+        fetchRateTable()
+            .then(setRateTable)
+            .catch(() => {
+                // Without rates, totals fall back to per-currency display
+            });
+    }, []);
+
     const getApiErrorMessage = (error: any, fallback: string) => {
         return error?.response?.data?.error?.message
             || error?.response?.data?.error
@@ -157,45 +247,48 @@ export default function WishlistPage() {
         if (isFetching.current) return;
         isFetching.current = true;
         try {
-            const headers = token ? { Authorization: `Bearer ${token}` } : {};
-            const res = await axios.get(`/api/wishlists/${id}`, { headers });
+            const res = await axios.get(`/api/wishlists/${id}`);
+            hasFetchedRef.current = true;
             setWishlist(res.data);
-            sessionStorage.setItem(wishlistCacheKey, JSON.stringify(res.data));
+            saveSnapshot(wishlistCacheKey, res.data);
             if (res.data.title) document.title = `${res.data.title} | Giftly`;
         } catch (error) {
-            if (!hadCachedWishlistRef.current) {
+            // Offline, the banner explains and the saved copy (if any) stays up
+            if (!hadCachedWishlistRef.current && !isOfflineError(error)) {
                 toast.error('Failed to load wishlist');
             }
         } finally {
             setLoading(false);
             isFetching.current = false;
         }
-    }, [id, token, wishlistCacheKey]);
+    }, [id, wishlistCacheKey]);
 
     // Connect to WebSocket and fetch wishlist data
     useEffect(() => {
-        const cached = sessionStorage.getItem(wishlistCacheKey);
-        if (cached) {
-            try {
-                const parsed = JSON.parse(cached) as Wishlist;
-                if (parsed && parsed.id) {
-                    hadCachedWishlistRef.current = true;
-                    setWishlist(parsed);
-                    setLoading(false);
-                }
-            } catch {
-                sessionStorage.removeItem(wishlistCacheKey);
-            }
-        }
+        loadSnapshot<Wishlist>(wishlistCacheKey).then(snapshot => {
+            if (!snapshot?.data?.id || hasFetchedRef.current) return;
+            hadCachedWishlistRef.current = true;
+            setWishlist(snapshot.data);
+            setLoading(false);
+        });
 
         fetchWishlist();
 
         // WebSocket connection for real-time updates + presence
         const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
-        socketRef.current = io(API_URL);
-
-        // Join the wishlist room for presence tracking
-        socketRef.current.emit('join_wishlist', { wishlistId: id });
+        // Send the JWT in the handshake so the server can authorize private lists
+        // and route the spoiler-safe variant of events to the owner
+        socketRef.current = io(API_URL, { withCredentials: true });
+        setSocket(socketRef.current);
+
+        // Join the wishlist room for presence tracking, again after every reconnect
+        // (rooms don't survive one), catching up on whatever was missed meanwhile
+        let connectedBefore = false;
+        socketRef.current.on('connect', () => {
+            socketRef.current?.emit('join_wishlist', { wishlistId: id });
+            if (connectedBefore) fetchWishlist();
+            connectedBefore = true;
+        });
 
         // Listen for viewer count updates
         socketRef.current.on(`viewers:${id}`, (data: { count: number }) => {
@@ -240,7 +333,19 @@ export default function WishlistPage() {
                     addActivity('added', 'A new item was added');
                 }
             }
-            // 2. Handle Item Deleted
+            // 2. Handle Item Updated (owner receives a spoiler-safe copy)
+            else if (data.type === 'ITEM_UPDATED') {
+                setWishlist(prev => {
+                    if (!prev) return prev;
+                    return {
+                        ...prev,
+                        items: prev.items.map(item =>
+                            item.id === data.item.id ? { ...item, ...data.item, contributions: item.contributions } : item
+                        )
+                    };
+                });
+            }
+            // 3. Handle Item Deleted
             else if (data.type === 'ITEM_DELETED') {
                 setWishlist(prev => {
                     if (!prev) return prev;
@@ -249,16 +354,24 @@ export default function WishlistPage() {
                 toast.info('An item was removed');
                 addActivity('deleted', 'An item was removed');
             }
-            // 3. Handle Reservation Changes
+            // Owner reordered the list (also echoes back to the owner's other tabs)
+            else if (data.type === 'ITEMS_REORDERED') {
+                setWishlist(prev => {
+                    if (!prev) return prev;
+                    const rank = new Map<string, number>(data.itemIds.map((itemId: string, index: number) => [itemId, index]));
+                    // Items the event doesn't know about (e.g. still being created) stay on top
+                    const items = [...prev.items].sort((a, b) => (rank.get(a.id) ?? -1) - (rank.get(b.id) ?? -1));
+                    return { ...prev, items };
+                });
+            }
+            // 4. Handle Reservation Changes
             else if (data.type === 'ITEM_RESERVED' || data.type === 'ITEM_UNRESERVED') {
                 setWishlist(prev => {
                     if (!prev) return prev;
                     return {
                         ...prev,
                         items: prev.items.map(item =>
-                            item.id === data.itemId
-                                ? { ...item, isReserved: data.isReserved, reservedBy: data.reservedBy }
-                                : item
+                            item.id === data.itemId ? withReservationUpdate(item, data, user?.email) : item
                         )
                     };
                 });
@@ -274,7 +387,7 @@ export default function WishlistPage() {
                     }
                 }
             }
-            // 4. Handle Contributions (still need refetch for complex math/progress if detailed data isn't sent, 
+            // 5. Handle Contributions (still need refetch for complex math/progress if detailed data isn't sent, 
             //    but for now we can just increment collectedAmount if we trust the delta, 
             //    OR just refetch for this complex case only).
             //    Let's keep it safe and refetch ONLY for money stuff for now, or just notify.
@@ -285,11 +398,10 @@ export default function WishlistPage() {
                         ...prev,
                         items: prev.items.map(item => {
                             if (item.id !== data.itemId) return item;
+                            const funded = Boolean(data.isFullyFunded) && !item.isReserved;
                             return {
-                                ...item,
+                                ...(funded ? withReservation(item, 'Group contribution', unitsLeft(item)) : item),
                                 collectedAmount: data.newCollected ?? item.collectedAmount,
-                                isReserved: Boolean(data.isFullyFunded) ? true : item.isReserved,
-                                reservedBy: Boolean(data.isFullyFunded) ? 'Group contribution' : item.reservedBy,
                             };
                         }),
                     };
@@ -300,6 +412,10 @@ export default function WishlistPage() {
                     confetti({ particleCount: 80, spread: 60, origin: { y: 0.7 } });
                 }
             }
+            // 6. Spoilers were revealed or our role changed — reload what we may now see
+            else if (data.type === 'WISHLIST_ACCESS_CHANGED') {
+                fetchWishlist();
+            }
         });
 
         // Optimized real-time update for hype (direct state patch)
@@ -319,8 +435,77 @@ export default function WishlistPage() {
             // Leave room and disconnect on unmount
             socketRef.current?.emit('leave_wishlist', { wishlistId: id });
             socketRef.current?.disconnect();
+            setSocket(null);
+        };
+    }, [id, user?.email, addActivity, fetchWishlist, wishlistCacheKey]);
+
+    // Track this wishlist's offline-queued actions; once they've all gone out,
+    // reload so the optimistic guesses give way to what the server decided
+    const viewerId = user?.id ?? null;
+    useEffect(() => {
+        if (!id) return;
+        let hadQueued = false;
+        const refresh = () => {
+            listOutbox(viewerId)
+                .then(entries => {
+                    const queued = entries.filter(entry => entry.wishlistId === id);
+                    setQueuedItemIds(new Set(queued.map(({ id: key, action }) => (
+                        action.kind === 'ADD_ITEM' ? `temp-${key}` : action.itemId
+                    ))));
+                    if (hadQueued && queued.length === 0) fetchWishlist();
+                    hadQueued = queued.length > 0;
+                })
+                .catch(() => {
+                    // No offline storage, so nothing can be queued either
+                });
         };
-    }, [id, addActivity, fetchWishlist, wishlistCacheKey]);
+        refresh();
+        return subscribeToOutbox(refresh);
+    }, [id, viewerId, fetchWishlist]);
+
+    // Put an action in the outbox after a request failed for lack of network.
+    // Returns null when it couldn't be queued, so the caller rolls back as usual.
+    const queueOffline = async (action: OutboxAction, label: string) => {
+        if (!id) return null;
+        try {
+            return await queueAction(action, { wishlistId: id, userId: viewerId, label });
+        } catch {
+            return null;
+        }
+    };
+
+    // Load whether the viewer already follows the owner
+    const ownerId = wishlist?.owner?.id;
+    const viewerIsOwner = Boolean(wishlist?.isOwner);
+    useEffect(() => {
+        if (!user || !ownerId || viewerIsOwner) return;
+        axios.get(`/api/social/follow/${ownerId}`)
+            .then(res => setIsFollowingOwner(res.data.isFollowing))
+            .catch(() => {
+                // Follow button just defaults to "Follow"
+            });
+    }, [user, ownerId, viewerIsOwner]);
+
+    // Follow / unfollow the wishlist owner (Optimistic UI)
+    const toggleFollowOwner = async () => {
+        if (!ownerId || followPending) return;
+        const next = !isFollowingOwner;
+        setFollowPending(true);
+        setIsFollowingOwner(next);
+        try {
+            if (next) {
+                await axios.post(`/api/social/follow/${ownerId}`, {});
+                toast.success(`Following ${wishlist?.owner?.name || 'this user'}`);
+            } else {
+                await axios.delete(`/api/social/follow/${ownerId}`);
+            }
+        } catch (error) {
+            setIsFollowingOwner(!next);
+            toast.error(getApiErrorMessage(error, 'Failed to update follow'));
+        } finally {
+            setFollowPending(false);
+        }
+    };
 
     // Auto-fill item details from URL (scraping)
     const handleUrlPaste = async (val: string) => {
@@ -330,15 +515,15 @@ export default function WishlistPage() {
             setScraping(true);
             try {
                 // Use preview endpoint which handles scraping
-                const res = await axios.post('/api/items/preview', { url: val }, {
-                    headers: token ? { Authorization: `Bearer ${token}` } : {}
-                });
+                const res = await axios.post('/api/items/preview', { url: val });
                 if (requestId !== previewRequestCounter.current) {
                     return;
                 }
                 if (res.data.title) setItemTitle(res.data.title);
                 if (res.data.price) setItemPrice(String(res.data.price));
+                if (res.data.currency) setItemCurrency(res.data.currency);
                 if (res.data.image) setItemImage(res.data.image);
+                setItemImageOptions(Array.isArray(res.data.images) ? res.data.images : []);
             } catch {
                 // Scraping failed — user fills manually
             } finally {
@@ -362,9 +547,13 @@ export default function WishlistPage() {
             wishlistId: id,
             title: itemTitle.trim(),
             price: itemPrice ? Number(itemPrice) : undefined,
+            currency: itemCurrency,
             url: itemUrl || undefined,
             imageUrl: itemImage || undefined,
             story: itemStory || undefined,
+            priceAlertBelow: itemUrl && itemPriceAlert ? Number(itemPriceAlert) : undefined,
+            priority: itemPriority,
+            quantity: Math.max(1, Math.floor(Number(itemQuantity) || 1)),
         };
 
         // 1. Create temporary optimistic item
@@ -374,10 +563,14 @@ export default function WishlistPage() {
             localKey: tempId,
             title: payload.title,
             price: payload.price ?? null,
+            currency: payload.currency,
             url: payload.url,
             imageUrl: payload.imageUrl,
             story: payload.story,
             collectedAmount: 0,
+            priority: payload.priority,
+            quantity: payload.quantity,
+            reservedQuantity: 0,
             isReserved: false,
             hypeCount: 0,
             contributions: []
@@ -396,9 +589,7 @@ export default function WishlistPage() {
         setSubmittingItem(true);
 
         try {
-            const res = await axios.post('/api/items', payload, {
-                headers: { Authorization: `Bearer ${token}` }
-            });
+            const res = await axios.post('/api/items', payload);
 
             setWishlist(prev => {
                 if (!prev) return null;
@@ -420,7 +611,21 @@ export default function WishlistPage() {
                 };
             });
             toast.success('Item added!');
-        } catch {
+        } catch (error) {
+            const queued = isOfflineError(error) && await queueOffline({ kind: 'ADD_ITEM', body: payload }, payload.title);
+            if (queued) {
+                // Re-key the placeholder to its outbox entry so it shows as waiting to sync
+                const queuedId = `temp-${queued.id}`;
+                const intent = createIntentsRef.current.get(tempId);
+                createIntentsRef.current.delete(tempId);
+                if (intent) createIntentsRef.current.set(queuedId, intent);
+                setWishlist(prev => prev ? {
+                    ...prev,
+                    items: prev.items.map(item => item.id === tempId ? { ...item, id: queuedId } : item),
+                } : prev);
+                toast.info("You're offline. The item will be added when you reconnect.");
+                return;
+            }
             setWishlist(prev => {
                 if (!prev) return null;
                 return {
@@ -439,12 +644,88 @@ export default function WishlistPage() {
     const resetAddItemForm = () => {
         setItemTitle('');
         setItemPrice('');
+        setItemCurrency(user?.displayCurrency || DEFAULT_CURRENCY);
         setItemUrl('');
         setItemImage('');
+        setItemImageOptions([]);
         setItemStory('');
+        setItemPriceAlert('');
+        setItemPriority('nice_to_have');
+        setItemQuantity('1');
+        setEditingItemId(null);
+    };
+
+    // Open the add-item dialog pre-filled with an existing item (owners and editors)
+    const openEditDialog = (item: Item) => {
+        previewRequestCounter.current++; // Drop any in-flight preview for the previous form
+        setScraping(false);
+        setItemTitle(item.title);
+        setItemPrice(item.price ? String(item.price) : '');
+        setItemCurrency(item.currency || DEFAULT_CURRENCY);
+        setItemUrl(item.url || '');
+        setItemImage(item.imageUrl || '');
+        setItemImageOptions([]);
+        setItemStory(item.story || '');
+        setItemPriceAlert(item.priceAlertBelow ? String(Number(item.priceAlertBelow)) : '');
+        setItemPriority(item.priority || 'nice_to_have');
+        setItemQuantity(String(item.quantity || 1));
+        setEditingItemId(item.id);
+        setAddItemOpen(true);
+    };
+
+    // Save edits to an existing item (Optimistic UI)
+    const updateItem = async () => {
+        if (submittingItem || !editingItemId) return;
+        if (!itemTitle.trim()) {
+            toast.error('Item title is required');
+            return;
+        }
+
+        const itemId = editingItemId;
+        const previousItem = wishlist?.items.find(item => item.id === itemId);
+        if (!previousItem) return;
+
+        // Empty fields are sent as null so the owner can clear them
+        const payload = {
+            title: itemTitle.trim(),
+            price: itemPrice ? Number(itemPrice) : null,
+            currency: itemCurrency,
+            url: itemUrl || null,
+            imageUrl: itemImage || null,
+            story: itemStory || null,
+            priceAlertBelow: itemUrl && itemPriceAlert ? Number(itemPriceAlert) : null,
+            priority: itemPriority,
+            quantity: Math.max(1, Math.floor(Number(itemQuantity) || 1)),
+        };
+
+        setAddItemOpen(false);
+        resetAddItemForm();
+        updateItemInState(itemId, item => ({
+            ...item,
+            title: payload.title,
+            price: payload.price,
+            currency: payload.currency,
+            url: payload.url ?? undefined,
+            imageUrl: payload.imageUrl ?? undefined,
+            story: payload.story ?? undefined,
+            priceAlertBelow: payload.priceAlertBelow,
+            priority: payload.priority,
+            quantity: payload.quantity,
+        }));
+        setSubmittingItem(true);
+
+        try {
+            await axios.put(`/api/items/${itemId}`, payload);
+            toast.success('Item updated!');
+        } catch (error) {
+            updateItemInState(itemId, () => previousItem);
+            toast.error(getApiErrorMessage(error, 'Failed to update item'));
+        } finally {
+            setSubmittingItem(false);
+        }
     };
 
-    // Delete item (owner only)
+    // Delete item (owners and editors)
     // Delete item (Optimistic UI)
     const deleteItem = async (itemId: string) => {
         if (pendingDeleteIds.includes(itemId)) return;
@@ -466,9 +747,7 @@ export default function WishlistPage() {
 
         try {
             // 3. Sync with server
-            await axios.delete(`/api/items/${itemId}`, {
-                headers: { Authorization: `Bearer ${token}` }
-            });
+            await axios.delete(`/api/items/${itemId}`);
             // No need to fetchWishlist, local state is already correct
         } catch {
             // 4. Revert on failure
@@ -493,6 +772,86 @@ export default function WishlistPage() {
         }
     };
 
+    // Drag-and-drop ordering (owners and editors): reorder locally while dragging, save once on drop
+    const startItemDrag = (e: DragEvent, itemId: string) => {
+        if (!canEditItems || itemId.startsWith('temp-')) return;
+        e.dataTransfer.effectAllowed = 'move';
+        orderBeforeDragRef.current = wishlist?.items ?? null;
+        setDraggedItemId(itemId);
+    };
+
+    const dragItemOver = (e: DragEvent, overItemId: string) => {
+        if (!draggedItemId) return;
+        e.preventDefault();
+        if (overItemId === draggedItemId) return;
+        setWishlist(prev => {
+            if (!prev) return prev;
+            const from = prev.items.findIndex(i => i.id === draggedItemId);
+            const to = prev.items.findIndex(i => i.id === overItemId);
+            if (from < 0 || to < 0) return prev;
+            const items = [...prev.items];
+            const [moved] = items.splice(from, 1);
+            items.splice(to, 0, moved);
+            return { ...prev, items };
+        });
+    };
+
+    const finishItemDrag = async () => {
+        const previousItems = orderBeforeDragRef.current;
+        orderBeforeDragRef.current = null;
+        setDraggedItemId(null);
+        if (!id || !wishlist || !previousItems) return;
+
+        const itemIds = wishlist.items.filter(i => !i.id.startsWith('temp-')).map(i => i.id);
+        if (itemIds.join() === previousItems.filter(i => !i.id.startsWith('temp-')).map(i => i.id).join()) return;
+
+        try {
+            await axios.put(`/api/wishlists/${id}/items/order`, { itemIds });
+        } catch (error) {
+            setWishlist(prev => prev && { ...prev, items: previousItems });
+            toast.error(getApiErrorMessage(error, 'Failed to save the new order'));
+            // The list may have changed under us (ITEM_ORDER_STALE); reload the real order
+            void fetchWishlist();
+        }
+    };
+
+    // Persist layout / sticker changes; the update endpoint always expects the title
+    const saveAppearance = async (patch: { layout?: WishlistLayout; stickers?: Sticker[] }) => {
+        if (!wishlist) return;
+        await axios.put(`/api/wishlists/${wishlist.id}`, { title: wishlist.title, ...patch });
+    };
+
+    const changeLayout = async (layout: WishlistLayout) => {
+        const previousLayout = wishlist?.layout;
+        setWishlist(prev => prev && { ...prev, layout });
+        try {
+            await saveAppearance({ layout });
+        } catch (error) {
+            setWishlist(prev => prev && { ...prev, layout: previousLayout });
+            toast.error(getApiErrorMessage(error, 'Failed to change layout'));
+        }
+    };
+
+    const startDecorating = () => {
+        setDraftStickers(parseStickers(wishlist?.stickers));
+        setDecorating(true);
+    };
+
+    const saveStickers = async () => {
+        if (savingDecor) return;
+        setSavingDecor(true);
+        try {
+            await saveAppearance({ stickers: draftStickers });
+            setWishlist(prev => prev && { ...prev, stickers: draftStickers });
+            setDecorating(false);
+            toast.success('Stickers saved');
+        } catch (error) {
+            toast.error(getApiErrorMessage(error, 'Failed to save stickers'));
+        } finally {
+            setSavingDecor(false);
+        }
+    };
+
     // Check if guest needs nickname before performing action
     const ensureIdentity = (action: { type: 'reserve' | 'contribute' | 'hype'; itemId: string }) => {
         if (user || guestNickname) {
@@ -527,22 +886,27 @@ export default function WishlistPage() {
         const reserverIdentifier = user?.email || guestNickname;
         const previousItem = wishlist?.items.find(item => item.id === itemId);
         if (!previousItem) return;
+        const quantity = Math.min(reserveQuantities[itemId] ?? 1, unitsLeft(previousItem)) || 1;
 
         setPendingReserveIds(prev => [...prev, itemId]);
-        updateItemInState(itemId, item => ({
-            ...item,
-            isReserved: true,
-            reservedBy: reserverIdentifier,
-        }));
+        updateItemInState(itemId, item => withReservation(item, reserverIdentifier, quantity));
 
         try {
-            const headers = token ? { Authorization: `Bearer ${token}` } : {};
             await axios.post(`/api/items/${itemId}/reserve`, {
-                nickname: guestNickname || undefined
-            }, { headers });
+                nickname: guestNickname || undefined,
+                quantity,
+            });
             toast.success('You reserved this gift! Remember to buy it!');
             confetti({ particleCount: 60, spread: 50, origin: { y: 0.6 } });
         } catch (error: any) {
+            if (isOfflineError(error) && await queueOffline({
+                kind: 'RESERVE',
+                itemId,
+                body: { nickname: guestNickname || undefined, quantity },
+            }, previousItem.title)) {
+                toast.info("You're offline. Your reservation will be sent when you reconnect.");
+                return;
+            }
             updateItemInState(itemId, () => previousItem);
             toast.error(getApiErrorMessage(error, 'Failed to reserve'));
         } finally {
@@ -558,17 +922,12 @@ export default function WishlistPage() {
         if (!previousItem) return;
 
         setPendingReserveIds(prev => [...prev, itemId]);
-        updateItemInState(itemId, item => ({
-            ...item,
-            isReserved: false,
-            reservedBy: undefined,
-        }));
+        updateItemInState(itemId, item => withoutReservation(item, user?.email || guestNickname));
 
         try {
-            const headers = token ? { Authorization: `Bearer ${token}` } : {};
             await axios.post(`/api/items/${itemId}/unreserve`, {
                 nickname: guestNickname || undefined
-            }, { headers });
+            });
             toast.success('Reservation cancelled');
         } catch (error: any) {
             updateItemInState(itemId, () => previousItem);
@@ -589,12 +948,17 @@ export default function WishlistPage() {
 
         try {
             updateItemInState(itemId, item => ({ ...item, hypeCount: item.hypeCount + 1 }));
-
-            const headers = token ? { Authorization: `Bearer ${token}` } : {};
             await axios.post(`/api/items/${itemId}/hype`, {
                 nickname: guestNickname || undefined
-            }, { headers });
-        } catch {
+            });
+        } catch (error) {
+            if (isOfflineError(error) && await queueOffline({
+                kind: 'HYPE',
+                itemId,
+                body: { nickname: guestNickname || undefined },
+            }, previousItem.title)) {
+                return;
+            }
             updateItemInState(itemId, () => previousItem);
         } finally {
             setPendingHypeIds(prev => prev.filter(id => id !== itemId));
@@ -626,24 +990,21 @@ export default function WishlistPage() {
 
         const previousItem = { ...targetItem };
         const nextCollectedAmount = Number(targetItem.collectedAmount) + parsedAmount;
-        const nextIsReserved = targetItem.price ? nextCollectedAmount >= Number(targetItem.price) : targetItem.isReserved;
+        const funded = Boolean(targetItem.price) && nextCollectedAmount >= fundingGoal(targetItem);
 
         setContributeLoading(true);
         updateItemInState(contributeItemId, item => ({
-            ...item,
+            ...(funded ? withReservation(item, 'Group contribution', unitsLeft(item)) : item),
             collectedAmount: nextCollectedAmount,
-            isReserved: nextIsReserved,
-            reservedBy: nextIsReserved ? 'Group contribution' : item.reservedBy,
         }));
 
         try {
-            const headers = token ? { Authorization: `Bearer ${token}` } : {};
             await axios.post('/api/contributions', {
                 itemId: contributeItemId,
                 amount: parsedAmount,
                 message: contributeMessage || undefined,
                 nickname: guestNickname || undefined,
-            }, { headers });
+            });
             toast.success('Contribution added!');
             confetti({ particleCount: 100, spread: 70, origin: { y: 0.6 } });
             setContributeOpen(false);
@@ -698,10 +1059,257 @@ export default function WishlistPage() {
     );
 
     const isOwner = wishlist.isOwner;
+    const canEditItems = wishlist.canEditItems;
+    // Owners only see reservations once the occasion has passed and been revealed
+    const canSeeReservations = !isOwner || Boolean(wishlist.isRevealed);
     const contributeItem = wishlist.items.find(i => i.id === contributeItemId);
     const reservedCount = wishlist.items.filter(i => i.isReserved).length;
-    const totalCollected = wishlist.items.reduce((s, i) => s + Number(i.collectedAmount), 0);
+    // Contributions are made in each item's own currency; total them in the viewer's
+    const displayCurrency = user?.displayCurrency || DEFAULT_CURRENCY;
+    const totalCollected = wishlist.items.reduce((s, i) => (
+        s + (convertAmount(Number(i.collectedAmount), i.currency || DEFAULT_CURRENCY, displayCurrency, rateTable) ?? 0)
+    ), 0);
     const themePreset = THEME_PRESETS[wishlist.theme || 'violet-pink'] || THEME_PRESETS['violet-pink'];
+    const layout: WishlistLayout = isWishlistLayout(wishlist.layout) ? wishlist.layout : 'grid';
+    const layoutStyle = LAYOUT_STYLES[layout];
+
+    // One item card; the layout decides how cards are arranged and shaped
+    const renderItemCard = (item: Item) => (
+        <motion.div
+            key={item.localKey || item.id}
+            id={`item-${item.id}`}
+            layout
+            initial={{ opacity: 0, y: 12, scale: 0.98 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.98 }}
+            transition={{ type: 'spring', stiffness: 300, damping: 26, mass: 0.7 }}
+            className={layoutStyle.cell}
+        >
+            {/* Native drag-and-drop on a plain wrapper; motion.div's own drag props would clash */}
+            <div
+                className={`h-full ${draggedItemId === item.id ? 'opacity-50' : ''}`}
+                draggable={canEditItems && !item.id.startsWith('temp-')}
+                onDragStart={(e) => startItemDrag(e, item.id)}
+                onDragOver={(e) => dragItemOver(e, item.id)}
+                onDrop={(e) => e.preventDefault()}
+                onDragEnd={finishItemDrag}
+            >
+            <Card className={`overflow-hidden group relative ${layoutStyle.card} bg-card border-border shadow-sm hover:shadow-md transition-all ${item.isReserved && canSeeReservations ? 'opacity-75' : ''}`}>
+                <div className={`${layoutStyle.media} relative bg-muted/50 overflow-hidden`}>
+                    {item.imageUrl ? (
+                        <img src={item.imageUrl} alt={item.title} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105" />
+                    ) : (
+                        <div className="w-full h-full min-h-32 flex items-center justify-center bg-muted">
+                            <Gift size={48} className="text-muted-foreground" />
+                        </div>
+                    )}
+                    {item.price && (
+                        <div className="absolute top-2 right-2 bg-background/80 backdrop-blur-sm px-2 py-1 rounded-md text-xs font-bold border border-border text-foreground shadow-sm">
+                            {formatMoney(Number(item.price), item.currency)}
+                            {item.quantity > 1 && <span className="font-normal text-muted-foreground"> × {item.quantity}</span>}
+                        </div>
+                    )}
+                    {queuedItemIds.has(item.id) && (
+                        <div className="absolute bottom-2 left-2 bg-background/90 backdrop-blur-sm px-2 py-1 rounded-md text-[10px] font-medium border border-border text-muted-foreground shadow-sm flex items-center gap-1">
+                            <CloudOff className="h-3 w-3" /> Waiting to sync
+                        </div>
+                    )}
+                    {item.priority === 'must_have' && (
+                        <div className="absolute top-2 left-2 bg-amber-500/90 text-white px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider shadow-sm flex items-center gap-1">
+                            <Star className="h-3 w-3 fill-current" /> {PRIORITY_LABELS.must_have}
+                        </div>
+                    )}
+                    {canEditItems && !item.id.startsWith('temp-') && wishlist.items.length > 1 && (
+                        <div className="absolute bottom-2 right-2 bg-background/80 backdrop-blur-sm p-1 rounded-md border border-border text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity cursor-grab" title="Drag to reorder">
+                            <GripVertical className="h-4 w-4" />
+                        </div>
+                    )}
+                    {item.isReserved && canSeeReservations && (
+                        <div className="absolute inset-0 bg-background/60 backdrop-blur-[2px] flex flex-col items-center justify-center p-4 z-20">
+                            <div className="bg-background text-foreground px-4 py-2 rounded-lg font-bold text-xs uppercase tracking-widest shadow-md border border-border flex items-center gap-2 mb-2">
+                                <Lock size={12} /> Reserved
+                            </div>
+                            {isOwner ? (
+                                <span className="text-muted-foreground text-[10px]">
+                                    From {item.reservations?.map(reservation => reservation.reservedBy).join(', ') || 'a friend'}
+                                </span>
+                            ) : findMyReservation(item, user?.email || guestNickname) ? (
+                                <button
+                                    onClick={() => unreserveItem(item.id)}
+                                    disabled={pendingReserveIds.includes(item.id)}
+                                    className="text-[10px] text-muted-foreground hover:text-foreground underline underline-offset-2 transition-colors disabled:opacity-60 disabled:no-underline"
+                                >
+                                    {pendingReserveIds.includes(item.id) ? 'Cancelling...' : 'Cancel my reservation'}
+                                </button>
+                            ) : (
+                                <span className="text-muted-foreground text-[10px]">Someone is getting this!</span>
+                            )}
+                        </div>
+                    )}
+                </div>
+                <CardContent className="p-4 space-y-3 flex-1 min-w-0">
+                    <div className="flex items-start justify-between">
+                        <h3 className="font-semibold text-lg text-foreground line-clamp-2">
+                            {item.url ? (
+                                <a href={item.url} target="_blank" rel="noopener noreferrer" className="hover:text-primary transition-colors inline-flex items-center gap-1">
+                                    {item.title} <LinkIcon size={12} className="text-muted-foreground shrink-0" />
+                                </a>
+                            ) : item.title}
+                        </h3>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => ensureIdentity({ type: 'hype', itemId: item.id })}
+                            disabled={pendingHypeIds.includes(item.id)}
+                            className="h-8 px-2 text-amber-500 hover:text-amber-600 hover:bg-amber-500/10 gap-1 transition-colors"
+                        >
+                            {pendingHypeIds.includes(item.id)
+                                ? <Loader2 className="h-4 w-4 animate-spin" />
+                                : <Flame className={`h-4 w-4 ${item.hypeCount > 0 ? 'fill-current' : ''}`} />}
+                            <span className="text-xs font-bold">{item.hypeCount || 0}</span>
+                        </Button>
+                    </div>
+                    {item.priceHistory && (
+                        <PriceSparkline points={item.priceHistory} currency={item.currency} />
+                    )}
+                    {canSeeReservations && item.price && !item.isReserved && (
+                        <div className="space-y-1.5">
+                            <div className="flex justify-between text-xs text-gray-400">
+                                <span>{formatMoney(Number(item.collectedAmount), item.currency)} collected</span>
+                                <span>{formatMoney(fundingGoal(item), item.currency)} goal</span>
+                            </div>
+                            <Progress value={(Number(item.collectedAmount) / fundingGoal(item)) * 100} className="h-2" />
+                        </div>
+                    )}
+                    {isOwner && wishlist.isRevealed && item.contributions.length > 0 && (
+                        <div className="text-xs text-muted-foreground space-y-0.5">
+                            {item.contributions.map(c => (
+                                <p key={c.id}>
+                                    <span className="text-foreground font-medium">{c.contributorName || 'Anonymous'}</span> chipped in {formatMoney(Number(c.amount), item.currency)}
+                                    {c.message && <span className="italic"> &ldquo;{c.message}&rdquo;</span>}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                    {(item.stolenFromUser || item.stolenFrom) && (
+                        <p className="text-xs text-muted-foreground">
+                            Stolen from{' '}
+                            {item.stolenFromUser ? (
+                                <Link to={`/u/${item.stolenFromUser.username}`} className="text-foreground font-medium hover:underline underline-offset-2">
+                                    @{item.stolenFromUser.username}
+                                </Link>
+                            ) : (
+                                <span className="text-foreground font-medium">{item.stolenFrom}</span>
+                            )}
+                        </p>
+                    )}
+                    {item.story && (
+                        <div className="bg-muted/30 p-4 rounded-xl border border-border/40">
+                            <p className="text-sm text-muted-foreground font-serif italic leading-relaxed">
+                                &ldquo;{item.story}&rdquo;
+                            </p>
+                        </div>
+                    )}
+                    {canSeeReservations && !item.isReserved && describeReserved(item) && (
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>{describeReserved(item)}</span>
+                            {!isOwner && findMyReservation(item, user?.email || guestNickname) && (
+                                <button
+                                    onClick={() => unreserveItem(item.id)}
+                                    disabled={pendingReserveIds.includes(item.id)}
+                                    className="hover:text-foreground underline underline-offset-2 transition-colors disabled:opacity-60 disabled:no-underline"
+                                >
+                                    You reserved {findMyReservation(item, user?.email || guestNickname)?.quantity} · cancel
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    <div className="flex gap-2 pt-1">
+                        {!isOwner && !item.isReserved && (
+                            <>
+                                {unitsLeft(item) > 1 && (
+                                    <select
+                                        value={Math.min(reserveQuantities[item.id] ?? 1, unitsLeft(item))}
+                                        onChange={(e) => setReserveQuantities(prev => ({ ...prev, [item.id]: Number(e.target.value) }))}
+                                        disabled={pendingReserveIds.includes(item.id)}
+                                        className="h-8 rounded-md border border-input bg-background px-2 text-xs text-foreground"
+                                        aria-label="How many to reserve"
+                                    >
+                                        {Array.from({ length: unitsLeft(item) }, (_, index) => index + 1).map(count => (
+                                            <option key={count} value={count}>{count}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <Button
+                                    size="sm"
+                                    onClick={() => ensureIdentity({ type: 'reserve', itemId: item.id })}
+                                    disabled={pendingReserveIds.includes(item.id)}
+                                    className="flex-1 bg-violet-600 hover:bg-violet-500 active:scale-95 transition-all"
+                                >
+                                    {pendingReserveIds.includes(item.id)
+                                        ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                        : <ShieldCheck className="h-3 w-3 mr-1" />}
+                                    {pendingReserveIds.includes(item.id) ? 'Reserving...' : 'Reserve'}
+                                </Button>
+                                {item.price && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        disabled={contributeLoading && contributeItemId === item.id}
+                                        onClick={() => ensureIdentity({ type: 'contribute', itemId: item.id })}
+                                        className="flex-1 border-border text-muted-foreground hover:text-foreground active:scale-95 transition-all"
+                                    >
+                                        <DollarSign className="h-3 w-3 mr-1" /> Chip In
+                                    </Button>
+                                )}
+                            </>
+                        )}
+                        {isOwner && (item.isFulfilled ? (
+                            <span className="inline-flex items-center text-xs text-emerald-500 px-2">
+                                <PackageCheck className="h-3 w-3 mr-1" /> Received
+                            </span>
+                        ) : (
+                            <HaulDialog
+                                itemId={item.id}
+                                itemTitle={item.title}
+                                disabled={item.id.startsWith('temp-') || pendingDeleteIds.includes(item.id)}
+                                onLogged={() => setWishlist(prev => prev && {
+                                    ...prev,
+                                    items: prev.items.map(i => i.id === item.id ? { ...i, isFulfilled: true } : i),
+                                })}
+                            />
+                        ))}
+                        {canEditItems && (
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={item.id.startsWith('temp-') || pendingDeleteIds.includes(item.id)}
+                                onClick={() => openEditDialog(item)}
+                                className="text-gray-500 hover:text-foreground hover:bg-muted ml-auto transition-all"
+                            >
+                                <Pencil className="h-3 w-3 mr-1" /> Edit
+                            </Button>
+                        )}
+                        {canEditItems && (
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={pendingDeleteIds.includes(item.id)}
+                                onClick={() => deleteItem(item.id)}
+                                className="text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-all"
+                            >
+                                {pendingDeleteIds.includes(item.id)
+                                    ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                    : <Trash2 className="h-3 w-3 mr-1" />}
+                                {pendingDeleteIds.includes(item.id) ? 'Removing...' : 'Remove'}
+                            </Button>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+            </div>
+        </motion.div>
+    );
 
     return (
         <div className="min-h-[calc(100vh-3.5rem)] pb-12">
@@ -712,6 +1320,11 @@ export default function WishlistPage() {
                         background: `radial-gradient(80% 60% at 20% 20%, ${themePreset.from} 0%, transparent 60%), radial-gradient(70% 60% at 80% 80%, ${themePreset.to} 0%, transparent 65%)`,
                     }}
                 />
+                <StickerLayer
+                    stickers={decorating ? draftStickers : parseStickers(wishlist.stickers)}
+                    editing={decorating}
+                    onChange={setDraftStickers}
+                />
 
                 <div className="relative max-w-4xl mx-auto">
                     <div className="absolute top-0 left-0">
@@ -726,10 +1339,19 @@ export default function WishlistPage() {
                     <div className="flex items-center justify-center gap-4 text-muted-foreground">
                         <div className="h-px w-8 bg-border" />
                         <p className="text-sm font-medium tracking-wide">
-                            {isOwner ? 'Private Archive' : `By ${wishlist.owner?.name || 'an entity'}`}
+                            {isOwner ? 'Private Archive' : wishlist.owner ? (
+                                <>By <Link to={`/u/${wishlist.owner.username}`} className="hover:text-foreground underline-offset-4 hover:underline">{wishlist.owner.name}</Link></>
+                            ) : 'By an entity'}
                         </p>
                         <div className="h-px w-8 bg-border" />
                     </div>
+                    {wishlist.eventDate && (
+                        <p className="mt-4 text-xs font-semibold uppercase tracking-widest text-primary">
+                            {wishlist.occasion ? `${OCCASION_PRESETS[wishlist.occasion].emoji} ${OCCASION_PRESETS[wishlist.occasion].label} · ` : ''}
+                            {new Date(wishlist.eventDate).toLocaleDateString([], { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}
+                            {daysUntil(wishlist.eventDate) >= 0 && ` · ${formatCountdown(wishlist.eventDate)}`}
+                        </p>
+                    )}
                 </div>
             </div>
 
@@ -739,13 +1361,69 @@ export default function WishlistPage() {
                         <Copy className="h-3.5 w-3.5 mr-1.5" /> Share
                     </Button>
 
+                    {wishlist.role && (
+                        <CollaboratorsDialog
+                            wishlistId={wishlist.id}
+                            wishlistTitle={wishlist.title}
+                            canManage={wishlist.canManage}
+                        />
+                    )}
+
                     {isOwner && (
                         <div className="bg-background/80 backdrop-blur-sm border border-border inline-flex items-center gap-1.5 px-3 h-9 rounded-lg text-xs text-primary shadow-sm font-medium">
-                            <ShieldCheck className="h-3.5 w-3.5 text-primary" />
-                            Spoiler protection active
+                            {wishlist.isRevealed
+                                ? <><Gift className="h-3.5 w-3.5 text-primary" /> Gifts revealed</>
+                                : <><ShieldCheck className="h-3.5 w-3.5 text-primary" /> Spoiler protection active</>}
                         </div>
                     )}
 
+                    {isOwner && (
+                        <OccasionDialog
+                            wishlistId={wishlist.id}
+                            title={wishlist.title}
+                            settings={wishlist}
+                            onSaved={(settings) => {
+                                setWishlist(prev => prev ? { ...prev, ...settings } : prev);
+                                // Reveal state is computed server-side, so refresh items
+                                fetchWishlist();
+                            }}
+                        />
+                    )}
+
+                    {isOwner && (
+                        <div className="bg-background/80 backdrop-blur-sm border border-border inline-flex items-center gap-0.5 p-0.5 h-9 rounded-lg shadow-sm" role="radiogroup" aria-label="Layout">
+                            {(Object.keys(LAYOUT_LABELS) as WishlistLayout[]).map(option => {
+                                const Icon = LAYOUT_ICONS[option];
+                                return (
+                                    <button
+                                        key={option}
+                                        role="radio"
+                                        aria-checked={layout === option}
+                                        title={LAYOUT_LABELS[option]}
+                                        onClick={() => layout !== option && changeLayout(option)}
+                                        className={`h-full px-2 rounded-md transition-colors cursor-pointer ${layout === option ? 'bg-primary/10 text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+                                    >
+                                        <Icon className="h-3.5 w-3.5" />
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {isOwner && !decorating && (
+                        <Button onClick={startDecorating} variant="outline" size="sm" className="bg-background/80 backdrop-blur-sm border-border h-9 text-muted-foreground hover:text-foreground active:scale-95 transition-all shadow-sm">
+                            <StickerIcon className="h-3.5 w-3.5 mr-1.5" /> Decorate
+                        </Button>
+                    )}
+
+                    {user && !isOwner && (
+                        <Button onClick={toggleFollowOwner} disabled={followPending} variant="outline" size="sm" className="bg-background/80 backdrop-blur-sm border-border h-9 text-muted-foreground hover:text-foreground active:scale-95 transition-all shadow-sm">
+                            {isFollowingOwner
+                                ? <><UserCheck className="h-3.5 w-3.5 mr-1.5" /> Following</>
+                                : <><UserPlus className="h-3.5 w-3.5 mr-1.5" /> Follow {wishlist.owner?.name?.split(' ')[0] || 'owner'}</>}
+                        </Button>
+                    )}
+
                     {!user && guestNickname && (
                         <div className="bg-background/80 backdrop-blur-sm border border-border inline-flex items-center gap-1.5 px-3 h-9 rounded-lg text-xs text-muted-foreground shadow-sm font-medium">
                             <Users className="h-3.5 w-3.5" />
@@ -771,13 +1449,42 @@ export default function WishlistPage() {
                     )}
                 </div>
 
-                {!isOwner && wishlist.items.length > 0 && (
+                {decorating && (
+                    <div className="mb-8 rounded-xl border border-border bg-card p-4 shadow-sm space-y-3">
+                        <div className="flex items-center justify-between gap-2">
+                            <p className="text-sm text-muted-foreground">
+                                Tap a sticker to add it, then drag it around the banner. {draftStickers.length}/{MAX_STICKERS}
+                            </p>
+                            <div className="flex gap-2 shrink-0">
+                                <Button size="sm" variant="ghost" onClick={() => setDecorating(false)} disabled={savingDecor}>Cancel</Button>
+                                <Button size="sm" onClick={saveStickers} disabled={savingDecor}>
+                                    {savingDecor ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Save'}
+                                </Button>
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                            {STICKER_EMOJIS.map(emoji => (
+                                <button
+                                    key={emoji}
+                                    type="button"
+                                    disabled={draftStickers.length >= MAX_STICKERS}
+                                    onClick={() => setDraftStickers(prev => [...prev, createSticker(emoji)])}
+                                    className="h-10 w-10 rounded-lg text-2xl hover:bg-muted transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    {emoji}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {canSeeReservations && wishlist.items.length > 0 && (
                     <div className="flex justify-center gap-6 mb-6 text-sm text-gray-400">
                         <span>{wishlist.items.length} items</span>
                         <span className="text-gray-700">•</span>
                         <span>{reservedCount} reserved</span>
                         <span className="text-gray-700">•</span>
-                        <span>${totalCollected.toFixed(0)} collected</span>
+                        <span>{formatMoney(Math.round(totalCollected), displayCurrency)} collected</span>
                     </div>
                 )}
 
@@ -805,7 +1512,7 @@ export default function WishlistPage() {
                     )}
                 </AnimatePresence>
 
-                {isOwner && (
+                {canEditItems && (
                     <div className="mb-8 text-center">
                         <Dialog open={addItemOpen} onOpenChange={(o) => { setAddItemOpen(o); if (!o) resetAddItemForm(); }}>
                             <DialogTrigger asChild>
@@ -815,7 +1522,7 @@ export default function WishlistPage() {
                             </DialogTrigger>
                             <DialogContent className="bg-popover border-border">
                                 <DialogHeader>
-                                    <DialogTitle className="text-foreground">Add Gift Item</DialogTitle>
+                                    <DialogTitle className="text-foreground">{editingItemId ? 'Edit Gift Item' : 'Add Gift Item'}</DialogTitle>
                                 </DialogHeader>
                                 <div className="space-y-4 pt-2">
                                     <div className="space-y-2">
@@ -843,23 +1550,98 @@ export default function WishlistPage() {
                                         />
                                     </div>
                                     <div className="space-y-2">
-                                        <Label className="text-muted-foreground">Price ($)</Label>
-                                        <Input
-                                            placeholder="199"
-                                            type="number"
-                                            value={itemPrice}
-                                            onChange={(e) => setItemPrice(e.target.value)}
-                                            className="bg-background border-input text-foreground placeholder:text-muted-foreground"
-                                        />
+                                        <Label className="text-muted-foreground">Price</Label>
+                                        <div className="flex gap-2">
+                                            <Input
+                                                placeholder="199"
+                                                type="number"
+                                                value={itemPrice}
+                                                onChange={(e) => setItemPrice(e.target.value)}
+                                                className="bg-background border-input text-foreground placeholder:text-muted-foreground"
+                                            />
+                                            <select
+                                                value={itemCurrency}
+                                                onChange={(e) => setItemCurrency(e.target.value)}
+                                                className="rounded-md border border-input bg-background px-2 text-sm text-foreground"
+                                                aria-label="Currency"
+                                            >
+                                                {Array.from(new Set([itemCurrency, ...Object.keys(rateTable?.rates ?? {})])).map(code => (
+                                                    <option key={code} value={code}>{code}</option>
+                                                ))}
+                                            </select>
+                                        </div>
                                     </div>
+                                    <div className="flex gap-4">
+                                        <div className="space-y-2 flex-1">
+                                            <Label className="text-muted-foreground">Priority</Label>
+                                            <div className="flex gap-2">
+                                                {(Object.keys(PRIORITY_LABELS) as ItemPriority[]).map(priority => (
+                                                    <Button
+                                                        key={priority}
+                                                        type="button"
+                                                        size="sm"
+                                                        variant={itemPriority === priority ? 'default' : 'outline'}
+                                                        onClick={() => setItemPriority(priority)}
+                                                        className="flex-1"
+                                                    >
+                                                        {priority === 'must_have' && <Star className="h-3 w-3 mr-1" />}
+                                                        {PRIORITY_LABELS[priority]}
+                                                    </Button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <div className="space-y-2 w-24">
+                                            <Label className="text-muted-foreground">Quantity</Label>
+                                            <Input
+                                                type="number"
+                                                min={1}
+                                                max={99}
+                                                value={itemQuantity}
+                                                onChange={(e) => setItemQuantity(e.target.value)}
+                                                className="bg-background border-input text-foreground h-9"
+                                            />
+                                        </div>
+                                    </div>
+                                    {itemUrl && (
+                                        <div className="space-y-2">
+                                            <Label className="text-muted-foreground">Alert me when it drops to (optional)</Label>
+                                            <Input
+                                                placeholder={itemPrice ? String(Math.floor(Number(itemPrice) * 0.9)) : '149'}
+                                                type="number"
+                                                value={itemPriceAlert}
+                                                onChange={(e) => setItemPriceAlert(e.target.value)}
+                                                className="bg-background border-input text-foreground placeholder:text-muted-foreground"
+                                            />
+                                            <p className="text-xs text-muted-foreground">
+                                                We re-check the link for price changes. Leave empty to hear about any sizeable drop.
+                                            </p>
+                                        </div>
+                                    )}
                                     <div className="space-y-2">
-                                        <Label className="text-muted-foreground">Image URL (optional)</Label>
-                                        <Input
-                                            placeholder="https://..."
-                                            value={itemImage}
-                                            onChange={(e) => setItemImage(e.target.value)}
-                                            className="bg-background border-input text-foreground placeholder:text-muted-foreground"
-                                        />
+                                        <Label className="text-muted-foreground">Image (optional)</Label>
+                                        <div className="flex gap-2">
+                                            <Input
+                                                placeholder="https://..."
+                                                value={itemImage}
+                                                onChange={(e) => setItemImage(e.target.value)}
+                                                className="bg-background border-input text-foreground placeholder:text-muted-foreground"
+                                            />
+                                            <ImageUploadButton kind="item" onUploaded={(image) => setItemImage(image.url)} className="h-10 shrink-0" />
+                                        </div>
+                                        {itemImageOptions.length > 1 && (
+                                            <div className="flex gap-2 overflow-x-auto pb-1">
+                                                {itemImageOptions.map(option => (
+                                                    <button
+                                                        key={option}
+                                                        type="button"
+                                                        onClick={() => setItemImage(option)}
+                                                        className={`h-12 w-12 shrink-0 rounded-md overflow-hidden border-2 cursor-pointer transition-all ${itemImage === option ? 'border-primary' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                                                    >
+                                                        <img src={option} alt="" className="h-full w-full object-cover" />
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
                                     </div>
                                     <div className="space-y-2">
                                         <Label className="text-muted-foreground">✨ Why I want it</Label>
@@ -875,8 +1657,8 @@ export default function WishlistPage() {
                                             <img src={itemImage} alt="Preview" className="w-full h-32 object-cover" />
                                         </div>
                                     )}
-                                    <Button onClick={addItem} disabled={!itemTitle.trim() || submittingItem} className="w-full">
-                                        {submittingItem ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add to Wishlist'}
+                                    <Button onClick={editingItemId ? updateItem : addItem} disabled={!itemTitle.trim() || submittingItem} className="w-full">
+                                        {submittingItem ? <Loader2 className="h-4 w-4 animate-spin" /> : editingItemId ? 'Save Changes' : 'Add to Wishlist'}
                                     </Button>
                                 </div>
                             </DialogContent>
@@ -884,146 +1666,50 @@ export default function WishlistPage() {
                     </div>
                 )}
 
-                <motion.div className="grid grid-cols-1 md:grid-cols-2 gap-6" initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.18 }}>
-                    <AnimatePresence>
-                        {wishlist.items.map((item) => (
-                            <motion.div
-                                key={item.localKey || item.id}
-                                id={`item-${item.id}`}
-                                layout
-                                initial={{ opacity: 0, y: 12, scale: 0.98 }}
-                                animate={{ opacity: 1, y: 0, scale: 1 }}
-                                exit={{ opacity: 0, y: -10, scale: 0.98 }}
-                                transition={{ type: 'spring', stiffness: 300, damping: 26, mass: 0.7 }}
-                                className="h-full"
-                            >
-                                <Card className={`overflow-hidden group relative h-full bg-card border-border shadow-sm hover:shadow-md transition-all ${item.isReserved && !isOwner ? 'opacity-75' : ''}`}>
-                                    <div className="aspect-video relative bg-muted/50 overflow-hidden">
-                                        {item.imageUrl ? (
-                                            <img src={item.imageUrl} alt={item.title} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105" />
-                                        ) : (
-                                            <div className="w-full h-full flex items-center justify-center bg-muted">
-                                                <Gift size={48} className="text-muted-foreground" />
-                                            </div>
-                                        )}
-                                        {item.price && (
-                                            <div className="absolute top-2 right-2 bg-background/80 backdrop-blur-sm px-2 py-1 rounded-md text-xs font-bold border border-border text-foreground shadow-sm">
-                                                ${item.price}
-                                            </div>
-                                        )}
-                                        {item.isReserved && !isOwner && (
-                                            <div className="absolute inset-0 bg-background/60 backdrop-blur-[2px] flex flex-col items-center justify-center p-4 z-20">
-                                                <div className="bg-background text-foreground px-4 py-2 rounded-lg font-bold text-xs uppercase tracking-widest shadow-md border border-border flex items-center gap-2 mb-2">
-                                                    <Lock size={12} /> Reserved
-                                                </div>
-                                                {item.reservedBy === (user?.email || guestNickname) ? (
-                                                    <button
-                                                        onClick={() => unreserveItem(item.id)}
-                                                        disabled={pendingReserveIds.includes(item.id)}
-                                                        className="text-[10px] text-muted-foreground hover:text-foreground underline underline-offset-2 transition-colors disabled:opacity-60 disabled:no-underline"
-                                                    >
-                                                        {pendingReserveIds.includes(item.id) ? 'Cancelling...' : 'Cancel my reservation'}
-                                                    </button>
-                                                ) : (
-                                                    <span className="text-muted-foreground text-[10px]">Someone is getting this!</span>
-                                                )}
-                                            </div>
-                                        )}
-                                    </div>
-                                    <CardContent className="p-4 space-y-3">
-                                        <div className="flex items-start justify-between">
-                                            <h3 className="font-semibold text-lg text-foreground line-clamp-2">
-                                                {item.url ? (
-                                                    <a href={item.url} target="_blank" rel="noopener noreferrer" className="hover:text-primary transition-colors inline-flex items-center gap-1">
-                                                        {item.title} <LinkIcon size={12} className="text-muted-foreground shrink-0" />
-                                                    </a>
-                                                ) : item.title}
-                                            </h3>
-                                            <Button
-                                                variant="ghost"
-                                                size="sm"
-                                                onClick={() => ensureIdentity({ type: 'hype', itemId: item.id })}
-                                                disabled={pendingHypeIds.includes(item.id)}
-                                                className="h-8 px-2 text-amber-500 hover:text-amber-600 hover:bg-amber-500/10 gap-1 transition-colors"
-                                            >
-                                                {pendingHypeIds.includes(item.id)
-                                                    ? <Loader2 className="h-4 w-4 animate-spin" />
-                                                    : <Flame className={`h-4 w-4 ${item.hypeCount > 0 ? 'fill-current' : ''}`} />}
-                                                <span className="text-xs font-bold">{item.hypeCount || 0}</span>
-                                            </Button>
-                                        </div>
-                                        {!isOwner && item.price && !item.isReserved && (
-                                            <div className="space-y-1.5">
-                                                <div className="flex justify-between text-xs text-gray-400">
-                                                    <span>${Number(item.collectedAmount)} collected</span>
-                                                    <span>${Number(item.price)} goal</span>
-                                                </div>
-                                                <Progress value={(Number(item.collectedAmount) / Number(item.price)) * 100} className="h-2" />
-                                            </div>
-                                        )}
-                                        {item.story && (
-                                            <div className="bg-muted/30 p-4 rounded-xl border border-border/40">
-                                                <p className="text-sm text-muted-foreground font-serif italic leading-relaxed">
-                                                    &ldquo;{item.story}&rdquo;
-                                                </p>
-                                            </div>
-                                        )}
-                                        <div className="flex gap-2 pt-1">
-                                            {!isOwner && !item.isReserved && (
-                                                <>
-                                                    <Button
-                                                        size="sm"
-                                                        onClick={() => ensureIdentity({ type: 'reserve', itemId: item.id })}
-                                                        disabled={pendingReserveIds.includes(item.id)}
-                                                        className="flex-1 bg-violet-600 hover:bg-violet-500 active:scale-95 transition-all"
-                                                    >
-                                                        {pendingReserveIds.includes(item.id)
-                                                            ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-                                                            : <ShieldCheck className="h-3 w-3 mr-1" />}
-                                                        {pendingReserveIds.includes(item.id) ? 'Reserving...' : 'Reserve'}
-                                                    </Button>
-                                                    {item.price && (
-                                                        <Button
-                                                            size="sm"
-                                                            variant="outline"
-                                                            disabled={contributeLoading && contributeItemId === item.id}
-                                                            onClick={() => ensureIdentity({ type: 'contribute', itemId: item.id })}
-                                                            className="flex-1 border-border text-muted-foreground hover:text-foreground active:scale-95 transition-all"
-                                                        >
-                                                            <DollarSign className="h-3 w-3 mr-1" /> Chip In
-                                                        </Button>
-                                                    )}
-                                                </>
-                                            )}
-                                            {isOwner && (
-                                                <Button
-                                                    size="sm"
-                                                    variant="ghost"
-                                                    disabled={pendingDeleteIds.includes(item.id)}
-                                                    onClick={() => deleteItem(item.id)}
-                                                    className="text-gray-500 hover:text-red-400 hover:bg-red-500/10 ml-auto transition-all"
-                                                >
-                                                    {pendingDeleteIds.includes(item.id)
-                                                        ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-                                                        : <Trash2 className="h-3 w-3 mr-1" />}
-                                                    {pendingDeleteIds.includes(item.id) ? 'Removing...' : 'Remove'}
-                                                </Button>
-                                            )}
-                                        </div>
-                                    </CardContent>
-                                </Card>
-                            </motion.div>
-                        ))}
-                    </AnimatePresence>
-                </motion.div>
+                {layout === 'board' ? (
+                    // Board: one column per priority, must-haves first
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+                        {(Object.keys(PRIORITY_LABELS) as ItemPriority[]).map(priority => {
+                            const columnItems = wishlist.items.filter(item => (item.priority || 'nice_to_have') === priority);
+                            return (
+                                <div key={priority} className="rounded-2xl bg-muted/30 border border-border p-3 space-y-4">
+                                    <h3 className="flex items-center gap-2 px-1 text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+                                        {priority === 'must_have' && <Star className="h-3.5 w-3.5 text-amber-500 fill-current" />}
+                                        {PRIORITY_LABELS[priority]}
+                                        <span className="ml-auto font-normal">{columnItems.length}</span>
+                                    </h3>
+                                    <AnimatePresence>
+                                        {columnItems.map(renderItemCard)}
+                                    </AnimatePresence>
+                                </div>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <motion.div className={layoutStyle.container} initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.18 }}>
+                        <AnimatePresence>
+                            {wishlist.items.map(renderItemCard)}
+                        </AnimatePresence>
+                    </motion.div>
+                )}
 
                 {wishlist.items.length === 0 && (
                     <div className="flex flex-col items-center justify-center py-20 text-center">
                         <Gift className="h-10 w-10 text-gray-600 mb-4" />
-                        <h3 className="text-lg font-medium text-gray-400">{isOwner ? 'No items yet' : 'No items in this wishlist yet'}</h3>
-                        <p className="text-sm text-gray-600 mt-1">{isOwner ? 'Click "Add Item" to start building your wishlist!' : 'Check back later!'}</p>
+                        <h3 className="text-lg font-medium text-gray-400">{canEditItems ? 'No items yet' : 'No items in this wishlist yet'}</h3>
+                        <p className="text-sm text-gray-600 mt-1">{canEditItems ? 'Click "Add Item" to start building your wishlist!' : 'Check back later!'}</p>
                     </div>
                 )}
+
+                <NotesBoard
+                    wishlistId={wishlist.id}
+                    wishlistTitle={wishlist.title}
+                    isOwner={isOwner}
+                    socket={socket}
+                    authorName={user?.name || guestNickname}
+                    requireApproval={Boolean(wishlist.notesRequireApproval)}
+                    onRequireApprovalChange={(value) => setWishlist(prev => prev && { ...prev, notesRequireApproval: value })}
+                />
             </div>
 
             <Dialog open={nicknameDialogOpen} onOpenChange={setNicknameDialogOpen}>
@@ -1044,14 +1730,14 @@ export default function WishlistPage() {
                             {contributeItem.price && (
                                 <div className="space-y-1.5">
                                     <div className="flex justify-between text-xs text-muted-foreground">
-                                        <span>${Number(contributeItem.collectedAmount)} collected</span>
-                                        <span>${Number(contributeItem.price) - Number(contributeItem.collectedAmount)} remaining</span>
+                                        <span>{formatMoney(Number(contributeItem.collectedAmount), contributeItem.currency)} collected</span>
+                                        <span>{formatMoney(fundingGoal(contributeItem) - Number(contributeItem.collectedAmount), contributeItem.currency)} remaining</span>
                                     </div>
-                                    <Progress value={(Number(contributeItem.collectedAmount) / Number(contributeItem.price)) * 100} className="h-2" />
+                                    <Progress value={(Number(contributeItem.collectedAmount) / fundingGoal(contributeItem)) * 100} className="h-2" />
                                 </div>
                             )}
                             <div className="space-y-2">
-                                <Label>Amount ($)</Label>
+                                <Label>Amount ({contributeItem.currency || DEFAULT_CURRENCY})</Label>
                                 <Input type="number" placeholder="50" value={contributeAmount} onChange={(e) => setContributeAmount(e.target.value)} autoFocus />
                             </div>
                             <div className="space-y-2">
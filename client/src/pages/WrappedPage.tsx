@@ -0,0 +1,38 @@
+// WrappedPage - Public Gift Wrapped report, where shared Wrapped links land
+
+import { useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
+import WrappedCard from '@/components/features/WrappedCard';
+import BackButton from '@/components/ui/BackButton';
+
+/**
+ * WrappedPage - Shows anyone's Gift Wrapped for the period in ?period=,
+ * in the viewer's display currency when they're signed in. Picking another
+ * period updates the URL so it can be shared as-is.
+ */
+export default function WrappedPage() {
+    const { userId } = useParams<{ userId: string }>();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const { user } = useAuth();
+
+    useEffect(() => {
+        document.title = 'Gift Wrapped | Giftly';
+    }, []);
+
+    if (!userId) return null;
+
+    return (
+        <div className="max-w-2xl mx-auto px-4 py-8">
+            <div className="mb-6">
+                <BackButton />
+            </div>
+            <WrappedCard
+                userId={userId}
+                currency={user?.displayCurrency}
+                initialPeriod={searchParams.get('period') || 'all'}
+                onPeriodChange={period => setSearchParams(period === 'all' ? {} : { period }, { replace: true })}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Wishlist" ADD COLUMN     "eventDate" TIMESTAMP(3),
+ADD COLUMN     "occasion" TEXT,
+ADD COLUMN     "revealAfterEvent" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,69 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "reservedViaExchangeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "GiftExchange" (
+    "id" TEXT NOT NULL,
+    "organizerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "budget" DECIMAL(65,30),
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "exchangeDate" TIMESTAMP(3),
+    "inviteCode" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "drawnAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GiftExchange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExchangeMember" (
+    "id" TEXT NOT NULL,
+    "exchangeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "wishlistId" TEXT,
+    "assigneeId" TEXT,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExchangeMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExchangeExclusion" (
+    "id" TEXT NOT NULL,
+    "exchangeId" TEXT NOT NULL,
+    "userAId" TEXT NOT NULL,
+    "userBId" TEXT NOT NULL,
+
+    CONSTRAINT "ExchangeExclusion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GiftExchange_inviteCode_key" ON "GiftExchange"("inviteCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeMember_exchangeId_userId_key" ON "ExchangeMember"("exchangeId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeExclusion_exchangeId_userAId_userBId_key" ON "ExchangeExclusion"("exchangeId", "userAId", "userBId");
+
+-- AddForeignKey
+ALTER TABLE "Item" ADD CONSTRAINT "Item_reservedViaExchangeId_fkey" FOREIGN KEY ("reservedViaExchangeId") REFERENCES "GiftExchange"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftExchange" ADD CONSTRAINT "GiftExchange_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExchangeMember" ADD CONSTRAINT "ExchangeMember_exchangeId_fkey" FOREIGN KEY ("exchangeId") REFERENCES "GiftExchange"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExchangeMember" ADD CONSTRAINT "ExchangeMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExchangeMember" ADD CONSTRAINT "ExchangeMember_wishlistId_fkey" FOREIGN KEY ("wishlistId") REFERENCES "Wishlist"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExchangeExclusion" ADD CONSTRAINT "ExchangeExclusion_exchangeId_fkey" FOREIGN KEY ("exchangeId") REFERENCES "GiftExchange"("id") ON DELETE CASCADE ON UPDATE CASCADE;
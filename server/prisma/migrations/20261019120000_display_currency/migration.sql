@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "displayCurrency" TEXT NOT NULL DEFAULT 'USD';
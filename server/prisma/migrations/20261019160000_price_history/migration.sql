@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "priceAlertBelow" DECIMAL(65,30),
+ADD COLUMN     "priceCheckedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PriceHistory" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "price" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Item_priceCheckedAt_idx" ON "Item"("priceCheckedAt");
+
+-- CreateIndex
+CREATE INDEX "PriceHistory_itemId_recordedAt_idx" ON "PriceHistory"("itemId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "PriceHistory" ADD CONSTRAINT "PriceHistory_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed each priced item's series with the price it was added at
+INSERT INTO "PriceHistory" ("id", "itemId", "price", "currency", "recordedAt")
+SELECT gen_random_uuid()::text, "id", "price", "currency", "createdAt"
+FROM "Item"
+WHERE "price" IS NOT NULL;
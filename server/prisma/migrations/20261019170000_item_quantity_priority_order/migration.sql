@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "priority" TEXT NOT NULL DEFAULT 'nice_to_have',
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "quantity" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "reservedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Reservation" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "reservedBy" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "reservedViaExchangeId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Reservation_pkey" PRIMARY KEY ("id")
+);
+
+-- Move each existing single-unit reservation into its own row
+INSERT INTO "Reservation" ("id", "itemId", "reservedBy", "quantity", "reservedViaExchangeId", "createdAt")
+SELECT gen_random_uuid()::text, "id", COALESCE("reservedBy", 'Someone'), 1, "reservedViaExchangeId", "updatedAt"
+FROM "Item"
+WHERE "isReserved" = true;
+
+UPDATE "Item" SET "reservedQuantity" = 1 WHERE "isReserved" = true;
+
+-- Keep today's newest-first order as the starting manual order
+UPDATE "Item" SET "position" = ranked."rank"
+FROM (
+    SELECT "id", (ROW_NUMBER() OVER (PARTITION BY "wishlistId" ORDER BY "createdAt" DESC) - 1)::INTEGER AS "rank"
+    FROM "Item"
+) AS ranked
+WHERE "Item"."id" = ranked."id";
+
+-- DropForeignKey
+ALTER TABLE "Item" DROP CONSTRAINT "Item_reservedViaExchangeId_fkey";
+
+-- AlterTable
+ALTER TABLE "Item" DROP COLUMN "reservedBy",
+DROP COLUMN "reservedViaExchangeId";
+
+-- CreateIndex
+CREATE INDEX "Item_wishlistId_position_idx" ON "Item"("wishlistId", "position");
+
+-- CreateIndex
+CREATE INDEX "Reservation_itemId_idx" ON "Reservation"("itemId");
+
+-- CreateIndex
+CREATE INDEX "Reservation_reservedBy_idx" ON "Reservation"("reservedBy");
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_reservedViaExchangeId_fkey" FOREIGN KEY ("reservedViaExchangeId") REFERENCES "GiftExchange"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Stickers become structured JSON. The column was never writable through the
+-- API, so anything already in it that isn't valid JSON is dropped.
+CREATE OR REPLACE FUNCTION pg_temp.try_jsonb(value TEXT) RETURNS JSONB AS $$
+BEGIN
+    RETURN value::jsonb;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- AlterTable
+ALTER TABLE "Wishlist" ALTER COLUMN "stickers" TYPE JSONB USING pg_temp.try_jsonb("stickers");
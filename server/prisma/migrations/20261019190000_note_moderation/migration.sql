@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN     "authorId" TEXT,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'published';
+
+-- AlterTable
+ALTER TABLE "Wishlist" ADD COLUMN     "notesRequireApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "NoteAuthorBlock" (
+    "id" TEXT NOT NULL,
+    "wishlistId" TEXT NOT NULL,
+    "userId" TEXT,
+    "authorName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteAuthorBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Note_wishlistId_status_idx" ON "Note"("wishlistId", "status");
+
+-- CreateIndex
+CREATE INDEX "NoteAuthorBlock_wishlistId_idx" ON "NoteAuthorBlock"("wishlistId");
+
+-- AddForeignKey
+ALTER TABLE "Note" ADD CONSTRAINT "Note_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteAuthorBlock" ADD CONSTRAINT "NoteAuthorBlock_wishlistId_fkey" FOREIGN KEY ("wishlistId") REFERENCES "Wishlist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoteAuthorBlock" ADD CONSTRAINT "NoteAuthorBlock_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
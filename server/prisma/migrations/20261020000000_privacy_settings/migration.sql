@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "privacySettings" TEXT NOT NULL DEFAULT '{}';
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "username" TEXT;
+
+-- CreateIndex (before the backfill, so the collision checks below use it)
+CREATE UNIQUE INDEX "User_username_key" ON "User"("username");
+
+-- Derive handles from display names, oldest accounts first. Names that are too
+-- short, reserved (same list as src/lib/usernames.ts) or already taken get a
+-- short suffix, retried until it's free, as at sign-up.
+DO $$
+DECLARE
+    account RECORD;
+    base TEXT;
+    candidate TEXT;
+    attempt INTEGER;
+BEGIN
+    FOR account IN SELECT "id", "name" FROM "User" ORDER BY "createdAt", "id" LOOP
+        base := LEFT(REGEXP_REPLACE(LOWER(account."name"), '[^a-z0-9_]+', '', 'g'), 20);
+        candidate := base;
+        attempt := 0;
+        WHILE LENGTH(candidate) < 3
+            OR candidate IN (
+                'admin', 'api', 'giftly', 'help', 'me', 'moderator', 'profile', 'root',
+                'settings', 'staff', 'support', 'system', 'wishlist', 'wrapped'
+            )
+            OR EXISTS (SELECT 1 FROM "User" WHERE "username" = candidate)
+        LOOP
+            candidate := COALESCE(NULLIF(base, ''), 'user') || '_' || LEFT(MD5(account."id" || attempt::TEXT), 6);
+            attempt := attempt + 1;
+        END LOOP;
+        UPDATE "User" SET "username" = candidate WHERE "id" = account."id";
+    END LOOP;
+END $$;
+
+ALTER TABLE "User" ALTER COLUMN "username" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN "stolenFromUserId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Item" ADD CONSTRAINT "Item_stolenFromUserId_fkey" FOREIGN KEY ("stolenFromUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
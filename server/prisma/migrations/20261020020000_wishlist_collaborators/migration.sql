@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "WishlistCollaborator" (
+    "id" TEXT NOT NULL,
+    "wishlistId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WishlistCollaborator_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WishlistInvite" (
+    "id" TEXT NOT NULL,
+    "wishlistId" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "email" TEXT,
+    "code" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WishlistInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WishlistCollaborator_userId_idx" ON "WishlistCollaborator"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WishlistCollaborator_wishlistId_userId_key" ON "WishlistCollaborator"("wishlistId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WishlistInvite_code_key" ON "WishlistInvite"("code");
+
+-- CreateIndex
+CREATE INDEX "WishlistInvite_wishlistId_idx" ON "WishlistInvite"("wishlistId");
+
+-- AddForeignKey
+ALTER TABLE "WishlistCollaborator" ADD CONSTRAINT "WishlistCollaborator_wishlistId_fkey" FOREIGN KEY ("wishlistId") REFERENCES "Wishlist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WishlistCollaborator" ADD CONSTRAINT "WishlistCollaborator_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WishlistInvite" ADD CONSTRAINT "WishlistInvite_wishlistId_fkey" FOREIGN KEY ("wishlistId") REFERENCES "Wishlist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WishlistInvite" ADD CONSTRAINT "WishlistInvite_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
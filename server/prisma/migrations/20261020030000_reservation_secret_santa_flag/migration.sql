@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN "isSecretSanta" BOOLEAN NOT NULL DEFAULT false;
+
+-- Reservations still linked to their exchange; ones whose exchange is already gone can't be told apart
+UPDATE "Reservation" SET "isSecretSanta" = true WHERE "reservedViaExchangeId" IS NOT NULL;
@@ -7,19 +7,35 @@ import morgan from 'morgan';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import dotenv from 'dotenv';
+import cookieParser from 'cookie-parser';
 import { errorHandler, notFoundHandler, withRequestId } from './utils/errors';
 import { authLimiter, defaultApiLimiter, mutationLimiter } from './middleware/rateLimit';
+import { csrfProtection } from './middleware/csrf';
+import { authenticateSocket, clearRevealTimers, joinWishlistRooms, leaveWishlistRooms, userRoom, wishlistRoom } from './lib/realtime';
+import { getStorage, LocalDiskStorage } from './lib/storage';
+import { PriceTrackingService } from './services/PriceTrackingService';
+import { OccasionReminderService } from './services/OccasionReminderService';
 
 dotenv.config();
 
 const app = express();
 const httpServer = createServer(app);
 
-// Socket.io with permissive CORS for development
+// Auth uses cookies, so CORS must name the client origin(s) instead of '*'.
+// CLIENT_URL may list several comma-separated origins; unset reflects any origin,
+// which is only allowed outside production since any site could then read the CSRF token.
+if (!process.env.CLIENT_URL && process.env.NODE_ENV === 'production') {
+    throw new Error('CLIENT_URL must be set in production');
+}
+const corsOrigin = process.env.CLIENT_URL
+    ? process.env.CLIENT_URL.split(',').map(origin => origin.trim().replace(/\/$/, ''))
+    : true;
+
 const io = new Server(httpServer, {
     cors: {
-        origin: '*',
-        methods: ['GET', 'POST', 'PUT', 'DELETE']
+        origin: corsOrigin,
+        methods: ['GET', 'POST', 'PUT', 'DELETE'],
+        credentials: true,
     }
 });
 
@@ -27,12 +43,14 @@ const io = new Server(httpServer, {
 app.set('io', io);
 
 // Middleware
-app.use(cors());
+app.use(cors({ origin: corsOrigin, credentials: true }));
 app.use(helmet());
 app.use(morgan('dev'));
 app.use(express.json());
+app.use(cookieParser());
 app.use(withRequestId);
 app.use('/api', defaultApiLimiter);
+app.use('/api', csrfProtection);
 
 // Route imports
 import authRoutes from './routes/auth';
@@ -43,6 +61,16 @@ import noteRoutes from './routes/notes';
 import shrineRoutes from './routes/shrine';
 import haulRoutes from './routes/hauls';
 import wrappedRoutes from './routes/wrapped';
+import socialRoutes from './routes/social';
+import exchangeRoutes from './routes/exchanges';
+import currencyRoutes from './routes/currency';
+import uploadRoutes from './routes/uploads';
+import notificationRoutes from './routes/notifications';
+import pushRoutes from './routes/push';
+import gamificationRoutes from './routes/gamification';
+import privacyRoutes from './routes/privacy';
+import userRoutes from './routes/users';
+import collaboratorRoutes from './routes/collaborators';
 
 // API routes
 app.use('/api/auth', authLimiter, authRoutes);
@@ -53,6 +81,29 @@ app.use('/api/notes', mutationLimiter, noteRoutes);
 app.use('/api/shrine', shrineRoutes);
 app.use('/api/hauls', haulRoutes);
 app.use('/api/wrapped', wrappedRoutes);
+app.use('/api/social', socialRoutes);
+app.use('/api/exchanges', mutationLimiter, exchangeRoutes);
+app.use('/api/currency', currencyRoutes);
+app.use('/api/uploads', mutationLimiter, uploadRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/push', pushRoutes);
+app.use('/api/gamification', gamificationRoutes);
+app.use('/api/privacy', privacyRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/collaborators', mutationLimiter, collaboratorRoutes);
+
+// Serve locally stored uploads (the S3 backend serves its own objects).
+// Images are embedded by the client's origin, so relax helmet's same-origin CORP here.
+const storage = getStorage();
+if (storage instanceof LocalDiskStorage) {
+    app.use('/uploads', express.static(storage.directory, {
+        index: false,
+        dotfiles: 'deny',
+        immutable: true,
+        maxAge: '365d',
+        setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+    }));
+}
 
 // Health check endpoints
 app.get('/', (_req: express.Request, res: express.Response) => {
@@ -92,27 +143,47 @@ app.get('/health', async (_req: express.Request, res: express.Response) => {
 app.use(notFoundHandler);
 app.use(errorHandler);
 
+// Verify the JWT (if any) sent in the socket handshake
+io.use(authenticateSocket);
+
+// Broadcast the current viewer count for a wishlist room
+const broadcastViewerCount = (wishlistId: string, offset = 0) => {
+    const room = io.sockets.adapter.rooms.get(wishlistRoom(wishlistId));
+    const count = room ? Math.max(room.size + offset, 0) : 0;
+    io.to(wishlistRoom(wishlistId)).emit(`viewers:${wishlistId}`, { count });
+    return count;
+};
+
 // Socket.io connection + room-based presence tracking
 io.on('connection', (socket) => {
     console.log('Client connected:', socket.id);
 
-    // Join a wishlist viewing room for presence tracking
-    socket.on('join_wishlist', ({ wishlistId }: { wishlistId: string }) => {
-        socket.join(`wishlist:${wishlistId}`);
-        // Broadcast updated viewer count to the room
-        const room = io.sockets.adapter.rooms.get(`wishlist:${wishlistId}`);
-        const count = room ? room.size : 1;
-        io.to(`wishlist:${wishlistId}`).emit(`viewers:${wishlistId}`, { count });
-        console.log(`Socket ${socket.id} joined wishlist:${wishlistId} (${count} viewers)`);
+    // Signed-in sockets get their own notifications wherever they are
+    if (socket.data.user) {
+        socket.join(userRoom(socket.data.user.id));
+    }
+
+    // Join a wishlist viewing room — only if this socket may view the wishlist
+    socket.on('join_wishlist', async ({ wishlistId }: { wishlistId: string }) => {
+        try {
+            const joined = await joinWishlistRooms(socket, wishlistId);
+            if (!joined) {
+                socket.emit('join_denied', { wishlistId });
+                return;
+            }
+            const count = broadcastViewerCount(wishlistId);
+            console.log(`Socket ${socket.id} joined wishlist:${wishlistId} (${count} viewers)`);
+        } catch (error) {
+            console.error('Join wishlist error:', error);
+            socket.emit('join_denied', { wishlistId });
+        }
     });
 
     // Leave a wishlist viewing room
     socket.on('leave_wishlist', ({ wishlistId }: { wishlistId: string }) => {
-        socket.leave(`wishlist:${wishlistId}`);
+        leaveWishlistRooms(socket, wishlistId);
         // Broadcast updated viewer count after leaving
-        const room = io.sockets.adapter.rooms.get(`wishlist:${wishlistId}`);
-        const count = room ? room.size : 0;
-        io.to(`wishlist:${wishlistId}`).emit(`viewers:${wishlistId}`, { count });
+        const count = broadcastViewerCount(wishlistId);
         console.log(`Socket ${socket.id} left wishlist:${wishlistId} (${count} viewers)`);
     });
 
@@ -120,13 +191,11 @@ io.on('connection', (socket) => {
     socket.on('disconnecting', () => {
         socket.rooms.forEach((room) => {
             if (room.startsWith('wishlist:')) {
-                const wishlistId = room.replace('wishlist:', '');
-                const roomSet = io.sockets.adapter.rooms.get(room);
                 // Subtract 1 because the disconnecting socket is still in the room
-                const count = roomSet ? roomSet.size - 1 : 0;
-                io.to(room).emit(`viewers:${wishlistId}`, { count });
+                broadcastViewerCount(room.replace('wishlist:', ''), -1);
             }
         });
+        clearRevealTimers(socket);
         console.log('Client disconnecting:', socket.id);
     });
 });
@@ -135,4 +204,8 @@ io.on('connection', (socket) => {
 const PORT = process.env.PORT || 5000;
 httpServer.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
+    // Re-scrape tracked item prices in the background
+    PriceTrackingService.start(io);
+    // Remind gifters a few days before each occasion
+    OccasionReminderService.start(io);
 });
@@ -0,0 +1,80 @@
+// Auth cookies — HttpOnly access/refresh/CSRF cookies and how to read them back
+
+import { CookieOptions, Request, Response } from 'express';
+
+export const ACCESS_COOKIE = 'giftly_access';
+export const REFRESH_COOKIE = 'giftly_refresh';
+export const CSRF_COOKIE = 'giftly_csrf';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// The refresh cookie is only ever sent to the auth routes
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+/**
+ * Same-site deployments can use SameSite=Lax; when the client and API live on
+ * different sites set COOKIE_SAMESITE=none (which also forces Secure).
+ */
+const baseCookieOptions = (): CookieOptions => {
+    const sameSite = (process.env.COOKIE_SAMESITE || 'lax') as 'lax' | 'strict' | 'none';
+    return {
+        httpOnly: true,
+        sameSite,
+        secure: sameSite === 'none' || process.env.NODE_ENV === 'production',
+    };
+};
+
+export interface SessionTokens {
+    accessToken: string;
+    refreshToken: string;
+    csrfToken: string;
+}
+
+export const setAuthCookies = (res: Response, tokens: SessionTokens) => {
+    const options = baseCookieOptions();
+    res.cookie(ACCESS_COOKIE, tokens.accessToken, { ...options, path: '/', maxAge: ACCESS_TOKEN_TTL_SECONDS * 1000 });
+    res.cookie(REFRESH_COOKIE, tokens.refreshToken, { ...options, path: REFRESH_COOKIE_PATH, maxAge: REFRESH_TOKEN_TTL_MS });
+    res.cookie(CSRF_COOKIE, tokens.csrfToken, { ...options, path: '/', maxAge: REFRESH_TOKEN_TTL_MS });
+};
+
+export const clearAuthCookies = (res: Response) => {
+    const options = baseCookieOptions();
+    res.clearCookie(ACCESS_COOKIE, { ...options, path: '/' });
+    res.clearCookie(REFRESH_COOKIE, { ...options, path: REFRESH_COOKIE_PATH });
+    res.clearCookie(CSRF_COOKIE, { ...options, path: '/' });
+};
+
+const readCookie = (req: Request, name: string) => {
+    const value = req.cookies?.[name];
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+};
+
+/**
+ * Access token from an `Authorization: Bearer` header (API clients)
+ * or, failing that, the HttpOnly access cookie (the web app).
+ */
+/** The token from an `Authorization: Bearer …` header; other schemes don't count */
+export const getBearerToken = (req: Request) => {
+    const authHeader = req.headers['authorization'];
+    return (authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined) || undefined;
+};
+
+export const getAccessToken = (req: Request) => getBearerToken(req) || readCookie(req, ACCESS_COOKIE);
+
+export const getRefreshToken = (req: Request) => readCookie(req, REFRESH_COOKIE);
+
+export const getCsrfCookie = (req: Request) => readCookie(req, CSRF_COOKIE);
+
+/** Pull a single cookie out of a raw Cookie header (socket.io handshakes) */
+export const parseCookieHeader = (header: string | undefined, name: string) => {
+    if (!header) return undefined;
+    for (const part of header.split(';')) {
+        const separator = part.indexOf('=');
+        if (separator === -1) continue;
+        if (part.slice(0, separator).trim() === name) {
+            return decodeURIComponent(part.slice(separator + 1).trim());
+        }
+    }
+    return undefined;
+};
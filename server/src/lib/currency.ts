@@ -0,0 +1,87 @@
+// Currency conversion — offline exchange-rate table loaded from a local JSON or CSV file
+
+import fs from 'fs';
+import path from 'path';
+
+export interface RateTable {
+    base: string;
+    updatedAt: string | null;
+    // Units of each currency per 1 unit of `base`
+    rates: Record<string, number>;
+}
+
+const DEFAULT_RATES_FILE = path.resolve(__dirname, '../../data/exchange-rates.json');
+
+/**
+ * Parse a CSV rate table: one `CODE,rate` pair per line.
+ * An optional `currency,rate` header row is skipped; the base is the code with rate 1.
+ */
+const parseCsvRates = (contents: string): RateTable => {
+    const rates: Record<string, number> = {};
+
+    contents.split(/\r?\n/).forEach(line => {
+        const [code, rate] = line.split(',').map(cell => cell.trim());
+        const value = Number(rate);
+        if (/^[A-Za-z]{3}$/.test(code ?? '') && Number.isFinite(value) && value > 0) {
+            rates[code.toUpperCase()] = value;
+        }
+    });
+
+    const base = Object.keys(rates).find(code => rates[code] === 1) || 'USD';
+    return { base, updatedAt: null, rates };
+};
+
+const parseJsonRates = (contents: string): RateTable => {
+    const parsed = JSON.parse(contents) as Partial<RateTable>;
+    const rates: Record<string, number> = {};
+
+    Object.entries(parsed.rates ?? {}).forEach(([code, value]) => {
+        if (typeof value === 'number' && value > 0) rates[code.toUpperCase()] = value;
+    });
+
+    return { base: (parsed.base || 'USD').toUpperCase(), updatedAt: parsed.updatedAt ?? null, rates };
+};
+
+/**
+ * Load the rate table from EXCHANGE_RATES_FILE (or the bundled default).
+ * No network access — refresh rates by replacing the file and restarting.
+ */
+export const loadRateTable = (file = process.env.EXCHANGE_RATES_FILE || DEFAULT_RATES_FILE): RateTable => {
+    const contents = fs.readFileSync(file, 'utf8');
+    const table = file.toLowerCase().endsWith('.csv') ? parseCsvRates(contents) : parseJsonRates(contents);
+    table.rates[table.base] = 1;
+    return table;
+};
+
+let cachedTable: RateTable | null = null;
+
+export const getRateTable = () => {
+    if (!cachedTable) cachedTable = loadRateTable();
+    return cachedTable;
+};
+
+export const isSupportedCurrency = (code: string) => code.toUpperCase() in getRateTable().rates;
+
+/**
+ * Convert an amount between two currencies via the table's base currency.
+ * Returns null when either currency is missing from the table.
+ */
+export const convertCurrency = (amount: number, from: string, to: string) => {
+    const { rates } = getRateTable();
+    const fromRate = rates[from.toUpperCase()];
+    const toRate = rates[to.toUpperCase()];
+    if (!fromRate || !toRate) return null;
+    return (amount / fromRate) * toRate;
+};
+
+/** Round a converted amount to cents for API responses */
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/** Human-readable amount for emails and push messages, e.g. "$12.50" */
+export const formatMoney = (amount: number, currency: string) => {
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+    } catch {
+        return `${amount.toFixed(2)} ${currency}`;
+    }
+};
@@ -0,0 +1,88 @@
+// Mail transports — SMTP for production, file/console outboxes for local development and tests
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Giftly <no-reply@giftly.app>';
+
+/**
+ * SMTP transport (nodemailer). Configured with SMTP_HOST, SMTP_PORT,
+ * SMTP_USER, SMTP_PASS and SMTP_SECURE.
+ */
+export class SmtpTransport implements MailTransport {
+    private readonly transporter: Transporter;
+
+    constructor(private readonly from = process.env.MAIL_FROM || DEFAULT_FROM) {
+        const port = Number(process.env.SMTP_PORT || 587);
+        this.transporter = nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port,
+            secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+            auth: process.env.SMTP_USER
+                ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+                : undefined,
+        });
+    }
+
+    async send(message: MailMessage) {
+        await this.transporter.sendMail({ from: this.from, ...message });
+    }
+}
+
+/**
+ * Writes each message as a JSON file into MAIL_OUTBOX_DIR so local
+ * development and tests can read the links that would have been emailed.
+ */
+export class FileTransport implements MailTransport {
+    constructor(private readonly directory = process.env.MAIL_OUTBOX_DIR || path.resolve(process.cwd(), 'mail-outbox')) { }
+
+    async send(message: MailMessage) {
+        await fs.mkdir(this.directory, { recursive: true });
+        const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+        const file = path.join(this.directory, `${Date.now()}-${safeRecipient}.json`);
+        await fs.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    }
+}
+
+/** Logs messages to stdout — the default outside production */
+export class ConsoleTransport implements MailTransport {
+    async send(message: MailMessage) {
+        console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Transport selected by MAIL_TRANSPORT (smtp | file | console).
+ * Falls back to SMTP in production and the console everywhere else.
+ */
+export const getMailTransport = (): MailTransport => {
+    if (transport) return transport;
+
+    const kind = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console');
+    if (kind === 'smtp') transport = new SmtpTransport();
+    else if (kind === 'file') transport = new FileTransport();
+    else transport = new ConsoleTransport();
+
+    return transport;
+};
+
+/** Swap the transport (e.g. a FileTransport pointed at a temp dir in tests) */
+export const setMailTransport = (next: MailTransport | null) => {
+    transport = next;
+};
+
+export const sendMail = (message: MailMessage) => getMailTransport().send(message);
@@ -0,0 +1,226 @@
+// Product page fetching — SSRF-guarded download + extractor pipeline, shared by the preview route and price tracking
+
+import axios from 'axios';
+import http from 'http';
+import https from 'https';
+import { promises as dns } from 'dns';
+import net, { type LookupFunction } from 'net';
+import { AppError } from '../utils/errors';
+import { extractProduct, type ProductPreview } from './scrapers';
+
+const LOCAL_HOSTNAMES = new Set(['localhost', 'localhost.localdomain', 'ip6-localhost', 'ip6-loopback']);
+
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Everything that isn't the public internet: "this network", private, CGNAT, loopback,
+// link-local, IETF/documentation/benchmark ranges, multicast and reserved
+const BLOCKED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+    ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8], ['2001:db8::', 32],
+] as const) {
+    BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * ::ffff:a.b.c.d (in any spelling) and NAT64 64:ff9b::a.b.c.d reach the
+ * embedded IPv4 address, so they're judged by it.
+ */
+const embeddedIpv4 = (ipv6: string) => {
+    // Let the URL parser canonicalize (0:0:0:0:0:ffff:7f00:1 -> ::ffff:7f00:1)
+    const canonical = new URL(`http://[${ipv6}]`).hostname.slice(1, -1);
+    const match = /^(?:::ffff|64:ff9b:):([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(canonical);
+    if (!match) return null;
+
+    const high = parseInt(match[1], 16);
+    const low = parseInt(match[2], 16);
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+};
+
+export const isPrivateAddress = (ip: string) => {
+    const family = net.isIP(ip);
+    if (family === 4) return BLOCKED_RANGES.check(ip, 'ipv4');
+    if (family === 6) {
+        const ipv4 = embeddedIpv4(ip);
+        return ipv4 ? BLOCKED_RANGES.check(ipv4, 'ipv4') : BLOCKED_RANGES.check(ip, 'ipv6');
+    }
+    // Not an IP at all — refuse rather than guess
+    return true;
+};
+
+export interface PinnedTarget {
+    url: string;
+    address: string;
+    family: 4 | 6;
+}
+
+/**
+ * Reject URLs that aren't plain HTTP(S) or that point at (or resolve to)
+ * a non-public address. Returns the normalized URL and the address the
+ * request must connect to, so a second DNS answer can't swap it out.
+ */
+export const assertPublicUrl = async (rawUrl: string): Promise<PinnedTarget> => {
+    let parsed: URL;
+
+    try {
+        parsed = new URL(rawUrl);
+    } catch {
+        throw new AppError(400, 'INVALID_URL', 'Invalid URL');
+    }
+
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+        throw new AppError(400, 'INVALID_URL_PROTOCOL', 'Only HTTP/HTTPS URLs are allowed');
+    }
+
+    if (parsed.username || parsed.password) {
+        throw new AppError(400, 'INVALID_URL', 'URLs with credentials are not allowed');
+    }
+
+    // IPv6 literals come back bracketed; a trailing dot is the same host
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+    if (!hostname || LOCAL_HOSTNAMES.has(hostname) || hostname.endsWith('.localhost')) {
+        throw new AppError(400, 'UNSAFE_URL_HOST', 'URL host is not allowed');
+    }
+
+    const directIp = net.isIP(hostname);
+    if (directIp) {
+        if (isPrivateAddress(hostname)) {
+            throw new AppError(400, 'UNSAFE_URL_HOST', 'URL host is not allowed');
+        }
+        return { url: parsed.toString(), address: hostname, family: directIp as 4 | 6 };
+    }
+
+    let resolvedAddresses: { address: string; family: number }[];
+    try {
+        resolvedAddresses = await dns.lookup(hostname, { all: true });
+    } catch {
+        throw new AppError(400, 'URL_HOST_NOT_FOUND', 'Could not resolve URL host');
+    }
+
+    // Every answer must be public — otherwise the connect could pick the private one
+    if (resolvedAddresses.length === 0 || resolvedAddresses.some(({ address }) => isPrivateAddress(address))) {
+        throw new AppError(400, 'UNSAFE_URL_HOST', 'URL host is not allowed');
+    }
+
+    const [{ address, family }] = resolvedAddresses;
+    return { url: parsed.toString(), address, family: family as 4 | 6 };
+};
+
+/** A lookup that always answers with the address assertPublicUrl checked */
+const pinnedLookup = (address: string, family: 4 | 6): LookupFunction => (_hostname, options, callback) => {
+    if (options.all) {
+        callback(null, [{ address, family }]);
+    } else {
+        callback(null, address, family);
+    }
+};
+
+/**
+ * HTTPS agent that connects to the address assertPublicUrl checked, for
+ * requests made by libraries that take an agent rather than a URL we fetch
+ */
+export const pinnedHttpsAgent = (target: PinnedTarget) => new https.Agent({ lookup: pinnedLookup(target.address, target.family) });
+
+/**
+ * GET a page without trusting redirects: each hop is re-validated and
+ * connected through its own pinned address. Returns the body and final URL.
+ */
+const fetchPage = async (rawUrl: string) => {
+    let currentUrl = rawUrl;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const target = await assertPublicUrl(currentUrl);
+        const lookup = pinnedLookup(target.address, target.family);
+
+        const response = await axios.get<string>(target.url, {
+            headers: { 'User-Agent': 'Mozilla/5.0 (SocialWishlistBot)' },
+            timeout: REQUEST_TIMEOUT_MS,
+            maxContentLength: MAX_PAGE_BYTES,
+            maxBodyLength: MAX_PAGE_BYTES,
+            responseType: 'text',
+            maxRedirects: 0,
+            proxy: false,
+            httpAgent: new http.Agent({ lookup }),
+            httpsAgent: new https.Agent({ lookup }),
+            validateStatus: status => status >= 200 && status < 400,
+        });
+
+        if (response.status < 300) {
+            return { html: response.data, finalUrl: target.url };
+        }
+
+        const location = response.headers.location;
+        if (typeof location !== 'string' || !location) {
+            throw new AppError(502, 'UPSTREAM_BAD_REDIRECT', 'The page redirected without a destination');
+        }
+        currentUrl = new URL(location, target.url).toString();
+    }
+
+    throw new AppError(502, 'UPSTREAM_TOO_MANY_REDIRECTS', 'The page redirected too many times');
+};
+
+// --- Preview cache -----------------------------------------------------------
+
+const MAX_CACHED_PREVIEWS = 500;
+
+// Query parameters that only identify the click, not the product
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_|_ga)$/i;
+
+const previewCache = new Map<string, { preview: ProductPreview; expiresAt: number }>();
+
+const cacheTtlMs = () => Number(process.env.PREVIEW_CACHE_TTL_MINUTES ?? 60) * 60 * 1000;
+
+/**
+ * Cache key for a product URL: no fragment, no tracking parameters and the
+ * remaining parameters sorted, so the same product pasted twice matches.
+ */
+export const normalizeProductUrl = (rawUrl: string) => {
+    const url = new URL(rawUrl);
+    url.hash = '';
+    for (const key of [...url.searchParams.keys()]) {
+        if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+    }
+    url.searchParams.sort();
+    return url.toString();
+};
+
+/**
+ * Fetch a product page and run the extractor pipeline
+ * (adapters, JSON-LD, microdata, meta tags) over it. Previews are cached
+ * per normalized URL for PREVIEW_CACHE_TTL_MINUTES; pass `fresh` to
+ * bypass the cache (price tracking needs today's price, not the cached one).
+ */
+export const fetchProductPreview = async (rawUrl: string, { fresh = false } = {}) => {
+    let key: string;
+    try {
+        key = normalizeProductUrl(rawUrl);
+    } catch {
+        throw new AppError(400, 'INVALID_URL', 'Invalid URL');
+    }
+
+    const cached = previewCache.get(key);
+    if (!fresh && cached && cached.expiresAt > Date.now()) return cached.preview;
+
+    const { html, finalUrl } = await fetchPage(rawUrl);
+    const preview = extractProduct(html, finalUrl);
+
+    const ttl = cacheTtlMs();
+    if (ttl > 0) {
+        // Map keeps insertion order, so re-inserting makes this the newest entry
+        previewCache.delete(key);
+        previewCache.set(key, { preview, expiresAt: Date.now() + ttl });
+        if (previewCache.size > MAX_CACHED_PREVIEWS) {
+            previewCache.delete(previewCache.keys().next().value as string);
+        }
+    }
+
+    return preview;
+};
@@ -0,0 +1,184 @@
+// Realtime helpers — wishlist rooms, per-viewer authorization and spoiler-safe broadcasts
+
+import { Server, Socket } from 'socket.io';
+import prisma from './prisma';
+import { isSpoilerRevealed, spoilerRevealAt } from '../utils/spoilers';
+import { GiftExchangeService } from '../services/GiftExchangeService';
+import { SessionService } from '../services/SessionService';
+import { getWishlistRole, hasPermission, isRecipient } from './wishlistAccess';
+import { ACCESS_COOKIE, parseCookieHeader } from './authCookies';
+
+interface UserPayload {
+    id: string;
+    email: string;
+}
+
+type Audience = 'owner' | 'viewer';
+
+// Everyone watching a wishlist (used for presence counts and public events like hype)
+export const wishlistRoom = (wishlistId: string) => `wishlist:${wishlistId}`;
+
+// Audience-specific rooms so the owner and co-owners can receive a redacted copy of each event
+const audienceRoom = (wishlistId: string, audience: Audience) => `audience:${audience}:${wishlistId}`;
+
+// The owner's and co-owners' sockets regardless of spoiler state (guestbook moderation events)
+export const wishlistOwnerRoom = (wishlistId: string) => `owner:${wishlistId}`;
+
+// Every socket of a signed-in user, on any page (notifications)
+export const userRoom = (userId: string) => `user:${userId}`;
+
+// setTimeout can't wait longer than ~24.8 days; later reveals are re-checked at that point
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Per-socket timers that move owner sockets to the viewer audience when spoilers are revealed
+const revealTimers = (socket: Socket): Map<string, NodeJS.Timeout> =>
+    (socket.data.revealTimers ??= new Map());
+
+const clearRevealTimer = (socket: Socket, wishlistId: string) => {
+    const timers = revealTimers(socket);
+    clearTimeout(timers.get(wishlistId));
+    timers.delete(wishlistId);
+};
+
+/** Stop a disconnecting socket's reveal timers so they don't keep it alive */
+export const clearRevealTimers = (socket: Socket) => {
+    const timers = revealTimers(socket);
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+};
+
+/**
+ * Socket.io handshake middleware — decodes the JWT passed in `auth.token`
+ * or the HttpOnly access cookie sent with the handshake.
+ * Like optionalAuth, guests are allowed through with no user attached.
+ */
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void) => {
+    const token = socket.handshake.auth?.token
+        || parseCookieHeader(socket.handshake.headers.cookie, ACCESS_COOKIE);
+
+    try {
+        // Invalid or revoked token — treat as guest, don't reject the connection
+        socket.data.user = typeof token === 'string' && token.length > 0
+            ? (await SessionService.verifyAccessToken(token)) ?? undefined
+            : undefined;
+    } catch (error) {
+        console.error('Socket auth error:', error);
+        socket.data.user = undefined;
+    }
+
+    next();
+};
+
+/**
+ * Join a socket to a wishlist's rooms after checking it may view the list.
+ * Returns false when the wishlist doesn't exist or is private to someone else.
+ */
+export const joinWishlistRooms = async (socket: Socket, wishlistId: string) => {
+    const wishlist = await prisma.wishlist.findUnique({
+        where: { id: wishlistId },
+        select: { id: true, ownerId: true, isPublic: true, eventDate: true, revealAfterEvent: true },
+    });
+
+    if (!wishlist) return false;
+
+    const user = socket.data.user as UserPayload | undefined;
+    const role = await getWishlistRole(wishlist, user?.id);
+
+    if (!wishlist.isPublic && !role
+        && !(user && await GiftExchangeService.isSecretSantaFor(user.id, wishlistId))) {
+        return false;
+    }
+
+    // Once the occasion has been revealed owners get the same events as viewers
+    const audience: Audience = isRecipient(role) && !isSpoilerRevealed(wishlist) ? 'owner' : 'viewer';
+
+    socket.join(wishlistRoom(wishlistId));
+    socket.join(audienceRoom(wishlistId, audience));
+    if (hasPermission(role, 'manage')) socket.join(wishlistOwnerRoom(wishlistId));
+
+    clearRevealTimer(socket, wishlistId);
+    const revealAt = spoilerRevealAt(wishlist);
+    if (audience === 'owner' && revealAt) {
+        const delay = Math.min(Math.max(revealAt.getTime() - Date.now(), 0), MAX_TIMER_MS);
+        revealTimers(socket).set(wishlistId, setTimeout(() => {
+            refreshSocketRooms(socket, wishlistId).catch(error => console.error('Spoiler reveal refresh error:', error));
+        }, delay));
+    }
+    return true;
+};
+
+export const leaveWishlistRooms = (socket: Socket, wishlistId: string) => {
+    clearRevealTimer(socket, wishlistId);
+    socket.leave(wishlistRoom(wishlistId));
+    socket.leave(audienceRoom(wishlistId, 'owner'));
+    socket.leave(audienceRoom(wishlistId, 'viewer'));
+    socket.leave(wishlistOwnerRoom(wishlistId));
+};
+
+// The rooms a socket is in for one wishlist, to tell whether a re-join changed its audience
+const roomsFor = (socket: Socket, wishlistId: string) => [
+    wishlistRoom(wishlistId),
+    audienceRoom(wishlistId, 'owner'),
+    audienceRoom(wishlistId, 'viewer'),
+    wishlistOwnerRoom(wishlistId),
+].filter(room => socket.rooms.has(room)).join(',');
+
+/**
+ * Re-run the access check for a socket already watching a wishlist.
+ * Sockets that lost access get `join_denied`; sockets whose audience
+ * changed get WISHLIST_ACCESS_CHANGED so the page refetches what it may see.
+ */
+const refreshSocketRooms = async (socket: Socket, wishlistId: string) => {
+    if (!socket.connected) return;
+
+    const before = roomsFor(socket, wishlistId);
+    leaveWishlistRooms(socket, wishlistId);
+    if (!await joinWishlistRooms(socket, wishlistId)) {
+        socket.emit('join_denied', { wishlistId });
+        return;
+    }
+    if (roomsFor(socket, wishlistId) !== before) {
+        socket.emit(`wishlist:${wishlistId}`, { type: 'WISHLIST_ACCESS_CHANGED', wishlistId });
+    }
+};
+
+/**
+ * Re-evaluate the audience of every socket watching a wishlist (or only
+ * `userId`'s sockets) after its reveal settings, visibility or a
+ * collaborator's role changed. Failures are logged, not thrown.
+ */
+export const refreshWishlistRooms = async (io: Server | undefined, wishlistId: string, userId?: string) => {
+    if (!io) return;
+
+    const socketIds = [...(io.sockets.adapter.rooms.get(wishlistRoom(wishlistId)) ?? [])];
+    for (const socketId of socketIds) {
+        const socket = io.sockets.sockets.get(socketId);
+        if (!socket || (userId && socket.data.user?.id !== userId)) continue;
+        try {
+            await refreshSocketRooms(socket, wishlistId);
+        } catch (error) {
+            console.error('Refresh wishlist rooms error:', error);
+        }
+    }
+};
+
+/**
+ * Broadcast a `wishlist:<id>` event to the sockets that joined that wishlist.
+ * Viewers get the full payload; the owner gets `ownerPayload` instead,
+ * or nothing at all when it is null (e.g. reservations and contributions).
+ */
+export const emitWishlistEvent = (
+    io: Server | undefined,
+    wishlistId: string,
+    payload: Record<string, unknown>,
+    ownerPayload: Record<string, unknown> | null = payload
+) => {
+    if (!io) return;
+
+    const eventName = `wishlist:${wishlistId}`;
+    io.to(audienceRoom(wishlistId, 'viewer')).emit(eventName, payload);
+
+    if (ownerPayload) {
+        io.to(audienceRoom(wishlistId, 'owner')).emit(eventName, ownerPayload);
+    }
+};
@@ -0,0 +1,98 @@
+// Domain adapters — store-specific selectors for retailers that ship little or no structured data
+
+import type { DomainAdapter } from './types';
+import { absoluteUrl, cleanText, parseAvailability, parseCurrency, parsePrice } from './normalize';
+
+const hostMatches = (hostname: string, domains: string[]) => domains.some(domain => {
+    const host = hostname.toLowerCase().replace(/^www\./, '');
+    return host === domain || host.startsWith(`${domain}.`) || host.endsWith(`.${domain}`);
+});
+
+/**
+ * Amazon (all regional storefronts). No JSON-LD; the landing image carries
+ * every resolution as JSON in data-a-dynamic-image.
+ */
+export const amazonAdapter: DomainAdapter = {
+    name: 'amazon',
+    matches: hostname => hostMatches(hostname, ['amazon']),
+    extract({ $, url }) {
+        const rawPrice = $('#corePrice_feature_div .a-offscreen, #corePriceDisplay_desktop_feature_div .a-offscreen, .a-price .a-offscreen').first().text()
+            || $('#priceblock_ourprice, #priceblock_dealprice').first().text();
+
+        let images: string[] = [];
+        const dynamicImages = $('#landingImage').attr('data-a-dynamic-image');
+        if (dynamicImages) {
+            try {
+                images = Object.keys(JSON.parse(dynamicImages));
+            } catch {
+                // Fall back to the plain src below
+            }
+        }
+        const landing = absoluteUrl($('#landingImage').attr('data-old-hires') || $('#landingImage').attr('src'), url);
+        if (landing) images.unshift(landing);
+
+        const availabilityText = cleanText($('#availability').text())?.toLowerCase();
+        return {
+            title: cleanText($('#productTitle').text()),
+            images,
+            price: parsePrice(rawPrice),
+            currency: parseCurrency(rawPrice),
+            brand: cleanText($('#bylineInfo').text())?.replace(/^(visit the|brand:)\s*/i, '').replace(/\s*store$/i, ''),
+            availability: availabilityText
+                ? (availabilityText.includes('in stock') ? 'in_stock' : availabilityText.includes('unavailable') ? 'out_of_stock' : undefined)
+                : undefined,
+        };
+    },
+};
+
+/** eBay listing pages (ebay.com, ebay.co.uk, ebay.de, ...) */
+export const ebayAdapter: DomainAdapter = {
+    name: 'ebay',
+    matches: hostname => hostMatches(hostname, ['ebay']),
+    extract({ $, url }) {
+        const priceElement = $('.x-price-primary [itemprop="price"], .x-price-primary').first();
+        const rawPrice = priceElement.attr('content') || priceElement.text();
+        const currency = $('.x-price-primary [itemprop="priceCurrency"]').attr('content');
+
+        const images = $('.ux-image-carousel-item img')
+            .map((_, el) => absoluteUrl($(el).attr('data-zoom-src') || $(el).attr('src'), url))
+            .get()
+            .filter((image): image is string => Boolean(image));
+
+        return {
+            title: cleanText($('h1.x-item-title__mainTitle').text()),
+            images,
+            price: parsePrice(rawPrice),
+            currency: parseCurrency(currency) ?? parseCurrency(priceElement.text()),
+            availability: parseAvailability($('[itemprop="availability"]').attr('content')),
+        };
+    },
+};
+
+/**
+ * Shopify storefronts on *.myshopify.com embed the product as JSON. Stores on
+ * their own domain are still covered by their OpenGraph/JSON-LD tags.
+ */
+export const shopifyAdapter: DomainAdapter = {
+    name: 'shopify',
+    matches: hostname => hostMatches(hostname, ['myshopify.com']),
+    extract({ $ }) {
+        const raw = $('script#ProductJson-product-template, script[data-product-json]').first().text();
+        if (!raw) return {};
+        try {
+            const product = JSON.parse(raw);
+            const variant = product.variants?.[0];
+            return {
+                title: cleanText(product.title),
+                brand: cleanText(product.vendor),
+                // Shopify product JSON prices are in cents
+                price: typeof variant?.price === 'number' ? variant.price / 100 : parsePrice(variant?.price),
+                availability: variant ? (variant.available ? 'in_stock' : 'out_of_stock') : undefined,
+            };
+        } catch {
+            return {};
+        }
+    },
+};
+
+export const DOMAIN_ADAPTERS: DomainAdapter[] = [amazonAdapter, ebayAdapter, shopifyAdapter];
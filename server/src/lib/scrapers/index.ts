@@ -0,0 +1,74 @@
+// Product preview pipeline — runs domain adapters, then structured data, then meta tags, and merges the results
+
+import * as cheerio from 'cheerio';
+import type { Extractor, ExtractedFields, ProductPreview } from './types';
+import { DOMAIN_ADAPTERS } from './adapters';
+import { jsonLdExtractor } from './jsonLd';
+import { microdataExtractor } from './microdata';
+import { htmlFallbackExtractor, openGraphExtractor, twitterCardExtractor } from './metaTags';
+
+export type { Availability, DomainAdapter, Extractor, ProductPreview } from './types';
+
+// Most to least trustworthy; earlier extractors win per field
+const GENERIC_EXTRACTORS: Extractor[] = [
+    jsonLdExtractor,
+    microdataExtractor,
+    openGraphExtractor,
+    twitterCardExtractor,
+    htmlFallbackExtractor,
+];
+
+const MAX_IMAGES = 8;
+
+const SCALAR_FIELDS = ['title', 'description', 'availability', 'brand'] as const;
+
+/**
+ * Extract a product preview from a fetched HTML page.
+ * Pure function of (html, url) so it can run against saved pages offline.
+ */
+export const extractProduct = (html: string, pageUrl: string): ProductPreview => {
+    const url = new URL(pageUrl);
+    const $ = cheerio.load(html);
+    const extractors = [...DOMAIN_ADAPTERS.filter(adapter => adapter.matches(url.hostname)), ...GENERIC_EXTRACTORS];
+
+    const preview: ProductPreview = { url: url.toString(), images: [], sources: [] };
+    for (const extractor of extractors) {
+        let fields: ExtractedFields;
+        try {
+            fields = extractor.extract({ $, url });
+        } catch (error) {
+            // One broken extractor (e.g. a store redesign) shouldn't sink the preview
+            console.error(`Extractor ${extractor.name} failed for ${url.hostname}:`, error);
+            continue;
+        }
+
+        let contributed = false;
+        for (const field of SCALAR_FIELDS) {
+            if (preview[field] === undefined && fields[field] !== undefined) {
+                Object.assign(preview, { [field]: fields[field] });
+                contributed = true;
+            }
+        }
+        // Price and currency come from the same source when it has both
+        if (preview.price === undefined && fields.price !== undefined) {
+            preview.price = fields.price;
+            preview.currency = fields.currency ?? preview.currency;
+            contributed = true;
+        } else if (preview.currency === undefined && fields.currency !== undefined) {
+            preview.currency = fields.currency;
+            contributed = true;
+        }
+        for (const image of fields.images ?? []) {
+            if (!preview.images.includes(image) && preview.images.length < MAX_IMAGES) {
+                preview.images.push(image);
+                contributed = true;
+            }
+        }
+        if (contributed) preview.sources.push(extractor.name);
+    }
+
+    // A currency on its own means nothing to the client
+    if (preview.price === undefined) delete preview.currency;
+
+    return preview;
+};
@@ -0,0 +1,86 @@
+// JSON-LD extractor — schema.org Product / Offer / AggregateOffer blocks
+
+import type { ExtractedFields, Extractor } from './types';
+import { absoluteUrl, cleanText, parseAvailability, parseCurrency, parsePrice } from './normalize';
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const hasType = (node: JsonObject, type: string) => asArray(node['@type']).some(t => typeof t === 'string' && t.toLowerCase() === type.toLowerCase());
+
+/** Walk nested @graph arrays, lists and ProductGroup variants (hasVariant) to find every Product node */
+const collectProducts = (value: unknown, found: JsonObject[] = [], depth = 0): JsonObject[] => {
+    if (depth > 6) return found;
+    for (const node of asArray(value)) {
+        if (!isObject(node)) continue;
+        if (hasType(node, 'Product')) found.push(node);
+        for (const key of ['@graph', 'mainEntity', 'itemListElement', 'item', 'hasVariant']) {
+            if (node[key] !== undefined) collectProducts(node[key], found, depth + 1);
+        }
+    }
+    return found;
+};
+
+/** Offers may be a single Offer, a list, an AggregateOffer, or carry a priceSpecification */
+const readOffer = (offers: unknown): ExtractedFields => {
+    for (const offer of asArray(offers)) {
+        if (!isObject(offer)) continue;
+        const specification = asArray(offer.priceSpecification).find(isObject);
+        const price = parsePrice(offer.price ?? offer.lowPrice ?? specification?.price);
+        if (price === undefined) continue;
+        return {
+            price,
+            currency: parseCurrency(offer.priceCurrency ?? specification?.priceCurrency),
+            availability: parseAvailability(offer.availability),
+        };
+    }
+    return {};
+};
+
+const readImages = (image: unknown, base: URL) => asArray(image)
+    .map(entry => (isObject(entry) ? entry.url ?? entry.contentUrl : entry))
+    .map(entry => absoluteUrl(entry, base))
+    .filter((entry): entry is string => Boolean(entry));
+
+const readBrand = (brand: unknown) => cleanText(isObject(brand) ? brand.name : asArray(brand)[0]);
+
+/** Stores often emit invalid JSON (trailing commas, raw newlines in strings); try a lenient second pass */
+const parseJson = (raw: string) => {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        try {
+            return JSON.parse(raw.replace(/,\s*([}\]])/g, '$1').replace(/[\r\n\t]+/g, ' '));
+        } catch {
+            return null;
+        }
+    }
+};
+
+export const jsonLdExtractor: Extractor = {
+    name: 'json-ld',
+    extract({ $, url }) {
+        const products: JsonObject[] = [];
+        $('script[type="application/ld+json"]').each((_, element) => {
+            collectProducts(parseJson($(element).text()), products);
+        });
+
+        const product = products[0];
+        if (!product) return {};
+
+        // Prefer the first Product that actually has a price (listing pages put several on one page)
+        const priced = products.find(candidate => readOffer(candidate.offers).price !== undefined);
+        const offer = readOffer((priced ?? product).offers);
+
+        return {
+            title: cleanText(product.name),
+            description: cleanText(product.description),
+            images: readImages(product.image, url),
+            brand: readBrand(product.brand),
+            ...offer,
+        };
+    },
+};
@@ -0,0 +1,67 @@
+// Meta tag extractors — OpenGraph (incl. product:* tags), Twitter cards and the plain HTML fallback
+
+import type { CheerioAPI } from 'cheerio';
+import type { Extractor } from './types';
+import { absoluteUrl, cleanText, parseAvailability, parseCurrency, parsePrice } from './normalize';
+
+// Sites mix property= and name= for the same tags
+const meta = ($: CheerioAPI, key: string) => $(`meta[property="${key}"], meta[name="${key}"]`).first().attr('content');
+
+const metaAll = ($: CheerioAPI, key: string) => $(`meta[property="${key}"], meta[name="${key}"]`)
+    .map((_, el) => $(el).attr('content'))
+    .get();
+
+export const openGraphExtractor: Extractor = {
+    name: 'opengraph',
+    extract({ $, url }) {
+        const rawPrice = meta($, 'product:price:amount') ?? meta($, 'og:price:amount');
+        return {
+            title: cleanText(meta($, 'og:title')),
+            description: cleanText(meta($, 'og:description')),
+            images: [...metaAll($, 'og:image'), ...metaAll($, 'og:image:secure_url')]
+                .map(image => absoluteUrl(image, url))
+                .filter((image): image is string => Boolean(image)),
+            price: parsePrice(rawPrice),
+            currency: parseCurrency(meta($, 'product:price:currency') ?? meta($, 'og:price:currency')) ?? parseCurrency(rawPrice),
+            availability: parseAvailability(meta($, 'product:availability') ?? meta($, 'og:availability')),
+            brand: cleanText(meta($, 'product:brand') ?? meta($, 'og:brand')),
+        };
+    },
+};
+
+/**
+ * Twitter product cards put the price in a labelled data slot
+ * (twitter:label1="Price", twitter:data1="$24.99").
+ */
+export const twitterCardExtractor: Extractor = {
+    name: 'twitter',
+    extract({ $, url }) {
+        let rawPrice: string | undefined;
+        for (const slot of [1, 2]) {
+            const label = meta($, `twitter:label${slot}`)?.toLowerCase();
+            if (label?.includes('price')) rawPrice = meta($, `twitter:data${slot}`);
+        }
+
+        const image = absoluteUrl(meta($, 'twitter:image') ?? meta($, 'twitter:image:src'), url);
+        return {
+            title: cleanText(meta($, 'twitter:title')),
+            description: cleanText(meta($, 'twitter:description')),
+            images: image ? [image] : [],
+            price: parsePrice(rawPrice),
+            currency: parseCurrency(rawPrice),
+        };
+    },
+};
+
+/** Last resort: <title>, meta description and the apple-touch/link image */
+export const htmlFallbackExtractor: Extractor = {
+    name: 'html',
+    extract({ $, url }) {
+        const image = absoluteUrl($('link[rel="image_src"]').attr('href'), url);
+        return {
+            title: cleanText($('title').first().text()),
+            description: cleanText(meta($, 'description')),
+            images: image ? [image] : [],
+        };
+    },
+};
@@ -0,0 +1,43 @@
+// Microdata extractor — itemscope/itemprop markup for schema.org Product and Offer
+
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import type { Extractor } from './types';
+import { absoluteUrl, cleanText, parseAvailability, parseCurrency, parsePrice } from './normalize';
+
+/** An itemprop's value per the microdata spec: content/href/src attributes before text */
+const propValue = ($: CheerioAPI, scope: Cheerio<Element>, prop: string) => {
+    // Skip properties that belong to a nested itemscope (e.g. the brand's own name)
+    const element = scope.find(`[itemprop~="${prop}"]`).filter((_, el) => $(el).parents('[itemscope]').first().is(scope)).first();
+    if (!element.length) return undefined;
+    return element.attr('content') ?? element.attr('href') ?? element.attr('src') ?? element.attr('datetime') ?? element.text();
+};
+
+export const microdataExtractor: Extractor = {
+    name: 'microdata',
+    extract({ $, url }) {
+        const product = $('[itemscope][itemtype*="schema.org/Product"]').first();
+        if (!product.length) return {};
+
+        const offer = product.find('[itemprop~="offers"][itemscope]').first();
+        const offerScope = offer.length ? offer : product;
+        const brandScope = product.find('[itemprop~="brand"][itemscope]').first();
+
+        const images = product.find('[itemprop~="image"]')
+            .map((_, el) => absoluteUrl($(el).attr('src') ?? $(el).attr('content') ?? $(el).attr('href'), url))
+            .get()
+            .filter((image): image is string => Boolean(image));
+
+        const rawPrice = propValue($, offerScope, 'price') ?? propValue($, offerScope, 'lowPrice');
+
+        return {
+            title: cleanText(propValue($, product, 'name')),
+            description: cleanText(propValue($, product, 'description')),
+            images,
+            brand: cleanText(brandScope.length ? propValue($, brandScope, 'name') : propValue($, product, 'brand')),
+            price: parsePrice(rawPrice),
+            currency: parseCurrency(propValue($, offerScope, 'priceCurrency')) ?? parseCurrency(rawPrice),
+            availability: parseAvailability(propValue($, offerScope, 'availability')),
+        };
+    },
+};
@@ -0,0 +1,92 @@
+// Scraper value normalization — prices, currencies, availability and URLs as stores write them
+
+import type { Availability } from './types';
+
+// Unambiguous symbols only; "$" alone defaults to USD unless a prefix says otherwise
+const CURRENCY_SYMBOLS: [string, string][] = [
+    ['US$', 'USD'],
+    ['CA$', 'CAD'],
+    ['C$', 'CAD'],
+    ['A$', 'AUD'],
+    ['AU$', 'AUD'],
+    ['NZ$', 'NZD'],
+    ['HK$', 'HKD'],
+    ['S$', 'SGD'],
+    ['R$', 'BRL'],
+    ['€', 'EUR'],
+    ['£', 'GBP'],
+    ['¥', 'JPY'],
+    ['₹', 'INR'],
+    ['₩', 'KRW'],
+    ['zł', 'PLN'],
+    ['kr', 'SEK'],
+    ['CHF', 'CHF'],
+    ['$', 'USD'],
+];
+
+const trimmed = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/** First non-empty string, with whitespace collapsed */
+export const cleanText = (value: unknown) => {
+    const text = trimmed(value).replace(/\s+/g, ' ');
+    return text || undefined;
+};
+
+/** ISO 4217 code from an explicit code ("eur") or a symbol in a price string ("€12,99") */
+export const parseCurrency = (value: unknown) => {
+    const text = trimmed(value);
+    if (!text) return undefined;
+
+    const code = text.match(/\b([A-Za-z]{3})\b/)?.[1];
+    if (code && text.length === 3) return code.toUpperCase();
+
+    for (const [symbol, iso] of CURRENCY_SYMBOLS) {
+        if (text.includes(symbol)) return iso;
+    }
+    return code?.toUpperCase();
+};
+
+/**
+ * Parse "1,299.99", "1.299,99 €", "$ 24" or 24.5 into a number.
+ * The last separator followed by exactly two digits is taken as the decimal point.
+ */
+export const parsePrice = (value: unknown) => {
+    if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : undefined;
+
+    const text = trimmed(value);
+    const numeric = text.match(/\d[\d.,\s]*/)?.[0].replace(/\s/g, '');
+    if (!numeric) return undefined;
+
+    const decimalMatch = numeric.match(/[.,](\d{1,2})$/);
+    const integerPart = decimalMatch ? numeric.slice(0, -decimalMatch[0].length) : numeric;
+    const normalized = `${integerPart.replace(/[.,]/g, '')}${decimalMatch ? `.${decimalMatch[1]}` : ''}`;
+
+    const price = Number(normalized);
+    return Number.isFinite(price) && price > 0 ? price : undefined;
+};
+
+/** Map schema.org URLs ("https://schema.org/InStock") and store wording to our availability values */
+export const parseAvailability = (value: unknown): Availability | undefined => {
+    const text = trimmed(value).toLowerCase().replace(/^https?:\/\/schema\.org\//, '').replace(/[\s_-]/g, '');
+    if (!text) return undefined;
+
+    if (['instock', 'limitedavailability', 'instoreonly', 'onlineonly', 'available', 'in'].includes(text)) return 'in_stock';
+    if (['outofstock', 'soldout', 'oos', 'unavailable', 'out'].includes(text)) return 'out_of_stock';
+    if (['preorder', 'presale', 'backorder'].includes(text)) return 'preorder';
+    if (text === 'discontinued') return 'discontinued';
+    if (text.includes('instock') || text.includes('available')) return 'in_stock';
+    if (text.includes('outofstock') || text.includes('unavailable')) return 'out_of_stock';
+    return undefined;
+};
+
+/** Resolve a possibly relative/protocol-relative image URL against the page; drops data: and non-http URLs */
+export const absoluteUrl = (value: unknown, base: URL) => {
+    const text = trimmed(value);
+    if (!text || text.startsWith('data:')) return undefined;
+    try {
+        const resolved = new URL(text, base);
+        return ['http:', 'https:'].includes(resolved.protocol) ? resolved.toString() : undefined;
+    } catch {
+        return undefined;
+    }
+};
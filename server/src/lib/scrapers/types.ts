@@ -0,0 +1,37 @@
+// Scraper types — shared shapes for the product preview extractor pipeline
+
+import type { CheerioAPI } from 'cheerio';
+
+export type Availability = 'in_stock' | 'out_of_stock' | 'preorder' | 'discontinued';
+
+/** Everything a preview can tell us about a product page */
+export interface ProductPreview {
+    url: string;
+    title?: string;
+    description?: string;
+    images: string[];
+    price?: number;
+    currency?: string;
+    availability?: Availability;
+    brand?: string;
+    // Names of the extractors that contributed, in priority order (handy when debugging a store)
+    sources: string[];
+}
+
+/** What a single extractor found; missing fields are filled by lower-priority extractors */
+export type ExtractedFields = Partial<Omit<ProductPreview, 'url' | 'sources'>>;
+
+export interface ExtractorContext {
+    $: CheerioAPI;
+    url: URL;
+}
+
+export interface Extractor {
+    name: string;
+    extract(context: ExtractorContext): ExtractedFields;
+}
+
+/** Store-specific extractor, only run for matching hostnames */
+export interface DomainAdapter extends Extractor {
+    matches(hostname: string): boolean;
+}
@@ -0,0 +1,131 @@
+// Share cards — Open Graph images and unfurl pages for Wrapped reports
+
+import sharp from 'sharp';
+import { formatMoney } from './currency';
+
+// Standard Open Graph image size (what chat apps and social sites crop to)
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+export interface ShareCardReport {
+    userName: string;
+    level: number;
+    period: { key: string; label: string };
+    stats: {
+        currency: string;
+        totalItems: number;
+        totalValue: number;
+        fulfillmentRate: number;
+        mostHyped: { title: string; hypeCount: number } | null;
+        topGifter: { name: string; giftCount: number } | null;
+        busiestMonth: { label: string; itemCount: number } | null;
+        haulAverageRating: number | null;
+    };
+}
+
+// Read lazily so values from .env (loaded after imports) apply
+const settings = () => ({
+    // Where the API is reachable from outside (crawlers need absolute image URLs)
+    publicApiUrl: (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/$/, ''),
+    // First CLIENT_URL origin; people following a shared link land there
+    clientUrl: (process.env.CLIENT_URL || 'http://localhost:5173').split(',')[0].trim().replace(/\/$/, ''),
+});
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const truncate = (value: string, max: number) => (value.length > max ? `${value.slice(0, max - 1)}…` : value);
+
+export const wrappedShareUrls = (userId: string, periodKey: string) => {
+    const { publicApiUrl, clientUrl } = settings();
+    const query = periodKey === 'all' ? '' : `?period=${encodeURIComponent(periodKey)}`;
+    const base = `${publicApiUrl}/api/wrapped/${encodeURIComponent(userId)}`;
+    return {
+        share: `${base}/share${query}`,
+        png: `${base}/card.png${query}`,
+        svg: `${base}/card.svg${query}`,
+        app: `${clientUrl}/wrapped/${encodeURIComponent(userId)}${query}`,
+    };
+};
+
+/** The headline facts, shared by the card and the unfurl description */
+const highlights = ({ stats }: ShareCardReport) => {
+    const lines = [
+        `${stats.totalItems} ${stats.totalItems === 1 ? 'wish' : 'wishes'} worth ${formatMoney(stats.totalValue, stats.currency)}`,
+        `${stats.fulfillmentRate}% fulfilled`,
+    ];
+    if (stats.mostHyped && stats.mostHyped.hypeCount > 0) {
+        lines.push(`Most hyped: ${truncate(stats.mostHyped.title, 40)} (${stats.mostHyped.hypeCount})`);
+    }
+    if (stats.busiestMonth) lines.push(`Busiest month: ${stats.busiestMonth.label}`);
+    if (stats.topGifter) lines.push(`Top gifter: ${truncate(stats.topGifter.name, 30)}`);
+    if (stats.haulAverageRating !== null) lines.push(`Hauls rated ${stats.haulAverageRating} / 5 on average`);
+    return lines;
+};
+
+export const renderWrappedSvg = (report: ShareCardReport) => {
+    const rows = highlights(report).slice(0, 5).map((line, index) => (
+        `<text x="80" y="${300 + index * 58}" font-size="34" fill="#f4f4f5">${escapeXml(line)}</text>`
+    )).join('\n    ');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="Helvetica, Arial, sans-serif">
+    <defs>
+        <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+            <stop offset="0" stop-color="#4c1d95"/>
+            <stop offset="1" stop-color="#be185d"/>
+        </linearGradient>
+    </defs>
+    <rect width="${WIDTH}" height="${HEIGHT}" fill="url(#bg)"/>
+    <circle cx="1080" cy="90" r="220" fill="#ffffff" fill-opacity="0.06"/>
+    <circle cx="1150" cy="560" r="160" fill="#ffffff" fill-opacity="0.05"/>
+    <text x="80" y="110" font-size="28" fill="#f9a8d4" letter-spacing="4">GIFT WRAPPED · ${escapeXml(report.period.label.toUpperCase())}</text>
+    <text x="80" y="190" font-size="64" font-weight="bold" fill="#ffffff">${escapeXml(truncate(report.userName || 'Someone', 28))}</text>
+    <text x="80" y="236" font-size="26" fill="#e9d5ff">Level ${report.level}</text>
+    ${rows}
+    <text x="${WIDTH - 80}" y="${HEIGHT - 50}" font-size="28" font-weight="bold" fill="#ffffff" text-anchor="end">giftly</text>
+</svg>`;
+};
+
+export const renderWrappedPng = (report: ShareCardReport) => sharp(Buffer.from(renderWrappedSvg(report))).png().toBuffer();
+
+/**
+ * Tiny HTML page for the stable share URL: Open Graph and Twitter tags so
+ * the link unfurls with the card, then a redirect to the app for people.
+ */
+export const renderWrappedSharePage = (userId: string, report: ShareCardReport) => {
+    const urls = wrappedShareUrls(userId, report.period.key);
+    const title = escapeXml(`${report.userName || 'Someone'}'s Gift Wrapped · ${report.period.label}`);
+    const description = escapeXml(highlights(report).slice(0, 3).join(' · '));
+    const app = escapeXml(urls.app);
+
+    return `<!doctype html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>${title}</title>
+    <meta name="description" content="${description}">
+    <meta property="og:type" content="website">
+    <meta property="og:site_name" content="Giftly">
+    <meta property="og:title" content="${title}">
+    <meta property="og:description" content="${description}">
+    <meta property="og:url" content="${escapeXml(urls.share)}">
+    <meta property="og:image" content="${escapeXml(urls.png)}">
+    <meta property="og:image:type" content="image/png">
+    <meta property="og:image:width" content="${WIDTH}">
+    <meta property="og:image:height" content="${HEIGHT}">
+    <meta name="twitter:card" content="summary_large_image">
+    <meta name="twitter:title" content="${title}">
+    <meta name="twitter:description" content="${description}">
+    <meta name="twitter:image" content="${escapeXml(urls.png)}">
+    <link rel="canonical" href="${escapeXml(urls.share)}">
+    <meta http-equiv="refresh" content="0; url=${app}">
+</head>
+<body>
+    <p><a href="${app}">See ${title}</a></p>
+</body>
+</html>`;
+};
@@ -0,0 +1,110 @@
+// File storage — local disk for development, S3-compatible object storage (AWS, MinIO, R2) for production
+
+import fs from 'fs/promises';
+import path from 'path';
+import { DeleteObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+export interface StoredObject {
+    key: string;
+    url: string;
+}
+
+export interface StorageBackend {
+    put(key: string, body: Buffer, contentType: string): Promise<StoredObject>;
+    delete(key: string): Promise<void>;
+}
+
+const trimSlash = (value: string) => value.replace(/\/+$/, '');
+
+/**
+ * Writes files under UPLOAD_DIR (default ./uploads). The API serves that
+ * directory at /uploads; UPLOAD_PUBLIC_URL is the absolute base the
+ * browser should use for it.
+ */
+export class LocalDiskStorage implements StorageBackend {
+    constructor(
+        readonly directory = process.env.UPLOAD_DIR || path.resolve(process.cwd(), 'uploads'),
+        private readonly publicUrl = process.env.UPLOAD_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}/uploads`,
+    ) { }
+
+    private resolve(key: string) {
+        const file = path.resolve(this.directory, key);
+        // Keys are generated server-side, but never let one escape the upload dir
+        if (!file.startsWith(path.resolve(this.directory) + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return file;
+    }
+
+    async put(key: string, body: Buffer) {
+        const file = this.resolve(key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, body);
+        return { key, url: `${trimSlash(this.publicUrl)}/${key}` };
+    }
+
+    async delete(key: string) {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+}
+
+/**
+ * S3-compatible bucket. Configured with S3_BUCKET, S3_REGION, S3_ENDPOINT
+ * (for MinIO/R2/a local stand-in), S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY,
+ * S3_FORCE_PATH_STYLE and S3_PUBLIC_URL (CDN or bucket URL objects are served from).
+ */
+export class S3Storage implements StorageBackend {
+    private readonly client: S3Client;
+    private readonly bucket: string;
+    private readonly publicUrl: string;
+
+    constructor() {
+        const bucket = process.env.S3_BUCKET;
+        if (!bucket) throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+
+        const endpoint = process.env.S3_ENDPOINT;
+        this.bucket = bucket;
+        this.client = new S3Client({
+            region: process.env.S3_REGION || 'us-east-1',
+            endpoint,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : Boolean(endpoint),
+            credentials: process.env.S3_ACCESS_KEY_ID
+                ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '' }
+                : undefined,
+        });
+        this.publicUrl = process.env.S3_PUBLIC_URL
+            || (endpoint ? `${trimSlash(endpoint)}/${bucket}` : `https://${bucket}.s3.amazonaws.com`);
+    }
+
+    async put(key: string, body: Buffer, contentType: string) {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: contentType,
+            // Keys are random UUIDs, so an object never changes once written
+            CacheControl: 'public, max-age=31536000, immutable',
+        }));
+        return { key, url: `${trimSlash(this.publicUrl)}/${key}` };
+    }
+
+    async delete(key: string) {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    }
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Backend selected by STORAGE_DRIVER (local | s3), local by default.
+ */
+export const getStorage = (): StorageBackend => {
+    if (storage) return storage;
+    storage = process.env.STORAGE_DRIVER === 's3' ? new S3Storage() : new LocalDiskStorage();
+    return storage;
+};
+
+/** Swap the backend (e.g. a LocalDiskStorage pointed at a temp dir in tests) */
+export const setStorage = (next: StorageBackend | null) => {
+    storage = next;
+};
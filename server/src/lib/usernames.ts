@@ -0,0 +1,23 @@
+// Usernames — rules for the vanity handles in public profile URLs (/u/:username)
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+// Stored lowercase, so uniqueness is case-insensitive
+export const USERNAME_PATTERN = /^[a-z0-9_]+$/;
+
+// Handles that would read like app pages or staff accounts.
+// The username backfill migration (20261020010000) repeats this list.
+const RESERVED_USERNAMES = new Set([
+    'admin', 'api', 'giftly', 'help', 'me', 'moderator', 'profile', 'root',
+    'settings', 'staff', 'support', 'system', 'wishlist', 'wrapped',
+]);
+
+export const isReservedUsername = (username: string) => RESERVED_USERNAMES.has(username);
+
+/** Best-effort handle from a display name ("Zoë O'Brien" -> "zoeobrien"); may be too short to use */
+export const usernameFromName = (name: string) => name
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '')
+    .slice(0, 20);
@@ -0,0 +1,60 @@
+// Web Push — VAPID keys and delivery to the browsers' push services
+
+import type { Agent } from 'https';
+import webpush, { WebPushError } from 'web-push';
+
+export interface PushTarget {
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+}
+
+// What the service worker turns into a system notification
+export interface PushMessage {
+    title: string;
+    body: string;
+    url?: string;
+    // Messages with the same tag replace each other on the device
+    tag?: string;
+}
+
+// Push services drop messages the device hasn't collected within a day
+const TTL_SECONDS = 24 * 60 * 60;
+
+// Read lazily so values from .env (loaded after imports) apply
+const vapid = () => ({
+    publicKey: process.env.VAPID_PUBLIC_KEY || '',
+    privateKey: process.env.VAPID_PRIVATE_KEY || '',
+    subject: process.env.VAPID_SUBJECT || 'mailto:no-reply@giftly.app',
+});
+
+/** Push is off until both VAPID keys are set (`npx web-push generate-vapid-keys`) */
+export const isPushConfigured = () => {
+    const { publicKey, privateKey } = vapid();
+    return Boolean(publicKey && privateKey);
+};
+
+export const getVapidPublicKey = () => (isPushConfigured() ? vapid().publicKey : null);
+
+/**
+ * Send one message, through `agent` when given (to pin the endpoint's
+ * address). Resolves to false when the push service reports the
+ * subscription as gone (404/410) so the caller can forget it; other
+ * failures throw.
+ */
+export const sendPush = async (target: PushTarget, message: PushMessage, agent?: Agent) => {
+    const { publicKey, privateKey, subject } = vapid();
+    try {
+        await webpush.sendNotification(
+            { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+            JSON.stringify(message),
+            { vapidDetails: { subject, publicKey, privateKey }, TTL: TTL_SECONDS, agent }
+        );
+        return true;
+    } catch (error) {
+        if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+            return false;
+        }
+        throw error;
+    }
+};
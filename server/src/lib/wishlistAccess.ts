@@ -0,0 +1,70 @@
+// Wishlist access — what the owner and each collaborator role may do on a wishlist
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+
+export const COLLABORATOR_ROLES = ['co_owner', 'editor', 'viewer'] as const;
+export type CollaboratorRole = typeof COLLABORATOR_ROLES[number];
+export type WishlistRole = 'owner' | CollaboratorRole;
+
+export type WishlistPermission = 'view' | 'edit_items' | 'manage' | 'delete';
+
+// manage = list settings, guestbook moderation and collaborators
+const ROLE_PERMISSIONS: Record<WishlistRole, WishlistPermission[]> = {
+    owner: ['view', 'edit_items', 'manage', 'delete'],
+    co_owner: ['view', 'edit_items', 'manage'],
+    editor: ['view', 'edit_items'],
+    viewer: ['view'],
+};
+
+export const hasPermission = (role: WishlistRole | null, permission: WishlistPermission) =>
+    role !== null && ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * Owners and co-owners are who the list is for: they get the owner's view
+ * with spoiler protection, and can't reserve, contribute to or steal its items.
+ */
+export const isRecipient = (role: WishlistRole | null) => role === 'owner' || role === 'co_owner';
+
+/** The user's role on a wishlist, or null for guests and everyone else */
+export const getWishlistRole = async (
+    wishlist: { id: string; ownerId: string },
+    userId?: string
+): Promise<WishlistRole | null> => {
+    if (!userId) return null;
+    if (wishlist.ownerId === userId) return 'owner';
+
+    const collaborator = await prisma.wishlistCollaborator.findUnique({
+        where: { wishlistId_userId: { wishlistId: wishlist.id, userId } },
+        select: { role: true },
+    });
+    return (collaborator?.role as CollaboratorRole | undefined) ?? null;
+};
+
+/** Prisma filter for the wishlists where the user has `permission` */
+export const wishlistsWhereUserCan = (userId: string, permission: WishlistPermission): Prisma.WishlistWhereInput => {
+    const roles = COLLABORATOR_ROLES.filter(role => ROLE_PERMISSIONS[role].includes(permission));
+    return {
+        OR: [
+            { ownerId: userId },
+            ...(roles.length > 0 ? [{ collaborators: { some: { userId, role: { in: [...roles] } } } }] : []),
+        ],
+    };
+};
+
+/** Prisma filter for the wishlists the user owns or co-owns */
+export const recipientWishlistsWhere = (userId: string): Prisma.WishlistWhereInput => ({
+    OR: [
+        { ownerId: userId },
+        { collaborators: { some: { userId, role: 'co_owner' } } },
+    ],
+});
+
+/** Everyone the list is for: the owner followed by any co-owners */
+export const recipientIds = async (wishlist: { id: string; ownerId: string }) => {
+    const coOwners = await prisma.wishlistCollaborator.findMany({
+        where: { wishlistId: wishlist.id, role: 'co_owner' },
+        select: { userId: true },
+    });
+    return [wishlist.ownerId, ...coOwners.map(({ userId }) => userId)];
+};
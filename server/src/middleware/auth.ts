@@ -1,32 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-
-interface UserPayload {
-    id: string;
-    email: string;
-}
+import { getAccessToken } from '../lib/authCookies';
+import { AccessTokenPayload, SessionService } from '../services/SessionService';
 
 declare global {
     namespace Express {
         interface Request {
-            user?: UserPayload;
+            user?: AccessTokenPayload;
         }
     }
 }
 
-export const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
+    const token = getAccessToken(req);
 
     if (!token) {
         return res.status(401).json({ error: 'Access token required' });
     }
 
-    jwt.verify(token, process.env.JWT_SECRET as string, (err, user) => {
-        if (err) {
-            return res.status(403).json({ error: 'Invalid or expired token' });
-        }
-        req.user = user as UserPayload;
-        next();
-    });
+    const user = await SessionService.verifyAccessToken(token);
+    if (!user) {
+        // 401 (not 403) so the client knows to refresh and retry
+        return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+    req.user = user;
+    next();
 };
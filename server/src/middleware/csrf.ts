@@ -0,0 +1,41 @@
+// CSRF protection for cookie-authenticated mutations
+// Double-submit check: the X-CSRF-Token header must match the HttpOnly CSRF cookie.
+// The client learns the token from the JSON body of login/refresh/me responses.
+
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { ACCESS_COOKIE, REFRESH_COOKIE, getBearerToken, getCsrfCookie } from '../lib/authCookies';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// Refresh is how a reloaded page gets its CSRF token back. A forged refresh only
+// rotates the victim's own cookies and the attacker can't read the response.
+const EXEMPT_PATHS = new Set(['/api/auth/refresh']);
+
+const tokensMatch = (a: string, b: string) => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export const csrfProtection = (req: Request, res: Response, next: NextFunction) => {
+    if (SAFE_METHODS.has(req.method) || EXEMPT_PATHS.has(req.originalUrl.split('?')[0])) return next();
+
+    // Bearer-token clients don't rely on ambient cookies (any other Authorization
+    // scheme still falls back to the cookie), and requests without session
+    // cookies carry no credentials worth forging
+    const usesCookieAuth = !getBearerToken(req)
+        && Boolean(req.cookies?.[ACCESS_COOKIE] || req.cookies?.[REFRESH_COOKIE]);
+    if (!usesCookieAuth) return next();
+
+    const expected = getCsrfCookie(req);
+    const provided = req.headers['x-csrf-token'];
+
+    if (!expected || typeof provided !== 'string' || !tokensMatch(expected, provided)) {
+        return res.status(403).json({
+            error: { code: 'CSRF_TOKEN_INVALID', message: 'Missing or invalid CSRF token', requestId: res.locals.requestId },
+        });
+    }
+
+    next();
+};
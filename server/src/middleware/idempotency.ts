@@ -0,0 +1,99 @@
+// Idempotency keys — a retried mutation (e.g. replayed from the client's offline
+// outbox) gets the first attempt's response instead of being applied twice.
+// Mount after the auth middleware so keys are scoped to the caller.
+
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AppError } from '../utils/errors';
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+// Keys are remembered for a day; an attempt that never finished frees its key after a minute
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const ABANDONED_AFTER_MS = 60 * 1000;
+const PURGE_EVERY_MS = 60 * 60 * 1000;
+
+let lastPurgeAt = 0;
+
+const purgeExpiredKeys = () => {
+    const now = Date.now();
+    if (now - lastPurgeAt < PURGE_EVERY_MS) return;
+    lastPurgeAt = now;
+    prisma.idempotencyKey.deleteMany({ where: { createdAt: { lt: new Date(now - KEY_TTL_MS) } } })
+        .catch(error => console.error('Idempotency key cleanup failed:', error));
+};
+
+// Same key, different request: the client has a bug, and replaying would lie to it
+const fingerprint = (req: Request) => createHash('sha256')
+    .update(`${req.method} ${req.originalUrl}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+
+const keyInUse = () => new AppError(409, 'IDEMPOTENCY_KEY_IN_USE', 'This request is already being processed; retry shortly');
+
+/**
+ * Honour an optional Idempotency-Key header. The first request with a key
+ * runs normally and its response is stored; repeats get that response back
+ * (with Idempotent-Replayed: true). Server errors aren't stored, so a retry
+ * after a 5xx runs again.
+ */
+export const idempotent = async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get('Idempotency-Key');
+    if (!key) return next();
+    if (!KEY_PATTERN.test(key)) {
+        throw new AppError(400, 'INVALID_IDEMPOTENCY_KEY', 'Idempotency-Key must be 8-128 letters, digits, dashes or underscores');
+    }
+
+    purgeExpiredKeys();
+    const scope = req.user?.id ?? 'guest';
+    const requestHash = fingerprint(req);
+
+    let recordId: string;
+    try {
+        ({ id: recordId } = await prisma.idempotencyKey.create({ data: { key, scope, requestHash }, select: { id: true } }));
+    } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+
+        const existing = await prisma.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } });
+        if (!existing) throw keyInUse();
+        if (existing.requestHash !== requestHash) {
+            throw new AppError(422, 'IDEMPOTENCY_KEY_REUSED', 'This Idempotency-Key was already used for a different request');
+        }
+
+        if (existing.statusCode !== null) {
+            res.set('Idempotent-Replayed', 'true').status(existing.statusCode);
+            return existing.response === null ? res.end() : res.json(JSON.parse(existing.response));
+        }
+
+        if (existing.createdAt.getTime() > Date.now() - ABANDONED_AFTER_MS) throw keyInUse();
+
+        // The first attempt died mid-request; take its key over (unless another retry just did)
+        const { count } = await prisma.idempotencyKey.updateMany({
+            where: { id: existing.id, statusCode: null, createdAt: existing.createdAt },
+            data: { createdAt: new Date() },
+        });
+        if (count === 0) throw keyInUse();
+        recordId = existing.id;
+    }
+
+    let body: unknown;
+    const json = res.json.bind(res);
+    res.json = ((value: unknown) => {
+        body = value;
+        return json(value);
+    }) as Response['json'];
+
+    res.on('close', () => {
+        // Server errors and aborted requests free the key so a retry runs again
+        const settle = res.writableFinished && res.statusCode < 500
+            ? prisma.idempotencyKey.update({
+                where: { id: recordId },
+                data: { statusCode: res.statusCode, response: body === undefined ? null : JSON.stringify(body) },
+            })
+            : prisma.idempotencyKey.delete({ where: { id: recordId } });
+        settle.catch(error => console.error('Idempotency key update failed:', error));
+    });
+
+    next();
+};
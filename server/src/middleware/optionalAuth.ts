@@ -3,26 +3,14 @@
 // Sets req.user to the decoded payload or undefined
 
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { getAccessToken } from '../lib/authCookies';
+import { SessionService } from '../services/SessionService';
 
-interface UserPayload {
-    id: string;
-    email: string;
-}
+export const optionalAuth = async (req: Request, _res: Response, next: NextFunction) => {
+    const token = getAccessToken(req);
 
-export const optionalAuth = (req: Request, _res: Response, next: NextFunction) => {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
-
-    if (token) {
-        try {
-            const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as UserPayload;
-            req.user = decoded;
-        } catch {
-            // Invalid token — treat as guest, don't reject
-            req.user = undefined;
-        }
-    }
+    // Invalid or revoked token — treat as guest, don't reject
+    req.user = token ? (await SessionService.verifyAccessToken(token)) ?? undefined : undefined;
 
     next();
 };
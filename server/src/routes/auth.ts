@@ -1,11 +1,19 @@
-// Authentication routes — register, login, me
+// Authentication routes — register, login, cookie sessions, me, account settings, email verification, password reset
 
 import express, { Request, Response } from 'express';
 import prisma from '../lib/prisma';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { authenticateToken } from '../middleware/auth';
 import { z } from 'zod';
+import { isSupportedCurrency } from '../lib/currency';
+import { AccountService } from '../services/AccountService';
+import { SessionService } from '../services/SessionService';
+import { GamificationService } from '../services/GamificationService';
+import { ProfileService } from '../services/ProfileService';
+import { Prisma } from '@prisma/client';
+import { USERNAME_MAX_LENGTH, USERNAME_MIN_LENGTH, USERNAME_PATTERN, isReservedUsername } from '../lib/usernames';
+import { AppError, toAppError } from '../utils/errors';
+import { clearAuthCookies, getCsrfCookie, getRefreshToken, setAuthCookies } from '../lib/authCookies';
 
 const router = express.Router();
 
@@ -16,6 +24,61 @@ const registerSchema = z.object({
     name: z.string().min(1).optional(),
 });
 
+// Public handle for /u/:username, case-insensitive
+const usernameSchema = z.string().trim().toLowerCase()
+    .min(USERNAME_MIN_LENGTH, `Usernames need at least ${USERNAME_MIN_LENGTH} characters`)
+    .max(USERNAME_MAX_LENGTH, `Usernames can be at most ${USERNAME_MAX_LENGTH} characters`)
+    .regex(USERNAME_PATTERN, 'Usernames can only use letters, numbers and underscores')
+    .refine(username => !isReservedUsername(username), 'That username is reserved');
+
+// Validation schema for profile settings and preferences
+const profileSchema = z.object({
+    name: z.string().trim().min(1).max(60).optional(),
+    username: usernameSchema.optional(),
+    avatarUrl: z.string().url().max(2048).nullable().optional(),
+    displayCurrency: z.string().trim().toUpperCase().refine(isSupportedCurrency, 'Unsupported currency').optional(),
+}).refine(data => Object.values(data).some(value => value !== undefined), 'Nothing to update');
+
+const changePasswordSchema = z.object({
+    currentPassword: z.string().min(1),
+    newPassword: z.string().min(6),
+});
+
+const changeEmailSchema = z.object({
+    email: z.string().email(),
+    password: z.string().min(1),
+});
+
+const deleteAccountSchema = z.object({
+    password: z.string().min(1),
+});
+
+// Fields returned for the signed-in user's own profile
+const profileSelect = {
+    id: true,
+    email: true,
+    pendingEmail: true,
+    name: true,
+    username: true,
+    avatarUrl: true,
+    displayCurrency: true,
+    emailVerifiedAt: true,
+    createdAt: true,
+} as const;
+
+const tokenSchema = z.object({
+    token: z.string().min(1),
+});
+
+const forgotPasswordSchema = z.object({
+    email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+    token: z.string().min(1),
+    password: z.string().min(6),
+});
+
 // POST /api/auth/register — create a new account
 router.post('/register', async (req: Request, res: Response) => {
     try {
@@ -29,28 +92,29 @@ router.post('/register', async (req: Request, res: Response) => {
 
         // Hash password and create user
         const hashedPassword = await bcrypt.hash(password, 10);
-        const user = await prisma.user.create({
-            data: {
-                email,
-                name: name || email.split('@')[0], // Default name from email
-                passwordHash: hashedPassword,
-            },
+        const displayName = name || email.split('@')[0]; // Default name from email
+        const user = await ProfileService.createUser({
+            email,
+            name: displayName,
+            passwordHash: hashedPassword,
         });
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { id: user.id, email: user.email },
-            process.env.JWT_SECRET as string,
-            { expiresIn: '7d' }
-        );
+        // Don't block sign-up on mail delivery
+        AccountService.sendVerificationEmail(user.id)
+            .catch(error => console.error('Verification email failed:', error));
 
-        res.json({ token, user: { id: user.id, email: user.email, name: user.name } });
+        // Start a cookie session (access + rotating refresh token)
+        const tokens = await SessionService.createSession(user, req.headers['user-agent']);
+        setAuthCookies(res, tokens);
+        await GamificationService.recordVisit(user.id);
+
+        res.json({ csrfToken: tokens.csrfToken, user: { id: user.id, email: user.email, name: user.name, username: user.username, displayCurrency: user.displayCurrency, emailVerifiedAt: user.emailVerifiedAt } });
     } catch (error: any) {
         res.status(400).json({ error: error.message || 'Registration failed' });
     }
 });
 
-// POST /api/auth/login — authenticate and get token
+// POST /api/auth/login — authenticate and start a cookie session
 router.post('/login', async (req: Request, res: Response) => {
     try {
         const { email, password } = req.body;
@@ -60,30 +124,161 @@ router.post('/login', async (req: Request, res: Response) => {
             return res.status(401).json({ error: 'Invalid credentials' });
         }
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { id: user.id, email: user.email },
-            process.env.JWT_SECRET as string,
-            { expiresIn: '7d' }
-        );
+        const tokens = await SessionService.createSession(user, req.headers['user-agent']);
+        setAuthCookies(res, tokens);
+        await GamificationService.recordVisit(user.id);
 
-        res.json({ token, user: { id: user.id, email: user.email, name: user.name } });
+        res.json({ csrfToken: tokens.csrfToken, user: { id: user.id, email: user.email, name: user.name, username: user.username, displayCurrency: user.displayCurrency, emailVerifiedAt: user.emailVerifiedAt } });
     } catch (error) {
         res.status(500).json({ error: 'Login failed' });
     }
 });
 
+// POST /api/auth/refresh — rotate the refresh token and issue a new access token
+router.post('/refresh', async (req: Request, res: Response) => {
+    const refreshToken = getRefreshToken(req);
+    if (!refreshToken) {
+        throw new AppError(401, 'INVALID_REFRESH_TOKEN', 'Not signed in');
+    }
+
+    try {
+        const { user, tokens } = await SessionService.rotate(refreshToken);
+        setAuthCookies(res, tokens);
+        // Long-lived sessions never sign in again, so refreshes keep the daily streak going
+        await GamificationService.recordVisit(user.id);
+        res.json({ csrfToken: tokens.csrfToken });
+    } catch (error) {
+        clearAuthCookies(res);
+        throw error;
+    }
+});
+
+// POST /api/auth/logout — end this device's session
+router.post('/logout', async (req: Request, res: Response) => {
+    const refreshToken = getRefreshToken(req);
+    const sessionId = refreshToken ? await SessionService.findSessionId(refreshToken) : null;
+    if (sessionId) {
+        await SessionService.revoke(sessionId);
+    }
+
+    clearAuthCookies(res);
+    res.status(204).send();
+});
+
+// POST /api/auth/logout-all — end every session for this account (log out all devices)
+router.post('/logout-all', authenticateToken, async (req: Request, res: Response) => {
+    const revoked = await SessionService.revokeAllForUser(req.user!.id);
+    clearAuthCookies(res);
+    res.json({ revoked });
+});
+
+// GET /api/auth/sessions — signed-in devices for this account
+router.get('/sessions', authenticateToken, async (req: Request, res: Response) => {
+    const sessions = await SessionService.listActive(req.user!.id);
+    res.json(sessions.map(session => ({ ...session, current: session.id === req.user!.sid })));
+});
+
 // GET /api/auth/me — get current user profile
 router.get('/me', authenticateToken, async (req: Request, res: Response) => {
     try {
         const user = await prisma.user.findUnique({
             where: { id: req.user!.id },
-            select: { id: true, email: true, name: true, avatarUrl: true, createdAt: true }
+            select: profileSelect
         });
-        res.json(user);
+        // Hand the CSRF token to the web app on page load (the cookie itself is HttpOnly)
+        res.json({ ...user, csrfToken: getCsrfCookie(req) ?? null });
     } catch (error) {
         res.status(500).json({ error: 'Failed to fetch profile' });
     }
 });
 
+// PATCH /api/auth/me — update profile (name, username, avatar) and preferences (display currency)
+router.patch('/me', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const data = profileSchema.parse(req.body);
+        const user = await prisma.user.update({
+            where: { id: req.user!.id },
+            data,
+            select: profileSelect
+        });
+        res.json(user);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: error.issues[0]?.message || 'Invalid profile settings' });
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return res.status(409).json({ error: 'That username is already taken' });
+        }
+        res.status(500).json({ error: 'Failed to update profile' });
+    }
+});
+
+// DELETE /api/auth/me — permanently delete the account (requires the password)
+router.delete('/me', authenticateToken, async (req: Request, res: Response) => {
+    const { password } = deleteAccountSchema.parse(req.body);
+    await AccountService.deleteAccount(req.user!.id, password);
+    clearAuthCookies(res);
+    res.status(204).send();
+});
+
+// POST /api/auth/password — change password (requires the current one); signs out other devices
+router.post('/password', authenticateToken, async (req: Request, res: Response) => {
+    const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+    await AccountService.changePassword(req.user!.id, currentPassword, newPassword, req.user!.sid);
+    res.json({ message: 'Password updated' });
+});
+
+// POST /api/auth/email — request an email change; the new address must confirm it
+router.post('/email', authenticateToken, async (req: Request, res: Response) => {
+    const { email, password } = changeEmailSchema.parse(req.body);
+    try {
+        await AccountService.requestEmailChange(req.user!.id, email, password);
+    } catch (error) {
+        throw toAppError(error, { statusCode: 500, code: 'MAIL_SEND_FAILED', message: 'Failed to send confirmation email' });
+    }
+    res.json({ pendingEmail: email });
+});
+
+// POST /api/auth/email/confirm — switch to the new address with a token from the link
+router.post('/email/confirm', async (req: Request, res: Response) => {
+    const { token } = tokenSchema.parse(req.body);
+    const user = await AccountService.confirmEmailChange(token);
+    res.json(user);
+});
+
+// POST /api/auth/verify-email/resend — email a fresh verification link
+router.post('/verify-email/resend', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        await AccountService.sendVerificationEmail(req.user!.id);
+        res.json({ message: 'Verification email sent' });
+    } catch (error) {
+        throw toAppError(error, { statusCode: 500, code: 'MAIL_SEND_FAILED', message: 'Failed to send verification email' });
+    }
+});
+
+// POST /api/auth/verify-email — confirm an email address with a token from the link
+router.post('/verify-email', async (req: Request, res: Response) => {
+    const { token } = tokenSchema.parse(req.body);
+    const user = await AccountService.verifyEmail(token);
+    res.json(user);
+});
+
+// POST /api/auth/forgot-password — email a reset link (same response whether or not the account exists)
+router.post('/forgot-password', async (req: Request, res: Response) => {
+    const { email } = forgotPasswordSchema.parse(req.body);
+    try {
+        await AccountService.requestPasswordReset(email);
+    } catch (error) {
+        console.error('Password reset email failed:', error);
+    }
+    res.json({ message: 'If an account exists for that email, a reset link is on its way' });
+});
+
+// POST /api/auth/reset-password — set a new password with a token from the link
+router.post('/reset-password', async (req: Request, res: Response) => {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+    await AccountService.resetPassword(token, password);
+    res.json({ message: 'Password updated' });
+});
+
 export default router;
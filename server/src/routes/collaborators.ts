@@ -0,0 +1,74 @@
+// Collaborator routes — Co-owners, editors and viewers on a wishlist, and the invites that add them
+
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { authenticateToken } from '../middleware/auth';
+import { COLLABORATOR_ROLES } from '../lib/wishlistAccess';
+import { refreshWishlistRooms } from '../lib/realtime';
+import { CollaboratorService } from '../services/CollaboratorService';
+
+const router = express.Router();
+
+// Without an email the invite is a shareable link
+const inviteSchema = z.object({
+    role: z.enum(COLLABORATOR_ROLES),
+    email: z.string().trim().email().max(254).optional(),
+});
+
+const roleSchema = z.object({
+    role: z.enum(COLLABORATOR_ROLES),
+});
+
+// GET /api/collaborators/invites/:code — Preview an invite before accepting it
+router.get('/invites/:code', authenticateToken, async (req: Request, res: Response) => {
+    const invite = await CollaboratorService.getInvite(req.params.code as string);
+    res.json(invite);
+});
+
+// POST /api/collaborators/invites/:code/accept — Join the wishlist the invite is for
+router.post('/invites/:code/accept', authenticateToken, async (req: Request, res: Response) => {
+    const result = await CollaboratorService.acceptInvite(req.params.code as string, req.user!.id);
+    await refreshWishlistRooms(req.app.get('io'), result.wishlistId, req.user!.id);
+    res.json(result);
+});
+
+// DELETE /api/collaborators/invites/:inviteId — Revoke a pending invite (owner and co-owners)
+router.delete('/invites/:inviteId', authenticateToken, async (req: Request, res: Response) => {
+    await CollaboratorService.revokeInvite(req.params.inviteId as string, req.user!.id);
+    res.json({ message: 'Invite revoked' });
+});
+
+// GET /api/collaborators/wishlists/:wishlistId — Who shares the wishlist (anyone with access)
+router.get('/wishlists/:wishlistId', authenticateToken, async (req: Request, res: Response) => {
+    const collaborators = await CollaboratorService.list(req.params.wishlistId as string, req.user!.id);
+    res.json(collaborators);
+});
+
+// POST /api/collaborators/wishlists/:wishlistId/invites — Invite by email or create a link (owner and co-owners)
+router.post('/wishlists/:wishlistId/invites', authenticateToken, async (req: Request, res: Response) => {
+    const data = inviteSchema.parse(req.body);
+    const invite = await CollaboratorService.createInvite(req.params.wishlistId as string, req.user!.id, data);
+    res.status(201).json(invite);
+});
+
+// PATCH /api/collaborators/wishlists/:wishlistId/members/:userId — Change a collaborator's role (owner and co-owners)
+router.patch('/wishlists/:wishlistId/members/:userId', authenticateToken, async (req: Request, res: Response) => {
+    const { role } = roleSchema.parse(req.body);
+    const collaborator = await CollaboratorService.updateRole(
+        req.params.wishlistId as string,
+        req.user!.id,
+        req.params.userId as string,
+        role
+    );
+    await refreshWishlistRooms(req.app.get('io'), req.params.wishlistId as string, req.params.userId as string);
+    res.json(collaborator);
+});
+
+// DELETE /api/collaborators/wishlists/:wishlistId/members/:userId — Remove a collaborator, or leave the list yourself
+router.delete('/wishlists/:wishlistId/members/:userId', authenticateToken, async (req: Request, res: Response) => {
+    await CollaboratorService.remove(req.params.wishlistId as string, req.user!.id, req.params.userId as string);
+    await refreshWishlistRooms(req.app.get('io'), req.params.wishlistId as string, req.params.userId as string);
+    res.json({ message: 'Collaborator removed' });
+});
+
+export default router;
@@ -6,6 +6,10 @@ import { authenticateToken } from '../middleware/auth';
 import { optionalAuth } from '../middleware/optionalAuth';
 import { z } from 'zod';
 import { Server } from 'socket.io';
+import { emitWishlistEvent } from '../lib/realtime';
+import { getWishlistRole, isRecipient } from '../lib/wishlistAccess';
+import { NotificationService } from '../services/NotificationService';
+import { GamificationService } from '../services/GamificationService';
 
 const router = express.Router();
 
@@ -38,7 +42,7 @@ router.post('/', optionalAuth, async (req: Request, res: Response) => {
                 throw new Error('Item not found');
             }
 
-            if (req.user?.id === item.wishlist.ownerId) {
+            if (isRecipient(await getWishlistRole(item.wishlist, req.user?.id))) {
                 throw new Error('Cannot contribute to your own items');
             }
 
@@ -65,15 +69,23 @@ router.post('/', optionalAuth, async (req: Request, res: Response) => {
                 },
             });
 
+            // A group gift funds every unit the owner asked for
             const newCollected = Number(updatedItem.collectedAmount);
-            const isFullyFunded = updatedItem.price ? newCollected >= Number(updatedItem.price) : false;
-
-            if (isFullyFunded && !updatedItem.isReserved) {
+            const isFullyFunded = updatedItem.price
+                ? newCollected >= Number(updatedItem.price) * updatedItem.quantity
+                : false;
+
+            // Funded units nobody reserved individually are claimed by the group
+            const remaining = updatedItem.quantity - updatedItem.reservedQuantity;
+            if (isFullyFunded && !updatedItem.isReserved && remaining > 0) {
+                await transaction.reservation.create({
+                    data: { itemId: item.id, reservedBy: 'Group contribution', quantity: remaining },
+                });
                 await transaction.item.update({
                     where: { id: item.id },
                     data: {
                         isReserved: true,
-                        reservedBy: 'Group contribution',
+                        reservedQuantity: updatedItem.quantity,
                     },
                 });
             }
@@ -87,16 +99,24 @@ router.post('/', optionalAuth, async (req: Request, res: Response) => {
             };
         });
 
-        // Emit real-time update to all connected clients
+        // Emit real-time update to viewers only — the owner must not see contributions
         const io: Server = req.app.get('io');
-        if (io) {
-            io.to(`wishlist:${transactionResult.wishlistId}`).emit(`wishlist:${transactionResult.wishlistId}`, {
-                type: 'CONTRIBUTION_ADDED',
-                wishlistId: transactionResult.wishlistId,
-                itemId: transactionResult.itemId,
-                newCollected: transactionResult.newCollected,
-                isFullyFunded: transactionResult.isFullyFunded,
-            });
+        emitWishlistEvent(io, transactionResult.wishlistId, {
+            type: 'CONTRIBUTION_ADDED',
+            wishlistId: transactionResult.wishlistId,
+            itemId: transactionResult.itemId,
+            newCollected: transactionResult.newCollected,
+            isFullyFunded: transactionResult.isFullyFunded,
+        }, null);
+
+        await NotificationService.contributionAdded(io, transactionResult.itemId, {
+            userId: req.user?.id || null,
+            contributorName,
+            amount: data.amount,
+        }, transactionResult.isFullyFunded);
+
+        if (req.user) {
+            await GamificationService.award(req.user.id, 'CONTRIBUTED', transactionResult.itemId);
         }
 
         res.json(transactionResult.contribution);
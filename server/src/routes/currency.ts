@@ -0,0 +1,21 @@
+// Currency routes — Exposes the offline exchange-rate table to the client
+
+import express, { Request, Response } from 'express';
+import { getRateTable } from '../lib/currency';
+
+const router = express.Router();
+
+/**
+ * GET /api/currency/rates — Rate table used for all server-side conversions.
+ * The client uses the same table so its totals match the API's.
+ */
+router.get('/rates', (_req: Request, res: Response) => {
+    try {
+        return res.json(getRateTable());
+    } catch (error) {
+        console.error('Rate table load error:', error);
+        return res.status(500).json({ error: 'Exchange rates unavailable' });
+    }
+});
+
+export default router;
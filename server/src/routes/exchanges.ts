@@ -0,0 +1,109 @@
+// Gift exchange routes — Secret Santa groups, invites, exclusions and the draw
+
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { authenticateToken } from '../middleware/auth';
+import { GiftExchangeService } from '../services/GiftExchangeService';
+import { toAppError } from '../utils/errors';
+
+const router = express.Router();
+
+const exchangeSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().max(500).optional(),
+    budget: z.number().positive().optional(),
+    currency: z.string().length(3).toUpperCase().optional(),
+    exchangeDate: z.null().or(z.coerce.date()).optional(),
+});
+
+const linkWishlistSchema = z.object({
+    wishlistId: z.string().nullable(),
+});
+
+const exclusionSchema = z.object({
+    userAId: z.string().min(1),
+    userBId: z.string().min(1),
+});
+
+/** POST /api/exchanges — Create a gift exchange (creator becomes organizer) */
+router.post('/', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const data = exchangeSchema.parse(req.body);
+        const exchange = await GiftExchangeService.createExchange(req.user!.id, data);
+        res.status(201).json(exchange);
+    } catch (error) {
+        throw toAppError(error, { statusCode: 500, code: 'EXCHANGE_CREATE_FAILED', message: 'Failed to create gift exchange' });
+    }
+});
+
+/** GET /api/exchanges — Exchanges the user organizes or belongs to */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+    const exchanges = await GiftExchangeService.listForUser(req.user!.id);
+    res.json(exchanges);
+});
+
+/** POST /api/exchanges/join/:inviteCode — Join an open exchange via invite link */
+router.post('/join/:inviteCode', authenticateToken, async (req: Request, res: Response) => {
+    const exchange = await GiftExchangeService.joinByInviteCode(req.params.inviteCode as string, req.user!.id);
+    res.json({ id: exchange.id, name: exchange.name });
+});
+
+/** GET /api/exchanges/:id — Exchange details, including the member's own assignee once drawn */
+router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
+    const exchange = await GiftExchangeService.getExchangeForMember(req.params.id as string, req.user!);
+    res.json(exchange);
+});
+
+/** PUT /api/exchanges/:id/wishlist — Link the wishlist your Secret Santa should shop from */
+router.put('/:id/wishlist', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const { wishlistId } = linkWishlistSchema.parse(req.body);
+        const membership = await GiftExchangeService.linkWishlist(req.params.id as string, req.user!.id, wishlistId);
+        res.json({ wishlistId: membership.wishlistId });
+    } catch (error) {
+        throw toAppError(error, { statusCode: 500, code: 'EXCHANGE_UPDATE_FAILED', message: 'Failed to link wishlist' });
+    }
+});
+
+/** POST /api/exchanges/:id/exclusions — Stop two members drawing each other (organizer only) */
+router.post('/:id/exclusions', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const pair = exclusionSchema.parse(req.body);
+        const exclusion = await GiftExchangeService.addExclusion(req.params.id as string, req.user!.id, pair);
+        res.status(201).json(exclusion);
+    } catch (error) {
+        throw toAppError(error, { statusCode: 500, code: 'EXCHANGE_UPDATE_FAILED', message: 'Failed to add exclusion' });
+    }
+});
+
+/** DELETE /api/exchanges/:id/exclusions/:exclusionId — Remove an exclusion rule (organizer only) */
+router.delete('/:id/exclusions/:exclusionId', authenticateToken, async (req: Request, res: Response) => {
+    await GiftExchangeService.removeExclusion(req.params.id as string, req.user!.id, req.params.exclusionId as string);
+    res.status(204).send();
+});
+
+/** DELETE /api/exchanges/:id/members/:userId — Remove a member, or leave the exchange yourself */
+router.delete('/:id/members/:userId', authenticateToken, async (req: Request, res: Response) => {
+    await GiftExchangeService.removeMember(req.params.id as string, req.user!.id, req.params.userId as string);
+    res.status(204).send();
+});
+
+/** POST /api/exchanges/:id/draw — Draw names for everyone (organizer only, once); responds like GET /:id */
+router.post('/:id/draw', authenticateToken, async (req: Request, res: Response) => {
+    await GiftExchangeService.draw(req.params.id as string, req.user!.id);
+    const exchange = await GiftExchangeService.getExchangeForMember(req.params.id as string, req.user!);
+    res.json(exchange);
+});
+
+/** POST /api/exchanges/:id/items/:itemId/reserve — Reserve an assignee's item as their Secret Santa */
+router.post('/:id/items/:itemId/reserve', authenticateToken, async (req: Request, res: Response) => {
+    const item = await GiftExchangeService.reserveForAssignee(
+        req.params.id as string,
+        req.user!,
+        req.params.itemId as string,
+        req.app.get('io')
+    );
+    res.json(item);
+});
+
+export default router;
@@ -0,0 +1,17 @@
+// Gamification routes — karma, level, streak and the badge shelf (public by default, like Wrapped)
+
+import express, { Request, Response } from 'express';
+import { optionalAuth } from '../middleware/optionalAuth';
+import { GamificationService } from '../services/GamificationService';
+import { PrivacyService } from '../services/PrivacyService';
+
+const router = express.Router();
+
+// GET /api/gamification/:userId — A user's karma, level progress, streak and badges
+router.get('/:userId', optionalAuth, async (req: Request, res: Response) => {
+    const userId = req.params.userId as string;
+    await PrivacyService.assertCanView(userId, 'badges', req.user?.id);
+    res.json(await GamificationService.getProfile(userId));
+});
+
+export default router;
@@ -3,7 +3,12 @@
 import express, { Request, Response } from 'express';
 import prisma from '../lib/prisma';
 import { authenticateToken } from '../middleware/auth';
+import { optionalAuth } from '../middleware/optionalAuth';
 import { z } from 'zod';
+import { ActivityService } from '../services/ActivityService';
+import { PrivacyService } from '../services/PrivacyService';
+import { recipientWishlistsWhere } from '../lib/wishlistAccess';
+import { GamificationService } from '../services/GamificationService';
 
 const router = express.Router();
 
@@ -23,11 +28,11 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
     try {
         const data = haulSchema.parse(req.body);
 
-        // Verify item belongs to the authenticated user's wishlist
+        // Verify item belongs to a wishlist the user owns or co-owns
         const item = await prisma.item.findFirst({
             where: {
                 id: data.itemId,
-                wishlist: { ownerId: req.user!.id },
+                wishlist: recipientWishlistsWhere(req.user!.id),
             },
         });
 
@@ -50,11 +55,18 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
                     photoUrl: data.photoUrl,
                 },
                 include: {
-                    item: { select: { title: true, imageUrl: true, price: true } },
+                    item: { select: { title: true, imageUrl: true, price: true, currency: true } },
                 },
             }),
         ]);
 
+        await ActivityService.record(req.user!.id, 'HAUL_LOGGED', {
+            wishlistId: item.wishlistId,
+            itemId: item.id,
+            payload: { title: haul.item.title, imageUrl: haul.photoUrl || haul.item.imageUrl, rating: haul.rating, review: haul.review },
+        });
+        await GamificationService.award(req.user!.id, 'HAUL_LOGGED', item.id);
+
         return res.status(201).json(haul);
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -66,13 +78,18 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/hauls/:userId — Fetch a user's haul diary (public).
- * Returns all fulfilled items with ratings, reviews, and photos.
+ * GET /api/hauls/:userId — Fetch a user's haul diary (public unless the
+ * owner limited it to friends or themselves).
+ * Returns fulfilled items with ratings, reviews, and photos; items from
+ * private wishlists are only shown to the owner.
  */
-router.get('/:userId', async (req: Request, res: Response) => {
+router.get('/:userId', optionalAuth, async (req: Request, res: Response) => {
+    const userId = req.params.userId as string;
+    const { isOwner } = await PrivacyService.assertCanView(userId, 'hauls', req.user?.id);
+
     try {
         const hauls = await prisma.haul.findMany({
-            where: { userId: req.params.userId as string },
+            where: { userId, ...(isOwner ? {} : { item: { wishlist: { isPublic: true } } }) },
             orderBy: { createdAt: 'desc' },
             include: {
                 item: {
@@ -80,6 +97,7 @@ router.get('/:userId', async (req: Request, res: Response) => {
                         title: true,
                         imageUrl: true,
                         price: true,
+                        currency: true,
                         hypeCount: true,
                     },
                 },
@@ -120,7 +138,7 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
             where: { id: req.params.id as string },
             data,
             include: {
-                item: { select: { title: true, imageUrl: true, price: true } },
+                item: { select: { title: true, imageUrl: true, price: true, currency: true } },
             },
         });
 
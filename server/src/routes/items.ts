@@ -1,81 +1,20 @@
 // Item routes — CRUD + URL scraper + reserve/unreserve
+// Adding, reserving and hyping accept an Idempotency-Key so offline-queued retries apply once
 
 import express, { Request, Response } from 'express';
 import prisma from '../lib/prisma';
 import { authenticateToken } from '../middleware/auth';
 import { optionalAuth } from '../middleware/optionalAuth';
+import { idempotent } from '../middleware/idempotency';
 import { z } from 'zod';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
 import { Server } from 'socket.io';
-import { ItemService } from '../services/ItemService';
-import { promises as dns } from 'dns';
-import net from 'net';
+import { ITEM_PRIORITIES, ItemService, provenanceInclude } from '../services/ItemService';
 import { AppError } from '../utils/errors';
+import { fetchProductPreview } from '../lib/productPages';
+import { getWishlistRole, isRecipient } from '../lib/wishlistAccess';
 
 const router = express.Router();
 
-const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '::1']);
-
-const isPrivateIpv4 = (ip: string) => {
-    const parts = ip.split('.').map(Number);
-    if (parts.length !== 4 || parts.some(Number.isNaN)) return false;
-
-    const [first, second] = parts;
-    return (
-        first === 10
-        || first === 127
-        || (first === 172 && second >= 16 && second <= 31)
-        || (first === 192 && second === 168)
-        || (first === 169 && second === 254)
-    );
-};
-
-const isPrivateIpv6 = (ip: string) => {
-    const normalized = ip.toLowerCase();
-    return normalized === '::1' || normalized.startsWith('fc') || normalized.startsWith('fd') || normalized.startsWith('fe80');
-};
-
-const assertPublicUrl = async (rawUrl: string) => {
-    let parsed: URL;
-
-    try {
-        parsed = new URL(rawUrl);
-    } catch {
-        throw new AppError(400, 'INVALID_URL', 'Invalid URL');
-    }
-
-    if (!['http:', 'https:'].includes(parsed.protocol)) {
-        throw new AppError(400, 'INVALID_URL_PROTOCOL', 'Only HTTP/HTTPS URLs are allowed');
-    }
-
-    if (!parsed.hostname || LOCAL_HOSTNAMES.has(parsed.hostname.toLowerCase())) {
-        throw new AppError(400, 'UNSAFE_URL_HOST', 'URL host is not allowed');
-    }
-
-    const directIp = net.isIP(parsed.hostname);
-    if (directIp === 4 && isPrivateIpv4(parsed.hostname)) {
-        throw new AppError(400, 'UNSAFE_URL_HOST', 'URL host is not allowed');
-    }
-    if (directIp === 6 && isPrivateIpv6(parsed.hostname)) {
-        throw new AppError(400, 'UNSAFE_URL_HOST', 'URL host is not allowed');
-    }
-
-    const resolvedAddresses = await dns.lookup(parsed.hostname, { all: true });
-    const hasPrivateAddress = resolvedAddresses.some((address) => {
-        if (address.family === 4) {
-            return isPrivateIpv4(address.address);
-        }
-        return isPrivateIpv6(address.address);
-    });
-
-    if (hasPrivateAddress) {
-        throw new AppError(400, 'UNSAFE_URL_HOST', 'URL host is not allowed');
-    }
-
-    return parsed.toString();
-};
-
 // Validation for adding items (URL is optional for manual entry)
 const itemSchema = z.object({
     wishlistId: z.string(),
@@ -83,11 +22,28 @@ const itemSchema = z.object({
     title: z.string().min(1),
     price: z.number().positive().optional(),
     imageUrl: z.string().optional(),
-    currency: z.string().default('USD'),
+    currency: z.string().length(3).toUpperCase().default('USD'),
     story: z.string().max(500).optional(),
+    // Alert when a tracked price drops to or below this
+    priceAlertBelow: z.number().positive().optional(),
+    priority: z.enum(ITEM_PRIORITIES).optional(),
+    quantity: z.number().int().min(1).max(99).optional(),
 });
 
-// POST /preview — Scrape URL for auto-fill (auth required)
+// Validation for editing items — every field optional, nullable ones can be cleared
+const itemUpdateSchema = z.object({
+    title: z.string().min(1).optional(),
+    url: z.string().nullable().optional(),
+    price: z.number().positive().nullable().optional(),
+    imageUrl: z.string().nullable().optional(),
+    currency: z.string().length(3).toUpperCase().optional(),
+    story: z.string().max(500).nullable().optional(),
+    priceAlertBelow: z.number().positive().nullable().optional(),
+    priority: z.enum(ITEM_PRIORITIES).optional(),
+    quantity: z.number().int().min(1).max(99).optional(),
+});
+
+// POST /preview — Scrape URL for auto-fill: title, price + currency, images, brand, availability (auth required)
 router.post('/preview', authenticateToken, async (req: Request, res: Response) => {
     try {
         const { url } = req.body;
@@ -95,30 +51,11 @@ router.post('/preview', authenticateToken, async (req: Request, res: Response) =
             throw new AppError(400, 'URL_REQUIRED', 'URL required');
         }
 
-        const safeUrl = await assertPublicUrl(url);
-
-        // Fetch the page and extract OpenGraph metadata
-        const { data } = await axios.get(safeUrl, {
-            headers: { 'User-Agent': 'Mozilla/5.0 (SocialWishlistBot)' },
-            timeout: 5000,
-            maxContentLength: 2 * 1024 * 1024,
-            maxBodyLength: 2 * 1024 * 1024,
-        });
-        const $ = cheerio.load(data);
-
-        const title = $('meta[property="og:title"]').attr('content') || $('title').text() || '';
-        const image = $('meta[property="og:image"]').attr('content') || '';
-        const description = $('meta[property="og:description"]').attr('content') || '';
-
-        // Attempt to extract price from structured data
-        let price: number | undefined;
-        const priceFromMeta = $('meta[property="product:price:amount"]').attr('content')
-            || $('meta[property="og:price:amount"]').attr('content');
-        if (priceFromMeta) {
-            price = parseFloat(priceFromMeta);
-        }
+        // Fetch the page and run the extractor pipeline (adapters, JSON-LD, microdata, meta tags)
+        const preview = await fetchProductPreview(url);
 
-        res.json({ title, image, description, url: safeUrl, price });
+        // `image` and an always-present `title` are kept for older clients
+        res.json({ ...preview, title: preview.title || '', image: preview.images[0] || '' });
     } catch (error: any) {
         if (error instanceof AppError) {
             return res.status(error.statusCode).json({ error: error.message });
@@ -128,7 +65,7 @@ router.post('/preview', authenticateToken, async (req: Request, res: Response) =
 });
 
 // POST / — Add item to wishlist (owner only)
-router.post('/', authenticateToken, async (req: Request, res: Response) => {
+router.post('/', authenticateToken, idempotent, async (req: Request, res: Response) => {
     try {
         const data = itemSchema.parse(req.body);
         const io: Server = req.app.get('io');
@@ -140,11 +77,29 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
     }
 });
 
-// POST /:id/reserve — Reserve an item (guest-friendly via optionalAuth)
-router.post('/:id/reserve', optionalAuth, async (req: Request, res: Response) => {
+// PUT /:id — Edit item details (owner only), keeps hype, contributions and haul link
+router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
     try {
         const itemId = req.params.id as string;
-        const { nickname } = req.body;
+        const data = itemUpdateSchema.parse(req.body);
+        const io: Server = req.app.get('io');
+
+        const item = await ItemService.updateItem(itemId, req.user!.id, data, io);
+        res.json(item);
+    } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        if (error instanceof z.ZodError) return res.status(400).json({ error: error.issues });
+        if (error.message === 'Item not found') return res.status(404).json({ error: error.message });
+        if (error.message === 'Not authorized to edit this item') return res.status(403).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to update item' });
+    }
+});
+
+// POST /:id/reserve — Reserve one or more units of an item (guest-friendly via optionalAuth)
+router.post('/:id/reserve', optionalAuth, idempotent, async (req: Request, res: Response) => {
+    try {
+        const itemId = req.params.id as string;
+        const { nickname, quantity = 1 } = req.body;
         const reservedBy = req.user?.email || nickname;
 
         if (!reservedBy) {
@@ -152,13 +107,16 @@ router.post('/:id/reserve', optionalAuth, async (req: Request, res: Response) =>
         }
 
         const io: Server = req.app.get('io');
-        await ItemService.reserveItem(itemId, reservedBy, req.user?.id, io);
+        await ItemService.reserveItem(itemId, reservedBy, req.user?.id, io, undefined, Number(quantity));
 
         res.json({ message: 'Item reserved!' });
     } catch (error: any) {
         // Map common service errors to status codes
         if (error.message === 'Item not found') return res.status(404).json({ error: error.message });
         if (error.message === 'Cannot reserve your own items') return res.status(403).json({ error: error.message });
+        if (error.message === 'Item is already reserved' || error.message === 'Not enough left to reserve') {
+            return res.status(409).json({ error: error.message });
+        }
         res.status(400).json({ error: error.message || 'Failed to reserve item' });
     }
 });
@@ -171,10 +129,11 @@ router.post('/:id/unreserve', optionalAuth, async (req: Request, res: Response)
         const requesterIdentifier = req.user?.email || nickname;
         const io: Server = req.app.get('io');
 
-        await ItemService.unreserveItem(itemId, requesterIdentifier, io);
+        await ItemService.unreserveItem(itemId, requesterIdentifier, io, req.user?.id);
 
         res.json({ message: 'Item unreserved' });
     } catch (error: any) {
+        if (error instanceof AppError) throw error;
         if (error.message === 'Item not found') return res.status(404).json({ error: error.message });
         if (error.message.includes('Only the person')) return res.status(403).json({ error: error.message });
         res.status(500).json({ error: 'Failed to unreserve item' });
@@ -196,12 +155,12 @@ router.delete('/:id', authenticateToken, async (req: Request, res: Response) =>
 });
 
 // POST /:id/hype — Increment hype count and broadcast to viewers
-router.post('/:id/hype', optionalAuth, async (req: Request, res: Response) => {
+router.post('/:id/hype', optionalAuth, idempotent, async (req: Request, res: Response) => {
     try {
         const itemId = req.params.id as string;
         const io: Server = req.app.get('io');
 
-        const item = await ItemService.hypeItem(itemId, io);
+        const item = await ItemService.hypeItem(itemId, io, req.user?.id);
 
         res.json({ hypeCount: item.hypeCount });
     } catch (error) {
@@ -214,22 +173,18 @@ router.post('/:id/steal', authenticateToken, async (req: Request, res: Response)
     try {
         const itemId = req.params.id as string;
 
-        // Fetch the original item + its owner's username
+        // Fetch the original item + its wishlist's owner
         const original = await prisma.item.findUnique({
             where: { id: itemId },
-            include: {
-                wishlist: {
-                    include: { owner: { select: { name: true } } },
-                },
-            },
+            include: { wishlist: { select: { id: true, ownerId: true } } },
         });
 
         if (!original) {
             return res.status(404).json({ error: 'Item not found' });
         }
 
-        // Prevent stealing your own item
-        if (original.wishlist.ownerId === req.user!.id) {
+        // Prevent stealing your own item (co-owned lists count as yours)
+        if (isRecipient(await getWishlistRole(original.wishlist, req.user!.id))) {
             return res.status(400).json({ error: 'Cannot steal your own item' });
         }
 
@@ -248,10 +203,16 @@ router.post('/:id/steal', authenticateToken, async (req: Request, res: Response)
             });
         }
 
-        // Build provenance chain: keep original stolenFrom or set to owner
-        const provenance = original.stolenFrom || original.wishlist.owner.name || 'someone';
+        // Provenance credits whoever first wished for it, through any re-steals
+        const provenance = original.stolenFromUserId || original.stolenFrom
+            ? { stolenFromUserId: original.stolenFromUserId, stolenFrom: original.stolenFrom }
+            : { stolenFromUserId: original.wishlist.ownerId, stolenFrom: null };
 
-        // Clone the item into the user's wishlist
+        // Clone the item to the top of the user's wishlist
+        const { _min } = await prisma.item.aggregate({
+            where: { wishlistId: targetWishlist.id },
+            _min: { position: true },
+        });
         const cloned = await prisma.item.create({
             data: {
                 wishlistId: targetWishlist.id,
@@ -261,8 +222,15 @@ router.post('/:id/steal', authenticateToken, async (req: Request, res: Response)
                 price: original.price,
                 currency: original.currency,
                 story: original.story,
-                stolenFrom: provenance,
+                priority: original.priority,
+                quantity: original.quantity,
+                position: _min.position === null ? 0 : _min.position - 1,
+                ...provenance,
+                priceHistory: original.price !== null
+                    ? { create: { price: original.price, currency: original.currency } }
+                    : undefined,
             },
+            include: provenanceInclude,
         });
 
         return res.status(201).json(cloned);
@@ -1,99 +1,90 @@
-// Notes routes — Sticky notes / guestbook on wishlists
+// Notes routes — Sticky notes / guestbook on wishlists, moderated by the owner and co-owners
 
 import express, { Request, Response } from 'express';
-import prisma from '../lib/prisma';
 import { authenticateToken } from '../middleware/auth';
 import { optionalAuth } from '../middleware/optionalAuth';
 import { z } from 'zod';
-import { AppError, toAppError } from '../utils/errors';
+import { NOTE_COLORS, NoteService } from '../services/NoteService';
 
 const router = express.Router();
 
+// Positions are percentages of the notes board
+const positionSchema = {
+    posX: z.number().min(0).max(100),
+    posY: z.number().min(0).max(100),
+    rotation: z.number().min(-15).max(15),
+};
+
 // Validation schema for creating a note
 const noteSchema = z.object({
     content: z.string().min(1).max(200),
-    author: z.string().min(1).max(50),
-    color: z.enum(['yellow', 'pink', 'blue', 'green']).optional(),
-    posX: z.number().optional(),
-    posY: z.number().optional(),
-    rotation: z.number().min(-15).max(15).optional(),
+    author: z.string().trim().min(1).max(50),
+    color: z.enum(NOTE_COLORS).optional(),
+    posX: positionSchema.posX.optional(),
+    posY: positionSchema.posY.optional(),
+    rotation: positionSchema.rotation.optional(),
 });
 
-// GET /api/notes/:wishlistId — Get all notes for a wishlist
-router.get('/:wishlistId', async (req: Request, res: Response) => {
-    try {
-        const notes = await prisma.note.findMany({
-            where: { wishlistId: req.params.wishlistId as string },
-            orderBy: { createdAt: 'desc' },
-        });
-        res.json(notes);
-    } catch (error) {
-        res.status(500).json({ error: 'Failed to fetch notes' });
-    }
+const moveSchema = z.object({
+    posX: positionSchema.posX,
+    posY: positionSchema.posY,
+    rotation: positionSchema.rotation.optional(),
 });
 
-// POST /api/notes/:wishlistId — Add a sticky note to a wishlist
-router.post('/:wishlistId', optionalAuth, async (req: Request, res: Response) => {
-    try {
-        const data = noteSchema.parse(req.body);
-        // Verify wishlist exists
-        const wishlist = await prisma.wishlist.findUnique({
-            where: { id: req.params.wishlistId as string },
-        });
-        if (!wishlist) return res.status(404).json({ error: 'Wishlist not found' });
+// Owners approve pending notes by publishing them; hidden notes can be published again
+const statusSchema = z.object({
+    status: z.enum(['published', 'hidden']),
+});
 
-        // Create the note with a slight random rotation for organic feel
-        const note = await prisma.note.create({
-            data: {
-                ...data,
-                wishlistId: req.params.wishlistId as string,
-                rotation: data.rotation ?? (Math.random() - 0.5) * 10, // -5° to +5°
-            },
-        });
+// GET /api/notes/:wishlistId — Notes on a wishlist the requester may view
+router.get('/:wishlistId', optionalAuth, async (req: Request, res: Response) => {
+    const notes = await NoteService.listNotes(req.params.wishlistId as string, req.user);
+    res.json(notes);
+});
 
-        // Broadcast to live viewers via Socket.IO
-        const io = req.app.get('io');
-        if (io) {
-            io.to(`wishlist:${req.params.wishlistId}`).emit('new_note', note);
-        }
+// GET /api/notes/:wishlistId/blocks — Authors the owner has blocked (owner and co-owners)
+router.get('/:wishlistId/blocks', authenticateToken, async (req: Request, res: Response) => {
+    const blocks = await NoteService.listBlocks(req.params.wishlistId as string, req.user!.id);
+    res.json(blocks);
+});
 
-        res.json(note);
-    } catch (error: any) {
-        res.status(400).json({ error: error.message });
-    }
+// POST /api/notes/:wishlistId — Add a sticky note (held for approval if the owner asked for it)
+router.post('/:wishlistId', optionalAuth, async (req: Request, res: Response) => {
+    const data = noteSchema.parse(req.body);
+    const note = await NoteService.createNote(req.params.wishlistId as string, data, req.user, req.app.get('io'));
+    res.status(201).json(note);
 });
 
-// DELETE /api/notes/:noteId — Delete a note (owner only)
-router.delete('/:noteId', authenticateToken, async (req: Request, res: Response) => {
-    try {
-        const note = await prisma.note.findUnique({
-            where: { id: req.params.noteId as string },
-            include: {
-                wishlist: {
-                    select: { ownerId: true },
-                },
-            },
-        });
+// PATCH /api/notes/:noteId/position — Move a note on the board (owner and co-owners)
+router.patch('/:noteId/position', authenticateToken, async (req: Request, res: Response) => {
+    const position = moveSchema.parse(req.body);
+    const note = await NoteService.moveNote(req.params.noteId as string, req.user!.id, position, req.app.get('io'));
+    res.json(note);
+});
+
+// PATCH /api/notes/:noteId/status — Approve, hide or un-hide a note (owner and co-owners)
+router.patch('/:noteId/status', authenticateToken, async (req: Request, res: Response) => {
+    const { status } = statusSchema.parse(req.body);
+    const note = await NoteService.setStatus(req.params.noteId as string, req.user!.id, status, req.app.get('io'));
+    res.json(note);
+});
 
-        if (!note) {
-            throw new AppError(404, 'NOTE_NOT_FOUND', 'Note not found');
-        }
+// POST /api/notes/:noteId/block — Block the note's author and hide their notes (owner and co-owners)
+router.post('/:noteId/block', authenticateToken, async (req: Request, res: Response) => {
+    const result = await NoteService.blockAuthor(req.params.noteId as string, req.user!.id, req.app.get('io'));
+    res.status(201).json(result);
+});
 
-        if (note.wishlist.ownerId !== req.user!.id) {
-            throw new AppError(403, 'FORBIDDEN', 'Not authorized to delete this note');
-        }
+// DELETE /api/notes/blocks/:blockId — Let a blocked author post again (owner and co-owners)
+router.delete('/blocks/:blockId', authenticateToken, async (req: Request, res: Response) => {
+    await NoteService.unblock(req.params.blockId as string, req.user!.id);
+    res.json({ message: 'Author unblocked' });
+});
 
-        await prisma.note.delete({
-            where: { id: req.params.noteId as string },
-        });
-        res.json({ message: 'Note deleted' });
-    } catch (error) {
-        throw toAppError(error, {
-            statusCode: 500,
-            code: 'NOTE_DELETE_FAILED',
-            message: 'Failed to delete note',
-        });
-    }
+// DELETE /api/notes/:noteId — Delete a note (owner and co-owners)
+router.delete('/:noteId', authenticateToken, async (req: Request, res: Response) => {
+    await NoteService.deleteNote(req.params.noteId as string, req.user!.id, req.app.get('io'));
+    res.json({ message: 'Note deleted' });
 });
 
 export default router;
@@ -0,0 +1,47 @@
+// Notification routes — the signed-in user's bell menu: list, unread count and read state
+
+import express, { Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { z } from 'zod';
+import { NotificationService } from '../services/NotificationService';
+import { userRoom } from '../lib/realtime';
+
+const router = express.Router();
+
+const listQuerySchema = z.object({
+    before: z.coerce.date().optional(),
+});
+
+router.use(authenticateToken);
+
+/**
+ * GET /api/notifications — Newest notifications and the unread count.
+ * Paginate with ?before=<createdAt of the last one shown>.
+ */
+router.get('/', async (req: Request, res: Response) => {
+    const { before } = listQuerySchema.parse(req.query);
+    res.json(await NotificationService.list(req.user!.id, before));
+});
+
+// GET /api/notifications/unread-count — Just the badge number
+router.get('/unread-count', async (req: Request, res: Response) => {
+    res.json({ unreadCount: await NotificationService.unreadCount(req.user!.id) });
+});
+
+// POST /api/notifications/read-all — Mark everything visible as read
+router.post('/read-all', async (req: Request, res: Response) => {
+    const result = await NotificationService.markAllRead(req.user!.id);
+    // Keep the user's other tabs' badges in sync
+    req.app.get('io')?.to(userRoom(req.user!.id)).emit('notifications_read', { ids: 'all', ...result });
+    res.json(result);
+});
+
+// POST /api/notifications/:id/read — Mark one notification as read
+router.post('/:id/read', async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const result = await NotificationService.markRead(id, req.user!.id);
+    req.app.get('io')?.to(userRoom(req.user!.id)).emit('notifications_read', { ids: [id], ...result });
+    res.json(result);
+});
+
+export default router;
@@ -0,0 +1,25 @@
+// Privacy routes — who can see each section of the signed-in user's profile
+
+import express, { Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { z } from 'zod';
+import { PROFILE_SECTIONS, PrivacyService, VISIBILITY_LEVELS } from '../services/PrivacyService';
+
+const router = express.Router();
+
+const settingsSchema = z.partialRecord(z.enum(PROFILE_SECTIONS), z.enum(VISIBILITY_LEVELS));
+
+router.use(authenticateToken);
+
+// GET /api/privacy — Visibility of each profile section (public, friends or private)
+router.get('/', async (req: Request, res: Response) => {
+    res.json({ settings: await PrivacyService.getSettings(req.user!.id) });
+});
+
+// PATCH /api/privacy — Change the visibility of one or more sections
+router.patch('/', async (req: Request, res: Response) => {
+    const changes = settingsSchema.parse(req.body);
+    res.json({ settings: await PrivacyService.updateSettings(req.user!.id, changes) });
+});
+
+export default router;
@@ -0,0 +1,57 @@
+// Push routes — Web Push subscriptions for this device and per-event preferences
+
+import express, { Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { z } from 'zod';
+import { PUSH_EVENTS, PushService } from '../services/PushService';
+
+const router = express.Router();
+
+// The shape of PushSubscription.toJSON() in the browser
+const subscriptionSchema = z.object({
+    endpoint: z.string().url().max(2048),
+    keys: z.object({
+        p256dh: z.string().min(1).max(200),
+        auth: z.string().min(1).max(100),
+    }),
+});
+
+const unsubscribeSchema = z.object({
+    endpoint: z.string().max(2048),
+});
+
+const preferencesSchema = z.partialRecord(z.enum(PUSH_EVENTS), z.boolean());
+
+router.use(authenticateToken);
+
+// GET /api/push/config — The VAPID public key (null when push is disabled)
+router.get('/config', (_req: Request, res: Response) => {
+    res.json(PushService.getConfig());
+});
+
+// POST /api/push/subscriptions — Register this browser for push
+router.post('/subscriptions', async (req: Request, res: Response) => {
+    const data = subscriptionSchema.parse(req.body);
+    const subscription = await PushService.subscribe(req.user!.id, data, req.get('user-agent'));
+    res.status(201).json(subscription);
+});
+
+// DELETE /api/push/subscriptions — Stop pushing to this browser
+router.delete('/subscriptions', async (req: Request, res: Response) => {
+    const { endpoint } = unsubscribeSchema.parse(req.body);
+    await PushService.unsubscribe(req.user!.id, endpoint);
+    res.status(204).send();
+});
+
+// GET /api/push/preferences — Which events are pushed, and to how many devices
+router.get('/preferences', async (req: Request, res: Response) => {
+    res.json(await PushService.getPreferences(req.user!.id));
+});
+
+// PATCH /api/push/preferences — Switch individual events on or off
+router.patch('/preferences', async (req: Request, res: Response) => {
+    const changes = preferencesSchema.parse(req.body);
+    res.json({ preferences: await PushService.updatePreferences(req.user!.id, changes) });
+});
+
+export default router;
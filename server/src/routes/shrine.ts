@@ -3,7 +3,11 @@
 import express, { Request, Response } from 'express';
 import prisma from '../lib/prisma';
 import { authenticateToken } from '../middleware/auth';
+import { optionalAuth } from '../middleware/optionalAuth';
 import { z } from 'zod';
+import { ActivityService } from '../services/ActivityService';
+import { PrivacyService } from '../services/PrivacyService';
+import { recipientWishlistsWhere } from '../lib/wishlistAccess';
 
 const router = express.Router();
 
@@ -17,12 +21,17 @@ const shrineSchema = z.object({
 
 /**
  * GET /api/shrine/:userId — Fetch a user's shrine items with full item data.
- * Public endpoint so friends can view another user's shrine.
+ * Public by default so friends can view another user's shrine; the owner can
+ * limit it to friends or themselves. Items pinned from private wishlists are
+ * only shown to the owner.
  */
-router.get('/:userId', async (req: Request, res: Response) => {
+router.get('/:userId', optionalAuth, async (req: Request, res: Response) => {
+    const userId = req.params.userId as string;
+    const { isOwner } = await PrivacyService.assertCanView(userId, 'shrine', req.user?.id);
+
     try {
         const user = await prisma.user.findUnique({
-            where: { id: req.params.userId as string },
+            where: { id: userId },
             select: { shrineItemIds: true, name: true },
         });
         if (!user) return res.status(404).json({ error: 'User not found' });
@@ -32,12 +41,13 @@ router.get('/:userId', async (req: Request, res: Response) => {
 
         // Fetch full item details for each pinned item
         const items = await prisma.item.findMany({
-            where: { id: { in: itemIds } },
+            where: { id: { in: itemIds }, ...(isOwner ? {} : { wishlist: { isPublic: true } }) },
             select: {
                 id: true,
                 title: true,
                 imageUrl: true,
                 price: true,
+                currency: true,
                 hypeCount: true,
                 story: true,
             },
@@ -57,20 +67,21 @@ router.get('/:userId', async (req: Request, res: Response) => {
 
 /**
  * PUT /api/shrine — Update the authenticated user's shrine.
- * Validates that all item IDs belong to the user's own wishlists.
+ * Validates that all item IDs belong to wishlists the user owns or co-owns.
  */
 router.put('/', authenticateToken, async (req: Request, res: Response) => {
     try {
         const { itemIds } = shrineSchema.parse(req.body);
 
-        // Verify all items belong to the user's wishlists
+        // Verify all items belong to the user's (or co-owned) wishlists
+        let ownedItems: { id: string; title: string; imageUrl: string | null; wishlist: { isPublic: boolean } }[] = [];
         if (itemIds.length > 0) {
-            const ownedItems = await prisma.item.findMany({
+            ownedItems = await prisma.item.findMany({
                 where: {
                     id: { in: itemIds },
-                    wishlist: { ownerId: req.user!.id },
+                    wishlist: recipientWishlistsWhere(req.user!.id),
                 },
-                select: { id: true },
+                select: { id: true, title: true, imageUrl: true, wishlist: { select: { isPublic: true } } },
             });
 
             if (ownedItems.length !== itemIds.length) {
@@ -84,6 +95,15 @@ router.put('/', authenticateToken, async (req: Request, res: Response) => {
             data: { shrineItemIds: JSON.stringify(itemIds) },
         });
 
+        // Only items from public wishlists are shown in followers' feeds
+        const publicItems = itemIds
+            .map(id => ownedItems.find(i => i.id === id))
+            .filter(i => i && i.wishlist.isPublic)
+            .map(i => ({ id: i!.id, title: i!.title, imageUrl: i!.imageUrl }));
+        if (publicItems.length > 0) {
+            await ActivityService.record(req.user!.id, 'SHRINE_UPDATED', { payload: { items: publicItems } });
+        }
+
         return res.json({ shrine: itemIds });
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -0,0 +1,133 @@
+// Social routes — Follow graph and the activity feed of followed users
+
+import express, { Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import { authenticateToken } from '../middleware/auth';
+import { z } from 'zod';
+import { ActivityService } from '../services/ActivityService';
+
+const router = express.Router();
+
+// Public user fields safe to show in follower lists
+const userSummarySelect = { id: true, name: true, username: true, avatarUrl: true };
+
+const feedQuerySchema = z.object({
+    before: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/social/feed — New items, hauls and shrine changes from followed users.
+ * Paginate with ?before=<ISO date of the last entry>.
+ */
+router.get('/feed', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const { before } = feedQuerySchema.parse(req.query);
+        const feed = await ActivityService.getFeed(req.user!.id, before);
+        return res.json(feed);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: error.issues });
+        }
+        console.error('Feed fetch error:', error);
+        return res.status(500).json({ error: 'Failed to load feed' });
+    }
+});
+
+/**
+ * GET /api/social/following — Users the authenticated user follows.
+ */
+router.get('/following', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const follows = await prisma.follow.findMany({
+            where: { followerId: req.user!.id },
+            orderBy: { createdAt: 'desc' },
+            include: { following: { select: userSummarySelect } },
+        });
+        return res.json(follows.map(f => f.following));
+    } catch (error) {
+        console.error('Following fetch error:', error);
+        return res.status(500).json({ error: 'Failed to load following' });
+    }
+});
+
+/**
+ * GET /api/social/followers — Users following the authenticated user.
+ */
+router.get('/followers', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const follows = await prisma.follow.findMany({
+            where: { followingId: req.user!.id },
+            orderBy: { createdAt: 'desc' },
+            include: { follower: { select: userSummarySelect } },
+        });
+        return res.json(follows.map(f => f.follower));
+    } catch (error) {
+        console.error('Followers fetch error:', error);
+        return res.status(500).json({ error: 'Failed to load followers' });
+    }
+});
+
+/**
+ * GET /api/social/follow/:userId — Follow status and counts for another user.
+ */
+router.get('/follow/:userId', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = req.params.userId as string;
+        const [existing, followerCount, followingCount] = await Promise.all([
+            prisma.follow.findUnique({
+                where: { followerId_followingId: { followerId: req.user!.id, followingId: userId } },
+            }),
+            prisma.follow.count({ where: { followingId: userId } }),
+            prisma.follow.count({ where: { followerId: userId } }),
+        ]);
+
+        return res.json({ isFollowing: Boolean(existing), followerCount, followingCount });
+    } catch (error) {
+        console.error('Follow status error:', error);
+        return res.status(500).json({ error: 'Failed to load follow status' });
+    }
+});
+
+/**
+ * POST /api/social/follow/:userId — Follow a user (idempotent).
+ */
+router.post('/follow/:userId', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const userId = req.params.userId as string;
+
+        if (userId === req.user!.id) {
+            return res.status(400).json({ error: 'Cannot follow yourself' });
+        }
+
+        const target = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+        if (!target) return res.status(404).json({ error: 'User not found' });
+
+        await prisma.follow.upsert({
+            where: { followerId_followingId: { followerId: req.user!.id, followingId: userId } },
+            create: { followerId: req.user!.id, followingId: userId },
+            update: {},
+        });
+
+        return res.status(201).json({ isFollowing: true });
+    } catch (error) {
+        console.error('Follow error:', error);
+        return res.status(500).json({ error: 'Failed to follow user' });
+    }
+});
+
+/**
+ * DELETE /api/social/follow/:userId — Unfollow a user (idempotent).
+ */
+router.delete('/follow/:userId', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        await prisma.follow.deleteMany({
+            where: { followerId: req.user!.id, followingId: req.params.userId as string },
+        });
+        return res.json({ isFollowing: false });
+    } catch (error) {
+        console.error('Unfollow error:', error);
+        return res.status(500).json({ error: 'Failed to unfollow user' });
+    }
+});
+
+export default router;
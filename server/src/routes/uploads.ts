@@ -0,0 +1,49 @@
+// Upload routes — Image uploads for item photos, wishlist covers, avatars and haul photos
+
+import express, { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { authenticateToken } from '../middleware/auth';
+import { MAX_UPLOAD_BYTES, UPLOAD_KINDS, UploadService } from '../services/UploadService';
+import { AppError } from '../utils/errors';
+
+const router = express.Router();
+
+// Files stay in memory: they're re-encoded before anything touches storage
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: 1, fields: 4 },
+});
+
+const uploadSchema = z.object({
+    kind: z.enum(UPLOAD_KINDS),
+});
+
+// Turn multer's errors (size limit, unexpected field) into API errors
+const singleFile = (req: Request, res: Response, next: NextFunction) => {
+    upload.single('file')(req, res, (error: unknown) => {
+        if (error instanceof multer.MulterError) {
+            if (error.code === 'LIMIT_FILE_SIZE') {
+                return next(new AppError(413, 'FILE_TOO_LARGE', `Images must be ${Math.floor(MAX_UPLOAD_BYTES / (1024 * 1024))} MB or smaller`));
+            }
+            return next(new AppError(400, 'INVALID_UPLOAD', error.message));
+        }
+        next(error);
+    });
+};
+
+/**
+ * POST /api/uploads — multipart/form-data with `file` and `kind`
+ * (item | cover | avatar | haul). Returns the public URL to save on the record.
+ */
+router.post('/', authenticateToken, singleFile, async (req: Request, res: Response) => {
+    const { kind } = uploadSchema.parse(req.body);
+    if (!req.file) {
+        throw new AppError(400, 'FILE_REQUIRED', 'Attach an image as the "file" field');
+    }
+
+    const image = await UploadService.uploadImage(req.user!.id, kind, req.file.buffer);
+    res.status(201).json(image);
+});
+
+export default router;
@@ -0,0 +1,17 @@
+// User routes — Public profiles looked up by vanity username
+
+import express, { Request, Response } from 'express';
+import { ProfileService } from '../services/ProfileService';
+
+const router = express.Router();
+
+/**
+ * GET /api/users/:username — Public profile: name, avatar, follower counts
+ * and public wishlists. Usernames match case-insensitively.
+ */
+router.get('/:username', async (req: Request, res: Response) => {
+    const profile = await ProfileService.getPublicProfile(req.params.username as string);
+    res.json(profile);
+});
+
+export default router;
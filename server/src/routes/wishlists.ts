@@ -6,22 +6,86 @@ import { authenticateToken } from '../middleware/auth';
 import { optionalAuth } from '../middleware/optionalAuth';
 import { z } from 'zod';
 import { AppError, toAppError } from '../utils/errors';
+import { isSpoilerRevealed, maskExchangeReservation, redactItemForOwner, spoilerRevealAt } from '../utils/spoilers';
+import { GiftExchangeService } from '../services/GiftExchangeService';
+import { priceHistoryInclude } from '../services/PriceTrackingService';
+import { ItemService, itemOrderBy, provenanceInclude, reservationsInclude } from '../services/ItemService';
+import { convertCurrency, roundMoney } from '../lib/currency';
+import { getWishlistRole, hasPermission, isRecipient, wishlistsWhereUserCan } from '../lib/wishlistAccess';
+import { refreshWishlistRooms } from '../lib/realtime';
 
 const router = express.Router();
 
+const WISHLIST_LAYOUTS = ['grid', 'list', 'masonry', 'board'] as const;
+const MAX_STICKERS = 30;
+
+// One decoration on the hero banner. x/y are percentages of the banner so
+// stickers stay put across screen sizes.
+const stickerSchema = z.object({
+    id: z.string().min(1).max(40),
+    // Emoji only (including ZWJ sequences and skin tones) — never markup or URLs
+    emoji: z.string().max(16).regex(/^[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200d\ufe0f]+$/u),
+    x: z.number().min(0).max(100),
+    y: z.number().min(0).max(100),
+    rotation: z.number().min(-180).max(180).default(0),
+    scale: z.number().min(0.5).max(3).default(1),
+});
+
 // Validation schema
 const wishlistSchema = z.object({
     title: z.string().min(1),
     description: z.string().optional(),
     coverImageUrl: z.string().url().optional().or(z.literal('')),
     theme: z.string().optional(),
+    layout: z.enum(WISHLIST_LAYOUTS).optional(),
+    // An empty array clears the decorations
+    stickers: z.array(stickerSchema).max(MAX_STICKERS).optional(),
     isPublic: z.boolean().optional(),
+    occasion: z.enum(['birthday', 'wedding', 'holiday', 'other']).nullable().optional(),
+    // null clears the date; strings like "2026-12-25" are coerced
+    eventDate: z.null().or(z.coerce.date()).optional(),
+    revealAfterEvent: z.boolean().optional(),
+    notesRequireApproval: z.boolean().optional(),
 });
 
+type WishlistInput = z.infer<typeof wishlistSchema>;
+
+/**
+ * Keep the reveal from switching spoiler protection off early. A new event
+ * date whose day is already over would reveal everything on save, and once
+ * someone has reserved or chipped in the reveal can't be turned on or moved
+ * earlier. Pass the stored wishlist when updating, null when creating.
+ */
+const assertRevealChangeAllowed = async (
+    wishlist: { id: string; eventDate: Date | null; revealAfterEvent: boolean } | null,
+    data: WishlistInput
+) => {
+    const dateChanged = data.eventDate !== undefined && data.eventDate?.getTime() !== wishlist?.eventDate?.getTime();
+    if (dateChanged && data.eventDate && isSpoilerRevealed({ eventDate: data.eventDate, revealAfterEvent: true })) {
+        throw new AppError(400, 'EVENT_DATE_IN_PAST', "The event date can't be in the past");
+    }
+    if (!wishlist) return;
+
+    const revealedBefore = spoilerRevealAt(wishlist);
+    const revealedAfter = spoilerRevealAt({
+        eventDate: data.eventDate === undefined ? wishlist.eventDate : data.eventDate,
+        revealAfterEvent: data.revealAfterEvent ?? wishlist.revealAfterEvent,
+    });
+    if (!revealedAfter || (revealedBefore && revealedAfter >= revealedBefore)) return;
+
+    const gifts = await prisma.item.count({
+        where: { wishlistId: wishlist.id, OR: [{ reservedQuantity: { gt: 0 } }, { contributions: { some: {} } }] },
+    });
+    if (gifts > 0) {
+        throw new AppError(409, 'REVEAL_LOCKED', "Gifts are already on the way, so the reveal can't be turned on or moved earlier");
+    }
+};
+
 // POST / — Create a new wishlist (auth required)
 router.post('/', authenticateToken, async (req: Request, res: Response) => {
     try {
         const data = wishlistSchema.parse(req.body);
+        await assertRevealChangeAllowed(null, data);
         const wishlist = await prisma.wishlist.create({
             data: {
                 ...data,
@@ -30,32 +94,49 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
         });
         res.json(wishlist);
     } catch (error: any) {
+        if (error instanceof AppError) throw error;
         res.status(400).json({ error: error.message });
     }
 });
 
-// GET / — Get current user's wishlists (auth required)
-// Includes items (for shrine picker) and count
+// GET / — Get current user's wishlists, owned and shared with them (auth required)
+// Includes the user's role, items (for shrine picker), count and total value in the user's display currency
 router.get('/', authenticateToken, async (req: Request, res: Response) => {
+    const owner = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { displayCurrency: true },
+    });
+    const displayCurrency = owner?.displayCurrency || 'USD';
+
     const wishlists = await prisma.wishlist.findMany({
-        where: { ownerId: req.user!.id },
+        where: wishlistsWhereUserCan(req.user!.id, 'view'),
         orderBy: { createdAt: 'desc' },
         include: {
             _count: { select: { items: true } },
+            collaborators: { where: { userId: req.user!.id }, select: { role: true } },
             items: {
                 select: {
                     id: true,
                     title: true,
                     imageUrl: true,
                     price: true,
+                    currency: true,
                     hypeCount: true,
                     story: true,
                 },
-                orderBy: { createdAt: 'desc' },
+                orderBy: itemOrderBy,
             },
         },
     });
-    res.json(wishlists);
+
+    res.json(wishlists.map(({ collaborators, ...wishlist }) => ({
+        ...wishlist,
+        role: wishlist.ownerId === req.user!.id ? 'owner' : collaborators[0]?.role,
+        displayCurrency,
+        totalValue: roundMoney(wishlist.items.reduce((sum, item) => (
+            sum + (item.price ? convertCurrency(Number(item.price), item.currency, displayCurrency) ?? 0 : 0)
+        ), 0)),
+    })));
 });
 
 // GET /:id — Get specific wishlist (public access, spoiler protection for owner)
@@ -64,9 +145,9 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
         const wishlist = await prisma.wishlist.findUnique({
             where: { id: req.params.id as string },
             include: {
-                owner: { select: { id: true, name: true } },
+                owner: { select: { id: true, name: true, username: true } },
                 items: {
-                    orderBy: { createdAt: 'desc' },
+                    orderBy: itemOrderBy,
                     include: {
                         contributions: {
                             select: {
@@ -77,7 +158,10 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
                                 createdAt: true,
                                 // Don't expose userId to prevent identification
                             }
-                        }
+                        },
+                        ...reservationsInclude,
+                        ...priceHistoryInclude,
+                        ...provenanceInclude,
                     }
                 },
             },
@@ -87,25 +171,34 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
             throw new AppError(404, 'WISHLIST_NOT_FOUND', 'Wishlist not found');
         }
 
-        // Determine if the requester is the owner
-        const isOwner = req.user?.id === wishlist.ownerId;
+        // The requester's role: owner, a collaborator or nobody in particular
+        const role = await getWishlistRole(wishlist, req.user?.id);
+        // Co-owners get the owner's view, spoiler protection included
+        const isOwner = isRecipient(role);
 
-        if (!wishlist.isPublic && !isOwner) {
+        // Private lists are visible to the owner, collaborators and their Secret Santa
+        if (!wishlist.isPublic && !role
+            && !(req.user && await GiftExchangeService.isSecretSantaFor(req.user.id, wishlist.id))) {
             throw new AppError(404, 'WISHLIST_NOT_FOUND', 'Wishlist not found');
         }
 
-        if (isOwner) {
-            // SPOILER PROTECTION: Owner must NOT see reservation details or contributors
-            wishlist.items.forEach((item: any) => {
-                item.isReserved = false;     // Hide reservation status
-                item.reservedBy = null;      // Hide who reserved
-                item.contributions = [];     // Hide all contribution details
-                item.collectedAmount = 0;    // Hide how much collected (preserves surprise)
-            });
-        }
+        // SPOILER PROTECTION: Owners must NOT see reservation details or contributors
+        // until the occasion has passed (unless they opted out of the reveal)
+        const isRevealed = isSpoilerRevealed(wishlist);
+        const items = isOwner && !isRevealed
+            ? wishlist.items.map(redactItemForOwner)
+            : wishlist.items.map(item => maskExchangeReservation(item, req.user?.email));
 
-        // Add isOwner flag to response for frontend logic
-        res.json({ ...wishlist, isOwner });
+        // Add role / permission / isRevealed flags to response for frontend logic
+        res.json({
+            ...wishlist,
+            items,
+            role,
+            isOwner,
+            canEditItems: hasPermission(role, 'edit_items'),
+            canManage: hasPermission(role, 'manage'),
+            isRevealed,
+        });
     } catch (error) {
         throw toAppError(error, {
             statusCode: 500,
@@ -115,34 +208,45 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
     }
 });
 
-// PUT /:id — Update wishlist (owner only)
+// PUT /:id — Update wishlist settings (owner and co-owners)
 router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
     try {
         const id = req.params.id as string;
         const wishlist = await prisma.wishlist.findUnique({ where: { id } });
 
-        if (!wishlist || wishlist.ownerId !== req.user!.id) {
+        if (!wishlist || !hasPermission(await getWishlistRole(wishlist, req.user!.id), 'manage')) {
             return res.status(403).json({ error: 'Not authorized' });
         }
 
         const data = wishlistSchema.parse(req.body);
+        await assertRevealChangeAllowed(wishlist, data);
         const updated = await prisma.wishlist.update({
             where: { id },
             data,
         });
+        // Visibility or reveal settings may have changed who gets which live events
+        await refreshWishlistRooms(req.app.get('io'), id);
         res.json(updated);
     } catch (error) {
+        if (error instanceof AppError) throw error;
         res.status(400).json({ error: 'Update failed' });
     }
 });
 
+// PUT /:id/items/order — Save the drag-and-drop order (most wanted first; owner, co-owners and editors)
+router.put('/:id/items/order', authenticateToken, async (req: Request, res: Response) => {
+    const { itemIds } = z.object({ itemIds: z.array(z.string()).max(1000) }).parse(req.body);
+    const order = await ItemService.reorderItems(req.params.id as string, req.user!.id, itemIds, req.app.get('io'));
+    res.json({ itemIds: order });
+});
+
 // DELETE /:id — Delete wishlist (owner only)
 router.delete('/:id', authenticateToken, async (req: Request, res: Response) => {
     try {
         const id = req.params.id as string;
         const wishlist = await prisma.wishlist.findUnique({ where: { id } });
 
-        if (!wishlist || wishlist.ownerId !== req.user!.id) {
+        if (!wishlist || !hasPermission(await getWishlistRole(wishlist, req.user!.id), 'delete')) {
             return res.status(403).json({ error: 'Not authorized' });
         }
 
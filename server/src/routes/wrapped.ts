@@ -1,121 +1,82 @@
-// Wrapped routes - "Gift Wrapped" stats and vibe analytics
+// Wrapped routes - "Gift Wrapped" stats and vibe analytics, plus share cards that unfurl in chats
 
 import express, { Request, Response } from 'express';
-import prisma from '../lib/prisma';
-import { authenticateToken } from '../middleware/auth';
-import { Prisma } from '@prisma/client'; // Keep Prisma import for types
+import { z } from 'zod';
+import { optionalAuth } from '../middleware/optionalAuth';
+import { WrappedService } from '../services/WrappedService';
+import { PrivacyService, type Visibility } from '../services/PrivacyService';
+import { renderWrappedPng, renderWrappedSharePage, renderWrappedSvg, wrappedShareUrls } from '../lib/shareCards';
 
 const router = express.Router();
 
-// Contribution shape used for top-contributor analysis
-interface ContributionEntry {
-    amount: Prisma.Decimal;
-    contributorName: string | null;
-    userId: string | null;
-}
+const wrappedQuerySchema = z.object({
+    period: z.string().trim().optional(),
+    currency: z.string().trim().optional(),
+});
+
+// Cards for a finished period barely change; crawlers and chat apps may cache public ones for an hour
+const cardCacheControl = (visibility: Visibility) => (visibility === 'public' ? 'public, max-age=3600' : 'private, no-store');
 
 /**
  * GET /api/wrapped/:userId - Generate Spotify-Wrapped-style stats for a user.
- * Public endpoint so users can share their wrapped results.
+ * Public by default so users can share their wrapped results; the owner can
+ * limit it to friends or themselves. Others never see private wishlists.
+ * ?period= is "all" (default), a year (2026) or a range (2026-01-01..2026-06-30).
+ * Money stats are converted into ?currency= (or the user's display currency).
  */
-router.get('/:userId', async (req: Request, res: Response) => {
-    try {
-        const userId = req.params.userId as string;
-
-        // Fetch user profile
-        const user = await prisma.user.findUnique({
-            where: { id: userId },
-            select: { name: true, karma: true, level: true },
-        });
-
-        if (!user) return res.status(404).json({ error: 'User not found' });
-
-        // Fetch all items across user's wishlists (include for nested data)
-        const wishlists = await prisma.wishlist.findMany({
-            where: { ownerId: userId },
-            include: {
-                items: {
-                    include: {
-                        contributions: {
-                            select: {
-                                amount: true,
-                                contributorName: true,
-                                userId: true,
-                            },
-                        },
-                    },
-                },
-            },
-        });
-
-        // Flatten all items
-        const allItems = wishlists.flatMap(wl => wl.items);
-
-        // Calculate "Most Delusional Wish" (most expensive item)
-        const mostExpensive = allItems
-            .filter(i => i.price)
-            .sort((a, b) => Number(b.price) - Number(a.price))[0] || null;
-
-        // Calculate "Most Hyped" (highest hype count)
-        const mostHyped = allItems
-            .sort((a, b) => b.hypeCount - a.hypeCount)[0] || null;
-
-        // Calculate total wishlist value
-        const totalValue = allItems
-            .reduce((sum, i) => sum + Number(i.price || 0), 0);
-
-        // Calculate fulfillment rate
-        const fulfilledCount = allItems.filter(i => i.isFulfilled).length;
-        const fulfillmentRate = allItems.length > 0
-            ? Math.round((fulfilledCount / allItems.length) * 100)
-            : 0;
-
-        // Find "Top Contributor" (person who gave the most)
-        const contributorMap: Record<string, { name: string; total: number }> = {};
-        allItems.forEach(item => {
-            item.contributions.forEach((c: ContributionEntry) => {
-                const key = c.userId || c.contributorName || 'Anonymous';
-                const name = c.contributorName || 'Anonymous';
-                if (!contributorMap[key]) {
-                    contributorMap[key] = { name, total: 0 };
-                }
-                contributorMap[key].total += Number(c.amount);
-            });
-        });
+router.get('/:userId', optionalAuth, async (req: Request, res: Response) => {
+    const userId = req.params.userId as string;
+    const query = wrappedQuerySchema.parse(req.query);
+    const period = WrappedService.parsePeriod(query.period);
+    const { isOwner } = await PrivacyService.assertCanView(userId, 'wrapped', req.user?.id);
+
+    const report = await WrappedService.getReport(userId, period, query.currency, isOwner);
+    res.json({ ...report, share: wrappedShareUrls(userId, period.key) });
+});
 
-        const topContributor = Object.values(contributorMap)
-            .sort((a, b) => b.total - a.total)[0] || null;
+// GET /api/wrapped/:userId/card.svg - Share card as SVG (in the user's display currency, public lists only)
+router.get('/:userId/card.svg', optionalAuth, async (req: Request, res: Response) => {
+    const userId = req.params.userId as string;
+    const { period } = wrappedQuerySchema.parse(req.query);
+    const { visibility } = await PrivacyService.assertCanView(userId, 'wrapped', req.user?.id);
+    const report = await WrappedService.getReport(userId, WrappedService.parsePeriod(period));
+
+    res.set({
+        'Content-Type': 'image/svg+xml',
+        'Cache-Control': cardCacheControl(visibility),
+        // Embedded by the client's origin, like uploads
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+    });
+    res.send(renderWrappedSvg(report));
+});
 
-        // Collect dominant image URLs for "vibe" analysis (client-side color extraction)
-        const imageUrls = allItems
-            .filter(i => i.imageUrl)
-            .map(i => i.imageUrl)
-            .slice(0, 12);
+// GET /api/wrapped/:userId/card.png - The same card rendered to PNG (what og:image points at)
+router.get('/:userId/card.png', optionalAuth, async (req: Request, res: Response) => {
+    const userId = req.params.userId as string;
+    const { period } = wrappedQuerySchema.parse(req.query);
+    const { visibility } = await PrivacyService.assertCanView(userId, 'wrapped', req.user?.id);
+    const report = await WrappedService.getReport(userId, WrappedService.parsePeriod(period));
+
+    res.set({
+        'Content-Type': 'image/png',
+        'Cache-Control': cardCacheControl(visibility),
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+    });
+    res.send(await renderWrappedPng(report));
+});
 
-        return res.json({
-            userName: user.name,
-            karma: user.karma,
-            level: user.level,
-            stats: {
-                totalItems: allItems.length,
-                totalWishlists: wishlists.length,
-                totalValue: Math.round(totalValue * 100) / 100,
-                fulfilledCount,
-                fulfillmentRate,
-                mostExpensive: mostExpensive
-                    ? { title: mostExpensive.title, price: Number(mostExpensive.price) }
-                    : null,
-                mostHyped: mostHyped
-                    ? { title: mostHyped.title, hypeCount: mostHyped.hypeCount }
-                    : null,
-                topContributor,
-            },
-            imageUrls,
-        });
-    } catch (error) {
-        console.error('Wrapped stats error:', error);
-        return res.status(500).json({ error: 'Failed to generate wrapped stats' });
-    }
+/**
+ * GET /api/wrapped/:userId/share - Stable link to share. Crawlers read its
+ * Open Graph tags to unfurl the card; browsers are sent on to the app.
+ */
+router.get('/:userId/share', optionalAuth, async (req: Request, res: Response) => {
+    const userId = req.params.userId as string;
+    const { period } = wrappedQuerySchema.parse(req.query);
+    const { visibility } = await PrivacyService.assertCanView(userId, 'wrapped', req.user?.id);
+    const report = await WrappedService.getReport(userId, WrappedService.parsePeriod(period));
+
+    res.set('Cache-Control', cardCacheControl(visibility));
+    res.type('html').send(renderWrappedSharePage(userId, report));
 });
 
 export default router;
@@ -0,0 +1,264 @@
+import prisma from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+import bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { AppError } from '../utils/errors';
+import { sendMail } from '../lib/mail';
+import { SessionService } from './SessionService';
+
+type AuthTokenType = 'verify_email' | 'change_email' | 'reset_password';
+
+const TOKEN_TTL_MS: Record<AuthTokenType, number> = {
+    verify_email: 24 * 60 * 60 * 1000, // 24 hours
+    change_email: 24 * 60 * 60 * 1000, // 24 hours
+    reset_password: 60 * 60 * 1000, // 1 hour
+};
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const clientUrl = (pathname: string, token: string, extraQuery = '') => {
+    const base = process.env.CLIENT_URL || 'http://localhost:5173';
+    return `${base.replace(/\/$/, '')}${pathname}?token=${encodeURIComponent(token)}${extraQuery}`;
+};
+
+// Shown in place of a deleted user's name on gifts they gave to others
+const DELETED_USER_NAME = 'Former member';
+
+export class AccountService {
+    /**
+     * Issue a fresh single-use token, revoking any unused ones of the same type.
+     * Returns the raw token — only its hash is stored.
+     */
+    static async issueToken(userId: string, type: AuthTokenType) {
+        const token = randomBytes(32).toString('base64url');
+
+        await prisma.$transaction([
+            prisma.authToken.updateMany({
+                where: { userId, type, usedAt: null },
+                data: { usedAt: new Date() },
+            }),
+            prisma.authToken.create({
+                data: {
+                    userId,
+                    type,
+                    tokenHash: hashToken(token),
+                    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type]),
+                },
+            }),
+        ]);
+
+        return token;
+    }
+
+    /**
+     * Mark a token as used and return its user id.
+     * The conditional update makes concurrent redemptions of the same token fail.
+     */
+    static async consumeToken(token: string, type: AuthTokenType) {
+        const tokenHash = hashToken(token);
+        const { count } = await prisma.authToken.updateMany({
+            where: { tokenHash, type, usedAt: null, expiresAt: { gt: new Date() } },
+            data: { usedAt: new Date() },
+        });
+
+        if (count === 0) {
+            throw new AppError(400, 'INVALID_TOKEN', 'This link is invalid or has expired');
+        }
+
+        const record = await prisma.authToken.findUnique({ where: { tokenHash } });
+        return record!.userId;
+    }
+
+    /**
+     * Email a verification link (no-op if the address is already verified)
+     */
+    static async sendVerificationEmail(userId: string) {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) throw new AppError(404, 'USER_NOT_FOUND', 'User not found');
+        if (user.emailVerifiedAt) return;
+
+        const token = await AccountService.issueToken(user.id, 'verify_email');
+        const link = clientUrl('/verify-email', token);
+
+        await sendMail({
+            to: user.email,
+            subject: 'Confirm your Giftly email',
+            text: `Hi ${user.name},\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+            html: `<p>Hi ${escapeHtml(user.name)},</p><p><a href="${link}">Confirm your email address</a></p><p>The link expires in 24 hours.</p>`,
+        });
+    }
+
+    static async verifyEmail(token: string) {
+        const userId = await AccountService.consumeToken(token, 'verify_email');
+        return prisma.user.update({
+            where: { id: userId },
+            data: { emailVerifiedAt: new Date() },
+            select: { id: true, email: true, emailVerifiedAt: true },
+        });
+    }
+
+    /**
+     * Email a reset link. Silently does nothing for unknown addresses
+     * so the endpoint can't be used to discover accounts.
+     */
+    static async requestPasswordReset(email: string) {
+        const user = await prisma.user.findUnique({ where: { email } });
+        if (!user) return;
+
+        const token = await AccountService.issueToken(user.id, 'reset_password');
+        const link = clientUrl('/reset-password', token);
+
+        await sendMail({
+            to: user.email,
+            subject: 'Reset your Giftly password',
+            text: `Hi ${user.name},\n\nReset your password by opening this link:\n${link}\n\nThe link expires in 1 hour. If you didn't ask for this, you can ignore this email.`,
+            html: `<p>Hi ${escapeHtml(user.name)},</p><p><a href="${link}">Reset your password</a></p><p>The link expires in 1 hour. If you didn't ask for this, you can ignore this email.</p>`,
+        });
+    }
+
+    /**
+     * Set a new password from a reset link. Following the link proves
+     * ownership of the inbox, so the email is marked verified too.
+     * Every existing session is signed out.
+     */
+    static async resetPassword(token: string, password: string) {
+        const userId = await AccountService.consumeToken(token, 'reset_password');
+        const passwordHash = await bcrypt.hash(password, 10);
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: { passwordHash, emailVerifiedAt: user.emailVerifiedAt ?? new Date() },
+        });
+        await SessionService.revokeAllForUser(userId);
+    }
+
+    /**
+     * Re-authenticate before a sensitive change. 403 rather than 401 so the
+     * client doesn't treat a typo as an expired session.
+     */
+    static async verifyPassword(userId: string, password: string) {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) throw new AppError(404, 'USER_NOT_FOUND', 'User not found');
+        if (!(await bcrypt.compare(password, user.passwordHash))) {
+            throw new AppError(403, 'INVALID_PASSWORD', 'Current password is incorrect');
+        }
+        return user;
+    }
+
+    /**
+     * Change the password of a signed-in user. Other devices are signed out;
+     * the session making the change stays signed in.
+     */
+    static async changePassword(userId: string, currentPassword: string, newPassword: string, currentSessionId?: string) {
+        await AccountService.verifyPassword(userId, currentPassword);
+        const passwordHash = await bcrypt.hash(newPassword, 10);
+
+        await prisma.user.update({ where: { id: userId }, data: { passwordHash } });
+        await SessionService.revokeAllForUser(userId, currentSessionId);
+    }
+
+    /**
+     * Start an email change. The address only switches once the link sent
+     * to the new inbox is followed; the old address is told about the request.
+     */
+    static async requestEmailChange(userId: string, newEmail: string, password: string) {
+        const user = await AccountService.verifyPassword(userId, password);
+        if (newEmail === user.email) {
+            throw new AppError(400, 'EMAIL_UNCHANGED', 'That is already your email address');
+        }
+
+        const taken = await prisma.user.findUnique({ where: { email: newEmail }, select: { id: true } });
+        if (taken) throw new AppError(409, 'EMAIL_TAKEN', 'An account with that email already exists');
+
+        await prisma.user.update({ where: { id: userId }, data: { pendingEmail: newEmail } });
+        const token = await AccountService.issueToken(userId, 'change_email');
+        const link = clientUrl('/verify-email', token, '&change=1');
+
+        await sendMail({
+            to: newEmail,
+            subject: 'Confirm your new Giftly email',
+            text: `Hi ${user.name},\n\nConfirm ${newEmail} as your new Giftly email by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+            html: `<p>Hi ${escapeHtml(user.name)},</p><p><a href="${link}">Confirm ${escapeHtml(newEmail)} as your new email</a></p><p>The link expires in 24 hours.</p>`,
+        });
+        await sendMail({
+            to: user.email,
+            subject: 'Your Giftly email is being changed',
+            text: `Hi ${user.name},\n\nSomeone asked to change your Giftly email to ${newEmail}. If this wasn't you, reset your password right away.`,
+            html: `<p>Hi ${escapeHtml(user.name)},</p><p>Someone asked to change your Giftly email to ${escapeHtml(newEmail)}. If this wasn't you, reset your password right away.</p>`,
+        });
+    }
+
+    /**
+     * Apply a pending email change from its confirmation link
+     */
+    static async confirmEmailChange(token: string) {
+        const userId = await AccountService.consumeToken(token, 'change_email');
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+        if (!user.pendingEmail) {
+            throw new AppError(400, 'INVALID_TOKEN', 'This link is invalid or has expired');
+        }
+
+        try {
+            // Reservations are keyed by email, so carry them over to the new address
+            const [updated] = await prisma.$transaction([
+                prisma.user.update({
+                    where: { id: userId },
+                    data: { email: user.pendingEmail, pendingEmail: null, emailVerifiedAt: new Date() },
+                    select: { id: true, email: true, emailVerifiedAt: true },
+                }),
+                prisma.reservation.updateMany({
+                    where: { reservedBy: user.email },
+                    data: { reservedBy: user.pendingEmail },
+                }),
+            ]);
+            return updated;
+        } catch (error) {
+            // Someone registered the address while the link was in flight
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                throw new AppError(409, 'EMAIL_TAKEN', 'An account with that email already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Permanently delete an account.
+     * - The user's own wishlists (with items, notes and hauls on them) are deleted.
+     * - Gifts they gave to other people are kept so those wishlists stay accurate,
+     *   but contributions and reservations are anonymized.
+     * - Items others stole from their lists credit "Former member" instead.
+     * - Follows, activity, sessions, tokens and exchange memberships cascade;
+     *   exchanges they organized are deleted for everyone.
+     */
+    static async deleteAccount(userId: string, password: string) {
+        const user = await AccountService.verifyPassword(userId, password);
+
+        await prisma.$transaction([
+            prisma.contribution.updateMany({
+                where: { userId },
+                data: { userId: null, contributorName: DELETED_USER_NAME, message: null },
+            }),
+            prisma.reservation.updateMany({
+                where: { reservedBy: user.email, item: { wishlist: { ownerId: { not: userId } } } },
+                data: { reservedBy: DELETED_USER_NAME },
+            }),
+            prisma.item.updateMany({
+                where: { stolenFromUserId: userId },
+                data: { stolenFromUserId: null, stolenFrom: DELETED_USER_NAME },
+            }),
+            prisma.haul.deleteMany({ where: { userId } }),
+            prisma.wishlist.deleteMany({ where: { ownerId: userId } }),
+            prisma.exchangeMember.updateMany({
+                where: { assigneeId: userId },
+                data: { assigneeId: null },
+            }),
+            prisma.exchangeExclusion.deleteMany({
+                where: { OR: [{ userAId: userId }, { userBId: userId }] },
+            }),
+            prisma.user.delete({ where: { id: userId } }),
+        ]);
+    }
+}
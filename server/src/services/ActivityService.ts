@@ -0,0 +1,94 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { PrivacyService, ProfileSection } from './PrivacyService';
+
+export type ActivityType = 'ITEM_ADDED' | 'HAUL_LOGGED' | 'SHRINE_UPDATED';
+
+interface RecordActivityDTO {
+    wishlistId?: string;
+    itemId?: string;
+    payload?: Record<string, unknown>;
+}
+
+const FEED_PAGE_SIZE = 30;
+
+// Entries that come from a profile section follow that section's privacy setting
+const SECTION_ACTIVITIES: Partial<Record<ActivityType, ProfileSection>> = {
+    HAUL_LOGGED: 'hauls',
+    SHRINE_UPDATED: 'shrine',
+};
+
+export class ActivityService {
+    /**
+     * Record a feed entry for a user's action.
+     * Failures are logged and swallowed so the originating action still succeeds.
+     */
+    static async record(userId: string, type: ActivityType, data: RecordActivityDTO = {}) {
+        try {
+            await prisma.activity.create({
+                data: {
+                    userId,
+                    type,
+                    wishlistId: data.wishlistId,
+                    itemId: data.itemId,
+                    payload: JSON.stringify(data.payload || {}),
+                },
+            });
+        } catch (error) {
+            console.error('Activity record error:', error);
+        }
+    }
+
+    /**
+     * Get the feed for a user: activity from everyone they follow.
+     * Entries tied to private wishlists are skipped, and so are hauls and
+     * shrine updates from profile sections the user isn't allowed to see.
+     */
+    static async getFeed(userId: string, before?: Date) {
+        const following = await prisma.follow.findMany({
+            where: { followerId: userId },
+            select: { followingId: true },
+        });
+
+        if (following.length === 0) return [];
+
+        // Group the people followed by which entry types they hide from this user,
+        // so the filter stays in the query and every page comes back full
+        const visibleSections = await PrivacyService.visibleSections(following.map(f => f.followingId), userId);
+        const actorsByHiddenTypes = new Map<string, { hiddenTypes: ActivityType[]; userIds: string[] }>();
+        for (const [actorId, sections] of visibleSections) {
+            const hiddenTypes = (Object.entries(SECTION_ACTIVITIES) as [ActivityType, ProfileSection][])
+                .filter(([, section]) => !sections.includes(section))
+                .map(([type]) => type);
+            const key = hiddenTypes.join(',');
+            const group = actorsByHiddenTypes.get(key) ?? { hiddenTypes, userIds: [] };
+            group.userIds.push(actorId);
+            actorsByHiddenTypes.set(key, group);
+        }
+        const actorFilters: Prisma.ActivityWhereInput[] = [...actorsByHiddenTypes.values()].map(({ hiddenTypes, userIds }) => ({
+            userId: { in: userIds },
+            ...(hiddenTypes.length > 0 ? { type: { notIn: hiddenTypes } } : {}),
+        }));
+
+        const activities = await prisma.activity.findMany({
+            where: {
+                AND: [
+                    { OR: actorFilters },
+                    { OR: [{ wishlistId: null }, { wishlist: { isPublic: true } }] },
+                ],
+                ...(before ? { createdAt: { lt: before } } : {}),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: FEED_PAGE_SIZE,
+            include: {
+                user: { select: { id: true, name: true, username: true, avatarUrl: true } },
+                wishlist: { select: { id: true, title: true } },
+            },
+        });
+
+        return activities.map(activity => ({
+            ...activity,
+            payload: JSON.parse(activity.payload),
+        }));
+    }
+}
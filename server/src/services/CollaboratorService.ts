@@ -0,0 +1,237 @@
+import prisma from '../lib/prisma';
+import { randomBytes } from 'crypto';
+import { AppError } from '../utils/errors';
+import { sendMail } from '../lib/mail';
+import { CollaboratorRole, WishlistRole, getWishlistRole, hasPermission } from '../lib/wishlistAccess';
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const ROLE_LABELS: Record<CollaboratorRole, string> = {
+    co_owner: 'co-owner',
+    editor: 'editor',
+    viewer: 'viewer',
+};
+
+const userSummarySelect = { id: true, name: true, username: true, avatarUrl: true } as const;
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// First CLIENT_URL origin, where people accept invitations
+const inviteUrl = (code: string) => {
+    const base = (process.env.CLIENT_URL || 'http://localhost:5173').split(',')[0].trim();
+    return `${base.replace(/\/$/, '')}/invites/${encodeURIComponent(code)}`;
+};
+
+interface InviteDTO {
+    role: CollaboratorRole;
+    email?: string;
+}
+
+export class CollaboratorService {
+    /**
+     * Load a wishlist with the requester's role on it. Lists they have no part
+     * in look missing; `permission` (when given) is required on top of that.
+     */
+    private static async loadWishlist(wishlistId: string, userId: string, permission?: 'manage') {
+        const wishlist = await prisma.wishlist.findUnique({
+            where: { id: wishlistId },
+            select: { id: true, title: true, ownerId: true },
+        });
+        const role = wishlist ? await getWishlistRole(wishlist, userId) : null;
+        if (!wishlist || !role) {
+            throw new AppError(404, 'WISHLIST_NOT_FOUND', 'Wishlist not found');
+        }
+        if (permission && !hasPermission(role, permission)) {
+            throw new AppError(403, 'FORBIDDEN', 'Only the wishlist owners can manage collaborators');
+        }
+        return { wishlist, role };
+    }
+
+    // Co-owners share the list as equals, so only the owner can make or unmake one
+    private static assertCanAssign(requesterRole: WishlistRole, ...roles: CollaboratorRole[]) {
+        if (roles.includes('co_owner') && requesterRole !== 'owner') {
+            throw new AppError(403, 'FORBIDDEN', 'Only the owner can add or change co-owners');
+        }
+    }
+
+    /**
+     * Owner, collaborators and (for the owner and co-owners) pending invites
+     */
+    static async list(wishlistId: string, userId: string) {
+        const { wishlist, role } = await CollaboratorService.loadWishlist(wishlistId, userId);
+
+        const [owner, collaborators, invites] = await Promise.all([
+            prisma.user.findUnique({ where: { id: wishlist.ownerId }, select: userSummarySelect }),
+            prisma.wishlistCollaborator.findMany({
+                where: { wishlistId },
+                orderBy: { createdAt: 'asc' },
+                select: { role: true, createdAt: true, user: { select: userSummarySelect } },
+            }),
+            hasPermission(role, 'manage')
+                ? prisma.wishlistInvite.findMany({
+                    where: { wishlistId, expiresAt: { gt: new Date() } },
+                    orderBy: { createdAt: 'desc' },
+                })
+                : Promise.resolve([]),
+        ]);
+
+        return {
+            role,
+            owner,
+            collaborators,
+            // Email invites are for their recipient's inbox only, so their links aren't listed
+            invites: invites.map(({ code, invitedById: _invitedById, ...invite }) => ({
+                ...invite,
+                url: invite.email ? null : inviteUrl(code),
+            })),
+        };
+    }
+
+    /**
+     * Invite someone by email (a single-use link sent to that address) or
+     * create a shareable link anyone signed in can use until it expires
+     */
+    static async createInvite(wishlistId: string, inviterId: string, data: InviteDTO) {
+        const { wishlist, role } = await CollaboratorService.loadWishlist(wishlistId, inviterId, 'manage');
+        CollaboratorService.assertCanAssign(role, data.role);
+
+        const email = data.email?.trim().toLowerCase();
+        if (email) {
+            const invitee = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+            if (invitee && await getWishlistRole(wishlist, invitee.id)) {
+                throw new AppError(409, 'ALREADY_COLLABORATOR', 'They already have access to this wishlist');
+            }
+            // A fresh invite replaces any earlier one to the same address
+            await prisma.wishlistInvite.deleteMany({ where: { wishlistId, email } });
+        }
+
+        const invite = await prisma.wishlistInvite.create({
+            data: {
+                wishlistId,
+                invitedById: inviterId,
+                role: data.role,
+                email: email ?? null,
+                code: randomBytes(9).toString('base64url'),
+                expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+            },
+        });
+        const url = inviteUrl(invite.code);
+
+        if (email) {
+            const inviter = await prisma.user.findUnique({ where: { id: inviterId }, select: { name: true } });
+            const who = inviter?.name || 'Someone';
+            const roleLabel = ROLE_LABELS[data.role];
+            await sendMail({
+                to: email,
+                subject: `${who} invited you to "${wishlist.title}" on Giftly`,
+                text: `Hi,\n\n${who} invited you to join their wishlist "${wishlist.title}" as ${roleLabel}. Open this link to accept:\n${url}\n\nThe link expires in 7 days.`,
+                html: `<p>Hi,</p><p>${escapeHtml(who)} invited you to join their wishlist <strong>${escapeHtml(wishlist.title)}</strong> as ${roleLabel}.</p><p><a href="${url}">Accept the invitation</a></p><p>The link expires in 7 days.</p>`,
+            });
+        }
+
+        const { code: _code, invitedById: _invitedById, ...rest } = invite;
+        return { ...rest, url: email ? null : url };
+    }
+
+    /**
+     * What an invite is for, so the invitee can decide before accepting
+     */
+    static async getInvite(code: string) {
+        const invite = await prisma.wishlistInvite.findUnique({
+            where: { code },
+            select: {
+                role: true,
+                email: true,
+                expiresAt: true,
+                wishlist: { select: { id: true, title: true, owner: { select: userSummarySelect } } },
+                invitedBy: { select: { name: true } },
+            },
+        });
+        if (!invite || invite.expiresAt <= new Date()) {
+            throw new AppError(404, 'INVITE_NOT_FOUND', 'This invite is invalid or has expired');
+        }
+
+        const { email, ...rest } = invite;
+        return { ...rest, forEmail: Boolean(email) };
+    }
+
+    /**
+     * Join the wishlist with the invite's role. Accepting again (or an invite
+     * to a list you already share) leaves your current role as it is.
+     */
+    static async acceptInvite(code: string, userId: string) {
+        const [invite, user] = await Promise.all([
+            prisma.wishlistInvite.findUnique({
+                where: { code },
+                include: { wishlist: { select: { id: true, ownerId: true } } },
+            }),
+            // The token's email may predate an address change, so check the current one
+            prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { id: true, email: true } }),
+        ]);
+        if (!invite || invite.expiresAt <= new Date()) {
+            throw new AppError(404, 'INVITE_NOT_FOUND', 'This invite is invalid or has expired');
+        }
+        if (invite.email && invite.email !== user.email.toLowerCase()) {
+            throw new AppError(403, 'INVITE_EMAIL_MISMATCH', 'This invite was sent to a different email address');
+        }
+
+        if (invite.wishlist.ownerId !== user.id) {
+            await prisma.wishlistCollaborator.upsert({
+                where: { wishlistId_userId: { wishlistId: invite.wishlistId, userId: user.id } },
+                create: { wishlistId: invite.wishlistId, userId: user.id, role: invite.role },
+                update: {},
+            });
+        }
+        if (invite.email) {
+            await prisma.wishlistInvite.deleteMany({ where: { id: invite.id } });
+        }
+
+        return { wishlistId: invite.wishlistId, role: await getWishlistRole(invite.wishlist, user.id) };
+    }
+
+    static async revokeInvite(inviteId: string, userId: string) {
+        const invite = await prisma.wishlistInvite.findUnique({ where: { id: inviteId }, select: { wishlistId: true } });
+        if (!invite) {
+            throw new AppError(404, 'INVITE_NOT_FOUND', 'Invite not found');
+        }
+        await CollaboratorService.loadWishlist(invite.wishlistId, userId, 'manage');
+        await prisma.wishlistInvite.delete({ where: { id: inviteId } });
+    }
+
+    private static async loadCollaborator(wishlistId: string, userId: string) {
+        const collaborator = await prisma.wishlistCollaborator.findUnique({
+            where: { wishlistId_userId: { wishlistId, userId } },
+        });
+        if (!collaborator) {
+            throw new AppError(404, 'COLLABORATOR_NOT_FOUND', 'Collaborator not found');
+        }
+        return collaborator;
+    }
+
+    static async updateRole(wishlistId: string, requesterId: string, userId: string, role: CollaboratorRole) {
+        const { role: requesterRole } = await CollaboratorService.loadWishlist(wishlistId, requesterId, 'manage');
+        const collaborator = await CollaboratorService.loadCollaborator(wishlistId, userId);
+        CollaboratorService.assertCanAssign(requesterRole, collaborator.role as CollaboratorRole, role);
+
+        return prisma.wishlistCollaborator.update({
+            where: { id: collaborator.id },
+            data: { role },
+            select: { role: true, createdAt: true, user: { select: userSummarySelect } },
+        });
+    }
+
+    /**
+     * Remove a collaborator, or leave a wishlist when removing yourself
+     */
+    static async remove(wishlistId: string, requesterId: string, userId: string) {
+        if (requesterId !== userId) {
+            const { role } = await CollaboratorService.loadWishlist(wishlistId, requesterId, 'manage');
+            const collaborator = await CollaboratorService.loadCollaborator(wishlistId, userId);
+            CollaboratorService.assertCanAssign(role, collaborator.role as CollaboratorRole);
+        } else {
+            await CollaboratorService.loadCollaborator(wishlistId, userId);
+        }
+
+        await prisma.wishlistCollaborator.deleteMany({ where: { wishlistId, userId } });
+    }
+}
@@ -0,0 +1,245 @@
+import prisma from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+import { AppError } from '../utils/errors';
+
+// Points per rewarded action; each source (item, hyper, day) pays out once per rule
+export const KARMA_RULES = {
+    ITEM_RESERVED: 10,
+    CONTRIBUTED: 15,
+    HAUL_LOGGED: 20,
+    HYPE_RECEIVED: 2,
+    DAILY_VISIT: 1,
+} as const;
+export type KarmaRule = keyof typeof KARMA_RULES;
+
+// Karma needed for each level: LEVEL_THRESHOLDS[n - 1] reaches level n
+export const LEVEL_THRESHOLDS = [0, 50, 150, 300, 500, 800, 1200, 1700, 2500, 3500];
+
+export const levelFor = (karma: number) => LEVEL_THRESHOLDS.filter(threshold => karma >= threshold).length;
+
+type BadgeCriteria =
+    | { rule: KarmaRule; count: number }
+    | { streak: number }
+    | { level: number };
+
+interface BadgeDefinition {
+    id: string;
+    name: string;
+    description: string;
+    criteria: BadgeCriteria;
+}
+
+// Shelf order; the client picks an icon per id
+export const BADGES: BadgeDefinition[] = [
+    { id: 'FIRST_RESERVATION', name: 'Secret Keeper', description: 'Reserve your first gift', criteria: { rule: 'ITEM_RESERVED', count: 1 } },
+    { id: 'GIFT_GIVER', name: 'Gift Giver', description: 'Reserve 10 gifts', criteria: { rule: 'ITEM_RESERVED', count: 10 } },
+    { id: 'FIRST_CHIP_IN', name: 'Team Player', description: 'Chip in on a group gift', criteria: { rule: 'CONTRIBUTED', count: 1 } },
+    { id: 'PATRON', name: 'Patron', description: 'Chip in on 5 group gifts', criteria: { rule: 'CONTRIBUTED', count: 5 } },
+    { id: 'FIRST_HAUL', name: 'Unboxed', description: 'Log your first haul', criteria: { rule: 'HAUL_LOGGED', count: 1 } },
+    { id: 'HAUL_HOARDER', name: 'Haul Hoarder', description: 'Log 10 hauls', criteria: { rule: 'HAUL_LOGGED', count: 10 } },
+    { id: 'HYPE_MAGNET', name: 'Hype Magnet', description: 'Get 25 hypes from other people', criteria: { rule: 'HYPE_RECEIVED', count: 25 } },
+    { id: 'ON_A_ROLL', name: 'On a Roll', description: 'Visit 7 days in a row', criteria: { streak: 7 } },
+    { id: 'DEVOTED', name: 'Devoted', description: 'Visit 30 days in a row', criteria: { streak: 30 } },
+    { id: 'RISING_STAR', name: 'Rising Star', description: 'Reach level 5', criteria: { level: 5 } },
+];
+
+interface Progress {
+    counts: Partial<Record<KarmaRule, number>>;
+    streakDays: number;
+    level: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Streaks run on UTC days
+const dayNumber = (date: Date) => Math.floor(date.getTime() / DAY_MS);
+
+// A streak is only shown while it's unbroken: the last visit was today or yesterday
+const currentStreak = (streakDays: number, lastLoginAt: Date | null) => (
+    lastLoginAt && dayNumber(new Date()) - dayNumber(lastLoginAt) <= 1 ? streakDays : 0
+);
+
+const badgeProgress = ({ criteria }: BadgeDefinition, progress: Progress) => {
+    if ('rule' in criteria) return { current: progress.counts[criteria.rule] ?? 0, target: criteria.count };
+    if ('streak' in criteria) return { current: progress.streakDays, target: criteria.streak };
+    return { current: progress.level, target: criteria.level };
+};
+
+const isAlreadyAwarded = (error: unknown) => error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Move a user's karma by `points` and keep their level in step with it
+const adjustKarma = async (transaction: Prisma.TransactionClient, userId: string, points: number) => {
+    const user = await transaction.user.update({
+        where: { id: userId },
+        data: { karma: { increment: points } },
+        select: { karma: true, level: true },
+    });
+    const level = levelFor(user.karma);
+    if (level !== user.level) {
+        await transaction.user.update({ where: { id: userId }, data: { level } });
+    }
+};
+
+export class GamificationService {
+    /**
+     * Give a user the karma for an action, level them up if it crosses a
+     * threshold and unlock any badges it completes. The same rule and source
+     * only ever pay out once. Failures are logged and swallowed so the
+     * originating action still succeeds.
+     */
+    static async award(userId: string, rule: KarmaRule, sourceId: string) {
+        try {
+            const points = KARMA_RULES[rule];
+            await prisma.$transaction(async (transaction) => {
+                await transaction.karmaEvent.create({ data: { userId, rule, sourceId, points } });
+                await adjustKarma(transaction, userId, points);
+            });
+
+            await GamificationService.syncBadges(userId);
+        } catch (error) {
+            if (isAlreadyAwarded(error)) return;
+            console.error('Karma award error:', error);
+        }
+    }
+
+    /**
+     * Take back the karma an undone action earned (e.g. a released
+     * reservation), re-level the user and drop the badges it was needed for.
+     * Failures are logged and swallowed like award's.
+     */
+    static async revoke(userId: string, rule: KarmaRule, sourceId: string) {
+        try {
+            const revoked = await prisma.$transaction(async (transaction) => {
+                const event = await transaction.karmaEvent.findUnique({
+                    where: { userId_rule_sourceId: { userId, rule, sourceId } },
+                });
+                // deleteMany so two revokes racing each other only take the points back once
+                const { count } = event
+                    ? await transaction.karmaEvent.deleteMany({ where: { id: event.id } })
+                    : { count: 0 };
+                if (!event || count === 0) return false;
+
+                await adjustKarma(transaction, userId, -event.points);
+                return true;
+            });
+
+            if (revoked) await GamificationService.syncBadges(userId);
+        } catch (error) {
+            console.error('Karma revoke error:', error);
+        }
+    }
+
+    /**
+     * Count today towards the user's daily streak (called on sign-in and on
+     * every session refresh, so people who stay signed in keep theirs).
+     * The first visit of a UTC day extends the streak if they came
+     * yesterday, otherwise restarts it, and earns the daily karma.
+     */
+    static async recordVisit(userId: string) {
+        try {
+            const user = await prisma.user.findUnique({
+                where: { id: userId },
+                select: { streakDays: true, lastLoginAt: true },
+            });
+            if (!user) return;
+
+            const now = new Date();
+            const today = dayNumber(now);
+            const lastDay = user.lastLoginAt ? dayNumber(user.lastLoginAt) : null;
+            if (lastDay === today) return;
+
+            // Conditional on what was read, so two requests racing past midnight count once
+            const { count } = await prisma.user.updateMany({
+                where: { id: userId, lastLoginAt: user.lastLoginAt },
+                data: { lastLoginAt: now, streakDays: lastDay === today - 1 ? user.streakDays + 1 : 1 },
+            });
+            if (count === 0) return;
+
+            await GamificationService.award(userId, 'DAILY_VISIT', now.toISOString().slice(0, 10));
+        } catch (error) {
+            console.error('Streak update error:', error);
+        }
+    }
+
+    private static async loadProgress(userId: string) {
+        const [user, events] = await Promise.all([
+            prisma.user.findUnique({
+                where: { id: userId },
+                select: {
+                    karma: true,
+                    level: true,
+                    streakDays: true,
+                    lastLoginAt: true,
+                    badges: { select: { badge: true, awardedAt: true } },
+                },
+            }),
+            prisma.karmaEvent.groupBy({ by: ['rule'], where: { userId }, _count: { _all: true } }),
+        ]);
+        if (!user) return null;
+
+        const progress: Progress = {
+            counts: Object.fromEntries(events.map(event => [event.rule, event._count._all])),
+            streakDays: currentStreak(user.streakDays, user.lastLoginAt),
+            level: user.level,
+        };
+        return { user, progress };
+    }
+
+    /**
+     * Store every badge whose criteria the user now meets and drop karma and
+     * level badges they no longer do (revoked karma). Streak badges are kept
+     * for good, since a streak is meant to lapse.
+     */
+    private static async syncBadges(userId: string) {
+        const loaded = await GamificationService.loadProgress(userId);
+        if (!loaded) return;
+
+        const earned = new Set(loaded.user.badges.map(badge => badge.badge));
+        const isMet = (badge: BadgeDefinition) => {
+            const { current, target } = badgeProgress(badge, loaded.progress);
+            return current >= target;
+        };
+        const unlocked = BADGES.filter(badge => !earned.has(badge.id) && isMet(badge));
+        const lost = BADGES.filter(badge => earned.has(badge.id) && !('streak' in badge.criteria) && !isMet(badge));
+
+        if (unlocked.length > 0) {
+            await prisma.userBadge.createMany({
+                data: unlocked.map(badge => ({ userId, badge: badge.id })),
+                skipDuplicates: true,
+            });
+        }
+        if (lost.length > 0) {
+            await prisma.userBadge.deleteMany({ where: { userId, badge: { in: lost.map(badge => badge.id) } } });
+        }
+    }
+
+    /**
+     * Public gamification profile: karma, level with the karma range it
+     * spans, the current streak and the full badge shelf (earned or not,
+     * with progress towards each).
+     */
+    static async getProfile(userId: string) {
+        const loaded = await GamificationService.loadProgress(userId);
+        if (!loaded) {
+            throw new AppError(404, 'USER_NOT_FOUND', 'User not found');
+        }
+
+        const { user, progress } = loaded;
+        const earnedAt = new Map(user.badges.map(badge => [badge.badge, badge.awardedAt]));
+
+        return {
+            karma: user.karma,
+            level: user.level,
+            levelKarma: LEVEL_THRESHOLDS[user.level - 1] ?? 0,
+            nextLevelKarma: LEVEL_THRESHOLDS[user.level] ?? null,
+            streakDays: progress.streakDays,
+            badges: BADGES.map(badge => ({
+                id: badge.id,
+                name: badge.name,
+                description: badge.description,
+                earnedAt: earnedAt.get(badge.id) ?? null,
+                progress: badgeProgress(badge, progress),
+            })),
+        };
+    }
+}
@@ -0,0 +1,382 @@
+import prisma from '../lib/prisma';
+import { Server } from 'socket.io';
+import { randomBytes } from 'crypto';
+import { AppError } from '../utils/errors';
+import { maskExchangeReservation } from '../utils/spoilers';
+import { ItemService, itemOrderBy, reservationsInclude } from './ItemService';
+
+interface CreateExchangeDTO {
+    name: string;
+    description?: string;
+    budget?: number;
+    currency?: string;
+    exchangeDate?: Date | null;
+}
+
+interface ExclusionPair {
+    userAId: string;
+    userBId: string;
+}
+
+// Give up on a draw after this many backtracking steps (pathological exclusion sets)
+const MAX_DRAW_STEPS = 100_000;
+
+const shuffle = <T>(values: T[]) => {
+    const result = [...values];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+/**
+ * Constrained derangement: assign every giver exactly one receiver so that
+ * nobody draws themselves or someone they are excluded from.
+ * Randomized backtracking — returns null when no valid draw exists.
+ */
+export const drawAssignments = (userIds: string[], exclusions: ExclusionPair[]) => {
+    const forbidden = new Set<string>();
+    exclusions.forEach(({ userAId, userBId }) => {
+        forbidden.add(`${userAId}:${userBId}`);
+        forbidden.add(`${userBId}:${userAId}`);
+    });
+
+    const givers = shuffle(userIds);
+    const assignments = new Map<string, string>();
+    const taken = new Set<string>();
+    let steps = 0;
+
+    const assign = (index: number): boolean => {
+        if (index === givers.length) return true;
+        if (++steps > MAX_DRAW_STEPS) return false;
+
+        const giver = givers[index];
+        for (const receiver of shuffle(userIds)) {
+            if (receiver === giver || taken.has(receiver) || forbidden.has(`${giver}:${receiver}`)) continue;
+
+            assignments.set(giver, receiver);
+            taken.add(receiver);
+            if (assign(index + 1)) return true;
+            assignments.delete(giver);
+            taken.delete(receiver);
+        }
+        return false;
+    };
+
+    return assign(0) ? assignments : null;
+};
+
+export class GiftExchangeService {
+    /**
+     * Create an exchange; the organizer is automatically its first member
+     */
+    static async createExchange(organizerId: string, data: CreateExchangeDTO) {
+        return prisma.giftExchange.create({
+            data: {
+                organizerId,
+                name: data.name,
+                description: data.description,
+                budget: data.budget,
+                currency: data.currency || 'USD',
+                exchangeDate: data.exchangeDate,
+                inviteCode: randomBytes(6).toString('base64url'),
+                members: { create: { userId: organizerId } },
+            },
+        });
+    }
+
+    /**
+     * Exchanges the user belongs to, newest first
+     */
+    static async listForUser(userId: string) {
+        const memberships = await prisma.exchangeMember.findMany({
+            where: { userId },
+            orderBy: { joinedAt: 'desc' },
+            include: {
+                exchange: { include: { _count: { select: { members: true } } } },
+            },
+        });
+
+        return memberships.map(({ exchange }) => {
+            const { _count, inviteCode: _inviteCode, ...rest } = exchange;
+            return { ...rest, memberCount: _count.members, isOrganizer: exchange.organizerId === userId };
+        });
+    }
+
+    /**
+     * Load an exchange the user belongs to, or throw 404
+     */
+    static async getMembership(exchangeId: string, userId: string) {
+        const membership = await prisma.exchangeMember.findUnique({
+            where: { exchangeId_userId: { exchangeId, userId } },
+            include: { exchange: true },
+        });
+        if (!membership) {
+            throw new AppError(404, 'EXCHANGE_NOT_FOUND', 'Gift exchange not found');
+        }
+        return membership;
+    }
+
+    /**
+     * Load an exchange for organizer-only actions while it is still open
+     */
+    static async getOpenExchangeForOrganizer(exchangeId: string, userId: string) {
+        const { exchange } = await GiftExchangeService.getMembership(exchangeId, userId);
+        if (exchange.organizerId !== userId) {
+            throw new AppError(403, 'FORBIDDEN', 'Only the organizer can do this');
+        }
+        if (exchange.status !== 'open') {
+            throw new AppError(409, 'EXCHANGE_ALREADY_DRAWN', 'Names have already been drawn');
+        }
+        return exchange;
+    }
+
+    /**
+     * Exchange details as seen by one member: everyone's names, but only
+     * their own assignee (and that person's linked wishlist).
+     */
+    static async getExchangeForMember(exchangeId: string, user: { id: string; email: string }) {
+        const membership = await GiftExchangeService.getMembership(exchangeId, user.id);
+        const { exchange } = membership;
+        const isOrganizer = exchange.organizerId === user.id;
+
+        const [members, exclusions] = await Promise.all([
+            prisma.exchangeMember.findMany({
+                where: { exchangeId },
+                orderBy: { joinedAt: 'asc' },
+                select: {
+                    userId: true,
+                    wishlistId: true,
+                    user: { select: { id: true, name: true, avatarUrl: true } },
+                },
+            }),
+            prisma.exchangeExclusion.findMany({ where: { exchangeId } }),
+        ]);
+
+        let assignee = null;
+        if (membership.assigneeId) {
+            const assigneeMember = await prisma.exchangeMember.findUnique({
+                where: { exchangeId_userId: { exchangeId, userId: membership.assigneeId } },
+                include: {
+                    user: { select: { id: true, name: true, avatarUrl: true } },
+                    wishlist: {
+                        include: { items: { orderBy: itemOrderBy, include: reservationsInclude } },
+                    },
+                },
+            });
+
+            if (assigneeMember) {
+                const wishlist = assigneeMember.wishlist;
+                assignee = {
+                    user: assigneeMember.user,
+                    wishlist: wishlist && {
+                        id: wishlist.id,
+                        title: wishlist.title,
+                        items: wishlist.items.map(item => maskExchangeReservation(item, user.email)),
+                    },
+                };
+            }
+        }
+
+        return {
+            ...exchange,
+            // Invite code is only shared by the organizer while the group is open
+            inviteCode: isOrganizer && exchange.status === 'open' ? exchange.inviteCode : undefined,
+            isOrganizer,
+            myWishlistId: membership.wishlistId,
+            members: members.map(m => ({ ...m.user, hasWishlist: Boolean(m.wishlistId) })),
+            exclusions: isOrganizer ? exclusions : [],
+            assignee,
+        };
+    }
+
+    /**
+     * Join an open exchange by invite code (idempotent)
+     */
+    static async joinByInviteCode(inviteCode: string, userId: string) {
+        const exchange = await prisma.giftExchange.findUnique({ where: { inviteCode } });
+        if (!exchange) {
+            throw new AppError(404, 'EXCHANGE_NOT_FOUND', 'Invite link is invalid');
+        }
+        if (exchange.status !== 'open') {
+            throw new AppError(409, 'EXCHANGE_ALREADY_DRAWN', 'Names have already been drawn for this exchange');
+        }
+
+        await prisma.exchangeMember.upsert({
+            where: { exchangeId_userId: { exchangeId: exchange.id, userId } },
+            create: { exchangeId: exchange.id, userId },
+            update: {},
+        });
+
+        return exchange;
+    }
+
+    /**
+     * Link (or unlink) the wishlist the member's Secret Santa will shop from
+     */
+    static async linkWishlist(exchangeId: string, userId: string, wishlistId: string | null) {
+        await GiftExchangeService.getMembership(exchangeId, userId);
+
+        if (wishlistId) {
+            const wishlist = await prisma.wishlist.findUnique({ where: { id: wishlistId } });
+            if (!wishlist || wishlist.ownerId !== userId) {
+                throw new AppError(403, 'FORBIDDEN', 'You can only link your own wishlists');
+            }
+        }
+
+        return prisma.exchangeMember.update({
+            where: { exchangeId_userId: { exchangeId, userId } },
+            data: { wishlistId },
+        });
+    }
+
+    /**
+     * Add a "can't draw each other" rule between two members (organizer only)
+     */
+    static async addExclusion(exchangeId: string, organizerId: string, pair: ExclusionPair) {
+        await GiftExchangeService.getOpenExchangeForOrganizer(exchangeId, organizerId);
+
+        if (pair.userAId === pair.userBId) {
+            throw new AppError(400, 'INVALID_EXCLUSION', 'Pick two different members');
+        }
+
+        const memberCount = await prisma.exchangeMember.count({
+            where: { exchangeId, userId: { in: [pair.userAId, pair.userBId] } },
+        });
+        if (memberCount !== 2) {
+            throw new AppError(400, 'INVALID_EXCLUSION', 'Both people must be members of the exchange');
+        }
+
+        // Store pairs in a canonical order so A/B and B/A are the same rule
+        const [userAId, userBId] = [pair.userAId, pair.userBId].sort();
+        return prisma.exchangeExclusion.upsert({
+            where: { exchangeId_userAId_userBId: { exchangeId, userAId, userBId } },
+            create: { exchangeId, userAId, userBId },
+            update: {},
+        });
+    }
+
+    static async removeExclusion(exchangeId: string, organizerId: string, exclusionId: string) {
+        await GiftExchangeService.getOpenExchangeForOrganizer(exchangeId, organizerId);
+        await prisma.exchangeExclusion.deleteMany({ where: { id: exclusionId, exchangeId } });
+    }
+
+    /**
+     * Remove a member before the draw: the organizer can remove anyone else,
+     * members can remove themselves.
+     */
+    static async removeMember(exchangeId: string, requesterId: string, userId: string) {
+        const { exchange } = await GiftExchangeService.getMembership(exchangeId, requesterId);
+
+        if (requesterId !== userId && exchange.organizerId !== requesterId) {
+            throw new AppError(403, 'FORBIDDEN', 'Only the organizer can remove members');
+        }
+        if (userId === exchange.organizerId) {
+            throw new AppError(400, 'ORGANIZER_CANNOT_LEAVE', 'The organizer cannot leave the exchange');
+        }
+        if (exchange.status !== 'open') {
+            throw new AppError(409, 'EXCHANGE_ALREADY_DRAWN', 'Names have already been drawn');
+        }
+
+        await prisma.$transaction([
+            prisma.exchangeExclusion.deleteMany({
+                where: { exchangeId, OR: [{ userAId: userId }, { userBId: userId }] },
+            }),
+            prisma.exchangeMember.deleteMany({ where: { exchangeId, userId } }),
+        ]);
+    }
+
+    /**
+     * Run the draw (organizer only) and lock the exchange
+     */
+    static async draw(exchangeId: string, organizerId: string) {
+        await GiftExchangeService.getOpenExchangeForOrganizer(exchangeId, organizerId);
+
+        const [members, exclusions] = await Promise.all([
+            prisma.exchangeMember.findMany({ where: { exchangeId }, select: { userId: true } }),
+            prisma.exchangeExclusion.findMany({ where: { exchangeId } }),
+        ]);
+
+        if (members.length < 3) {
+            throw new AppError(400, 'NOT_ENOUGH_MEMBERS', 'A gift exchange needs at least 3 members');
+        }
+
+        const assignments = drawAssignments(members.map(m => m.userId), exclusions);
+        if (!assignments) {
+            throw new AppError(409, 'DRAW_IMPOSSIBLE', 'No valid draw exists with these exclusion rules');
+        }
+
+        await prisma.$transaction(async (transaction) => {
+            // Claim the draw first: of two concurrent draws only one flips the status, the other rolls back
+            const { count } = await transaction.giftExchange.updateMany({
+                where: { id: exchangeId, status: 'open' },
+                data: { status: 'drawn', drawnAt: new Date() },
+            });
+            if (count !== 1) {
+                throw new AppError(409, 'EXCHANGE_ALREADY_DRAWN', 'Names have already been drawn');
+            }
+
+            for (const [giverId, receiverId] of assignments) {
+                await transaction.exchangeMember.update({
+                    where: { exchangeId_userId: { exchangeId, userId: giverId } },
+                    data: { assigneeId: receiverId },
+                });
+            }
+        });
+    }
+
+    /**
+     * Whether a user drew the owner of a wishlist in some exchange
+     * (lets a Secret Santa open their assignee's private linked list).
+     */
+    static async isSecretSantaFor(userId: string, wishlistId: string) {
+        const linked = await prisma.exchangeMember.findMany({
+            where: { wishlistId },
+            select: { exchangeId: true, userId: true },
+        });
+        if (linked.length === 0) return false;
+
+        const giver = await prisma.exchangeMember.findFirst({
+            where: {
+                userId,
+                OR: linked.map(m => ({ exchangeId: m.exchangeId, assigneeId: m.userId })),
+            },
+            select: { id: true },
+        });
+        return Boolean(giver);
+    }
+
+    /**
+     * Reserve an item on the assignee's linked wishlist as their Secret Santa
+     */
+    static async reserveForAssignee(
+        exchangeId: string,
+        user: { id: string; email: string },
+        itemId: string,
+        io?: Server
+    ) {
+        const membership = await GiftExchangeService.getMembership(exchangeId, user.id);
+        if (!membership.assigneeId) {
+            throw new AppError(409, 'EXCHANGE_NOT_DRAWN', 'Names have not been drawn yet');
+        }
+
+        const assignee = await prisma.exchangeMember.findUnique({
+            where: { exchangeId_userId: { exchangeId, userId: membership.assigneeId } },
+        });
+        const item = await prisma.item.findUnique({ where: { id: itemId } });
+
+        if (!item || !assignee?.wishlistId || item.wishlistId !== assignee.wishlistId) {
+            throw new AppError(404, 'ITEM_NOT_FOUND', "Item is not on your assignee's wishlist");
+        }
+
+        try {
+            return await ItemService.reserveItem(itemId, user.email, user.id, io, exchangeId);
+        } catch (error) {
+            if (error instanceof Error && (error.message === 'Item is already reserved' || error.message === 'Not enough left to reserve')) {
+                throw new AppError(409, 'ITEM_ALREADY_RESERVED', error.message);
+            }
+            throw error;
+        }
+    }
+}
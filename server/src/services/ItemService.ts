@@ -1,6 +1,46 @@
 
 import prisma from '../lib/prisma';
+import { Prisma } from '@prisma/client';
 import { Server } from 'socket.io';
+import { emitWishlistEvent, wishlistRoom } from '../lib/realtime';
+import { getWishlistRole, hasPermission, isRecipient, recipientIds } from '../lib/wishlistAccess';
+import { maskExchangeReservation, redactItemForOwner } from '../utils/spoilers';
+import { AppError } from '../utils/errors';
+import { ActivityService } from './ActivityService';
+import { GamificationService } from './GamificationService';
+import { NotificationService } from './NotificationService';
+import { PriceTrackingService, priceHistoryInclude } from './PriceTrackingService';
+
+export const ITEM_PRIORITIES = ['must_have', 'nice_to_have'] as const;
+export type ItemPriority = typeof ITEM_PRIORITIES[number];
+
+// Reservation fields sent to viewers; masked per viewer with maskExchangeReservation
+export const reservationsInclude = {
+    reservations: {
+        select: { id: true, reservedBy: true, quantity: true, reservedViaExchangeId: true, isSecretSanta: true, createdAt: true },
+        orderBy: { createdAt: 'asc' as const },
+    },
+};
+
+// Who an item was stolen from, for the provenance link to their profile
+export const provenanceInclude = {
+    stolenFromUser: { select: { username: true, name: true } },
+};
+
+// Owner's manual order, newest first among items that were never moved
+export const itemOrderBy: Prisma.ItemOrderByWithRelationInput[] = [{ position: 'asc' }, { createdAt: 'desc' }];
+
+/**
+ * Atomically add `delta` reserved units to an item, keeping isReserved in
+ * step. Returns 0 when that would claim more units than the item has.
+ */
+const adjustReservedQuantity = (transaction: Prisma.TransactionClient, itemId: string, delta: number) => transaction.$executeRaw`
+    UPDATE "Item"
+    SET "reservedQuantity" = GREATEST("reservedQuantity" + ${delta}, 0),
+        "isReserved" = GREATEST("reservedQuantity" + ${delta}, 0) >= "quantity",
+        "updatedAt" = CURRENT_TIMESTAMP
+    WHERE "id" = ${itemId} AND "reservedQuantity" + ${delta} <= "quantity"
+`;
 
 interface CreateItemDTO {
     wishlistId: string;
@@ -10,6 +50,21 @@ interface CreateItemDTO {
     price?: number;
     currency?: string;
     story?: string;
+    priceAlertBelow?: number;
+    priority?: ItemPriority;
+    quantity?: number;
+}
+
+interface UpdateItemDTO {
+    title?: string;
+    url?: string | null;
+    imageUrl?: string | null;
+    price?: number | null;
+    currency?: string;
+    story?: string | null;
+    priceAlertBelow?: number | null;
+    priority?: ItemPriority;
+    quantity?: number;
 }
 
 export class ItemService {
@@ -17,12 +72,19 @@ export class ItemService {
      * Create a new item and notify clients
      */
     static async createItem(userId: string, data: CreateItemDTO, io?: Server) {
-        // Verify ownership
+        // Owners, co-owners and editors can add items
         const wishlist = await prisma.wishlist.findUnique({ where: { id: data.wishlistId } });
-        if (!wishlist || wishlist.ownerId !== userId) {
+        if (!wishlist || !hasPermission(await getWishlistRole(wishlist, userId), 'edit_items')) {
             throw new Error('Not authorized to add to this wishlist');
         }
 
+        // New items go to the top of the owner's order
+        const { _min } = await prisma.item.aggregate({
+            where: { wishlistId: data.wishlistId },
+            _min: { position: true },
+        });
+
+        const currency = data.currency || 'USD';
         const item = await prisma.item.create({
             data: {
                 wishlistId: data.wishlistId,
@@ -30,70 +92,194 @@ export class ItemService {
                 url: data.url,
                 imageUrl: data.imageUrl,
                 price: data.price ? Number(data.price) : undefined,
-                currency: data.currency || 'USD',
+                currency,
                 story: data.story,
+                priceAlertBelow: data.priceAlertBelow,
+                priority: data.priority,
+                quantity: data.quantity,
+                position: _min.position === null ? 0 : _min.position - 1,
+                // Start the price series at the price it was added at
+                priceHistory: data.price ? { create: { price: Number(data.price), currency } } : undefined,
             },
+            include: { ...priceHistoryInclude, ...reservationsInclude, ...provenanceInclude },
         });
 
-        if (io) {
-            io.emit(`wishlist:${data.wishlistId}`, {
-                type: 'ITEM_ADDED',
-                wishlistId: data.wishlistId,
-                item,
-            });
+        emitWishlistEvent(io, data.wishlistId, {
+            type: 'ITEM_ADDED',
+            wishlistId: data.wishlistId,
+            item: maskExchangeReservation(item),
+        }, {
+            type: 'ITEM_ADDED',
+            wishlistId: data.wishlistId,
+            item: redactItemForOwner(item),
+        });
+
+        await ActivityService.record(userId, 'ITEM_ADDED', {
+            wishlistId: data.wishlistId,
+            itemId: item.id,
+            payload: { title: item.title, imageUrl: item.imageUrl, price: item.price, currency: item.currency },
+        });
+
+        return item;
+    }
+
+    /**
+     * Update an item's details (owner, co-owners and editors) and notify clients.
+     * Reservation, hype and contribution state are left untouched.
+     */
+    static async updateItem(itemId: string, userId: string, data: UpdateItemDTO, io?: Server) {
+        const existing = await prisma.item.findUnique({
+            where: { id: itemId },
+            include: { wishlist: true },
+        });
+
+        if (!existing) throw new Error('Item not found');
+        if (!hasPermission(await getWishlistRole(existing.wishlist, userId), 'edit_items')) {
+            throw new Error('Not authorized to edit this item');
         }
 
+        const item = await prisma.$transaction(async (transaction) => {
+            // Lock the row so a reservation can't land between the quantity check and the write
+            const [locked] = await transaction.$queryRaw<{ reservedQuantity: number }[]>`
+                SELECT "reservedQuantity" FROM "Item" WHERE "id" = ${itemId} FOR UPDATE
+            `;
+            if (!locked) throw new Error('Item not found');
+
+            // Units people already claimed can't be taken back by shrinking the item
+            if (data.quantity !== undefined && data.quantity < locked.reservedQuantity) {
+                throw new AppError(409, 'QUANTITY_BELOW_RESERVED', `${locked.reservedQuantity} already reserved, so the quantity can't go below that`);
+            }
+
+            // A manual price or currency change is a point in the series like any scraped one; other edits aren't
+            const nextPrice = data.price === undefined ? existing.price : data.price;
+            const nextCurrency = data.currency ?? existing.currency;
+            const priceChanged = existing.price === null || Number(nextPrice) !== Number(existing.price);
+            if (nextPrice !== null && (priceChanged || nextCurrency !== existing.currency)) {
+                await PriceTrackingService.recordPrice(itemId, Number(nextPrice), nextCurrency, transaction);
+            }
+
+            return transaction.item.update({
+                where: { id: itemId },
+                data: {
+                    title: data.title,
+                    url: data.url,
+                    imageUrl: data.imageUrl,
+                    price: data.price,
+                    currency: data.currency,
+                    story: data.story,
+                    priceAlertBelow: data.priceAlertBelow,
+                    priority: data.priority,
+                    quantity: data.quantity,
+                    // Lowering the quantity can complete (or raising it reopen) the reservation
+                    isReserved: data.quantity === undefined ? undefined : locked.reservedQuantity >= data.quantity,
+                },
+                include: { ...priceHistoryInclude, ...reservationsInclude, ...provenanceInclude },
+            });
+        });
+
+        emitWishlistEvent(io, item.wishlistId, {
+            type: 'ITEM_UPDATED',
+            wishlistId: item.wishlistId,
+            item: maskExchangeReservation(item),
+        }, {
+            type: 'ITEM_UPDATED',
+            wishlistId: item.wishlistId,
+            item: redactItemForOwner(item),
+        });
+
         return item;
     }
 
     /**
-     * Reserve an item
+     * Reserve `quantity` units of an item (optionally as someone's Secret Santa
+     * in a gift exchange). Reserving again adds to the same person's claim.
      */
-    static async reserveItem(itemId: string, reserverIdentifier: string, reserverId: string | undefined, io?: Server) {
+    static async reserveItem(
+        itemId: string,
+        reserverIdentifier: string,
+        reserverId: string | undefined,
+        io?: Server,
+        exchangeId?: string,
+        quantity = 1
+    ) {
         const item = await prisma.item.findUnique({
             where: { id: itemId },
             include: { wishlist: true },
         });
 
         if (!item) throw new Error('Item not found');
-        if (reserverId === item.wishlist.ownerId) throw new Error('Cannot reserve your own items');
-        const reservationResult = await prisma.item.updateMany({
-            where: {
-                id: itemId,
-                isReserved: false,
-            },
-            data: { isReserved: true, reservedBy: reserverIdentifier },
-        });
+        if (isRecipient(await getWishlistRole(item.wishlist, reserverId))) throw new Error('Cannot reserve your own items');
+        if (!Number.isInteger(quantity) || quantity < 1) throw new Error('Quantity must be a whole number of at least 1');
 
-        if (reservationResult.count === 0) {
-            throw new Error('Item is already reserved');
-        }
+        await prisma.$transaction(async (transaction) => {
+            const claimed = await adjustReservedQuantity(transaction, itemId, quantity);
+            if (claimed === 0) {
+                throw new Error(item.reservedQuantity >= item.quantity ? 'Item is already reserved' : 'Not enough left to reserve');
+            }
+
+            const existing = await transaction.reservation.findFirst({
+                where: { itemId, reservedBy: reserverIdentifier },
+            });
+            if (existing) {
+                await transaction.reservation.update({
+                    where: { id: existing.id },
+                    data: {
+                        quantity: { increment: quantity },
+                        reservedViaExchangeId: exchangeId ?? existing.reservedViaExchangeId,
+                        isSecretSanta: existing.isSecretSanta || Boolean(exchangeId),
+                    },
+                });
+            } else {
+                await transaction.reservation.create({
+                    data: {
+                        itemId,
+                        reservedBy: reserverIdentifier,
+                        quantity,
+                        reservedViaExchangeId: exchangeId ?? null,
+                        isSecretSanta: Boolean(exchangeId),
+                    },
+                });
+            }
+        });
 
         const updated = await prisma.item.findUnique({
             where: { id: itemId },
+            include: reservationsInclude,
         });
 
         if (!updated) {
             throw new Error('Item not found');
         }
 
-        if (io) {
-            io.emit(`wishlist:${item.wishlistId}`, {
-                type: 'ITEM_RESERVED',
-                wishlistId: item.wishlistId,
-                itemId,
-                isReserved: true,
-                reservedBy: reserverIdentifier,
-            });
+        // Owner is not told about reservations at all (spoiler protection).
+        // Exchange reservations never broadcast who the Secret Santa is.
+        emitWishlistEvent(io, item.wishlistId, {
+            type: 'ITEM_RESERVED',
+            wishlistId: item.wishlistId,
+            itemId,
+            isReserved: updated.isReserved,
+            reservedQuantity: updated.reservedQuantity,
+            reservations: maskExchangeReservation(updated).reservations,
+        }, null);
+
+        await NotificationService.itemReserved(io, itemId, {
+            identifier: reserverIdentifier,
+            userId: reserverId,
+            viaExchange: Boolean(exchangeId),
+        }, quantity);
+
+        if (reserverId) {
+            await GamificationService.award(reserverId, 'ITEM_RESERVED', itemId);
         }
 
-        return updated;
+        return maskExchangeReservation(updated, reserverIdentifier);
     }
 
     /**
-     * Unreserve an item
+     * Cancel the requester's reservation on an item, releasing all their units
+     * and the karma reserving it earned
      */
-    static async unreserveItem(itemId: string, requesterIdentifier: string, io?: Server) {
+    static async unreserveItem(itemId: string, requesterIdentifier: string, io?: Server, requesterId?: string) {
         const item = await prisma.item.findUnique({
             where: { id: itemId },
             include: { wishlist: true },
@@ -102,37 +288,84 @@ export class ItemService {
         if (!item) throw new Error('Item not found');
         if (!requesterIdentifier) throw new Error('Only the person who reserved can unreserve');
 
-        const unreserveResult = await prisma.item.updateMany({
-            where: {
-                id: itemId,
-                reservedBy: requesterIdentifier,
-                isReserved: true,
-            },
-            data: { isReserved: false, reservedBy: null },
-        });
+        await prisma.$transaction(async (transaction) => {
+            const reservation = await transaction.reservation.findFirst({
+                where: { itemId, reservedBy: requesterIdentifier },
+            });
+            // deleteMany so a double-click racing itself releases the units only once
+            const removed = reservation
+                ? await transaction.reservation.deleteMany({ where: { id: reservation.id } })
+                : { count: 0 };
+            if (!reservation || removed.count === 0) {
+                throw new Error('Only the person who reserved can unreserve');
+            }
 
-        if (unreserveResult.count === 0) {
-            throw new Error('Only the person who reserved can unreserve');
-        }
+            // Rolls the deletion back rather than leave the counter out of step with the reservations
+            const released = await adjustReservedQuantity(transaction, itemId, -reservation.quantity);
+            if (released === 0) {
+                throw new AppError(409, 'RESERVATION_RELEASE_FAILED', 'Could not release the reservation, refresh and try again');
+            }
+        });
 
-        const updated = await prisma.item.findUnique({ where: { id: itemId } });
+        const updated = await prisma.item.findUnique({
+            where: { id: itemId },
+            include: reservationsInclude,
+        });
         if (!updated) {
             throw new Error('Item not found');
         }
 
-        if (io) {
-            io.emit(`wishlist:${item.wishlistId}`, {
-                type: 'ITEM_UNRESERVED',
-                wishlistId: item.wishlistId,
-                itemId,
-                isReserved: false,
-                reservedBy: null,
-            });
+        emitWishlistEvent(io, item.wishlistId, {
+            type: 'ITEM_UNRESERVED',
+            wishlistId: item.wishlistId,
+            itemId,
+            isReserved: updated.isReserved,
+            reservedQuantity: updated.reservedQuantity,
+            reservations: maskExchangeReservation(updated).reservations,
+        }, null);
+
+        if (requesterId) {
+            await GamificationService.revoke(requesterId, 'ITEM_RESERVED', itemId);
         }
 
         return updated;
     }
 
+    /**
+     * Save the list's manual order. `itemIds` must list every item on the
+     * wishlist exactly once, most wanted first.
+     */
+    static async reorderItems(wishlistId: string, userId: string, itemIds: string[], io?: Server) {
+        const wishlist = await prisma.wishlist.findUnique({
+            where: { id: wishlistId },
+            include: { items: { select: { id: true } } },
+        });
+
+        if (!wishlist) throw new AppError(404, 'WISHLIST_NOT_FOUND', 'Wishlist not found');
+        if (!hasPermission(await getWishlistRole(wishlist, userId), 'edit_items')) {
+            throw new AppError(403, 'FORBIDDEN', 'Only the owner and editors can reorder items');
+        }
+
+        const current = new Set(wishlist.items.map(item => item.id));
+        if (new Set(itemIds).size !== itemIds.length || itemIds.length !== current.size
+            || itemIds.some(id => !current.has(id))) {
+            // Usually an item was added or removed in another tab
+            throw new AppError(409, 'ITEM_ORDER_STALE', 'The wishlist changed, refresh and try again');
+        }
+
+        await prisma.$transaction(itemIds.map((id, position) =>
+            prisma.item.update({ where: { id }, data: { position } })
+        ));
+
+        emitWishlistEvent(io, wishlistId, {
+            type: 'ITEMS_REORDERED',
+            wishlistId,
+            itemIds,
+        });
+
+        return itemIds;
+    }
+
     /**
      * Delete an item
      */
@@ -142,37 +375,48 @@ export class ItemService {
             include: { wishlist: true }
         });
 
-        if (!item || item.wishlist.ownerId !== userId) {
+        if (!item || !hasPermission(await getWishlistRole(item.wishlist, userId), 'edit_items')) {
             throw new Error('Not authorized to delete this item');
         }
 
         await prisma.item.delete({ where: { id: itemId } });
 
-        if (io) {
-            io.emit(`wishlist:${item.wishlistId}`, {
-                type: 'ITEM_DELETED',
-                wishlistId: item.wishlistId,
-                itemId,
-            });
-        }
+        emitWishlistEvent(io, item.wishlistId, {
+            type: 'ITEM_DELETED',
+            wishlistId: item.wishlistId,
+            itemId,
+        });
     }
 
     /**
      * Hype an item
      */
-    static async hypeItem(itemId: string, io?: Server) {
+    static async hypeItem(itemId: string, io?: Server, hyperId?: string) {
         const item = await prisma.item.update({
             where: { id: itemId },
             data: { hypeCount: { increment: 1 } },
+            include: { wishlist: { select: { id: true, ownerId: true } } },
         });
 
         if (io) {
-            io.to(`wishlist:${item.wishlistId}`).emit('hype', {
+            io.to(wishlistRoom(item.wishlistId)).emit('hype', {
                 itemId,
                 hypeCount: item.hypeCount,
             });
         }
 
+        await NotificationService.itemHyped(io, itemId, hyperId);
+
+        // Only signed-in hype earns the owner and co-owners karma, once per person per item
+        if (hyperId) {
+            const owners = await recipientIds(item.wishlist);
+            if (!owners.includes(hyperId)) {
+                for (const ownerId of owners) {
+                    await GamificationService.award(ownerId, 'HYPE_RECEIVED', `${itemId}:${hyperId}`);
+                }
+            }
+        }
+
         return item;
     }
 }
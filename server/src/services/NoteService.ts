@@ -0,0 +1,289 @@
+import prisma from '../lib/prisma';
+import { Server } from 'socket.io';
+import { AppError } from '../utils/errors';
+import { wishlistOwnerRoom, wishlistRoom } from '../lib/realtime';
+import { getWishlistRole, hasPermission } from '../lib/wishlistAccess';
+import { GiftExchangeService } from './GiftExchangeService';
+import { NotificationService } from './NotificationService';
+
+export const NOTE_COLORS = ['yellow', 'pink', 'blue', 'green'] as const;
+export const NOTE_STATUSES = ['published', 'pending', 'hidden'] as const;
+export type NoteStatus = typeof NOTE_STATUSES[number];
+
+interface CreateNoteDTO {
+    content: string;
+    author: string;
+    color?: typeof NOTE_COLORS[number];
+    posX?: number;
+    posY?: number;
+    rotation?: number;
+}
+
+interface NotePositionDTO {
+    posX: number;
+    posY: number;
+    rotation?: number;
+}
+
+interface Viewer {
+    id: string;
+    email: string;
+}
+
+// Everything but authorId — which account signed a note is the server's business
+export const noteSelect = {
+    id: true,
+    wishlistId: true,
+    author: true,
+    content: true,
+    color: true,
+    posX: true,
+    posY: true,
+    rotation: true,
+    status: true,
+    createdAt: true,
+} as const;
+
+const normalizeAuthorName = (name: string) => name.trim().toLowerCase();
+
+const toBlockedAuthor = (block: { id: string; userId: string | null; authorName: string | null; createdAt: Date; user?: { name: string } | null }) => ({
+    id: block.id,
+    author: block.user?.name || block.authorName || 'Unknown',
+    kind: block.userId ? 'account' : 'guest',
+    createdAt: block.createdAt,
+});
+
+export class NoteService {
+    /**
+     * Load a wishlist the viewer may see (public, theirs, shared with them or
+     * their Secret Santa's). Private lists look the same as missing ones to
+     * everyone else. The owner and co-owners moderate the guestbook.
+     */
+    private static async loadVisibleWishlist(wishlistId: string, viewer?: Viewer) {
+        const wishlist = await prisma.wishlist.findUnique({
+            where: { id: wishlistId },
+            select: { id: true, ownerId: true, isPublic: true, notesRequireApproval: true },
+        });
+        if (!wishlist) {
+            throw new AppError(404, 'WISHLIST_NOT_FOUND', 'Wishlist not found');
+        }
+
+        const role = await getWishlistRole(wishlist, viewer?.id);
+        if (!wishlist.isPublic && !role
+            && !(viewer && await GiftExchangeService.isSecretSantaFor(viewer.id, wishlist.id))) {
+            throw new AppError(404, 'WISHLIST_NOT_FOUND', 'Wishlist not found');
+        }
+
+        return { wishlist, canModerate: hasPermission(role, 'manage') };
+    }
+
+    private static async loadOwnedNote(noteId: string, userId: string) {
+        const note = await prisma.note.findUnique({
+            where: { id: noteId },
+            include: { wishlist: { select: { id: true, ownerId: true } } },
+        });
+        if (!note) {
+            throw new AppError(404, 'NOTE_NOT_FOUND', 'Note not found');
+        }
+        if (!hasPermission(await getWishlistRole(note.wishlist, userId), 'manage')) {
+            throw new AppError(403, 'FORBIDDEN', 'Only the wishlist owners can manage notes');
+        }
+        return note;
+    }
+
+    /**
+     * Tell the owner about every change, but viewers only about published
+     * notes: a note leaving the published state is a removal for them.
+     */
+    private static broadcast(io: Server | undefined, note: { id: string; wishlistId: string; status: string }, wasPublished: boolean) {
+        if (!io) return;
+        const owner = wishlistOwnerRoom(note.wishlistId);
+        const viewers = io.to(wishlistRoom(note.wishlistId)).except(owner);
+
+        io.to(owner).emit('note_updated', note);
+        if (note.status === 'published') {
+            viewers.emit(wasPublished ? 'note_updated' : 'new_note', note);
+        } else if (wasPublished) {
+            viewers.emit('note_removed', { id: note.id });
+        }
+    }
+
+    /**
+     * Notes on a wishlist. The owner sees every note with its status; others
+     * see published notes plus any of their own still awaiting approval.
+     */
+    static async listNotes(wishlistId: string, viewer?: Viewer) {
+        const { canModerate } = await NoteService.loadVisibleWishlist(wishlistId, viewer);
+
+        return prisma.note.findMany({
+            where: canModerate
+                ? { wishlistId }
+                : {
+                    wishlistId,
+                    OR: [
+                        { status: 'published' },
+                        ...(viewer ? [{ status: 'pending', authorId: viewer.id }] : []),
+                    ],
+                },
+            orderBy: { createdAt: 'desc' },
+            select: noteSelect,
+        });
+    }
+
+    static async createNote(wishlistId: string, data: CreateNoteDTO, viewer: Viewer | undefined, io?: Server) {
+        const { wishlist, canModerate } = await NoteService.loadVisibleWishlist(wishlistId, viewer);
+
+        if (!canModerate) {
+            const blocked = await prisma.noteAuthorBlock.findFirst({
+                where: {
+                    wishlistId,
+                    OR: [
+                        { authorName: normalizeAuthorName(data.author) },
+                        ...(viewer ? [{ userId: viewer.id }] : []),
+                    ],
+                },
+                select: { id: true },
+            });
+            if (blocked) {
+                throw new AppError(403, 'NOTE_AUTHOR_BLOCKED', 'The owner of this wishlist is not accepting notes from you');
+            }
+        }
+
+        const note = await prisma.note.create({
+            data: {
+                ...data,
+                wishlistId,
+                authorId: viewer?.id,
+                status: wishlist.notesRequireApproval && !canModerate ? 'pending' : 'published',
+                // Land somewhere on the board with a slight tilt unless the client picked a spot
+                posX: data.posX ?? 5 + Math.random() * 70,
+                posY: data.posY ?? 5 + Math.random() * 70,
+                rotation: data.rotation ?? (Math.random() - 0.5) * 10, // -5° to +5°
+            },
+            select: noteSelect,
+        });
+
+        if (io) {
+            // Pending notes only reach the owner, who has to approve them first
+            io.to(note.status === 'published' ? wishlistRoom(wishlistId) : wishlistOwnerRoom(wishlistId))
+                .emit('new_note', note);
+        }
+
+        await NotificationService.noteAdded(io, wishlistId, note, viewer?.id);
+
+        return note;
+    }
+
+    /** Move a note on the board; arranging the guestbook is the owner's call */
+    static async moveNote(noteId: string, userId: string, position: NotePositionDTO, io?: Server) {
+        await NoteService.loadOwnedNote(noteId, userId);
+
+        const note = await prisma.note.update({
+            where: { id: noteId },
+            data: position,
+            select: noteSelect,
+        });
+
+        if (io) {
+            const moved = { id: note.id, posX: note.posX, posY: note.posY, rotation: note.rotation };
+            io.to(note.status === 'published' ? wishlistRoom(note.wishlistId) : wishlistOwnerRoom(note.wishlistId))
+                .emit('note_moved', moved);
+        }
+
+        return note;
+    }
+
+    /** Approve (publish), hide or un-hide a note */
+    static async setStatus(noteId: string, userId: string, status: NoteStatus, io?: Server) {
+        const existing = await NoteService.loadOwnedNote(noteId, userId);
+
+        const note = await prisma.note.update({
+            where: { id: noteId },
+            data: { status },
+            select: noteSelect,
+        });
+
+        NoteService.broadcast(io, note, existing.status === 'published');
+        return note;
+    }
+
+    static async deleteNote(noteId: string, userId: string, io?: Server) {
+        const note = await NoteService.loadOwnedNote(noteId, userId);
+        await prisma.note.delete({ where: { id: noteId } });
+        io?.to(wishlistRoom(note.wishlistId)).emit('note_removed', { id: noteId });
+    }
+
+    /**
+     * Stop a note's author from posting again and hide everything they've
+     * posted on this wishlist. Signed-in authors are blocked by account,
+     * guests by name.
+     */
+    static async blockAuthor(noteId: string, userId: string, io?: Server) {
+        const note = await NoteService.loadOwnedNote(noteId, userId);
+        if (note.authorId === userId) {
+            throw new AppError(400, 'CANNOT_BLOCK_SELF', 'You cannot block yourself');
+        }
+
+        const authorMatch = note.authorId
+            ? { authorId: note.authorId }
+            : { authorId: null, author: { equals: note.author.trim(), mode: 'insensitive' as const } };
+
+        const [block, hidden] = await prisma.$transaction(async tx => {
+            const block = await tx.noteAuthorBlock.create({
+                data: note.authorId
+                    ? { wishlistId: note.wishlistId, userId: note.authorId }
+                    : { wishlistId: note.wishlistId, authorName: normalizeAuthorName(note.author) },
+                include: { user: { select: { name: true } } },
+            });
+            const hidden = await tx.note.findMany({
+                where: { wishlistId: note.wishlistId, status: { not: 'hidden' }, ...authorMatch },
+                select: { id: true, status: true },
+            });
+            await tx.note.updateMany({
+                where: { id: { in: hidden.map(({ id }) => id) } },
+                data: { status: 'hidden' },
+            });
+            return [block, hidden];
+        });
+
+        hidden.forEach(({ id, status }) => NoteService.broadcast(
+            io,
+            { id, wishlistId: note.wishlistId, status: 'hidden' },
+            status === 'published'
+        ));
+
+        return { block: toBlockedAuthor(block), hiddenNoteIds: hidden.map(({ id }) => id) };
+    }
+
+    static async listBlocks(wishlistId: string, userId: string) {
+        const wishlist = await prisma.wishlist.findUnique({ where: { id: wishlistId }, select: { id: true, ownerId: true } });
+        if (!wishlist) {
+            throw new AppError(404, 'WISHLIST_NOT_FOUND', 'Wishlist not found');
+        }
+        if (!hasPermission(await getWishlistRole(wishlist, userId), 'manage')) {
+            throw new AppError(403, 'FORBIDDEN', 'Only the wishlist owners can see blocked authors');
+        }
+
+        const blocks = await prisma.noteAuthorBlock.findMany({
+            where: { wishlistId },
+            orderBy: { createdAt: 'desc' },
+            include: { user: { select: { name: true } } },
+        });
+        return blocks.map(toBlockedAuthor);
+    }
+
+    /** Unblocking lets the author post again; their hidden notes stay hidden */
+    static async unblock(blockId: string, userId: string) {
+        const block = await prisma.noteAuthorBlock.findUnique({
+            where: { id: blockId },
+            include: { wishlist: { select: { id: true, ownerId: true } } },
+        });
+        if (!block) {
+            throw new AppError(404, 'BLOCK_NOT_FOUND', 'Block not found');
+        }
+        if (!hasPermission(await getWishlistRole(block.wishlist, userId), 'manage')) {
+            throw new AppError(403, 'FORBIDDEN', 'Not authorized to remove this block');
+        }
+        await prisma.noteAuthorBlock.delete({ where: { id: blockId } });
+    }
+}
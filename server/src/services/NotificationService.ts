@@ -0,0 +1,379 @@
+import prisma from '../lib/prisma';
+import { Server } from 'socket.io';
+import { AppError } from '../utils/errors';
+import { userRoom } from '../lib/realtime';
+import { formatMoney } from '../lib/currency';
+import { recipientIds } from '../lib/wishlistAccess';
+import { isSpoilerRevealed, revealedWishlistWhere } from '../utils/spoilers';
+import { PushService } from './PushService';
+
+export type NotificationType = 'ITEM_RESERVED' | 'CONTRIBUTION_ADDED' | 'NOTE_ADDED' | 'ITEM_HYPED' | 'OCCASION_REMINDER';
+
+interface NotifyDTO {
+    type: NotificationType;
+    wishlistId: string;
+    itemId?: string;
+    payload: Record<string, unknown>;
+}
+
+interface Recipient {
+    userId: string;
+    // Reservation/contribution news for the wishlist's own owner
+    spoiler?: boolean;
+}
+
+// Fields the various types put in a payload (all optional; see each event method)
+interface NotificationPayload {
+    wishlistTitle?: string;
+    itemTitle?: string;
+    actorName?: string;
+    quantity?: number;
+    amount?: number;
+    currency?: string;
+    isFullyFunded?: boolean;
+    excerpt?: string;
+    pending?: boolean;
+    count?: number;
+    ownerName?: string;
+    occasion?: string | null;
+    daysLeft?: number;
+}
+
+interface WishlistContext {
+    id: string;
+    title: string;
+    ownerId: string;
+    eventDate: Date | null;
+    revealAfterEvent: boolean;
+}
+
+const PAGE_SIZE = 30;
+
+const wishlistContextSelect = { id: true, title: true, ownerId: true, eventDate: true, revealAfterEvent: true } as const;
+
+// Spoilers stay out of every listing and count until the wishlist is revealed
+const visibleTo = (userId: string) => ({
+    userId,
+    OR: [{ spoiler: false }, { wishlist: revealedWishlistWhere() }],
+});
+
+const serialize = <T extends { payload: string }>(notification: T) => ({
+    ...notification,
+    payload: JSON.parse(notification.payload) as Record<string, unknown>,
+});
+
+const daysLeftText = (days: number) => (days <= 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`);
+
+// The same sentence the bell shows, for devices that aren't looking at the app
+const describe = (type: string, payload: NotificationPayload) => {
+    const who = payload.actorName || 'Someone';
+    const item = payload.itemTitle || 'an item';
+    switch (type) {
+        case 'ITEM_RESERVED':
+            return `${who} reserved ${payload.quantity && payload.quantity > 1 ? `${payload.quantity} × ` : ''}${item}`;
+        case 'CONTRIBUTION_ADDED':
+            return `${who} chipped in ${formatMoney(Number(payload.amount) || 0, payload.currency || 'USD')} on ${item}${payload.isFullyFunded ? ' — fully funded!' : ''}`;
+        case 'NOTE_ADDED':
+            return payload.pending ? `${who} left a note waiting for your approval` : `${who} left a note: “${payload.excerpt}”`;
+        case 'ITEM_HYPED':
+            return payload.count && payload.count > 1 ? `${item} got ${payload.count} new hypes` : `Someone hyped ${item}`;
+        case 'OCCASION_REMINDER':
+            return `${payload.ownerName || 'Their'}'s ${payload.occasion || 'big day'} is ${daysLeftText(payload.daysLeft ?? 0)} — don't forget your gift`;
+        default:
+            return 'Something happened on one of your wishlists';
+    }
+};
+
+// Tagged by notification so a bumped hype replaces its earlier push on the device
+const toPushMessage = (notification: { id: string; type: string; wishlistId: string | null; payload: string }) => {
+    const payload: NotificationPayload = JSON.parse(notification.payload);
+    return {
+        title: payload.wishlistTitle || 'Giftly',
+        body: describe(notification.type, payload),
+        url: notification.wishlistId ? `/wishlist/${notification.wishlistId}` : '/',
+        tag: notification.id,
+    };
+};
+
+const push = (notification: { id: string; userId: string; type: string; wishlistId: string | null; payload: string }) => {
+    void PushService.notify(notification.userId, notification.type as NotificationType, toPushMessage(notification));
+};
+
+export class NotificationService {
+    /**
+     * Notifications are a side effect: failures are logged and swallowed
+     * so the originating action still succeeds.
+     */
+    private static async safely(task: () => Promise<void>) {
+        try {
+            await task();
+        } catch (error) {
+            console.error('Notification fan-out error:', error);
+        }
+    }
+
+    /**
+     * Record one notification per recipient and push the ones they may
+     * already see to their sockets and devices. Spoilers are stored but held
+     * back until the reveal.
+     */
+    private static async fanOut(io: Server | undefined, wishlist: WishlistContext, recipients: Recipient[], data: NotifyDTO) {
+        if (recipients.length === 0) return;
+        const revealed = isSpoilerRevealed(wishlist);
+
+        const payload = JSON.stringify({ wishlistTitle: wishlist.title, ...data.payload });
+        const created = await prisma.$transaction(recipients.map(({ userId, spoiler = false }) => prisma.notification.create({
+            data: {
+                userId,
+                type: data.type,
+                wishlistId: data.wishlistId,
+                itemId: data.itemId,
+                payload,
+                spoiler: spoiler && !revealed,
+            },
+        })));
+
+        created
+            .filter(notification => !notification.spoiler)
+            .forEach(notification => {
+                io?.to(userRoom(notification.userId)).emit('notification', serialize(notification));
+                push(notification);
+            });
+    }
+
+    // Signed-in actors are shown by name rather than the email they act under
+    private static async displayName(userId: string | null | undefined, fallback: string) {
+        if (!userId) return fallback;
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+        return user?.name || fallback;
+    }
+
+    private static async loadItemContext(itemId: string) {
+        return prisma.item.findUnique({
+            where: { id: itemId },
+            select: { id: true, title: true, currency: true, wishlist: { select: wishlistContextSelect } },
+        });
+    }
+
+    /** The owner and co-owners learn about a reservation once the occasion is revealed */
+    static async itemReserved(
+        io: Server | undefined,
+        itemId: string,
+        reserver: { identifier: string; userId?: string; viaExchange: boolean },
+        quantity: number
+    ) {
+        await NotificationService.safely(async () => {
+            const item = await NotificationService.loadItemContext(itemId);
+            if (!item) return;
+
+            // Even after the reveal, exchange reservations only ever show as "Secret Santa"
+            const actorName = reserver.viaExchange
+                ? 'Secret Santa'
+                : await NotificationService.displayName(reserver.userId, reserver.identifier);
+
+            const owners = await recipientIds(item.wishlist);
+            await NotificationService.fanOut(io, item.wishlist, owners.map(userId => ({ userId, spoiler: true })), {
+                type: 'ITEM_RESERVED',
+                wishlistId: item.wishlist.id,
+                itemId,
+                payload: { itemTitle: item.title, actorName, quantity },
+            });
+        });
+    }
+
+    /**
+     * A contribution is news for the owner and co-owners (once revealed) and,
+     * straight away, for everyone else with an account who chipped in on the item.
+     */
+    static async contributionAdded(
+        io: Server | undefined,
+        itemId: string,
+        contribution: { userId: string | null; contributorName: string; amount: number },
+        isFullyFunded: boolean
+    ) {
+        await NotificationService.safely(async () => {
+            const item = await NotificationService.loadItemContext(itemId);
+            if (!item) return;
+
+            const owners = await recipientIds(item.wishlist);
+            const others = await prisma.contribution.findMany({
+                where: {
+                    itemId,
+                    userId: { not: null, notIn: contribution.userId ? [contribution.userId, ...owners] : owners },
+                },
+                distinct: ['userId'],
+                select: { userId: true },
+            });
+
+            await NotificationService.fanOut(io, item.wishlist, [
+                ...owners.map(userId => ({ userId, spoiler: true })),
+                ...others.map(({ userId }) => ({ userId: userId as string })),
+            ], {
+                type: 'CONTRIBUTION_ADDED',
+                wishlistId: item.wishlist.id,
+                itemId,
+                payload: {
+                    itemTitle: item.title,
+                    actorName: await NotificationService.displayName(contribution.userId, contribution.contributorName),
+                    amount: contribution.amount,
+                    currency: item.currency,
+                    isFullyFunded,
+                },
+            });
+        });
+    }
+
+    /** Guestbook notes aren't spoilers; held notes tell the owners to review them */
+    static async noteAdded(
+        io: Server | undefined,
+        wishlistId: string,
+        note: { author: string; content: string; status: string },
+        authorId?: string
+    ) {
+        await NotificationService.safely(async () => {
+            const wishlist = await prisma.wishlist.findUnique({ where: { id: wishlistId }, select: wishlistContextSelect });
+            if (!wishlist) return;
+
+            const owners = (await recipientIds(wishlist)).filter(userId => userId !== authorId);
+            await NotificationService.fanOut(io, wishlist, owners.map(userId => ({ userId })), {
+                type: 'NOTE_ADDED',
+                wishlistId,
+                payload: {
+                    actorName: note.author,
+                    excerpt: note.content.slice(0, 80),
+                    pending: note.status === 'pending',
+                },
+            });
+        });
+    }
+
+    /**
+     * Hype is news for the owner and co-owners. It comes in bursts, so an unread
+     * hype notification for the same item is bumped (count + 1, moved to the top)
+     * instead of stacking new ones.
+     */
+    static async itemHyped(io: Server | undefined, itemId: string, hyperId?: string) {
+        await NotificationService.safely(async () => {
+            const item = await NotificationService.loadItemContext(itemId);
+            if (!item) return;
+
+            // Hype from the owner or a co-owner on their own list isn't news to anyone
+            const owners = await recipientIds(item.wishlist);
+            if (hyperId && owners.includes(hyperId)) return;
+
+            for (const userId of owners) {
+                const unread = await prisma.notification.findFirst({
+                    where: { userId, type: 'ITEM_HYPED', itemId, readAt: null },
+                });
+
+                if (!unread) {
+                    await NotificationService.fanOut(io, item.wishlist, [{ userId }], {
+                        type: 'ITEM_HYPED',
+                        wishlistId: item.wishlist.id,
+                        itemId,
+                        payload: { itemTitle: item.title, count: 1 },
+                    });
+                    continue;
+                }
+
+                const payload = JSON.parse(unread.payload);
+                const bumped = await prisma.notification.update({
+                    where: { id: unread.id },
+                    data: {
+                        payload: JSON.stringify({ ...payload, count: (Number(payload.count) || 1) + 1 }),
+                        createdAt: new Date(),
+                    },
+                });
+                io?.to(userRoom(bumped.userId)).emit('notification', serialize(bumped));
+                push(bumped);
+            }
+        });
+    }
+
+    /**
+     * Remind everyone lined up to give on the wishlist — signed-in reservers
+     * and contributors on items still wanted — that the occasion is close.
+     */
+    static async occasionApproaching(io: Server | undefined, wishlistId: string, daysLeft: number) {
+        await NotificationService.safely(async () => {
+            const wishlist = await prisma.wishlist.findUnique({
+                where: { id: wishlistId },
+                select: {
+                    ...wishlistContextSelect,
+                    occasion: true,
+                    owner: { select: { name: true } },
+                    items: {
+                        where: { isFulfilled: false },
+                        select: { reservations: { select: { reservedBy: true } }, contributions: { select: { userId: true } } },
+                    },
+                },
+            });
+            if (!wishlist) return;
+
+            // Signed-in reservers are recorded by email; guests can't be reached
+            const reserverEmails = wishlist.items.flatMap(item => item.reservations.map(({ reservedBy }) => reservedBy))
+                .filter(reservedBy => reservedBy.includes('@'));
+            const reservers = reserverEmails.length > 0
+                ? await prisma.user.findMany({ where: { email: { in: reserverEmails } }, select: { id: true } })
+                : [];
+
+            const gifterIds = new Set([
+                ...reservers.map(({ id }) => id),
+                ...wishlist.items.flatMap(item => item.contributions.map(({ userId }) => userId)),
+            ]);
+            gifterIds.delete(wishlist.ownerId);
+
+            await NotificationService.fanOut(io, wishlist, [...gifterIds].filter(Boolean).map(userId => ({ userId: userId as string })), {
+                type: 'OCCASION_REMINDER',
+                wishlistId,
+                payload: { ownerName: wishlist.owner.name, occasion: wishlist.occasion, daysLeft },
+            });
+        });
+    }
+
+    /**
+     * A page of the user's notifications, newest first, plus the unread count.
+     * Paginate with `before` (the createdAt of the last one shown).
+     */
+    static async list(userId: string, before?: Date) {
+        const [notifications, unreadCount] = await Promise.all([
+            prisma.notification.findMany({
+                where: { ...visibleTo(userId), ...(before ? { createdAt: { lt: before } } : {}) },
+                orderBy: { createdAt: 'desc' },
+                take: PAGE_SIZE,
+            }),
+            NotificationService.unreadCount(userId),
+        ]);
+
+        return { notifications: notifications.map(serialize), unreadCount };
+    }
+
+    static async unreadCount(userId: string) {
+        return prisma.notification.count({ where: { ...visibleTo(userId), readAt: null } });
+    }
+
+    static async markRead(notificationId: string, userId: string) {
+        const { count } = await prisma.notification.updateMany({
+            where: { id: notificationId, userId, readAt: null },
+            data: { readAt: new Date() },
+        });
+
+        if (count === 0) {
+            const exists = await prisma.notification.findFirst({ where: { id: notificationId, userId }, select: { id: true } });
+            if (!exists) {
+                throw new AppError(404, 'NOTIFICATION_NOT_FOUND', 'Notification not found');
+            }
+        }
+
+        return { unreadCount: await NotificationService.unreadCount(userId) };
+    }
+
+    /** Only what the user can currently see is marked; held-back spoilers stay unread for the reveal */
+    static async markAllRead(userId: string) {
+        await prisma.notification.updateMany({
+            where: { ...visibleTo(userId), readAt: null },
+            data: { readAt: new Date() },
+        });
+        return { unreadCount: 0 };
+    }
+}
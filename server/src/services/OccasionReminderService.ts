@@ -0,0 +1,72 @@
+import prisma from '../lib/prisma';
+import { Server } from 'socket.io';
+import { NotificationService } from './NotificationService';
+
+const RUN_EVERY_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Read lazily so values from .env (loaded after imports) apply
+const settings = () => ({
+    // How many days ahead gifters are reminded (0 disables reminders)
+    daysAhead: Number(process.env.OCCASION_REMINDER_DAYS ?? 3),
+});
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export class OccasionReminderService {
+    /**
+     * Remind gifters about every occasion within the window that hasn't had
+     * a reminder for its current date. Moving the date re-arms the reminder.
+     */
+    static async sendDueReminders(io?: Server) {
+        const { daysAhead } = settings();
+        const now = Date.now();
+
+        const wishlists = await prisma.wishlist.findMany({
+            where: {
+                // Until the end of the event day, so a same-day occasion still counts
+                eventDate: { gt: new Date(now - DAY_MS), lte: new Date(now + daysAhead * DAY_MS) },
+            },
+            select: { id: true, eventDate: true, reminderSentFor: true },
+        });
+
+        const due = wishlists.filter(({ eventDate, reminderSentFor }) => eventDate
+            && reminderSentFor?.getTime() !== eventDate.getTime());
+
+        for (const { id, eventDate } of due) {
+            // Mark first so a crash mid-run can't remind the same people twice
+            await prisma.wishlist.update({ where: { id }, data: { reminderSentFor: eventDate } });
+            const daysLeft = Math.max(0, Math.ceil((eventDate!.getTime() - now) / DAY_MS));
+            await NotificationService.occasionApproaching(io, id, daysLeft);
+        }
+
+        return due.length;
+    }
+
+    /** Start the background job (no-op when OCCASION_REMINDER_DAYS is 0) */
+    static start(io?: Server) {
+        if (timer || !(settings().daysAhead > 0)) return;
+
+        const run = async () => {
+            if (running) return;
+            running = true;
+            try {
+                await OccasionReminderService.sendDueReminders(io);
+            } catch (error) {
+                console.error('Occasion reminder run failed:', error);
+            } finally {
+                running = false;
+            }
+        };
+
+        timer = setInterval(run, RUN_EVERY_MS);
+        timer.unref();
+        void run();
+    }
+
+    static stop() {
+        if (timer) clearInterval(timer);
+        timer = null;
+    }
+}
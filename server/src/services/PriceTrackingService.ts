@@ -0,0 +1,216 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { Server } from 'socket.io';
+import { emitWishlistEvent } from '../lib/realtime';
+import { fetchProductPreview } from '../lib/productPages';
+import { convertCurrency, formatMoney, roundMoney } from '../lib/currency';
+import { sendMail } from '../lib/mail';
+import { redactItemForOwner } from '../utils/spoilers';
+
+const RUN_EVERY_MS = 5 * 60 * 1000;
+
+// Read lazily so values from .env (loaded after imports) apply
+const settings = () => ({
+    // How often each item's product page is re-scraped (0 disables tracking)
+    checkIntervalMs: Number(process.env.PRICE_CHECK_INTERVAL_MINUTES ?? 360) * 60 * 1000,
+    // Items checked per run; runs are spread out so a big backlog doesn't hammer stores
+    batchSize: Number(process.env.PRICE_CHECK_BATCH_SIZE || 20),
+    // Without an explicit target, a drop of at least this much alerts
+    dropPercent: Number(process.env.PRICE_DROP_ALERT_PERCENT || 10),
+});
+
+// Points sent with each item for its sparkline
+export const SPARKLINE_POINTS = 30;
+
+export const priceHistoryInclude = {
+    priceHistory: {
+        select: { price: true, currency: true, recordedAt: true },
+        orderBy: { recordedAt: 'asc' as const },
+        take: -SPARKLINE_POINTS,
+    },
+};
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export class PriceTrackingService {
+    /**
+     * Whether a move from `previous` to `next` should alert: crossing the
+     * owner's target when one is set, otherwise a drop of PRICE_DROP_ALERT_PERCENT.
+     */
+    static isAlertWorthy(previous: number, next: number, target: number | null) {
+        if (next >= previous) return false;
+        if (target !== null) return previous > target && next <= target;
+        return ((previous - next) / previous) * 100 >= settings().dropPercent;
+    }
+
+    /**
+     * Append a point to an item's series, skipping repeats of the latest price.
+     * Pass `client` to record inside the caller's transaction.
+     */
+    static async recordPrice(itemId: string, price: number, currency: string, client: Prisma.TransactionClient = prisma) {
+        const latest = await client.priceHistory.findFirst({
+            where: { itemId },
+            orderBy: { recordedAt: 'desc' },
+        });
+        if (latest && Number(latest.price) === price && latest.currency === currency) return null;
+
+        return client.priceHistory.create({ data: { itemId, price, currency } });
+    }
+
+    /**
+     * Re-scrape one item's product page, record the price when it moved and
+     * alert the owner and reserver on a qualifying drop. Returns the new price,
+     * or null when the page had no usable price.
+     */
+    static async checkItem(itemId: string, io?: Server) {
+        const item = await prisma.item.findUnique({
+            where: { id: itemId },
+            include: {
+                wishlist: { select: { ownerId: true, owner: { select: { email: true, name: true } } } },
+                reservations: { select: { reservedBy: true } },
+            },
+        });
+        if (!item?.url) return null;
+
+        // Mark the check first so a page that keeps failing doesn't jump the queue
+        await prisma.item.update({ where: { id: itemId }, data: { priceCheckedAt: new Date() } });
+
+        const preview = await fetchProductPreview(item.url, { fresh: true });
+        if (preview.price === undefined || preview.price <= 0) return null;
+
+        // Keep the series in the currency the owner chose; skip pages we can't convert
+        const converted = preview.currency && preview.currency !== item.currency
+            ? convertCurrency(preview.price, preview.currency, item.currency)
+            : preview.price;
+        if (converted === null) return null;
+
+        const price = roundMoney(converted);
+        const previous = item.price === null ? null : Number(item.price);
+        if (previous === price) return price;
+
+        await PriceTrackingService.recordPrice(item.id, price, item.currency);
+        const updated = await prisma.item.update({
+            where: { id: item.id },
+            data: { price },
+            include: priceHistoryInclude,
+        });
+
+        emitWishlistEvent(io, item.wishlistId, {
+            type: 'ITEM_UPDATED',
+            wishlistId: item.wishlistId,
+            item: updated,
+        }, {
+            type: 'ITEM_UPDATED',
+            wishlistId: item.wishlistId,
+            item: redactItemForOwner(updated),
+        });
+
+        const target = item.priceAlertBelow === null ? null : Number(item.priceAlertBelow);
+        if (previous !== null && PriceTrackingService.isAlertWorthy(previous, price, target)) {
+            await PriceTrackingService.notifyPriceDrop(
+                {
+                    id: item.id,
+                    title: item.title,
+                    url: item.url,
+                    currency: item.currency,
+                    reservers: item.reservations.map(reservation => reservation.reservedBy),
+                },
+                item.wishlist.owner,
+                previous,
+                price
+            );
+        }
+
+        return price;
+    }
+
+    /**
+     * Email the owner and everyone who reserved it while signed in.
+     * Guest reservations only carry a nickname so can't be reached.
+     */
+    static async notifyPriceDrop(
+        item: { id: string; title: string; url: string; currency: string; reservers: string[] },
+        owner: { email: string; name: string },
+        previous: number,
+        price: number
+    ) {
+        const was = formatMoney(previous, item.currency);
+        const now = formatMoney(price, item.currency);
+        const recipients = [{ email: owner.email, name: owner.name, reason: 'on your wishlist' }];
+
+        const reserverEmails = item.reservers.filter(reservedBy => reservedBy.includes('@') && reservedBy !== owner.email);
+        if (reserverEmails.length > 0) {
+            const reservers = await prisma.user.findMany({
+                where: { email: { in: reserverEmails } },
+                select: { email: true, name: true },
+            });
+            recipients.push(...reservers.map(reserver => ({ ...reserver, reason: 'you reserved' })));
+        }
+
+        await Promise.all(recipients.map(recipient => sendMail({
+            to: recipient.email,
+            subject: `Price drop: ${item.title} is now ${now}`,
+            text: `Hi ${recipient.name},\n\n${item.title}, which ${recipient.reason}, dropped from ${was} to ${now}.\n${item.url}`,
+            html: `<p>Hi ${escapeHtml(recipient.name)},</p><p><a href="${escapeHtml(item.url)}">${escapeHtml(item.title)}</a>, which ${recipient.reason}, dropped from ${was} to <strong>${now}</strong>.</p>`,
+        }).catch(error => console.error(`Price drop email for item ${item.id} failed:`, error))));
+    }
+
+    /** Check the items whose last check is older than the interval, oldest first */
+    static async checkDueItems(io?: Server) {
+        const { checkIntervalMs, batchSize } = settings();
+        const items = await prisma.item.findMany({
+            where: {
+                url: { not: null },
+                isFulfilled: false,
+                OR: [
+                    { priceCheckedAt: null },
+                    { priceCheckedAt: { lt: new Date(Date.now() - checkIntervalMs) } },
+                ],
+            },
+            orderBy: { priceCheckedAt: { sort: 'asc', nulls: 'first' } },
+            take: batchSize,
+            select: { id: true },
+        });
+
+        // One store at a time — this is a background job, not a crawler
+        for (const { id } of items) {
+            try {
+                await PriceTrackingService.checkItem(id, io);
+            } catch (error) {
+                console.error(`Price check for item ${id} failed:`, error instanceof Error ? error.message : error);
+            }
+        }
+
+        return items.length;
+    }
+
+    /** Start the background job (no-op when PRICE_CHECK_INTERVAL_MINUTES is 0) */
+    static start(io?: Server) {
+        const { checkIntervalMs } = settings();
+        if (timer || !(checkIntervalMs > 0)) return;
+
+        const run = async () => {
+            if (running) return;
+            running = true;
+            try {
+                await PriceTrackingService.checkDueItems(io);
+            } catch (error) {
+                console.error('Price tracking run failed:', error);
+            } finally {
+                running = false;
+            }
+        };
+
+        timer = setInterval(run, Math.min(RUN_EVERY_MS, checkIntervalMs));
+        timer.unref();
+        void run();
+    }
+
+    static stop() {
+        if (timer) clearInterval(timer);
+        timer = null;
+    }
+}
@@ -0,0 +1,113 @@
+import prisma from '../lib/prisma';
+import { AppError } from '../utils/errors';
+
+export const PROFILE_SECTIONS = ['wrapped', 'shrine', 'hauls', 'badges'] as const;
+export type ProfileSection = typeof PROFILE_SECTIONS[number];
+
+export const VISIBILITY_LEVELS = ['public', 'friends', 'private'] as const;
+export type Visibility = typeof VISIBILITY_LEVELS[number];
+
+export type PrivacySettings = Record<ProfileSection, Visibility>;
+
+const SECTION_NAMES: Record<ProfileSection, string> = {
+    wrapped: 'Gift Wrapped',
+    shrine: 'Shrine',
+    hauls: 'Haul Log',
+    badges: 'Badge shelf',
+};
+
+// Profiles were always public, so that stays the default until someone opts out
+const parseSettings = (raw: string): PrivacySettings => {
+    let stored: Record<string, unknown> = {};
+    try {
+        stored = JSON.parse(raw);
+    } catch {
+        // Unreadable settings fall back to the defaults
+    }
+    return Object.fromEntries(PROFILE_SECTIONS.map(section => [
+        section,
+        VISIBILITY_LEVELS.includes(stored[section] as Visibility) ? stored[section] : 'public',
+    ])) as PrivacySettings;
+};
+
+export class PrivacyService {
+    static async getSettings(userId: string) {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { privacySettings: true } });
+        if (!user) {
+            throw new AppError(404, 'USER_NOT_FOUND', 'User not found');
+        }
+        return parseSettings(user.privacySettings);
+    }
+
+    static async updateSettings(userId: string, changes: Partial<PrivacySettings>) {
+        const settings = await PrivacyService.getSettings(userId);
+        const next = { ...settings, ...changes };
+        await prisma.user.update({ where: { id: userId }, data: { privacySettings: JSON.stringify(next) } });
+        return next;
+    }
+
+    /** Friends are people who follow each other */
+    static async areFriends(userId: string, otherUserId: string) {
+        const count = await prisma.follow.count({
+            where: {
+                OR: [
+                    { followerId: userId, followingId: otherUserId },
+                    { followerId: otherUserId, followingId: userId },
+                ],
+            },
+        });
+        return count === 2;
+    }
+
+    /**
+     * The sections of each owner's profile the viewer may see, by the same
+     * rules as assertCanView but in two queries however many owners there are
+     * (for lists such as the activity feed).
+     */
+    static async visibleSections(ownerIds: string[], viewerId: string) {
+        const [owners, follows] = await Promise.all([
+            prisma.user.findMany({ where: { id: { in: ownerIds } }, select: { id: true, privacySettings: true } }),
+            prisma.follow.findMany({
+                where: {
+                    OR: [
+                        { followerId: viewerId, followingId: { in: ownerIds } },
+                        { followerId: { in: ownerIds }, followingId: viewerId },
+                    ],
+                },
+                select: { followerId: true, followingId: true },
+            }),
+        ]);
+
+        const followsViewer = new Set(follows.filter(f => f.followingId === viewerId).map(f => f.followerId));
+        const followedByViewer = new Set(follows.filter(f => f.followerId === viewerId).map(f => f.followingId));
+
+        return new Map(owners.map(owner => {
+            const settings = parseSettings(owner.privacySettings);
+            const isFriend = followsViewer.has(owner.id) && followedByViewer.has(owner.id);
+            const sections = PROFILE_SECTIONS.filter(section => owner.id === viewerId
+                || settings[section] === 'public'
+                || (settings[section] === 'friends' && isFriend));
+            return [owner.id, sections];
+        }));
+    }
+
+    /**
+     * Check that the viewer (undefined for guests and crawlers) may see a
+     * section of the owner's profile, or throw 403. The owner always can.
+     * `isOwner` tells callers whether to include items from private
+     * wishlists, which only the owner ever sees in profile sections;
+     * `visibility` lets them keep non-public responses out of shared caches.
+     */
+    static async assertCanView(ownerId: string, section: ProfileSection, viewerId?: string) {
+        const visibility = (await PrivacyService.getSettings(ownerId))[section];
+        if (viewerId === ownerId) return { isOwner: true, visibility };
+
+        if (visibility === 'private') {
+            throw new AppError(403, 'PROFILE_SECTION_PRIVATE', `This user's ${SECTION_NAMES[section]} is private`);
+        }
+        if (visibility === 'friends' && !(viewerId && await PrivacyService.areFriends(ownerId, viewerId))) {
+            throw new AppError(403, 'PROFILE_SECTION_PRIVATE', `This user's ${SECTION_NAMES[section]} is only visible to their friends`);
+        }
+        return { isOwner: false, visibility };
+    }
+}
@@ -0,0 +1,96 @@
+import prisma from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { AppError } from '../utils/errors';
+import { USERNAME_MIN_LENGTH, isReservedUsername, usernameFromName } from '../lib/usernames';
+
+// Attempts at a random suffix before giving up on a generated handle
+const MAX_SUFFIX_ATTEMPTS = 5;
+
+// Sign-ups that lose a race for the same generated username pick again
+const MAX_CREATE_ATTEMPTS = 3;
+
+const isUsernameConflict = (error: unknown) => error instanceof Prisma.PrismaClientKnownRequestError
+    && error.code === 'P2002'
+    && ([] as unknown[]).concat(error.meta?.target).includes('username');
+
+export class ProfileService {
+    /**
+     * Pick a free username for a new account, derived from their display name
+     * and falling back to a short random suffix when it's taken or unusable.
+     */
+    static async generateUsername(name: string) {
+        const base = usernameFromName(name);
+        const candidates = base.length >= USERNAME_MIN_LENGTH && !isReservedUsername(base) ? [base] : [];
+        for (let attempt = 0; attempt < MAX_SUFFIX_ATTEMPTS; attempt++) {
+            candidates.push(`${base || 'user'}_${randomBytes(3).toString('hex')}`);
+        }
+
+        const taken = await prisma.user.findMany({
+            where: { username: { in: candidates } },
+            select: { username: true },
+        });
+        const takenSet = new Set(taken.map(user => user.username));
+        const username = candidates.find(candidate => !takenSet.has(candidate));
+        if (!username) {
+            throw new AppError(409, 'USERNAME_TAKEN', 'Could not pick a username, please try again');
+        }
+        return username;
+    }
+
+    /**
+     * Create an account with a generated username. The availability check and
+     * the insert aren't atomic, so a concurrent sign-up can claim the same
+     * handle in between; that unique violation means generate again.
+     */
+    static async createUser(data: { email: string; name: string; passwordHash: string }) {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await prisma.user.create({
+                    data: { ...data, username: await ProfileService.generateUsername(data.name) },
+                });
+            } catch (error) {
+                if (attempt < MAX_CREATE_ATTEMPTS && isUsernameConflict(error)) continue;
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Public profile by username: who they are, follower counts and their
+     * public wishlists. Shrine, hauls, Wrapped and badges have their own
+     * endpoints (keyed by the returned id) that apply the owner's privacy settings.
+     */
+    static async getPublicProfile(username: string) {
+        const user = await prisma.user.findUnique({
+            where: { username: username.toLowerCase() },
+            select: {
+                id: true,
+                username: true,
+                name: true,
+                avatarUrl: true,
+                createdAt: true,
+                wishlists: {
+                    where: { isPublic: true },
+                    orderBy: { createdAt: 'desc' },
+                    select: {
+                        id: true,
+                        title: true,
+                        description: true,
+                        coverImageUrl: true,
+                        occasion: true,
+                        eventDate: true,
+                        _count: { select: { items: true } },
+                    },
+                },
+                _count: { select: { followers: true, following: true } },
+            },
+        });
+        if (!user) {
+            throw new AppError(404, 'USER_NOT_FOUND', 'User not found');
+        }
+
+        const { _count, ...profile } = user;
+        return { ...profile, followerCount: _count.followers, followingCount: _count.following };
+    }
+}
@@ -0,0 +1,125 @@
+import prisma from '../lib/prisma';
+import { AppError } from '../utils/errors';
+import { assertPublicUrl, pinnedHttpsAgent } from '../lib/productPages';
+import { getVapidPublicKey, isPushConfigured, sendPush, type PushMessage } from '../lib/webPush';
+
+export const PUSH_EVENTS = ['ITEM_RESERVED', 'CONTRIBUTION_ADDED', 'NOTE_ADDED', 'ITEM_HYPED', 'OCCASION_REMINDER'] as const;
+export type PushEvent = typeof PUSH_EVENTS[number];
+export type PushPreferences = Record<PushEvent, boolean>;
+
+interface SubscribeDTO {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+}
+
+// Hype arrives in bursts, so it's opt-in; everything else is on once a device subscribes
+const DEFAULT_PREFERENCES: PushPreferences = {
+    ITEM_RESERVED: true,
+    CONTRIBUTION_ADDED: true,
+    NOTE_ADDED: true,
+    ITEM_HYPED: false,
+    OCCASION_REMINDER: true,
+};
+
+const parsePreferences = (raw: string): PushPreferences => {
+    let stored: Record<string, unknown> = {};
+    try {
+        stored = JSON.parse(raw);
+    } catch {
+        // Unreadable preferences fall back to the defaults
+    }
+    return Object.fromEntries(PUSH_EVENTS.map(event => [
+        event,
+        typeof stored[event] === 'boolean' ? stored[event] : DEFAULT_PREFERENCES[event],
+    ])) as PushPreferences;
+};
+
+export class PushService {
+    static getConfig() {
+        return { publicKey: getVapidPublicKey() };
+    }
+
+    /**
+     * Register this browser's push endpoint for the user. An endpoint that
+     * was registered under another account (shared device) moves over.
+     */
+    static async subscribe(userId: string, data: SubscribeDTO, userAgent?: string) {
+        if (!isPushConfigured()) {
+            throw new AppError(503, 'PUSH_NOT_CONFIGURED', 'Push notifications are not enabled on this server');
+        }
+
+        // The server will POST to this URL, so it gets the same checks as product links
+        if (!data.endpoint.startsWith('https://')) {
+            throw new AppError(400, 'INVALID_PUSH_ENDPOINT', 'Push endpoints must use HTTPS');
+        }
+        await assertPublicUrl(data.endpoint);
+
+        const subscription = { userId, p256dh: data.keys.p256dh, auth: data.keys.auth, userAgent: userAgent?.slice(0, 300) };
+        return prisma.pushSubscription.upsert({
+            where: { endpoint: data.endpoint },
+            create: { endpoint: data.endpoint, ...subscription },
+            update: subscription,
+            select: { id: true, endpoint: true, createdAt: true },
+        });
+    }
+
+    static async unsubscribe(userId: string, endpoint: string) {
+        await prisma.pushSubscription.deleteMany({ where: { userId, endpoint } });
+    }
+
+    /** The user's per-event switches and how many devices currently receive them */
+    static async getPreferences(userId: string) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { pushPreferences: true, _count: { select: { pushSubscriptions: true } } },
+        });
+        if (!user) {
+            throw new AppError(404, 'USER_NOT_FOUND', 'User not found');
+        }
+
+        return {
+            preferences: parsePreferences(user.pushPreferences),
+            deviceCount: user._count.pushSubscriptions,
+        };
+    }
+
+    static async updatePreferences(userId: string, changes: Partial<PushPreferences>) {
+        const { preferences } = await PushService.getPreferences(userId);
+        const next = { ...preferences, ...changes };
+        await prisma.user.update({ where: { id: userId }, data: { pushPreferences: JSON.stringify(next) } });
+        return next;
+    }
+
+    /**
+     * Push a message to every device of the user, unless they switched this
+     * event off. Endpoints the push service no longer knows are deleted.
+     * Like other side effects this logs failures instead of throwing.
+     */
+    static async notify(userId: string, event: PushEvent, message: PushMessage) {
+        if (!isPushConfigured()) return;
+
+        try {
+            const user = await prisma.user.findUnique({
+                where: { id: userId },
+                select: { pushPreferences: true, pushSubscriptions: { select: { id: true, endpoint: true, p256dh: true, auth: true } } },
+            });
+            if (!user || user.pushSubscriptions.length === 0 || !parsePreferences(user.pushPreferences)[event]) return;
+
+            await Promise.all(user.pushSubscriptions.map(async subscription => {
+                try {
+                    // Check the endpoint again and connect to that address, so DNS rebinding can't aim the send inward
+                    const target = await assertPublicUrl(subscription.endpoint);
+                    if (await sendPush(subscription, message, pinnedHttpsAgent(target))) {
+                        await prisma.pushSubscription.update({ where: { id: subscription.id }, data: { lastUsedAt: new Date() } });
+                    } else {
+                        await prisma.pushSubscription.deleteMany({ where: { id: subscription.id } });
+                    }
+                } catch (error) {
+                    console.error(`Push to subscription ${subscription.id} failed:`, error instanceof Error ? error.message : error);
+                }
+            }));
+        } catch (error) {
+            console.error('Push delivery error:', error);
+        }
+    }
+}
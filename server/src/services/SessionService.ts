@@ -0,0 +1,159 @@
+import prisma from '../lib/prisma';
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import { AppError } from '../utils/errors';
+import { ACCESS_TOKEN_TTL_SECONDS, REFRESH_TOKEN_TTL_MS, SessionTokens } from '../lib/authCookies';
+
+interface SessionUser {
+    id: string;
+    email: string;
+}
+
+export interface AccessTokenPayload extends SessionUser {
+    // Session the access token was issued for
+    sid: string;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const newSecret = () => randomBytes(32).toString('base64url');
+
+// CSRF token is derived from the refresh token so it rotates with it
+const csrfFor = (refreshToken: string) => createHash('sha256').update(`csrf:${refreshToken}`).digest('base64url');
+
+const signAccessToken = (user: SessionUser, sessionId: string) => jwt.sign(
+    { id: user.id, email: user.email, sid: sessionId },
+    process.env.JWT_SECRET as string,
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+);
+
+export class SessionService {
+    /**
+     * Start a session for a freshly authenticated user
+     */
+    static async createSession(user: SessionUser, userAgent?: string): Promise<SessionTokens> {
+        const refreshToken = newSecret();
+        const session = await prisma.session.create({
+            data: {
+                userId: user.id,
+                refreshTokenHash: hashToken(refreshToken),
+                userAgent: userAgent?.slice(0, 255),
+                expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+            },
+        });
+
+        return {
+            accessToken: signAccessToken(user, session.id),
+            refreshToken,
+            csrfToken: csrfFor(refreshToken),
+        };
+    }
+
+    /**
+     * Exchange a refresh token for a new access/refresh pair.
+     * Presenting an already-rotated token means it was copied, so the
+     * whole session is revoked and both holders are signed out.
+     */
+    static async rotate(refreshToken: string) {
+        const tokenHash = hashToken(refreshToken);
+        const session = await prisma.session.findUnique({
+            where: { refreshTokenHash: tokenHash },
+            include: { user: { select: { id: true, email: true } } },
+        });
+
+        if (!session) {
+            const replayed = await prisma.session.findUnique({ where: { previousTokenHash: tokenHash } });
+            if (replayed && !replayed.revokedAt) {
+                await SessionService.revoke(replayed.id);
+            }
+            throw new AppError(401, 'INVALID_REFRESH_TOKEN', 'Session expired, please sign in again');
+        }
+
+        if (session.revokedAt || session.expiresAt <= new Date()) {
+            throw new AppError(401, 'INVALID_REFRESH_TOKEN', 'Session expired, please sign in again');
+        }
+
+        const nextRefreshToken = newSecret();
+        // Conditional update: only one of two concurrent refreshes can win
+        const { count } = await prisma.session.updateMany({
+            where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+            data: {
+                refreshTokenHash: hashToken(nextRefreshToken),
+                previousTokenHash: tokenHash,
+                lastUsedAt: new Date(),
+                expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+            },
+        });
+        if (count === 0) {
+            throw new AppError(401, 'INVALID_REFRESH_TOKEN', 'Session expired, please sign in again');
+        }
+
+        const tokens: SessionTokens = {
+            accessToken: signAccessToken(session.user, session.id),
+            refreshToken: nextRefreshToken,
+            csrfToken: csrfFor(nextRefreshToken),
+        };
+        return { user: session.user, tokens };
+    }
+
+    /**
+     * Session id for a refresh token (used by logout, which must work
+     * even when the access token has already expired)
+     */
+    static async findSessionId(refreshToken: string) {
+        const session = await prisma.session.findUnique({
+            where: { refreshTokenHash: hashToken(refreshToken) },
+            select: { id: true },
+        });
+        return session?.id ?? null;
+    }
+
+    /**
+     * Decode an access token and check that its session is still live, so a
+     * revoked session is signed out straight away rather than when the token
+     * expires. Tokens without a session id are refused. Null when invalid.
+     */
+    static async verifyAccessToken(token: string): Promise<AccessTokenPayload | null> {
+        let payload: Partial<AccessTokenPayload>;
+        try {
+            payload = jwt.verify(token, process.env.JWT_SECRET as string) as Partial<AccessTokenPayload>;
+        } catch {
+            return null;
+        }
+        if (!payload.id || !payload.email || !payload.sid) return null;
+
+        const session = await prisma.session.findFirst({
+            where: { id: payload.sid, userId: payload.id, revokedAt: null, expiresAt: { gt: new Date() } },
+            select: { id: true },
+        });
+        return session ? { id: payload.id, email: payload.email, sid: payload.sid } : null;
+    }
+
+    static async revoke(sessionId: string) {
+        await prisma.session.updateMany({
+            where: { id: sessionId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    }
+
+    /**
+     * Sign a user out everywhere (log out all devices, password reset).
+     * Pass the current session id to keep that one signed in (password change).
+     */
+    static async revokeAllForUser(userId: string, exceptSessionId?: string) {
+        const { count } = await prisma.session.updateMany({
+            where: { userId, revokedAt: null, ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}) },
+            data: { revokedAt: new Date() },
+        });
+        return count;
+    }
+
+    /** Active sessions, most recently used first */
+    static async listActive(userId: string) {
+        return prisma.session.findMany({
+            where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { lastUsedAt: 'desc' },
+            select: { id: true, userAgent: true, createdAt: true, lastUsedAt: true },
+        });
+    }
+}
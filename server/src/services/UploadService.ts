@@ -0,0 +1,105 @@
+import sharp from 'sharp';
+import { randomUUID } from 'crypto';
+import { AppError } from '../utils/errors';
+import { getStorage } from '../lib/storage';
+
+export const UPLOAD_KINDS = ['item', 'cover', 'avatar', 'haul'] as const;
+export type UploadKind = typeof UPLOAD_KINDS[number];
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif';
+
+interface Size {
+    width: number;
+    height: number;
+    // "cover" crops to the exact box, "inside" keeps the aspect ratio
+    fit: 'cover' | 'inside';
+}
+
+// Largest stored rendition per kind; originals are never kept
+const FULL_SIZE: Record<UploadKind, Size> = {
+    item: { width: 1600, height: 1600, fit: 'inside' },
+    cover: { width: 1920, height: 1080, fit: 'inside' },
+    avatar: { width: 512, height: 512, fit: 'cover' },
+    haul: { width: 1600, height: 1600, fit: 'inside' },
+};
+
+const THUMBNAIL_SIZE: Record<UploadKind, Size> = {
+    item: { width: 400, height: 400, fit: 'inside' },
+    cover: { width: 640, height: 360, fit: 'cover' },
+    avatar: { width: 128, height: 128, fit: 'cover' },
+    haul: { width: 400, height: 400, fit: 'inside' },
+};
+
+// Decompression-bomb guard: refuse anything over ~40 megapixels
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export const MAX_UPLOAD_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 8 * 1024 * 1024;
+
+/**
+ * Identify an image by its magic bytes. The client-supplied Content-Type
+ * and file name are ignored.
+ */
+export const sniffImageType = (buffer: Buffer): ImageMimeType | null => {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return 'image/png';
+    }
+    if (buffer.length >= 6 && ['GIF87a', 'GIF89a'].includes(buffer.toString('ascii', 0, 6))) {
+        return 'image/gif';
+    }
+    if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    return null;
+};
+
+/**
+ * Re-encode to WebP at the given size. Applying the EXIF orientation
+ * first and not copying metadata strips EXIF (including GPS) from the output.
+ */
+const render = (input: Buffer, size: Size) => sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize({ width: size.width, height: size.height, fit: size.fit, withoutEnlargement: true })
+    .webp({ quality: 82 })
+    .toBuffer({ resolveWithObject: true });
+
+export class UploadService {
+    /**
+     * Validate, sanitize and store an uploaded image plus its thumbnail.
+     */
+    static async uploadImage(userId: string, kind: UploadKind, buffer: Buffer) {
+        if (!sniffImageType(buffer)) {
+            throw new AppError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Only JPEG, PNG, WebP and GIF images can be uploaded');
+        }
+
+        let full: Awaited<ReturnType<typeof render>>;
+        let thumbnail: Awaited<ReturnType<typeof render>>;
+        try {
+            [full, thumbnail] = await Promise.all([
+                render(buffer, FULL_SIZE[kind]),
+                render(buffer, THUMBNAIL_SIZE[kind]),
+            ]);
+        } catch {
+            // Truncated/corrupt files and oversized dimensions end up here
+            throw new AppError(400, 'INVALID_IMAGE', 'The image could not be read');
+        }
+
+        const storage = getStorage();
+        const id = randomUUID();
+        const [stored, storedThumbnail] = await Promise.all([
+            storage.put(`${kind}/${userId}/${id}.webp`, full.data, 'image/webp'),
+            storage.put(`${kind}/${userId}/${id}-thumb.webp`, thumbnail.data, 'image/webp'),
+        ]);
+
+        return {
+            url: stored.url,
+            thumbnailUrl: storedThumbnail.url,
+            width: full.info.width,
+            height: full.info.height,
+            contentType: 'image/webp',
+            size: full.data.length,
+        };
+    }
+}
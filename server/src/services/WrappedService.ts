@@ -0,0 +1,284 @@
+import prisma from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+import { AppError } from '../utils/errors';
+import { convertCurrency, isSupportedCurrency, roundMoney } from '../lib/currency';
+import { revealedWishlistWhere } from '../utils/spoilers';
+
+/**
+ * Time window a report covers. `key` is what goes in ?period= and share
+ * URLs: "all", a year ("2026") or an inclusive date range
+ * ("2026-01-01..2026-06-30").
+ */
+export interface WrappedPeriod {
+    key: string;
+    label: string;
+    from: Date | null;
+    // Exclusive
+    to: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const YEAR_PATTERN = /^\d{4}$/;
+const RANGE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/;
+
+// Mean to one decimal, or null when there is nothing to average
+const average = (values: number[]) => (values.length > 0
+    ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+    : null);
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const parseDay = (value: string) => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    // Rejects impossible dates like 2026-02-31, which Date rolls over
+    return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+};
+
+// Guests are told apart by the name they typed; signed-in people by account
+interface Gifter {
+    name: string;
+    itemIds: Set<string>;
+    total: number;
+}
+
+export class WrappedService {
+    /** Turn ?period= into a date window; a missing period means all time */
+    static parsePeriod(value?: string): WrappedPeriod {
+        if (!value || value === 'all') {
+            return { key: 'all', label: 'All time', from: null, to: null };
+        }
+
+        if (YEAR_PATTERN.test(value)) {
+            const year = Number(value);
+            if (year < 2000 || year > new Date().getUTCFullYear() + 1) {
+                throw new AppError(400, 'INVALID_PERIOD', 'Year is out of range');
+            }
+            return { key: value, label: value, from: new Date(Date.UTC(year, 0, 1)), to: new Date(Date.UTC(year + 1, 0, 1)) };
+        }
+
+        const range = RANGE_PATTERN.exec(value);
+        const from = range && parseDay(range[1]);
+        const lastDay = range && parseDay(range[2]);
+        if (!from || !lastDay) {
+            throw new AppError(400, 'INVALID_PERIOD', 'Period must be "all", a year like 2026 or a range like 2026-01-01..2026-06-30');
+        }
+        if (lastDay < from) {
+            throw new AppError(400, 'INVALID_PERIOD', 'Period ends before it starts');
+        }
+
+        return {
+            key: value,
+            label: `${formatDay(from)} – ${formatDay(lastDay)}`,
+            from,
+            to: new Date(lastDay.getTime() + DAY_MS),
+        };
+    }
+
+    /**
+     * Spotify-Wrapped-style stats for everything the user wished for,
+     * fulfilled and was given in the period. Money is converted into
+     * `requestedCurrency` (or the user's display currency). Who gave what
+     * only counts lists whose occasion has been revealed, and Secret Santa
+     * reservations never count. Private wishlists are left out unless
+     * `includePrivateLists` (the owner looking at their own report).
+     */
+    static async getReport(userId: string, period: WrappedPeriod, requestedCurrency?: string, includePrivateLists = false) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { name: true, karma: true, level: true, displayCurrency: true },
+        });
+        if (!user) {
+            throw new AppError(404, 'USER_NOT_FOUND', 'User not found');
+        }
+
+        const currency = requestedCurrency && isSupportedCurrency(requestedCurrency.toUpperCase())
+            ? requestedCurrency.toUpperCase()
+            : user.displayCurrency;
+
+        const createdAt = period.from || period.to
+            ? { gte: period.from ?? undefined, lt: period.to ?? undefined }
+            : undefined;
+
+        const visibleLists = includePrivateLists ? {} : { isPublic: true };
+
+        const [wishlistCount, items, hauls, giftedItems] = await Promise.all([
+            prisma.wishlist.count({ where: { ownerId: userId, createdAt, ...visibleLists } }),
+            prisma.item.findMany({
+                where: { wishlist: { ownerId: userId, ...visibleLists }, createdAt },
+                select: { title: true, imageUrl: true, price: true, currency: true, hypeCount: true, isFulfilled: true, createdAt: true },
+            }),
+            prisma.haul.findMany({
+                where: { userId, createdAt, item: { wishlist: visibleLists } },
+                select: { rating: true, createdAt: true, item: { select: { createdAt: true } } },
+            }),
+            prisma.item.findMany({
+                where: { wishlist: { ownerId: userId, ...revealedWishlistWhere(), ...visibleLists } },
+                select: {
+                    id: true,
+                    currency: true,
+                    contributions: {
+                        where: { createdAt },
+                        select: { amount: true, contributorName: true, userId: true, user: { select: { name: true } } },
+                    },
+                    reservations: {
+                        where: { createdAt, isSecretSanta: false, reservedBy: { not: 'Group contribution' } },
+                        select: { reservedBy: true },
+                    },
+                },
+            }),
+        ]);
+
+        // Flatten all items, converting prices into the target currency
+        // (items in a currency missing from the rate table count as unpriced)
+        const allItems = items.map(item => ({
+            ...item,
+            convertedPrice: item.price ? convertCurrency(Number(item.price), item.currency, currency) : null,
+        }));
+
+        // "Most Delusional Wish" (most expensive item)
+        const mostExpensive = allItems
+            .filter(i => i.convertedPrice)
+            .sort((a, b) => Number(b.convertedPrice) - Number(a.convertedPrice))[0] || null;
+
+        // "Most Hyped" (highest hype count)
+        const mostHyped = [...allItems].sort((a, b) => b.hypeCount - a.hypeCount)[0] || null;
+
+        const totalValue = allItems.reduce((sum, i) => sum + (i.convertedPrice ?? 0), 0);
+
+        const fulfilledCount = allItems.filter(i => i.isFulfilled).length;
+        const fulfillmentRate = allItems.length > 0
+            ? Math.round((fulfilledCount / allItems.length) * 100)
+            : 0;
+
+        // "Busiest Month" - most items added in one (UTC) month, the earliest on a tie
+        const monthCounts = new Map<string, number>();
+        allItems.forEach(item => {
+            const month = item.createdAt.toISOString().slice(0, 7);
+            monthCounts.set(month, (monthCounts.get(month) ?? 0) + 1);
+        });
+        const busiestEntry = [...monthCounts.entries()]
+            .sort(([monthA, countA], [monthB, countB]) => countB - countA || monthA.localeCompare(monthB))[0];
+        const busiestMonth = busiestEntry
+            ? {
+                month: busiestEntry[0],
+                label: new Date(`${busiestEntry[0]}-01T00:00:00.000Z`).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+                itemCount: busiestEntry[1],
+            }
+            : null;
+
+        const gifters = await WrappedService.collectGifters(giftedItems, currency);
+
+        // "Top Contributor" gave the most money; "Top Gifter" gave the most gifts across all lists
+        const topContributorEntry = [...gifters]
+            .filter(gifter => gifter.total > 0)
+            .sort((a, b) => b.total - a.total)[0];
+        const topGifterEntry = [...gifters]
+            .sort((a, b) => b.itemIds.size - a.itemIds.size || b.total - a.total)[0];
+
+        // Collect dominant image URLs for "vibe" analysis (client-side color extraction)
+        const imageUrls = allItems
+            .filter(i => i.imageUrl)
+            .map(i => i.imageUrl)
+            .slice(0, 12);
+
+        return {
+            userName: user.name,
+            karma: user.karma,
+            level: user.level,
+            period: {
+                key: period.key,
+                label: period.label,
+                from: period.from,
+                to: period.to,
+            },
+            stats: {
+                currency,
+                totalItems: allItems.length,
+                totalWishlists: wishlistCount,
+                totalValue: roundMoney(totalValue),
+                fulfilledCount,
+                fulfillmentRate,
+                mostExpensive: mostExpensive
+                    ? {
+                        title: mostExpensive.title,
+                        price: roundMoney(Number(mostExpensive.convertedPrice)),
+                        // Original price, as listed on the item
+                        originalPrice: Number(mostExpensive.price),
+                        originalCurrency: mostExpensive.currency,
+                    }
+                    : null,
+                mostHyped: mostHyped
+                    ? { title: mostHyped.title, hypeCount: mostHyped.hypeCount }
+                    : null,
+                topContributor: topContributorEntry
+                    ? { name: topContributorEntry.name, total: roundMoney(topContributorEntry.total) }
+                    : null,
+                topGifter: topGifterEntry
+                    ? { name: topGifterEntry.name, giftCount: topGifterEntry.itemIds.size, total: roundMoney(topGifterEntry.total) }
+                    : null,
+                busiestMonth,
+                haulCount: hauls.length,
+                haulAverageRating: average(hauls.filter(haul => haul.rating > 0).map(haul => haul.rating)),
+                // From adding the item to logging its haul
+                avgDaysToFulfil: average(hauls.map(haul => Math.max(haul.createdAt.getTime() - haul.item.createdAt.getTime(), 0) / DAY_MS)),
+            },
+            imageUrls,
+        };
+    }
+
+    /**
+     * Everyone who reserved or chipped in on the given items, with the
+     * items they gave towards and their contributions converted into
+     * `currency`. Signed-in givers are shown by name, never by the email
+     * they reserve and contribute under.
+     */
+    private static async collectGifters(
+        giftedItems: {
+            id: string;
+            currency: string;
+            contributions: { amount: Prisma.Decimal; contributorName: string | null; userId: string | null; user: { name: string } | null }[];
+            reservations: { reservedBy: string }[];
+        }[],
+        currency: string
+    ) {
+        const reserverEmails = [...new Set(giftedItems.flatMap(item => item.reservations.map(r => r.reservedBy)))]
+            .filter(reservedBy => reservedBy.includes('@'));
+        const reserverAccounts = reserverEmails.length > 0
+            ? await prisma.user.findMany({ where: { email: { in: reserverEmails } }, select: { id: true, email: true, name: true } })
+            : [];
+        const accountsByEmail = new Map(reserverAccounts.map(account => [account.email, account]));
+
+        const gifters = new Map<string, Gifter>();
+        const credit = (key: string, name: string, itemId: string, amount = 0) => {
+            const gifter = gifters.get(key) ?? { name, itemIds: new Set<string>(), total: 0 };
+            gifter.itemIds.add(itemId);
+            gifter.total += amount;
+            gifters.set(key, gifter);
+        };
+
+        giftedItems.forEach(item => {
+            item.reservations.forEach(({ reservedBy }) => {
+                const account = accountsByEmail.get(reservedBy);
+                if (account) {
+                    credit(`user:${account.id}`, account.name || 'A friend', item.id);
+                } else if (!reservedBy.includes('@')) {
+                    credit(`guest:${reservedBy.toLowerCase()}`, reservedBy, item.id);
+                }
+            });
+
+            item.contributions.forEach(contribution => {
+                // Contributions are made in the item's currency
+                const amount = convertCurrency(Number(contribution.amount), item.currency, currency) ?? 0;
+                if (contribution.userId) {
+                    credit(`user:${contribution.userId}`, contribution.user?.name || 'A friend', item.id, amount);
+                } else {
+                    const name = contribution.contributorName || 'Anonymous';
+                    credit(`guest:${name.toLowerCase()}`, name, item.id, amount);
+                }
+            });
+        });
+
+        return [...gifters.values()];
+    }
+}
@@ -0,0 +1,69 @@
+// Spoiler protection helpers — shared by REST responses and socket broadcasts
+
+/**
+ * Hide reservation and contribution details from the wishlist owner.
+ * Mirrors what the owner sees in GET /api/wishlists/:id so live events
+ * can never reveal more than a page refresh would.
+ */
+export const redactItemForOwner = <T extends Record<string, any>>(item: T): T => ({
+    ...item,
+    isReserved: false,     // Hide reservation status
+    reservedQuantity: 0,   // Hide how many units are claimed
+    reservations: [],      // Hide who reserved
+    contributions: [],     // Hide all contribution details
+    collectedAmount: 0,    // Hide how much collected (preserves surprise)
+});
+
+// Reveal once the whole event day is over, not at its first minute
+const EVENT_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When the wishlist's spoilers are revealed to the owner, or null when the
+ * owner never sees them (no event date, or reveal turned off).
+ */
+export const spoilerRevealAt = (wishlist: { eventDate: Date | null; revealAfterEvent: boolean }) =>
+    wishlist.revealAfterEvent && wishlist.eventDate
+        ? new Date(wishlist.eventDate.getTime() + EVENT_DAY_MS)
+        : null;
+
+/**
+ * Whether the wishlist's occasion has passed and the owner chose to see
+ * who reserved and contributed. Until then spoiler protection applies.
+ */
+export const isSpoilerRevealed = (
+    wishlist: { eventDate: Date | null; revealAfterEvent: boolean },
+    now: Date = new Date()
+) => {
+    const revealAt = spoilerRevealAt(wishlist);
+    return revealAt !== null && revealAt.getTime() <= now.getTime();
+};
+
+/**
+ * The same rule as isSpoilerRevealed as a Prisma wishlist filter, for
+ * queries that must skip spoilers of lists that haven't been revealed yet.
+ */
+export const revealedWishlistWhere = (now: Date = new Date()) => ({
+    revealAfterEvent: true,
+    eventDate: { lte: new Date(now.getTime() - EVENT_DAY_MS) },
+});
+
+/**
+ * Hide who reserved an item through a gift exchange from everyone but the
+ * reserver, so other members can't work out (or leak) the Secret Santa.
+ */
+export const maskExchangeReservation = <T extends { reservations?: { reservedBy: string; isSecretSanta: boolean }[] }>(
+    item: T,
+    viewerIdentifier?: string
+): T => {
+    if (!item.reservations?.some(reservation => reservation.isSecretSanta && reservation.reservedBy !== viewerIdentifier)) {
+        return item;
+    }
+    return {
+        ...item,
+        reservations: item.reservations.map(reservation =>
+            reservation.isSecretSanta && reservation.reservedBy !== viewerIdentifier
+                ? { ...reservation, reservedBy: 'Secret Santa' }
+                : reservation
+        ),
+    };
+};
@@ -0,0 +1,42 @@
+// CSRF middleware tests — which requests must carry a matching X-CSRF-Token
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { csrfProtection } from '../src/middleware/csrf';
+import { ACCESS_COOKIE, CSRF_COOKIE } from '../src/lib/authCookies';
+
+// Run the middleware and report whether it let the request through or the status it sent
+const run = (headers: Record<string, string>, cookies: Record<string, string>) => {
+    const req = { method: 'POST', originalUrl: '/api/wishlists', headers, cookies } as unknown as Request;
+    let outcome: 'next' | number = 'next';
+    const res = {
+        locals: {},
+        status(code: number) {
+            outcome = code;
+            return this;
+        },
+        json() {
+            return this;
+        },
+    } as unknown as Response;
+    csrfProtection(req, res, () => undefined);
+    return outcome;
+};
+
+const session = { [ACCESS_COOKIE]: 'access', [CSRF_COOKIE]: 'csrf-token' };
+
+test('cookie-authenticated mutations need the matching token', () => {
+    assert.equal(run({}, session), 403);
+    assert.equal(run({ 'x-csrf-token': 'wrong-token' }, session), 403);
+    assert.equal(run({ 'x-csrf-token': 'csrf-token' }, session), 'next');
+});
+
+test('a non-Bearer Authorization header does not skip the check', () => {
+    assert.equal(run({ authorization: 'Basic eDp4' }, session), 403);
+});
+
+test('bearer-token requests and requests without session cookies skip the check', () => {
+    assert.equal(run({ authorization: 'Bearer access' }, session), 'next');
+    assert.equal(run({}, {}), 'next');
+});
@@ -0,0 +1,66 @@
+// Gift exchange draw tests — the constrained derangement solver and the draw's error for impossible rules
+
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/lib/prisma';
+import { AppError } from '../src/utils/errors';
+import { GiftExchangeService, drawAssignments } from '../src/services/GiftExchangeService';
+import { restoreStubs, stub } from './helpers';
+
+const members = ['ana', 'ben', 'cai', 'dee', 'eli', 'fay'];
+
+afterEach(() => {
+    mock.restoreAll();
+    restoreStubs();
+});
+
+test('every member gives exactly once and receives exactly once', () => {
+    for (let run = 0; run < 50; run++) {
+        const assignments = drawAssignments(members, []);
+        assert.ok(assignments);
+        assert.deepEqual([...assignments.keys()].sort(), [...members].sort());
+        assert.deepEqual([...assignments.values()].sort(), [...members].sort());
+    }
+});
+
+test('no one draws themselves or someone they are excluded from, in either direction', () => {
+    const exclusions = [{ userAId: 'ana', userBId: 'ben' }, { userAId: 'cai', userBId: 'dee' }];
+    for (let run = 0; run < 50; run++) {
+        const assignments = drawAssignments(members, exclusions);
+        assert.ok(assignments);
+        for (const [giver, receiver] of assignments) {
+            assert.notEqual(giver, receiver);
+            assert.ok(!exclusions.some(({ userAId, userBId }) =>
+                (giver === userAId && receiver === userBId) || (giver === userBId && receiver === userAId)));
+        }
+    }
+});
+
+test('two members can only swap', () => {
+    const assignments = drawAssignments(['ana', 'ben'], []);
+    assert.deepEqual(assignments && Object.fromEntries(assignments), { ana: 'ben', ben: 'ana' });
+});
+
+test('impossible exclusions return null', () => {
+    assert.equal(drawAssignments(['ana', 'ben'], [{ userAId: 'ana', userBId: 'ben' }]), null);
+    assert.equal(drawAssignments(['ana', 'ben', 'cai'], [{ userAId: 'ana', userBId: 'ben' }]), null);
+});
+
+test('the step cutoff gives up on a large impossible draw instead of searching every order', () => {
+    const crowd = Array.from({ length: 14 }, (_, i) => `member-${i}`);
+    // The loner is excluded from everyone, which backtracking only finds out when it reaches them
+    const exclusions = crowd.map(userId => ({ userAId: 'loner', userBId: userId }));
+    const started = Date.now();
+    assert.equal(drawAssignments([...crowd, 'loner'], exclusions), null);
+    assert.ok(Date.now() - started < 5_000);
+});
+
+test('drawing with impossible exclusions fails with 409 and writes nothing', async () => {
+    mock.method(GiftExchangeService, 'getOpenExchangeForOrganizer', async () => ({}));
+    stub(prisma.exchangeMember, 'findMany', async () => ['ana', 'ben', 'cai'].map(userId => ({ userId })));
+    stub(prisma.exchangeExclusion, 'findMany', async () => [{ userAId: 'ana', userBId: 'ben' }]);
+
+    // Reaching the write transaction would fail differently, as there is no database here
+    await assert.rejects(GiftExchangeService.draw('exchange', 'ana'), (error: unknown) =>
+        error instanceof AppError && error.statusCode === 409 && error.code === 'DRAW_IMPOSSIBLE');
+});
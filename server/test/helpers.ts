@@ -0,0 +1,19 @@
+// Shared test helpers — not a test file itself, so `npm test` doesn't pick it up
+
+const restores: (() => void)[] = [];
+
+/**
+ * Replace a method for one test. Prisma's client and model delegates are
+ * proxies node's mock.method can't wrap, so swap the property by hand.
+ */
+export const stub = (target: object, key: string, value: unknown) => {
+    const methods = target as Record<string, unknown>;
+    const original = methods[key];
+    methods[key] = value;
+    restores.push(() => { methods[key] = original; });
+};
+
+/** Put back everything stubbed since the last call (use in afterEach) */
+export const restoreStubs = () => {
+    restores.splice(0).reverse().forEach(restore => restore());
+};
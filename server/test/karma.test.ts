@@ -0,0 +1,137 @@
+// Karma tests — reserving earns karma and badges, releasing the reservation takes them back
+
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../src/lib/prisma';
+import { ItemService } from '../src/services/ItemService';
+import { NotificationService } from '../src/services/NotificationService';
+import { restoreStubs, stub } from './helpers';
+
+interface KarmaEvent { id: string; userId: string; rule: string; sourceId: string; points: number }
+
+const USER = { id: 'user-1', email: 'giver@example.com' };
+
+// Just enough of the database for reserving, unreserving and karma, in memory
+const fakeDatabase = (itemIds: string[]) => {
+    const items = new Map(itemIds.map(id => [id, { id, wishlistId: 'list-1', quantity: 1, reservedQuantity: 0, isReserved: false }]));
+    const reservations: { id: string; itemId: string; reservedBy: string; quantity: number }[] = [];
+    const karmaEvents: KarmaEvent[] = [];
+    const badges: { userId: string; badge: string; awardedAt: Date }[] = [];
+    const user = { karma: 0, level: 1, streakDays: 0, lastLoginAt: null };
+    let nextId = 0;
+
+    stub(prisma, '$transaction', async (callback: (transaction: typeof prisma) => unknown) => callback(prisma));
+    // adjustReservedQuantity: values are (delta, delta, itemId, delta)
+    stub(prisma, '$executeRaw', async (_sql: TemplateStringsArray, delta: number, _again: number, itemId: string) => {
+        const item = items.get(itemId)!;
+        if (item.reservedQuantity + delta > item.quantity) return 0;
+        item.reservedQuantity = Math.max(item.reservedQuantity + delta, 0);
+        item.isReserved = item.reservedQuantity >= item.quantity;
+        return 1;
+    });
+
+    stub(prisma.item, 'findUnique', async ({ where }: { where: { id: string } }) => {
+        const item = items.get(where.id);
+        return item && {
+            ...item,
+            wishlist: { id: item.wishlistId, ownerId: 'owner-1' },
+            reservations: reservations.filter(reservation => reservation.itemId === item.id),
+        };
+    });
+    stub(prisma.wishlistCollaborator, 'findUnique', async () => null);
+
+    stub(prisma.reservation, 'findFirst', async ({ where }: { where: { itemId: string; reservedBy: string } }) =>
+        reservations.find(r => r.itemId === where.itemId && r.reservedBy === where.reservedBy) ?? null);
+    stub(prisma.reservation, 'create', async ({ data }: { data: { itemId: string; reservedBy: string; quantity: number } }) => {
+        const reservation = { id: `reservation-${nextId++}`, ...data };
+        reservations.push(reservation);
+        return reservation;
+    });
+    stub(prisma.reservation, 'deleteMany', async ({ where }: { where: { id: string } }) => {
+        const index = reservations.findIndex(r => r.id === where.id);
+        if (index === -1) return { count: 0 };
+        reservations.splice(index, 1);
+        return { count: 1 };
+    });
+
+    stub(prisma.karmaEvent, 'create', async ({ data }: { data: Omit<KarmaEvent, 'id'> }) => {
+        const event = { id: `event-${nextId++}`, ...data };
+        karmaEvents.push(event);
+        return event;
+    });
+    stub(prisma.karmaEvent, 'findUnique', async ({ where }: { where: { userId_rule_sourceId: Omit<KarmaEvent, 'id' | 'points'> } }) => {
+        const { userId, rule, sourceId } = where.userId_rule_sourceId;
+        return karmaEvents.find(e => e.userId === userId && e.rule === rule && e.sourceId === sourceId) ?? null;
+    });
+    stub(prisma.karmaEvent, 'deleteMany', async ({ where }: { where: { id: string } }) => {
+        const index = karmaEvents.findIndex(e => e.id === where.id);
+        if (index === -1) return { count: 0 };
+        karmaEvents.splice(index, 1);
+        return { count: 1 };
+    });
+    stub(prisma.karmaEvent, 'groupBy', async () => {
+        const counts = new Map<string, number>();
+        karmaEvents.forEach(event => counts.set(event.rule, (counts.get(event.rule) ?? 0) + 1));
+        return [...counts].map(([rule, count]) => ({ rule, _count: { _all: count } }));
+    });
+
+    stub(prisma.user, 'update', async ({ data }: { data: { karma?: { increment: number }; level?: number } }) => {
+        if (data.karma) user.karma += data.karma.increment;
+        if (data.level !== undefined) user.level = data.level;
+        return user;
+    });
+    stub(prisma.user, 'findUnique', async () => ({ ...user, badges: [...badges] }));
+    stub(prisma.userBadge, 'createMany', async ({ data }: { data: { userId: string; badge: string }[] }) => {
+        data.forEach(badge => badges.push({ ...badge, awardedAt: new Date() }));
+        return { count: data.length };
+    });
+    stub(prisma.userBadge, 'deleteMany', async ({ where }: { where: { badge: { in: string[] } } }) => {
+        const kept = badges.filter(badge => !where.badge.in.includes(badge.badge));
+        const count = badges.length - kept.length;
+        badges.splice(0, badges.length, ...kept);
+        return { count };
+    });
+
+    return { user, karmaEvents, badges: () => badges.map(badge => badge.badge).sort() };
+};
+
+beforeEach(() => {
+    mock.method(NotificationService, 'itemReserved', async () => undefined);
+});
+
+afterEach(() => {
+    mock.restoreAll();
+    restoreStubs();
+});
+
+test('reserving earns karma and the first badge; unreserving takes both back', async () => {
+    const database = fakeDatabase(['item-1']);
+
+    await ItemService.reserveItem('item-1', USER.email, USER.id);
+    assert.equal(database.user.karma, 10);
+    assert.deepEqual(database.badges(), ['FIRST_RESERVATION']);
+
+    await ItemService.unreserveItem('item-1', USER.email, undefined, USER.id);
+    assert.equal(database.user.karma, 0);
+    assert.deepEqual(database.karmaEvents, []);
+    assert.deepEqual(database.badges(), []);
+});
+
+test('reserving and releasing ten items earns no karma, level or Gift Giver badge', async () => {
+    const itemIds = Array.from({ length: 10 }, (_, i) => `item-${i}`);
+    const database = fakeDatabase(itemIds);
+
+    for (const itemId of itemIds) {
+        await ItemService.reserveItem(itemId, USER.email, USER.id);
+    }
+    assert.equal(database.user.karma, 100);
+    assert.equal(database.user.level, 2);
+    assert.deepEqual(database.badges(), ['FIRST_RESERVATION', 'GIFT_GIVER']);
+
+    for (const itemId of itemIds) {
+        await ItemService.unreserveItem(itemId, USER.email, undefined, USER.id);
+    }
+    assert.equal(database.user.karma, 0);
+    assert.equal(database.user.level, 1);
+    assert.deepEqual(database.badges(), []);
+});
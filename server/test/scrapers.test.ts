@@ -0,0 +1,121 @@
+// Product preview extractor tests — run extractProduct against saved pages in test/fixtures/scrapers
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { extractProduct } from '../src/lib/scrapers';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', 'scrapers', `${name}.html`), 'utf8');
+
+test('amazon adapter reads the buy box, byline and every landing image resolution', () => {
+    assert.deepEqual(extractProduct(fixture('amazon'), 'https://www.amazon.com/dp/B08KTZ8249'), {
+        url: 'https://www.amazon.com/dp/B08KTZ8249',
+        title: 'Kindle Paperwhite (16 GB) – Now with a larger display',
+        description: 'Amazon.com: Kindle Paperwhite (16 GB)',
+        images: [
+            'https://m.media-amazon.com/images/I/61hires._AC_SL1500_.jpg',
+            'https://m.media-amazon.com/images/I/61small._AC_SX342_.jpg',
+            'https://m.media-amazon.com/images/I/61large._AC_SX679_.jpg',
+        ],
+        price: 149.99,
+        currency: 'USD',
+        availability: 'in_stock',
+        brand: 'Amazon',
+        sources: ['amazon', 'html'],
+    });
+});
+
+test('amazon adapter only runs on amazon hosts', () => {
+    const preview = extractProduct(fixture('amazon'), 'https://amazon-deals.example.com/dp/B08KTZ8249');
+    assert.equal(preview.price, undefined);
+    assert.deepEqual(preview.sources, ['html']);
+});
+
+test('ebay adapter prefers zoom images and the structured price', () => {
+    assert.deepEqual(extractProduct(fixture('ebay'), 'https://www.ebay.co.uk/itm/1234'), {
+        url: 'https://www.ebay.co.uk/itm/1234',
+        title: 'Vintage Leica M3 Rangefinder Camera',
+        images: [
+            'https://i.ebayimg.com/images/g/abc/s-l1600.jpg',
+            'https://i.ebayimg.com/images/g/def/s-l500.jpg',
+        ],
+        price: 1249,
+        currency: 'GBP',
+        availability: 'in_stock',
+        sources: ['ebay'],
+    });
+});
+
+test('shopify adapter reads cent prices from the product JSON ahead of OpenGraph', () => {
+    assert.deepEqual(extractProduct(fixture('shopify'), 'https://hearth-and-field.myshopify.com/products/linen-apron'), {
+        url: 'https://hearth-and-field.myshopify.com/products/linen-apron',
+        title: 'Linen Apron',
+        images: ['http://cdn.shopify.com/s/files/1/0001/products/apron.jpg'],
+        price: 42,
+        currency: 'USD',
+        availability: 'out_of_stock',
+        brand: 'Hearth & Field',
+        sources: ['shopify', 'opengraph'],
+    });
+});
+
+test('json-ld extractor finds the Product in a @graph despite a trailing comma', () => {
+    assert.deepEqual(extractProduct(fixture('json-ld'), 'https://shop.example.com/p/trail-runner-3'), {
+        url: 'https://shop.example.com/p/trail-runner-3',
+        title: 'Trail Runner 3',
+        description: 'Lightweight trail shoe with a rock plate.',
+        images: [
+            'https://shop.example.com/images/trail-runner-side.jpg',
+            'https://cdn.example.com/trail-runner-top.jpg',
+            'https://shop.example.com/og/trail-runner.jpg',
+        ],
+        price: 119.95,
+        currency: 'EUR',
+        availability: 'preorder',
+        brand: 'Example Outdoor',
+        sources: ['json-ld', 'opengraph'],
+    });
+});
+
+test('microdata extractor reads nested offer and brand scopes and European prices', () => {
+    assert.deepEqual(extractProduct(fixture('microdata'), 'https://haushalt.example.de/espressokanne'), {
+        url: 'https://haushalt.example.de/espressokanne',
+        title: 'Espressokanne 6 Tassen',
+        description: 'Klassische Espressokanne aus Aluminium.',
+        images: ['https://haushalt.example.de/media/espressokanne.jpg'],
+        price: 1234.5,
+        currency: 'EUR',
+        availability: 'out_of_stock',
+        brand: 'Bialetti',
+        sources: ['microdata'],
+    });
+});
+
+test('meta tag fallbacks merge OpenGraph, Twitter card and plain HTML fields in priority order', () => {
+    assert.deepEqual(extractProduct(fixture('meta-tags'), 'https://smallshop.example/products/mug'), {
+        url: 'https://smallshop.example/products/mug',
+        title: 'Hand-thrown Mug',
+        description: 'A mug for slow mornings.',
+        images: [
+            'https://smallshop.example/img/mug-front.jpg',
+            'https://smallshop.example/img/mug-side.jpg',
+            'https://smallshop.example/img/mug-twitter.jpg',
+            'https://smallshop.example/img/mug-fallback.jpg',
+        ],
+        price: 32,
+        currency: 'CAD',
+        availability: 'in_stock',
+        sources: ['opengraph', 'twitter', 'html'],
+    });
+});
+
+test('a currency without a price is dropped', () => {
+    const html = '<html><head><title>Mug</title><meta property="product:price:currency" content="EUR"></head></html>';
+    assert.deepEqual(extractProduct(html, 'https://shop.example.com/mug'), {
+        url: 'https://shop.example.com/mug',
+        title: 'Mug',
+        images: [],
+        sources: ['opengraph', 'html'],
+    });
+});
@@ -0,0 +1,136 @@
+// Reveal settings tests — changing the event date or reveal flag must not lift spoiler protection early
+
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+import prisma from '../src/lib/prisma';
+import wishlistRoutes from '../src/routes/wishlists';
+import { SessionService } from '../src/services/SessionService';
+import { errorHandler } from '../src/utils/errors';
+import { restoreStubs, stub } from './helpers';
+
+const OWNER = { id: 'owner-1', email: 'owner@example.com', sid: 'session-1' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ISO date (YYYY-MM-DD) `days` from today
+const dayOffset = (days: number) => new Date(Date.now() + days * DAY_MS).toISOString().slice(0, 10);
+
+// The owner's wishlist with one item someone has already reserved, in memory
+const fakeWishlist = (settings: { eventDate: string | null; revealAfterEvent: boolean }) => {
+    const wishlist = {
+        id: 'list-1',
+        ownerId: OWNER.id,
+        title: 'Birthday',
+        isPublic: true,
+        eventDate: settings.eventDate ? new Date(settings.eventDate) : null,
+        revealAfterEvent: settings.revealAfterEvent,
+        owner: { id: OWNER.id, name: 'Owner', username: 'owner' },
+        items: [{
+            id: 'item-1',
+            title: 'Kettle',
+            quantity: 1,
+            reservedQuantity: 1,
+            isReserved: true,
+            collectedAmount: 0,
+            reservations: [{ reservedBy: 'friend@example.com', quantity: 1, isSecretSanta: false }],
+            contributions: [],
+        }],
+    };
+    const updates: unknown[] = [];
+
+    stub(prisma.wishlist, 'findUnique', async () => wishlist);
+    stub(prisma.wishlist, 'update', async ({ data }: { data: Partial<typeof wishlist> }) => {
+        updates.push(data);
+        return Object.assign(wishlist, data);
+    });
+    stub(prisma.item, 'count', async () => wishlist.items.filter(item => item.reservedQuantity > 0).length);
+
+    return { updates };
+};
+
+let baseUrl = '';
+let close = () => {};
+
+beforeEach(async () => {
+    mock.method(SessionService, 'verifyAccessToken', async () => OWNER);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/wishlists', wishlistRoutes);
+    app.use(errorHandler);
+    const server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/wishlists`;
+    close = () => server.close();
+});
+
+afterEach(() => {
+    close();
+    mock.restoreAll();
+    restoreStubs();
+});
+
+const request = (method: string, path: string, body?: unknown) => fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { authorization: 'Bearer token', 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+});
+
+// What the owner sees of the reserved item
+const ownerView = async () => {
+    const response = await request('GET', '/list-1');
+    const body = await response.json();
+    return { isRevealed: body.isRevealed, item: body.items[0] };
+};
+
+test('a past event date is rejected and the items stay redacted', async () => {
+    const { updates } = fakeWishlist({ eventDate: dayOffset(30), revealAfterEvent: true });
+
+    const response = await request('PUT', '/list-1', { title: 'Birthday', eventDate: dayOffset(-2), revealAfterEvent: true });
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error.code, 'EVENT_DATE_IN_PAST');
+    assert.deepEqual(updates, []);
+
+    const { isRevealed, item } = await ownerView();
+    assert.equal(isRevealed, false);
+    assert.equal(item.isReserved, false);
+    assert.deepEqual(item.reservations, []);
+});
+
+test('once someone reserved, the reveal cannot be moved earlier or turned on', async () => {
+    const revealOn = fakeWishlist({ eventDate: dayOffset(30), revealAfterEvent: true });
+    const earlier = await request('PUT', '/list-1', { title: 'Birthday', eventDate: dayOffset(1) });
+    assert.equal(earlier.status, 409);
+    assert.equal((await earlier.json()).error.code, 'REVEAL_LOCKED');
+    assert.deepEqual(revealOn.updates, []);
+
+    restoreStubs();
+    const revealOff = fakeWishlist({ eventDate: dayOffset(30), revealAfterEvent: false });
+    const turnedOn = await request('PUT', '/list-1', { title: 'Birthday', revealAfterEvent: true });
+    assert.equal(turnedOn.status, 409);
+    assert.deepEqual(revealOff.updates, []);
+
+    assert.equal((await ownerView()).item.isReserved, false);
+});
+
+test('moving the date later, or editing other settings, still works', async () => {
+    const { updates } = fakeWishlist({ eventDate: dayOffset(30), revealAfterEvent: true });
+
+    assert.equal((await request('PUT', '/list-1', { title: 'Birthday!', eventDate: dayOffset(40) })).status, 200);
+    assert.equal((await request('PUT', '/list-1', { title: 'Birthday', revealAfterEvent: false })).status, 200);
+    assert.equal(updates.length, 2);
+});
+
+test('a new wishlist cannot start with a past event date', async () => {
+    let created = 0;
+    stub(prisma.wishlist, 'create', async () => ({ id: `list-${++created}` }));
+
+    const response = await request('POST', '', { title: 'Party', eventDate: dayOffset(-1), revealAfterEvent: true });
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error.code, 'EVENT_DATE_IN_PAST');
+    assert.equal(created, 0);
+
+    assert.equal((await request('POST', '', { title: 'Party', eventDate: dayOffset(0), revealAfterEvent: true })).status, 200);
+    assert.equal(created, 1);
+});